@@ -25,6 +25,8 @@ export default {
     "\\.(gif|ttf|eot|svg|png)$": "<rootDir>/test/__mocks__/fileMock.js",
     "\\.(css|less|scss|sass)$": "identity-obj-proxy",
     "^(\\.{1,2}/.*)\\.js$": "$1",
+    // yaml's browser build is ESM-only; use its CommonJS build under jest
+    "^yaml$": "<rootDir>/node_modules/yaml/dist/index.js",
   },
   setupFilesAfterEnv: ["<rootDir>/src/setupTests.ts"],
   moduleFileExtensions: ["ts", "tsx", "js", "jsx"],
@@ -0,0 +1,115 @@
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import App from "./App";
+import { getTemplate } from "../utils/templateLibrary";
+
+jest.mock("../utils/templateLibrary", () => ({
+  getTemplate: jest.fn(),
+}));
+
+jest.mock("./library/TemplateList", () => ({
+  TemplateList: ({
+    onOpen,
+    onOpenSettings,
+  }: {
+    onOpen: (id: string) => void;
+    onOpenSettings: () => void;
+  }) => (
+    <div data-testid="template-list">
+      <button onClick={() => onOpen("tpl-1")}>Open</button>
+      <button onClick={onOpenSettings}>Settings</button>
+    </div>
+  ),
+}));
+
+jest.mock("./template/PortTemplate", () => ({
+  PortTemplate: ({
+    templateId,
+    onBack,
+  }: {
+    templateId: string;
+    onBack: () => void;
+  }) => (
+    <div data-testid="port-template">
+      {templateId}
+      <button onClick={onBack}>Back</button>
+    </div>
+  ),
+}));
+
+jest.mock("./settings/SettingsPage", () => ({
+  SettingsPage: ({ onBack }: { onBack: () => void }) => (
+    <div data-testid="settings-page">
+      <button onClick={onBack}>Back</button>
+    </div>
+  ),
+}));
+
+describe("App", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    window.history.replaceState(null, "", "/");
+    (getTemplate as jest.Mock).mockImplementation((id: string) =>
+      id === "tpl-1"
+        ? { id, name: "Web", createdAt: "", updatedAt: "" }
+        : undefined
+    );
+  });
+
+  it("opens a template from the list and goes back", () => {
+    render(<App />);
+
+    fireEvent.click(screen.getByText("Open"));
+
+    expect(window.location.pathname).toBe("/templates/tpl-1");
+    expect(screen.getByTestId("port-template")).toHaveTextContent("tpl-1");
+
+    fireEvent.click(screen.getByText("Back"));
+
+    expect(window.location.pathname).toBe("/");
+    expect(screen.getByTestId("template-list")).toBeInTheDocument();
+  });
+
+  it("opens deep links to a template", () => {
+    window.history.replaceState(null, "", "/templates/tpl-1");
+
+    render(<App />);
+
+    expect(screen.getByTestId("port-template")).toHaveTextContent("tpl-1");
+  });
+
+  it("follows the browser's back button", () => {
+    render(<App />);
+    fireEvent.click(screen.getByText("Settings"));
+    expect(screen.getByTestId("settings-page")).toBeInTheDocument();
+
+    act(() => {
+      window.history.replaceState(null, "", "/");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    });
+
+    expect(screen.getByTestId("template-list")).toBeInTheDocument();
+  });
+
+  it("shows a not-found view for unknown template ids", () => {
+    window.history.replaceState(null, "", "/templates/gone");
+
+    render(<App />);
+
+    expect(screen.getByText("Template not found")).toBeInTheDocument();
+    expect(screen.queryByTestId("port-template")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Go to templates"));
+
+    expect(screen.getByTestId("template-list")).toBeInTheDocument();
+  });
+
+  it("shows a not-found view for unknown paths", () => {
+    window.history.replaceState(null, "", "/nope");
+
+    render(<App />);
+
+    expect(screen.getByText("Page not found")).toBeInTheDocument();
+    expect(screen.getByText("Nothing lives at /nope.")).toBeInTheDocument();
+  });
+});
@@ -1,7 +1,46 @@
 import { PortTemplate } from "./template/PortTemplate";
+import { TemplateList } from "./library/TemplateList";
+import { SettingsPage } from "./settings/SettingsPage";
+import { NotFound } from "./NotFound";
+import { useRoute } from "../hooks/useRoute";
+import { getTemplate } from "../utils/templateLibrary";
 
+/**
+ * Picks the page for the current URL (see utils/routes): the template list, a template's
+ * editor, the settings or a not-found view for unknown paths and template ids.
+ */
 function App() {
-  return <PortTemplate />;
+  const { route, navigate } = useRoute();
+  const goHome = () => navigate({ name: "list" });
+
+  switch (route.name) {
+    case "list":
+      return (
+        <TemplateList
+          onOpen={(id) => navigate({ name: "template", id })}
+          onOpenSettings={() => navigate({ name: "settings" })}
+        />
+      );
+    case "template":
+      if (!getTemplate(route.id)) {
+        return (
+          <NotFound title="Template not found" onHome={goHome}>
+            There is no template with id "{route.id}"; it may have been deleted.
+          </NotFound>
+        );
+      }
+      return (
+        <PortTemplate key={route.id} templateId={route.id} onBack={goHome} />
+      );
+    case "settings":
+      return <SettingsPage onBack={goHome} />;
+    case "not-found":
+      return (
+        <NotFound title="Page not found" onHome={goHome}>
+          Nothing lives at {route.path}.
+        </NotFound>
+      );
+  }
 }
 
 export default App;
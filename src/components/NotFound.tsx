@@ -0,0 +1,31 @@
+/**
+ * NotFound
+ *
+ * Shown in place of a page that does not exist: an unknown path, or a template id that is not in
+ * the library (e.g. a link to a deleted template).
+ *
+ * @param props.title - What was not found, e.g. "Template not found".
+ * @param props.children - Details, e.g. the missing id or path.
+ * @param props.onHome - Callback invoked when the "Go to templates" button is clicked.
+ *
+ * @returns A JSX element explaining what was not found.
+ */
+import { Button } from "./ui/Buton";
+
+export interface NotFoundProps {
+  title: string;
+  children: React.ReactNode;
+  onHome: () => void;
+}
+
+export function NotFound({ title, children, onHome }: NotFoundProps) {
+  return (
+    <div className="p-6 max-w-[700px] mx-auto">
+      <h1 className="mb-2 text-lg font-semibold text-gray-800">{title}</h1>
+      <p className="mb-4 text-sm text-gray-600">{children}</p>
+      <Button variant="primary" onClick={onHome}>
+        Go to templates
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { render, screen, fireEvent } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import { TemplateList } from "./TemplateList";
+import type { TemplateMeta } from "../../utils/templateLibrary";
+
+const mockUseTemplateLibrary = {
+  templates: [] as TemplateMeta[],
+  createTemplate: jest.fn(),
+  renameTemplate: jest.fn(),
+  duplicateTemplate: jest.fn(),
+  deleteTemplate: jest.fn(),
+  refresh: jest.fn(),
+};
+
+jest.mock("../../hooks/useTemplateLibrary", () => ({
+  useTemplateLibrary: jest.fn(() => mockUseTemplateLibrary),
+}));
+
+describe("TemplateList Component", () => {
+  const onOpen = jest.fn();
+  const templates: TemplateMeta[] = [
+    {
+      id: "t-1",
+      name: "Web servers",
+      createdAt: "2025-01-01T10:00:00.000Z",
+      updatedAt: "2025-01-02T10:00:00.000Z",
+    },
+    {
+      id: "t-2",
+      name: "Databases",
+      createdAt: "2025-01-01T10:00:00.000Z",
+      updatedAt: "2025-01-01T10:00:00.000Z",
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUseTemplateLibrary.templates = templates;
+  });
+
+  it("should list every template by name", () => {
+    render(<TemplateList onOpen={onOpen} />);
+
+    expect(screen.getByText("Web servers")).toBeInTheDocument();
+    expect(screen.getByText("Databases")).toBeInTheDocument();
+  });
+
+  it("should show an empty state", () => {
+    mockUseTemplateLibrary.templates = [];
+
+    render(<TemplateList onOpen={onOpen} />);
+
+    expect(screen.getByText("No templates yet.")).toBeInTheDocument();
+  });
+
+  it("should open a template", () => {
+    render(<TemplateList onOpen={onOpen} />);
+
+    fireEvent.click(screen.getAllByText("Open")[1]);
+
+    expect(onOpen).toHaveBeenCalledWith("t-2");
+  });
+
+  it("should create a template with the typed name and open it", () => {
+    mockUseTemplateLibrary.createTemplate.mockReturnValue({
+      ...templates[0],
+      id: "new-1",
+    });
+    render(<TemplateList onOpen={onOpen} />);
+
+    fireEvent.change(screen.getByPlaceholderText("Template name"), {
+      target: { value: "Mail" },
+    });
+    fireEvent.click(screen.getByText("New template"));
+
+    expect(mockUseTemplateLibrary.createTemplate).toHaveBeenCalledWith("Mail");
+    expect(onOpen).toHaveBeenCalledWith("new-1");
+    expect(screen.getByPlaceholderText("Template name")).toHaveValue("");
+  });
+
+  it("should stay on the list when the template cannot be created", () => {
+    mockUseTemplateLibrary.createTemplate.mockReturnValue(undefined);
+    render(<TemplateList onOpen={onOpen} />);
+
+    fireEvent.change(screen.getByPlaceholderText("Template name"), {
+      target: { value: "Mail" },
+    });
+    fireEvent.click(screen.getByText("New template"));
+
+    expect(onOpen).not.toHaveBeenCalled();
+    expect(screen.getByPlaceholderText("Template name")).toHaveValue("Mail");
+  });
+
+  it("should rename a template inline", () => {
+    render(<TemplateList onOpen={onOpen} />);
+
+    fireEvent.click(screen.getAllByText("Rename")[0]);
+    fireEvent.change(screen.getByDisplayValue("Web servers"), {
+      target: { value: "Web" },
+    });
+    fireEvent.click(screen.getByText("Done"));
+
+    expect(mockUseTemplateLibrary.renameTemplate).toHaveBeenCalledWith(
+      "t-1",
+      "Web"
+    );
+    expect(screen.queryByText("Done")).not.toBeInTheDocument();
+  });
+
+  it("should duplicate a template without opening it", () => {
+    render(<TemplateList onOpen={onOpen} />);
+
+    fireEvent.click(screen.getAllByText("Duplicate")[0]);
+
+    expect(mockUseTemplateLibrary.duplicateTemplate).toHaveBeenCalledWith(
+      "t-1"
+    );
+    expect(onOpen).not.toHaveBeenCalled();
+  });
+
+  it("should delete a template once confirmed", () => {
+    render(<TemplateList onOpen={onOpen} />);
+
+    fireEvent.click(screen.getAllByText("🗑")[1]);
+    expect(mockUseTemplateLibrary.deleteTemplate).not.toHaveBeenCalled();
+    expect(screen.getByRole("dialog")).toHaveTextContent('Delete "Databases"?');
+    fireEvent.click(screen.getByText("Delete"));
+
+    expect(mockUseTemplateLibrary.deleteTemplate).toHaveBeenCalledWith("t-2");
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+
+  it("should keep a template when the deletion is cancelled", () => {
+    render(<TemplateList onOpen={onOpen} />);
+
+    fireEvent.click(screen.getAllByText("🗑")[0]);
+    fireEvent.click(screen.getByText("Cancel"));
+
+    expect(mockUseTemplateLibrary.deleteTemplate).not.toHaveBeenCalled();
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+  });
+
+  it("should open the settings when asked to", () => {
+    const onOpenSettings = jest.fn();
+    const { rerender } = render(<TemplateList onOpen={onOpen} />);
+    expect(screen.queryByText("Settings")).not.toBeInTheDocument();
+
+    rerender(<TemplateList onOpen={onOpen} onOpenSettings={onOpenSettings} />);
+    fireEvent.click(screen.getByText("Settings"));
+
+    expect(onOpenSettings).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * TemplateList
+ *
+ * Lists the templates in the library and lets the user create, open, rename,
+ * duplicate and delete them. Uses useTemplateLibrary for state/actions.
+ *
+ * @remarks
+ * - Creating a template opens it right away; duplicates are added to the list. Changes that
+ *   storage rejects are reported as error toasts by useTemplateLibrary.
+ * - Renaming happens inline: "Rename" swaps the name for an InputText and
+ *   "Done" commits it. Empty names are ignored.
+ * - Deleting asks for confirmation first: it removes the template with its stored tree, view
+ *   settings and trash, which cannot be restored.
+ *
+ * @param props.onOpen - Callback invoked with a template id when it should be opened in the editor.
+ * @param props.onOpenSettings - Callback invoked when the Settings button is clicked; the button is hidden without it.
+ *
+ * @returns A JSX element containing the template library.
+ */
+import { useState } from "react";
+import { useTemplateLibrary } from "../../hooks/useTemplateLibrary";
+import { Button } from "../ui/Buton";
+import { ConfirmDialog } from "../ui/ConfirmDialog";
+import { InputText } from "../ui/InputText";
+import type { TemplateMeta } from "../../utils/templateLibrary";
+
+export interface TemplateListProps {
+  onOpen: (id: string) => void;
+  onOpenSettings?: () => void;
+}
+
+export function TemplateList({ onOpen, onOpenSettings }: TemplateListProps) {
+  const {
+    templates,
+    createTemplate,
+    renameTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+  } = useTemplateLibrary();
+  const [newName, setNewName] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<TemplateMeta | null>(null);
+
+  const commitRename = () => {
+    if (renamingId) renameTemplate(renamingId, renameValue);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="p-6 max-w-[700px] mx-auto">
+      <div className="flex gap-2 mb-4 items-center">
+        <h1 className="text-lg font-semibold text-gray-800">Templates</h1>
+        <div className="ml-auto flex gap-2">
+          <InputText
+            value={newName}
+            onChange={setNewName}
+            placeholder="Template name"
+          />
+          <Button
+            variant="primary"
+            onClick={() => {
+              const meta = createTemplate(newName);
+              if (!meta) return;
+              setNewName("");
+              onOpen(meta.id);
+            }}
+          >
+            New template
+          </Button>
+          {onOpenSettings ? (
+            <Button variant="ghost" onClick={onOpenSettings}>
+              Settings
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500">No templates yet.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {templates.map((template) => (
+            <li
+              key={template.id}
+              className="flex items-center gap-2 border border-dashed border-gray-300 rounded px-3 py-2"
+            >
+              {renamingId === template.id ? (
+                <InputText value={renameValue} onChange={setRenameValue} />
+              ) : (
+                <div className="flex flex-col">
+                  <span className="text-gray-800">{template.name}</span>
+                  <span className="text-xs text-gray-500">
+                    Updated {new Date(template.updatedAt).toLocaleString()}
+                  </span>
+                </div>
+              )}
+              <div className="ml-auto flex gap-1">
+                {renamingId === template.id ? (
+                  <Button variant="primary" onClick={commitRename}>
+                    Done
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      variant="primary"
+                      onClick={() => onOpen(template.id)}
+                    >
+                      Open
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => {
+                        setRenamingId(template.id);
+                        setRenameValue(template.name);
+                      }}
+                    >
+                      Rename
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  onClick={() => duplicateTemplate(template.id)}
+                >
+                  Duplicate
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => setPendingDelete(template)}
+                >
+                  🗑
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {pendingDelete ? (
+        <ConfirmDialog
+          title={`Delete "${pendingDelete.name}"?`}
+          confirmLabel="Delete"
+          onConfirm={() => {
+            deleteTemplate(pendingDelete.id);
+            setPendingDelete(null);
+          }}
+          onCancel={() => setPendingDelete(null)}
+        >
+          The template and its nodes will be deleted. This cannot be undone.
+        </ConfirmDialog>
+      ) : null}
+    </div>
+  );
+}
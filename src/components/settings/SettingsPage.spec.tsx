@@ -0,0 +1,36 @@
+import { render, screen, fireEvent } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import { SettingsPage } from "./SettingsPage";
+
+jest.mock("../../hooks/useToast", () => ({
+  useToast: () => ({ notify: jest.fn(), dismiss: jest.fn() }),
+}));
+
+describe("SettingsPage", () => {
+  const onBack = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it("toggles and persists autosave", () => {
+    render(<SettingsPage onBack={onBack} />);
+
+    const checkbox = screen.getByRole("checkbox", { name: /Autosave/ });
+    expect(checkbox).toBeChecked();
+
+    fireEvent.click(checkbox);
+
+    expect(checkbox).not.toBeChecked();
+    expect(localStorage.getItem("settings:autosave")).toBe("false");
+  });
+
+  it("navigates back", () => {
+    render(<SettingsPage onBack={onBack} />);
+
+    fireEvent.click(screen.getByText("Back"));
+
+    expect(onBack).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * SettingsPage
+ *
+ * Shows the settings that apply to every template. For now this is whether templates are saved
+ * automatically after edits (see useAutosaveSetting), which the editor's header can also toggle.
+ *
+ * @param props.onBack - Callback invoked when the Back button is clicked (navigates to the template list).
+ *
+ * @returns A JSX element containing the settings.
+ */
+import { useAutosaveSetting } from "../../hooks/useAutosaveSetting";
+import { Button } from "../ui/Buton";
+
+export interface SettingsPageProps {
+  onBack: () => void;
+}
+
+export function SettingsPage({ onBack }: SettingsPageProps) {
+  const { autosave, setAutosave } = useAutosaveSetting();
+
+  return (
+    <div className="p-6 max-w-[700px] mx-auto">
+      <div className="flex gap-2 mb-4 items-center">
+        <h1 className="text-lg font-semibold text-gray-800">Settings</h1>
+        <div className="ml-auto">
+          <Button variant="secondary" onClick={onBack}>
+            Back
+          </Button>
+        </div>
+      </div>
+      <label className="flex items-start gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={autosave}
+          onChange={(e) => setAutosave(e.target.checked)}
+        />
+        <span>
+          Autosave
+          <span className="block text-xs text-gray-500">
+            Save templates automatically a moment after each edit.
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+}
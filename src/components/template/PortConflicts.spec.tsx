@@ -0,0 +1,66 @@
+import { render, screen, fireEvent } from "@testing-library/react";
+import { PortConflicts } from "./PortConflicts";
+import type { PortConflict } from "../../utils/portValidation";
+import "@testing-library/jest-dom";
+
+describe("PortConflicts", () => {
+  const conflict: PortConflict = {
+    first: { nodeId: "web", label: "web", value: "80", ancestorIds: [] },
+    second: {
+      nodeId: "api",
+      label: "api",
+      value: "80/tcp",
+      ancestorIds: ["services"],
+    },
+  };
+
+  const defaultProps = {
+    conflicts: [conflict],
+    scope: "template" as const,
+    onScopeChange: jest.fn(),
+    onSelect: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("lists each conflict with both ports", () => {
+    render(<PortConflicts {...defaultProps} />);
+
+    expect(screen.getByTestId("port-conflict-count")).toHaveTextContent(
+      "1 port conflict(s)"
+    );
+    expect(screen.getByRole("listitem")).toHaveTextContent(
+      "web (80)overlapsapi (80/tcp)"
+    );
+  });
+
+  it("reports when there are no conflicts", () => {
+    render(<PortConflicts {...defaultProps} conflicts={[]} />);
+
+    expect(screen.getByTestId("port-conflict-count")).toHaveTextContent(
+      "No port conflicts"
+    );
+    expect(screen.queryByRole("list")).not.toBeInTheDocument();
+  });
+
+  it("selects the port that was clicked", () => {
+    render(<PortConflicts {...defaultProps} />);
+
+    fireEvent.click(screen.getByText("api (80/tcp)"));
+
+    expect(defaultProps.onSelect).toHaveBeenCalledWith(conflict.second);
+  });
+
+  it("changes the scope", () => {
+    render(<PortConflicts {...defaultProps} />);
+
+    const select = screen.getByLabelText("Conflict scope");
+    expect(select).toHaveValue("template");
+
+    fireEvent.change(select, { target: { value: "siblings" } });
+
+    expect(defaultProps.onScopeChange).toHaveBeenCalledWith("siblings");
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * PortConflicts
+ *
+ * Panel listing the ports of a template that conflict with each other (see checkPorts), with a
+ * select choosing whether ports are compared among siblings only or across the whole template.
+ * Each conflict names both ports; clicking one jumps to its node.
+ *
+ * @param props.conflicts - The conflicting pairs of ports, ordered by port.
+ * @param props.scope - Where conflicts are looked for: among siblings or in the whole template.
+ * @param props.onScopeChange - Callback invoked with the scope picked in the select.
+ * @param props.onSelect - Callback invoked with the port whose node should be shown.
+ *
+ * @returns A JSX element containing the panel.
+ */
+import type {
+  ConflictScope,
+  ConflictingPort,
+  PortConflict,
+} from "../../utils/portValidation";
+import { CONFLICT_SCOPES } from "../../utils/portValidation";
+import { Button } from "../ui/Buton";
+
+export interface PortConflictsProps {
+  conflicts: PortConflict[];
+  scope: ConflictScope;
+  onScopeChange: (scope: ConflictScope) => void;
+  onSelect: (port: ConflictingPort) => void;
+}
+
+export function PortConflicts({
+  conflicts,
+  scope,
+  onScopeChange,
+  onSelect,
+}: PortConflictsProps) {
+  const portButton = (port: ConflictingPort) => (
+    <Button
+      variant="ghost"
+      onClick={() => onSelect(port)}
+      title="Show this node"
+    >
+      {port.label} ({port.value})
+    </Button>
+  );
+
+  return (
+    <section aria-label="Port conflicts" className="mb-4 text-sm">
+      <div className="flex items-center gap-2">
+        <span
+          data-testid="port-conflict-count"
+          className={conflicts.length > 0 ? "text-red-600" : "text-gray-500"}
+        >
+          {conflicts.length === 0
+            ? "No port conflicts"
+            : `${conflicts.length} port conflict(s)`}
+        </span>
+        <select
+          aria-label="Conflict scope"
+          className="border rounded px-2 py-1 border-dashed border-gray-400 text-gray-800 outline-none focus:border-blue-500"
+          value={scope}
+          onChange={(e) => onScopeChange(e.target.value as ConflictScope)}
+        >
+          {(Object.keys(CONFLICT_SCOPES) as ConflictScope[]).map((option) => (
+            <option key={option} value={option}>
+              {CONFLICT_SCOPES[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {conflicts.length > 0 ? (
+        <ul className="mt-1">
+          {conflicts.map(({ first, second }) => (
+            <li
+              key={`${first.nodeId}:${second.nodeId}`}
+              className="flex items-center gap-1 text-gray-700"
+            >
+              {portButton(first)}
+              <span>overlaps</span>
+              {portButton(second)}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
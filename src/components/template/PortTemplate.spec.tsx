@@ -1,21 +1,61 @@
-import { render, screen, fireEvent } from "@testing-library/react";
+import {
+  render,
+  screen,
+  fireEvent,
+  act,
+  waitFor,
+  within,
+} from "@testing-library/react";
 import "@testing-library/jest-dom";
 import { PortTemplate } from "./PortTemplate";
 import type { TreeNodeType } from "../../types/TreeNode";
+import { usePortTemplate } from "../../hooks/usePortTemplate";
+import type { SyncConflict } from "../../hooks/usePortTemplate";
+
+jest.mock("uuid", () => ({
+  v4: jest.fn(() => "mock-uuid"),
+}));
 
 // Mock the usePortTemplate hook
 const mockUsePortTemplate = {
   addNode: jest.fn(),
+  addSibling: jest.fn(),
+  duplicateNode: jest.fn(),
   deleteNode: jest.fn(),
   updateNode: jest.fn(),
+  moveNode: jest.fn(),
+  indentNode: jest.fn(),
+  outdentNode: jest.fn(),
+  copyNode: jest.fn(() => Promise.resolve()),
+  cutNode: jest.fn(() => Promise.resolve()),
+  pasteNodes: jest.fn(() => Promise.resolve()),
+  importTree: jest.fn(),
+  exportTree: jest.fn(),
   handleSave: jest.fn(),
   clearStorage: jest.fn(),
   activeNodeId: null as string | null,
   setActiveNodeId: jest.fn(),
   tree: [] as TreeNodeType[],
   setTree: jest.fn(),
+  addRoot: jest.fn(),
+  undo: jest.fn(),
+  redo: jest.fn(),
+  canUndo: false,
+  canRedo: false,
+  isDirty: false,
+  lastSavedAt: null as Date | null,
+  syncConflict: null as SyncConflict | null,
+  reloadTheirs: jest.fn(),
+  keepMine: jest.fn(),
+  trash: null,
+  restoreTrash: jest.fn(),
 };
 
+const mockToast = { notify: jest.fn(), dismiss: jest.fn() };
+jest.mock("../../hooks/useToast", () => ({
+  useToast: () => mockToast,
+}));
+
 jest.mock("../../hooks/usePortTemplate", () => ({
   usePortTemplate: jest.fn(() => mockUsePortTemplate),
 }));
@@ -27,20 +67,12 @@ const mockTreeNode = jest.fn();
 // Component mocks implemented inside factory to avoid early variable access
 jest.mock("./PortTemplateHeader", () => ({
   PortTemplateHeader: (props: any) => {
-    const { tree, setTree, setActiveNodeId, handleSave, clearStorage } = props;
+    const { tree, onAddRoot, handleSave, clearStorage } = props;
     mockPortTemplateHeader(props);
     return (
       <div data-testid="port-template-header">
         <span data-testid="tree-count">{tree.length}</span>
-        <button
-          onClick={() =>
-            setTree([
-              ...tree,
-              { id: "new-1", label: "root", value: "", children: [] },
-            ])
-          }
-          data-testid="add-root"
-        >
+        <button onClick={onAddRoot} data-testid="add-root">
           Add Root
         </button>
         <button onClick={handleSave} data-testid="save">
@@ -49,12 +81,7 @@ jest.mock("./PortTemplateHeader", () => ({
         <button onClick={clearStorage} data-testid="clear">
           Clear
         </button>
-        <button
-          onClick={() => setActiveNodeId("test-active")}
-          data-testid="set-active"
-        >
-          Set Active
-        </button>
+        <input aria-label="Search nodes" />
       </div>
     );
   },
@@ -69,15 +96,19 @@ jest.mock("./TreeNode", () => ({
       onUpdate,
       activeNodeId,
       setActiveNodeId,
-      treeLength,
       isLast,
+      isTabStop,
     } = props;
     mockTreeNode(props);
     return (
-      <div data-testid={`tree-node-${node.id}`}>
+      <div
+        data-testid={`tree-node-${node.id}`}
+        role="treeitem"
+        data-node-id={node.id}
+        tabIndex={isTabStop ? 0 : -1}
+      >
         <span data-testid={`node-label-${node.id}`}>{node.label}</span>
         <span data-testid={`node-value-${node.id}`}>{node.value}</span>
-        <span data-testid={`tree-length-${node.id}`}>{treeLength}</span>
         <span data-testid={`is-last-${node.id}`}>{isLast.toString()}</span>
         <span data-testid={`is-active-${node.id}`}>
           {(activeNodeId === node.id).toString()}
@@ -111,6 +142,7 @@ describe("PortTemplate Component", () => {
     // Reset mock state
     mockUsePortTemplate.tree = [];
     mockUsePortTemplate.activeNodeId = null;
+    mockUsePortTemplate.syncConflict = null;
   });
 
   describe("Initial Rendering", () => {
@@ -144,8 +176,7 @@ describe("PortTemplate Component", () => {
       expect(firstCallArgs).toEqual(
         expect.objectContaining({
           tree: mockUsePortTemplate.tree,
-          setTree: mockUsePortTemplate.setTree,
-          setActiveNodeId: mockUsePortTemplate.setActiveNodeId,
+          onAddRoot: mockUsePortTemplate.addRoot,
           handleSave: mockUsePortTemplate.handleSave,
           clearStorage: mockUsePortTemplate.clearStorage,
         })
@@ -197,11 +228,17 @@ describe("PortTemplate Component", () => {
         expect.objectContaining({
           node: testTree[0],
           onAdd: mockUsePortTemplate.addNode,
-          onDelete: mockUsePortTemplate.deleteNode,
+          onDelete: expect.any(Function),
           onUpdate: mockUsePortTemplate.updateNode,
+          onAddSibling: mockUsePortTemplate.addSibling,
+          onDuplicate: mockUsePortTemplate.duplicateNode,
+          onIndent: mockUsePortTemplate.indentNode,
+          onOutdent: mockUsePortTemplate.outdentNode,
+          onMove: mockUsePortTemplate.moveNode,
+          parentId: null,
+          index: 0,
           activeNodeId: "node-1",
           setActiveNodeId: mockUsePortTemplate.setActiveNodeId,
-          treeLength: 2,
           isLast: false,
         })
       );
@@ -211,11 +248,10 @@ describe("PortTemplate Component", () => {
         expect.objectContaining({
           node: testTree[1],
           onAdd: mockUsePortTemplate.addNode,
-          onDelete: mockUsePortTemplate.deleteNode,
+          onDelete: expect.any(Function),
           onUpdate: mockUsePortTemplate.updateNode,
           activeNodeId: "node-1",
           setActiveNodeId: mockUsePortTemplate.setActiveNodeId,
-          treeLength: 2,
           isLast: true,
         })
       );
@@ -237,20 +273,37 @@ describe("PortTemplate Component", () => {
       expect(screen.getByTestId("is-last-node-3")).toHaveTextContent("true");
     });
 
-    it("should pass correct treeLength to all nodes", () => {
+    it("should render nested nodes as rows with their layout", () => {
       const testTree: TreeNodeType[] = [
-        { id: "node-1", label: "Node 1", value: "", children: [] },
-        { id: "node-2", label: "Node 2", value: "", children: [] },
-        { id: "node-3", label: "Node 3", value: "", children: [] },
+        {
+          id: "web",
+          label: "web",
+          value: "",
+          children: [{ id: "http", label: "http", value: "80", children: [] }],
+        },
+        { id: "db", label: "db", value: "5432", children: [] },
       ];
 
       mockUsePortTemplate.tree = testTree;
 
       render(<PortTemplate />);
 
-      expect(screen.getByTestId("tree-length-node-1")).toHaveTextContent("3");
-      expect(screen.getByTestId("tree-length-node-2")).toHaveTextContent("3");
-      expect(screen.getByTestId("tree-length-node-3")).toHaveTextContent("3");
+      expect(
+        screen.getAllByTestId(/^tree-node-/).map((node) => node.dataset.testid)
+      ).toEqual(["tree-node-web", "tree-node-http", "tree-node-db"]);
+      expect(mockTreeNode).toHaveBeenCalledWith(
+        expect.objectContaining({
+          node: testTree[0].children[0],
+          parentId: "web",
+          index: 0,
+          depth: 1,
+          isLast: true,
+          guides: [false],
+        })
+      );
+      expect(mockTreeNode).toHaveBeenCalledWith(
+        expect.objectContaining({ node: testTree[0], hasVisibleChildren: true })
+      );
     });
   });
 
@@ -332,6 +385,50 @@ describe("PortTemplate Component", () => {
       });
     });
 
+    it("should confirm deleting a node with children", () => {
+      mockUsePortTemplate.tree = [
+        {
+          id: "node-1",
+          label: "services",
+          value: "",
+          children: [
+            {
+              id: "node-2",
+              label: "web",
+              value: "",
+              children: [
+                { id: "node-3", label: "http", value: "80", children: [] },
+              ],
+            },
+          ],
+        },
+      ];
+
+      render(<PortTemplate />);
+
+      fireEvent.click(screen.getByTestId("delete-node-1"));
+      const dialog = screen.getByRole("dialog", {
+        name: 'Delete "services"?',
+      });
+      expect(dialog).toHaveTextContent(
+        "Its 2 descendant node(s) will be deleted with it."
+      );
+      expect(mockUsePortTemplate.deleteNode).not.toHaveBeenCalled();
+
+      fireEvent.click(within(dialog).getByRole("button", { name: "Cancel" }));
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+      expect(mockUsePortTemplate.deleteNode).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByTestId("delete-node-1"));
+      fireEvent.click(
+        within(screen.getByRole("dialog")).getByRole("button", {
+          name: "Delete",
+        })
+      );
+      expect(mockUsePortTemplate.deleteNode).toHaveBeenCalledWith("node-1");
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    });
+
     it("should call hook functions through PortTemplateHeader interactions", () => {
       render(<PortTemplate />);
 
@@ -344,24 +441,15 @@ describe("PortTemplate Component", () => {
       const clearButton = screen.getByTestId("clear");
       fireEvent.click(clearButton);
       expect(mockUsePortTemplate.clearStorage).toHaveBeenCalled();
-
-      // Test setActiveNodeId
-      const setActiveButton = screen.getByTestId("set-active");
-      fireEvent.click(setActiveButton);
-      expect(mockUsePortTemplate.setActiveNodeId).toHaveBeenCalledWith(
-        "test-active"
-      );
     });
 
-    it("should call setTree through PortTemplateHeader", () => {
+    it("should call addRoot through PortTemplateHeader", () => {
       render(<PortTemplate />);
 
       const addRootButton = screen.getByTestId("add-root");
       fireEvent.click(addRootButton);
 
-      expect(mockUsePortTemplate.setTree).toHaveBeenCalledWith([
-        { id: "new-1", label: "root", value: "", children: [] },
-      ]);
+      expect(mockUsePortTemplate.addRoot).toHaveBeenCalled();
     });
   });
 
@@ -417,10 +505,9 @@ describe("PortTemplate Component", () => {
         "data-testid",
         "port-template-header"
       );
-      expect(children[1]?.children[0]).toHaveAttribute(
-        "data-testid",
-        "tree-node-node-1"
-      );
+      expect(
+        children[1]?.querySelector('[data-testid^="tree-node-"]')
+      ).toHaveAttribute("data-testid", "tree-node-node-1");
     });
   });
 
@@ -438,9 +525,6 @@ describe("PortTemplate Component", () => {
       expect(screen.getByTestId("is-last-single-node")).toHaveTextContent(
         "true"
       );
-      expect(screen.getByTestId("tree-length-single-node")).toHaveTextContent(
-        "1"
-      );
     });
 
     it("should handle empty tree gracefully", () => {
@@ -522,6 +606,788 @@ describe("PortTemplate Component", () => {
     });
   });
 
+  describe("Template Selection", () => {
+    it("should load the given template through the hook", () => {
+      render(<PortTemplate templateId="tpl-1" />);
+
+      expect(usePortTemplate).toHaveBeenCalledWith("tpl-1", {
+        autosave: true,
+      });
+    });
+
+    it("should pass onBack to PortTemplateHeader", () => {
+      const onBack = jest.fn();
+
+      render(<PortTemplate templateId="tpl-1" onBack={onBack} />);
+
+      expect(mockPortTemplateHeader).toHaveBeenCalledWith(
+        expect.objectContaining({ onBack })
+      );
+    });
+  });
+
+  describe("Export/Import", () => {
+    const importedTree: TreeNodeType[] = [
+      { id: "imported-1", label: "root", value: "443", children: [] },
+    ];
+
+    const makeFile = (contents: string, name = "tree.json") =>
+      new File([contents], name, { type: "application/json" });
+
+    const importThroughHeader = async (file: File) => {
+      const { onImportFile } = mockPortTemplateHeader.mock.calls[0][0];
+      await act(async () => {
+        await onImportFile(file);
+      });
+    };
+
+    it("should export in the format picked in the header", () => {
+      render(<PortTemplate />);
+      const { onExport } = mockPortTemplateHeader.mock.calls[0][0];
+
+      act(() => {
+        onExport("yaml-compact");
+      });
+
+      expect(mockUsePortTemplate.exportTree).toHaveBeenCalledWith(
+        "yaml-compact"
+      );
+    });
+
+    it("should show an error when the tree cannot be exported", () => {
+      mockUsePortTemplate.exportTree.mockImplementationOnce(() => {
+        throw new Error('duplicate label "child"');
+      });
+      render(<PortTemplate />);
+      const { onExport } = mockPortTemplateHeader.mock.calls[0][0];
+
+      act(() => {
+        onExport("yaml-compact");
+      });
+
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        'Could not export: duplicate label "child"',
+        { level: "error" }
+      );
+    });
+
+    it("should import YAML files", async () => {
+      render(<PortTemplate />);
+
+      await importThroughHeader(
+        makeFile("web:\n  http: 80\n  https: 443\n", "ports.yaml")
+      );
+
+      expect(
+        screen.getByText("Import 1 root node(s) from ports.yaml?")
+      ).toBeInTheDocument();
+    });
+
+    it("should ask how to import a valid file and replace the tree", async () => {
+      render(<PortTemplate />);
+
+      await importThroughHeader(makeFile(JSON.stringify(importedTree)));
+
+      expect(
+        screen.getByText(/Import 1 root node\(s\) from tree.json/)
+      ).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("Replace tree"));
+
+      expect(mockUsePortTemplate.importTree).toHaveBeenCalledWith(
+        importedTree,
+        "replace"
+      );
+      expect(screen.queryByText("Replace tree")).not.toBeInTheDocument();
+    });
+
+    it("should append imported roots", async () => {
+      render(<PortTemplate />);
+
+      await importThroughHeader(makeFile(JSON.stringify(importedTree)));
+      fireEvent.click(screen.getByText("Append roots"));
+
+      expect(mockUsePortTemplate.importTree).toHaveBeenCalledWith(
+        importedTree,
+        "append"
+      );
+    });
+
+    it("should cancel a pending import", async () => {
+      render(<PortTemplate />);
+
+      await importThroughHeader(makeFile(JSON.stringify(importedTree)));
+      fireEvent.click(screen.getByText("Cancel"));
+
+      expect(mockUsePortTemplate.importTree).not.toHaveBeenCalled();
+      expect(screen.queryByText("Replace tree")).not.toBeInTheDocument();
+    });
+
+    it("should show an error for invalid files", async () => {
+      render(<PortTemplate />);
+
+      await importThroughHeader(
+        makeFile(JSON.stringify([{ id: "x" }]), "bad.json")
+      );
+
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        "Could not import bad.json: Invalid tree data: tree[0].value must be a string",
+        { level: "error" }
+      );
+      expect(mockUsePortTemplate.importTree).not.toHaveBeenCalled();
+      expect(screen.queryByText("Replace tree")).not.toBeInTheDocument();
+    });
+
+    it("should import a file dropped onto the editor", async () => {
+      const { container } = render(<PortTemplate />);
+      const file = makeFile(JSON.stringify(importedTree), "dropped.json");
+
+      fireEvent.drop(container.firstChild as HTMLElement, {
+        dataTransfer: { types: ["Files"], files: [file] },
+      });
+
+      await waitFor(() =>
+        expect(screen.getByText(/from dropped.json/)).toBeInTheDocument()
+      );
+    });
+  });
+
+  describe("Clipboard", () => {
+    const treeNodeProps = () => mockTreeNode.mock.calls[0][0];
+
+    beforeEach(() => {
+      mockUsePortTemplate.tree = [
+        { id: "node-1", label: "Node 1", value: "Value 1", children: [] },
+      ];
+    });
+
+    it("should copy, cut and paste through the hook", async () => {
+      render(<PortTemplate />);
+      const { onCopy, onCut, onPaste } = treeNodeProps();
+
+      await act(async () => {
+        await onCopy("node-1");
+        await onCut("node-1");
+        await onPaste("node-1", "child");
+      });
+
+      expect(mockUsePortTemplate.copyNode).toHaveBeenCalledWith("node-1");
+      expect(mockUsePortTemplate.cutNode).toHaveBeenCalledWith("node-1");
+      expect(mockUsePortTemplate.pasteNodes).toHaveBeenCalledWith(
+        "node-1",
+        "child"
+      );
+      expect(mockToast.notify).not.toHaveBeenCalled();
+    });
+
+    it("should paste at the root from the header", async () => {
+      render(<PortTemplate />);
+      const { onPaste } = mockPortTemplateHeader.mock.calls[0][0];
+
+      await act(async () => {
+        await onPaste();
+      });
+
+      expect(mockUsePortTemplate.pasteNodes).toHaveBeenCalledWith(
+        null,
+        "sibling"
+      );
+    });
+
+    it("should show a message when the clipboard cannot be pasted", async () => {
+      mockUsePortTemplate.pasteNodes.mockImplementationOnce(() =>
+        Promise.reject(new Error("Clipboard does not contain a copied subtree"))
+      );
+      render(<PortTemplate />);
+      const { onPaste } = treeNodeProps();
+
+      await act(async () => {
+        await onPaste("node-1", "sibling");
+      });
+
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        "Could not paste: Clipboard does not contain a copied subtree",
+        { level: "error" }
+      );
+    });
+
+    it("should show a message when locks forbid a cut", async () => {
+      mockUsePortTemplate.cutNode.mockImplementationOnce(() =>
+        Promise.reject(new Error('"Node 1" is read-only'))
+      );
+      render(<PortTemplate />);
+      const { onCut } = treeNodeProps();
+
+      await act(async () => {
+        await onCut("node-1");
+      });
+
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        'Could not cut: "Node 1" is read-only',
+        { level: "error" }
+      );
+    });
+
+    it("should show a message when copying fails", async () => {
+      mockUsePortTemplate.copyNode.mockImplementationOnce(() =>
+        Promise.reject(new Error("Permission denied"))
+      );
+      render(<PortTemplate />);
+      const { onCopy } = treeNodeProps();
+
+      await act(async () => {
+        await onCopy("node-1");
+      });
+
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        "Could not copy: Permission denied",
+        { level: "error" }
+      );
+    });
+  });
+
+  describe("Search", () => {
+    const searchableTree: TreeNodeType[] = [
+      {
+        id: "web",
+        label: "web",
+        value: "",
+        children: [{ id: "http", label: "http", value: "80", children: [] }],
+      },
+      { id: "db", label: "db", value: "5432", children: [] },
+      { id: "cache", label: "cache", value: "6380", children: [] },
+    ];
+
+    const headerProps = () =>
+      mockPortTemplateHeader.mock.calls[
+        mockPortTemplateHeader.mock.calls.length - 1
+      ][0];
+
+    const searchFor = (text: string) => {
+      act(() => {
+        headerProps().onSearchChange({
+          text,
+          caseSensitive: false,
+          regex: false,
+        });
+      });
+    };
+
+    beforeEach(() => {
+      mockUsePortTemplate.tree = searchableTree;
+    });
+
+    it("should render every node without a search", () => {
+      render(<PortTemplate />);
+
+      expect(screen.getAllByTestId(/^tree-node-/)).toHaveLength(4);
+      expect(mockTreeNode).toHaveBeenCalledWith(
+        expect.objectContaining({ searchPattern: null })
+      );
+    });
+
+    it("should render only matches and their ancestors", () => {
+      render(<PortTemplate />);
+
+      searchFor("80");
+
+      expect(
+        screen.getAllByTestId(/^tree-node-/).map((node) => node.dataset.testid)
+      ).toEqual(["tree-node-web", "tree-node-http", "tree-node-cache"]);
+      const lastCall =
+        mockTreeNode.mock.calls[mockTreeNode.mock.calls.length - 1][0];
+      expect(lastCall.node.id).toBe("cache");
+      expect(lastCall.index).toBe(2);
+      expect(lastCall.isLast).toBe(true);
+      expect(lastCall.searchPattern).toEqual(/80/i);
+    });
+
+    it("should report the match count and invalid regexes to the header", () => {
+      render(<PortTemplate />);
+
+      searchFor("80");
+      expect(headerProps()).toMatchObject({ matchCount: 2, matchIndex: -1 });
+
+      act(() => {
+        headerProps().onSearchChange({
+          text: "(",
+          caseSensitive: false,
+          regex: true,
+        });
+      });
+      expect(headerProps().searchError).toEqual(expect.any(String));
+    });
+
+    it("should move the active node when stepping through matches", () => {
+      render(<PortTemplate />);
+
+      searchFor("80");
+      act(() => {
+        headerProps().onStepMatch(1);
+      });
+
+      expect(mockUsePortTemplate.setActiveNodeId).toHaveBeenCalledWith("http");
+
+      mockUsePortTemplate.activeNodeId = "http";
+      searchFor("80");
+      expect(headerProps().matchIndex).toBe(0);
+      act(() => {
+        headerProps().onStepMatch(-1);
+      });
+
+      expect(mockUsePortTemplate.setActiveNodeId).toHaveBeenLastCalledWith(
+        "cache"
+      );
+    });
+  });
+
+  describe("Collapsing", () => {
+    const nestedTree: TreeNodeType[] = [
+      {
+        id: "web",
+        label: "web",
+        value: "",
+        children: [{ id: "http", label: "http", value: "80", children: [] }],
+      },
+      { id: "db", label: "db", value: "5432", children: [] },
+    ];
+
+    const lastTreeNodeProps = (id: string) =>
+      mockTreeNode.mock.calls
+        .map(([props]) => props)
+        .filter((props) => props.node.id === id)
+        .pop();
+
+    const headerProps = () =>
+      mockPortTemplateHeader.mock.calls[
+        mockPortTemplateHeader.mock.calls.length - 1
+      ][0];
+
+    beforeEach(() => {
+      localStorage.clear();
+      mockUsePortTemplate.tree = nestedTree;
+    });
+
+    it("should collapse and expand every parent from the header", () => {
+      render(<PortTemplate templateId="tpl-1" />);
+
+      act(() => {
+        headerProps().onCollapseAll();
+      });
+      expect(lastTreeNodeProps("web").isCollapsed).toBe(true);
+      expect(screen.queryByTestId("tree-node-http")).not.toBeInTheDocument();
+      expect(localStorage.getItem("template:tpl-1:collapsed")).toBe('["web"]');
+
+      act(() => {
+        headerProps().onExpandAll();
+      });
+      expect(lastTreeNodeProps("web").isCollapsed).toBe(false);
+      expect(screen.getByTestId("tree-node-http")).toBeInTheDocument();
+    });
+
+    it("should toggle single nodes", () => {
+      render(<PortTemplate templateId="tpl-1" />);
+
+      act(() => {
+        lastTreeNodeProps("web").onToggleCollapsed("web");
+      });
+
+      expect(lastTreeNodeProps("web")).toMatchObject({
+        isCollapsed: true,
+        descendantCount: 1,
+      });
+      expect(screen.queryByTestId("tree-node-http")).not.toBeInTheDocument();
+    });
+
+    it("should restore the collapsed nodes of the template", () => {
+      localStorage.setItem("template:tpl-1:collapsed", '["web"]');
+
+      render(<PortTemplate templateId="tpl-1" />);
+
+      expect(lastTreeNodeProps("web").isCollapsed).toBe(true);
+    });
+
+    it("should show every match while searching", () => {
+      localStorage.setItem("template:tpl-1:collapsed", '["web"]');
+      render(<PortTemplate templateId="tpl-1" />);
+
+      act(() => {
+        headerProps().onSearchChange({
+          text: "80",
+          caseSensitive: false,
+          regex: false,
+        });
+      });
+
+      expect(lastTreeNodeProps("web").isCollapsed).toBe(false);
+      expect(screen.getByTestId("tree-node-http")).toBeInTheDocument();
+    });
+  });
+
+  describe("Label Display", () => {
+    const lastTreeNodeProps = () =>
+      mockTreeNode.mock.calls[mockTreeNode.mock.calls.length - 1][0];
+
+    const headerProps = () =>
+      mockPortTemplateHeader.mock.calls[
+        mockPortTemplateHeader.mock.calls.length - 1
+      ][0];
+
+    beforeEach(() => {
+      localStorage.clear();
+      mockUsePortTemplate.tree = [
+        { id: "web", label: "web", value: "80", children: [] },
+      ];
+    });
+
+    it("should show labels and values by default", () => {
+      render(<PortTemplate templateId="tpl-1" />);
+
+      expect(headerProps().labelDisplay).toBe("both");
+      expect(lastTreeNodeProps().labelDisplay).toBe("both");
+    });
+
+    it("should apply and remember the mode picked in the header", () => {
+      const { unmount } = render(<PortTemplate templateId="tpl-1" />);
+
+      act(() => {
+        headerProps().onLabelDisplayChange("label");
+      });
+      expect(lastTreeNodeProps().labelDisplay).toBe("label");
+
+      unmount();
+      render(<PortTemplate templateId="tpl-1" />);
+
+      expect(headerProps().labelDisplay).toBe("label");
+    });
+  });
+
+  describe("Port Conflicts", () => {
+    const portTree: TreeNodeType[] = [
+      {
+        id: "web",
+        label: "web",
+        value: "",
+        children: [
+          {
+            id: "http",
+            label: "http",
+            value: "80",
+            valueType: "port",
+            children: [],
+          },
+        ],
+      },
+      {
+        id: "proxy",
+        label: "proxy",
+        value: "80/tcp",
+        valueType: "port",
+        children: [],
+      },
+      {
+        id: "admin",
+        label: "admin",
+        value: "99999",
+        valueType: "port",
+        children: [],
+      },
+    ];
+
+    const lastTreeNodeProps = (id: string) =>
+      mockTreeNode.mock.calls
+        .map(([props]) => props)
+        .filter((props) => props.node.id === id)
+        .pop();
+
+    beforeEach(() => {
+      localStorage.clear();
+      mockUsePortTemplate.tree = portTree;
+    });
+
+    it("should not show the panel for templates without ports", () => {
+      mockUsePortTemplate.tree = [
+        { id: "web", label: "web", value: "80", children: [] },
+      ];
+
+      render(<PortTemplate />);
+
+      expect(
+        screen.queryByRole("region", { name: "Port conflicts" })
+      ).not.toBeInTheDocument();
+      expect(lastTreeNodeProps("web").valueError).toBeNull();
+    });
+
+    it("should flag invalid and conflicting ports", () => {
+      render(<PortTemplate />);
+
+      expect(lastTreeNodeProps("http").valueError).toBe(
+        "Conflicts with proxy (80/tcp)"
+      );
+      expect(lastTreeNodeProps("proxy").valueError).toBe(
+        "Conflicts with http (80)"
+      );
+      expect(lastTreeNodeProps("admin").valueError).toBe(
+        "Port 99999 is outside 1-65535"
+      );
+      expect(lastTreeNodeProps("web").valueError).toBeNull();
+      expect(screen.getByTestId("port-conflict-count")).toHaveTextContent(
+        "1 port conflict(s)"
+      );
+    });
+
+    it("should only compare siblings when asked to", () => {
+      render(<PortTemplate />);
+
+      fireEvent.change(screen.getByLabelText("Conflict scope"), {
+        target: { value: "siblings" },
+      });
+
+      expect(screen.getByTestId("port-conflict-count")).toHaveTextContent(
+        "No port conflicts"
+      );
+      expect(lastTreeNodeProps("http").valueError).toBeNull();
+    });
+
+    it("should reveal and activate the node picked in the panel", () => {
+      localStorage.setItem("template:tpl-1:collapsed", '["web"]');
+      render(<PortTemplate templateId="tpl-1" />);
+      expect(screen.queryByTestId("tree-node-http")).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("http (80)"));
+
+      expect(screen.getByTestId("tree-node-http")).toBeInTheDocument();
+      expect(lastTreeNodeProps("web").isCollapsed).toBe(false);
+      expect(mockUsePortTemplate.setActiveNodeId).toHaveBeenCalledWith("http");
+    });
+  });
+
+  describe("Locks", () => {
+    const lastTreeNodeProps = (id: string) =>
+      mockTreeNode.mock.calls
+        .map(([props]) => props)
+        .filter((props) => props.node.id === id)
+        .pop();
+
+    it("should pass each row its lock, its parent's lock and what blocks its deletion", () => {
+      mockUsePortTemplate.tree = [
+        {
+          id: "web",
+          label: "web",
+          value: "",
+          readOnly: true,
+          lockSubtree: true,
+          children: [{ id: "http", label: "http", value: "80", children: [] }],
+        },
+        {
+          id: "db",
+          label: "db",
+          value: "",
+          children: [
+            {
+              id: "port",
+              label: "port",
+              value: "5432",
+              readOnly: true,
+              children: [],
+            },
+          ],
+        },
+      ];
+
+      render(<PortTemplate />);
+
+      expect(lastTreeNodeProps("http")).toMatchObject({
+        lock: { holderId: "web", reason: '"web" locks its subtree' },
+        parentLock: { holderId: "web" },
+        deleteBlocker: '"web" locks its subtree',
+      });
+      expect(lastTreeNodeProps("db")).toMatchObject({
+        lock: null,
+        parentLock: null,
+        indentLock: { holderId: "web" },
+        outdentLock: null,
+        deleteBlocker: "it contains locked nodes",
+      });
+      expect(lastTreeNodeProps("port").parentLock).toBeNull();
+    });
+  });
+
+  describe("Keyboard Navigation", () => {
+    const nestedTree: TreeNodeType[] = [
+      {
+        id: "web",
+        label: "web",
+        value: "",
+        children: [{ id: "http", label: "http", value: "80", children: [] }],
+      },
+      { id: "db", label: "db", value: "5432", children: [] },
+    ];
+
+    const lastTreeNodeProps = (id: string) =>
+      mockTreeNode.mock.calls
+        .map(([props]) => props)
+        .filter((props) => props.node.id === id)
+        .pop();
+
+    beforeEach(() => {
+      localStorage.clear();
+      mockUsePortTemplate.tree = nestedTree;
+    });
+
+    it("should render the rows inside a tree", () => {
+      render(<PortTemplate />);
+
+      expect(screen.getByRole("tree")).toContainElement(
+        screen.getByTestId("tree-node-http")
+      );
+    });
+
+    it("should make the first row the tab stop without an active node", () => {
+      render(<PortTemplate />);
+
+      expect(lastTreeNodeProps("web").isTabStop).toBe(true);
+      expect(lastTreeNodeProps("http").isTabStop).toBe(false);
+    });
+
+    it("should make the active row the tab stop", () => {
+      mockUsePortTemplate.activeNodeId = "db";
+
+      render(<PortTemplate />);
+
+      expect(lastTreeNodeProps("web").isTabStop).toBe(false);
+      expect(lastTreeNodeProps("db").isTabStop).toBe(true);
+    });
+
+    it("should activate and focus the next row on ArrowDown", () => {
+      mockUsePortTemplate.activeNodeId = "web";
+      const { rerender } = render(<PortTemplate />);
+
+      fireEvent.keyDown(screen.getByTestId("tree-node-web"), {
+        key: "ArrowDown",
+      });
+      expect(mockUsePortTemplate.setActiveNodeId).toHaveBeenCalledWith("http");
+
+      mockUsePortTemplate.activeNodeId = "http";
+      rerender(<PortTemplate />);
+
+      expect(screen.getByTestId("tree-node-http")).toHaveFocus();
+    });
+
+    it("should jump to the last row on End", () => {
+      render(<PortTemplate />);
+
+      fireEvent.keyDown(screen.getByTestId("tree-node-web"), { key: "End" });
+
+      expect(mockUsePortTemplate.setActiveNodeId).toHaveBeenCalledWith("db");
+    });
+
+    it("should collapse and expand nodes with ArrowLeft / ArrowRight", () => {
+      render(<PortTemplate />);
+
+      fireEvent.keyDown(screen.getByTestId("tree-node-web"), {
+        key: "ArrowLeft",
+      });
+      expect(lastTreeNodeProps("web").isCollapsed).toBe(true);
+      expect(screen.queryByTestId("tree-node-http")).not.toBeInTheDocument();
+
+      fireEvent.keyDown(screen.getByTestId("tree-node-web"), {
+        key: "ArrowRight",
+      });
+      expect(lastTreeNodeProps("web").isCollapsed).toBe(false);
+      expect(mockUsePortTemplate.setActiveNodeId).not.toHaveBeenCalled();
+    });
+
+    it("should leave keys pressed inside a row alone", () => {
+      render(<PortTemplate />);
+
+      fireEvent.keyDown(screen.getByTestId("add-web"), { key: "ArrowDown" });
+
+      expect(mockUsePortTemplate.setActiveNodeId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Cross-tab Sync", () => {
+    it("should show no banner without a conflict", () => {
+      render(<PortTemplate />);
+
+      expect(screen.queryByText("Reload theirs")).not.toBeInTheDocument();
+    });
+
+    it("should offer to reload theirs or keep mine on a conflict", () => {
+      mockUsePortTemplate.syncConflict = { theirs: [], savedAt: null };
+
+      render(<PortTemplate />);
+
+      expect(
+        screen.getByText(/saved in another tab while you had unsaved changes/)
+      ).toBeInTheDocument();
+      fireEvent.click(screen.getByText("Reload theirs"));
+      expect(mockUsePortTemplate.reloadTheirs).toHaveBeenCalled();
+      fireEvent.click(screen.getByText("Keep mine"));
+      expect(mockUsePortTemplate.keepMine).toHaveBeenCalled();
+    });
+  });
+
+  describe("Keyboard Shortcuts", () => {
+    it("should call undo on Ctrl+Z", () => {
+      render(<PortTemplate />);
+
+      fireEvent.keyDown(window, { key: "z", ctrlKey: true });
+
+      expect(mockUsePortTemplate.undo).toHaveBeenCalledTimes(1);
+      expect(mockUsePortTemplate.redo).not.toHaveBeenCalled();
+    });
+
+    it("should call redo on Ctrl+Shift+Z", () => {
+      render(<PortTemplate />);
+
+      fireEvent.keyDown(window, { key: "Z", ctrlKey: true, shiftKey: true });
+
+      expect(mockUsePortTemplate.redo).toHaveBeenCalledTimes(1);
+      expect(mockUsePortTemplate.undo).not.toHaveBeenCalled();
+    });
+
+    it("should support Cmd+Z on macOS", () => {
+      render(<PortTemplate />);
+
+      fireEvent.keyDown(window, { key: "z", metaKey: true });
+
+      expect(mockUsePortTemplate.undo).toHaveBeenCalledTimes(1);
+    });
+
+    it("should leave Ctrl+Z to text fields outside the tree", () => {
+      render(<PortTemplate />);
+      const search = screen.getByLabelText("Search nodes");
+
+      // fireEvent returns false when the default action was prevented
+      expect(fireEvent.keyDown(search, { key: "z", ctrlKey: true })).toBe(true);
+      expect(mockUsePortTemplate.undo).not.toHaveBeenCalled();
+    });
+
+    it("should undo from the fields of the tree", () => {
+      mockUsePortTemplate.tree = [
+        { id: "node-1", label: "Node 1", value: "Value 1", children: [] },
+      ];
+      render(<PortTemplate />);
+      const input = document.createElement("input");
+      screen.getByTestId("tree-node-node-1").appendChild(input);
+
+      fireEvent.keyDown(input, { key: "z", ctrlKey: true });
+
+      expect(mockUsePortTemplate.undo).toHaveBeenCalledTimes(1);
+    });
+
+    it("should ignore Z without a modifier", () => {
+      render(<PortTemplate />);
+
+      fireEvent.keyDown(window, { key: "z" });
+
+      expect(mockUsePortTemplate.undo).not.toHaveBeenCalled();
+      expect(mockUsePortTemplate.redo).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Performance", () => {
     it("should use node.id as key for TreeNode components", () => {
       const testTree: TreeNodeType[] = [
@@ -538,5 +1404,98 @@ describe("PortTemplate Component", () => {
       expect(screen.getByTestId("tree-node-node-1")).toBeInTheDocument();
       expect(screen.getByTestId("tree-node-node-2")).toBeInTheDocument();
     });
+
+    describe("Virtualization", () => {
+      const largeTree: TreeNodeType[] = Array.from(
+        { length: 2000 },
+        (_, i) => ({
+          id: `root-${i}`,
+          label: `root-${i}`,
+          value: String(i),
+          children: [],
+        })
+      );
+
+      const scrollContainer = (container: HTMLElement) =>
+        container.querySelector(".overflow-auto") as HTMLElement;
+
+      beforeEach(() => {
+        mockUsePortTemplate.tree = largeTree;
+      });
+
+      it("should only mount the rows in view", () => {
+        render(<PortTemplate />);
+
+        const rendered = screen.getAllByTestId(/^tree-node-/);
+        expect(rendered.length).toBeGreaterThan(0);
+        expect(rendered.length).toBeLessThan(50);
+        expect(screen.getByTestId("tree-node-root-0")).toBeInTheDocument();
+        expect(
+          screen.queryByTestId("tree-node-root-1999")
+        ).not.toBeInTheDocument();
+      });
+
+      it("should keep the full scroll height", () => {
+        const { container } = render(<PortTemplate />);
+
+        expect(
+          (scrollContainer(container).firstChild as HTMLElement).style.height
+        ).toBe(`${2000 * 42}px`);
+      });
+
+      it("should mount the rows scrolled into view", () => {
+        const { container } = render(<PortTemplate />);
+        const scroller = scrollContainer(container);
+
+        Object.defineProperty(scroller, "scrollTop", {
+          value: 1000 * 42,
+          configurable: true,
+        });
+        fireEvent.scroll(scroller);
+
+        expect(screen.getByTestId("tree-node-root-1000")).toBeInTheDocument();
+        // root-0 stays mounted as the tab stop
+        expect(
+          screen.queryByTestId("tree-node-root-1")
+        ).not.toBeInTheDocument();
+      });
+
+      it("should keep the active row mounted while it is out of view", () => {
+        mockUsePortTemplate.activeNodeId = "root-1500";
+
+        render(<PortTemplate />);
+
+        expect(screen.getByTestId("tree-node-root-1500")).toBeInTheDocument();
+        expect(screen.getByTestId("is-active-root-1500")).toHaveTextContent(
+          "true"
+        );
+      });
+
+      it("should position rows by their measured height", () => {
+        const offsetHeight = jest
+          .spyOn(HTMLElement.prototype, "offsetHeight", "get")
+          .mockReturnValue(100);
+
+        render(<PortTemplate />);
+
+        const wrapper = (id: string) =>
+          screen.getByTestId(`tree-node-${id}`).parentElement as HTMLElement;
+        expect(wrapper("root-3").style.top).toBe("300px");
+        // Fewer rows fit the viewport once they are known to be taller
+        expect(screen.getAllByTestId(/^tree-node-/).length).toBeLessThan(20);
+        offsetHeight.mockRestore();
+      });
+
+      it("should scroll to the active row when it changes", () => {
+        const { container, rerender } = render(<PortTemplate />);
+        const scroller = scrollContainer(container);
+
+        mockUsePortTemplate.activeNodeId = "root-1500";
+        rerender(<PortTemplate />);
+
+        // 800px fallback viewport: the row ends at the bottom edge
+        expect(scroller.scrollTop).toBe(1501 * 42 - 800);
+      });
+    });
   });
 });
@@ -3,50 +3,438 @@
  *
  * Main component for the port template UI.
  * Uses usePortTemplate for state/actions and renders PortTemplateHeader plus a list of TreeNode.
+ * Also binds Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) to undo / redo, except in text fields
+ * outside the tree, which keep their own undo. Edits are saved
+ * automatically unless autosave is turned off in the header (see useAutosaveSetting).
+ *
+ * Files picked through the header's Import button or dropped onto the editor are parsed and
+ * validated first; the user then chooses whether to replace the tree or append the imported
+ * roots. Invalid files are reported as an error toast (see useToast) and leave the tree
+ * untouched, as do exports the chosen format cannot represent (e.g. duplicate sibling labels in
+ * compact YAML).
+ *
+ * Nodes can be copied, cut and pasted through the system clipboard from their toolbar, and the
+ * header's Paste button appends a copied subtree at the root. Clipboard failures, invalid
+ * clipboard contents and cuts or pastes that locks forbid are reported as error toasts too.
+ *
+ * The header's search box filters the rendered tree to matching nodes and their ancestors;
+ * Enter / Shift+Enter make the next / previous match the active node. While a search is active
+ * every matching branch is shown, even inside collapsed nodes.
+ *
+ * Collapsed nodes are tracked per template by useCollapsedNodes; the header's "Expand all" /
+ * "Collapse all" buttons apply to the whole tree. Whether nodes show their value, their label
+ * or both is also chosen per template, from the header (see useLabelDisplay).
+ *
+ * The visible tree is flattened into rows (flattenTree) and rendered through a VirtualList, so
+ * only the rows in view are mounted however large the template is. The active node's row and
+ * the row being dragged stay mounted while scrolled away, and the list scrolls to the active
+ * node when it changes (e.g. when stepping through search matches).
+ *
+ * Port values are validated as they change (see checkPorts): invalid and conflicting ports are
+ * flagged on their input, and a panel lists the conflicts, among siblings or across the whole
+ * template. Picking a port in the panel reveals its node (expanding its ancestors and clearing a
+ * search that hides it), makes it active and focuses it.
+ *
+ * Deleting a node that has children asks for confirmation first, telling how many descendants
+ * go with it; leaves are deleted right away (deletions can be undone).
+ *
+ * Read-only locks (see treeLocks) are worked out for the whole tree whenever it changes and
+ * passed to each row, which disables what they forbid; usePortTemplate enforces the same rules.
+ *
+ * The rows form a WAI-ARIA tree with a roving tabindex: the active node's row (or the first
+ * row) is the tree's tab stop, and the arrow keys, Home and End move focus between rows, expand
+ * and collapse nodes (see navigateTree). The active node follows focus.
+ *
+ * When the template is saved in another tab while this one has unsaved changes, a banner offers
+ * to reload their version, keep this one or show the differences (see SyncConflictBanner).
+ *
+ * @param props.templateId - Id of the library template to edit; the legacy single slot is used when omitted.
+ * @param props.onBack - Callback invoked when the header's Back button is clicked.
  *
  * @returns JSX.Element
  */
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { DragEvent, KeyboardEvent as ReactKeyboardEvent } from "react";
+import type { TreeNodeType } from "../../types/TreeNode";
 import { TreeNode } from "./TreeNode";
 import { PortTemplateHeader } from "./PortTemplateHeader";
+import { PortConflicts } from "./PortConflicts";
+import { SyncConflictBanner } from "./SyncConflictBanner";
 import { usePortTemplate } from "../../hooks/usePortTemplate";
+import { useCollapsedNodes } from "../../hooks/useCollapsedNodes";
+import { useLabelDisplay } from "../../hooks/useLabelDisplay";
+import { useAutosaveSetting } from "../../hooks/useAutosaveSetting";
+import { useToast } from "../../hooks/useToast";
+import { collectIds, readTreeFile } from "../../utils/treeTransfer";
+import type { ExportFormat } from "../../utils/treeTransfer";
+import { EMPTY_SEARCH, searchTree, stepMatch } from "../../utils/treeSearch";
+import type { SearchQuery } from "../../utils/treeSearch";
+import { flattenTree } from "../../utils/treeRows";
+import { navigateTree } from "../../utils/treeNavigation";
+import { checkPorts } from "../../utils/portValidation";
+import { collectLocks, lockOf } from "../../utils/treeLocks";
+import type {
+  ConflictScope,
+  ConflictingPort,
+} from "../../utils/portValidation";
+import { Button } from "../ui/Buton";
+import { ConfirmDialog } from "../ui/ConfirmDialog";
+import { VirtualList } from "../ui/VirtualList";
+
+const NO_COLLAPSED_IDS = new Set<string>();
+// Typical height of a tree row; rows are measured once they are rendered
+const ESTIMATED_ROW_HEIGHT = 42;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+interface PendingImport {
+  fileName: string;
+  nodes: TreeNodeType[];
+}
+
+interface PendingDelete {
+  node: TreeNodeType;
+  descendantCount: number;
+}
 
-export function PortTemplate() {
+export interface PortTemplateProps {
+  templateId?: string;
+  onBack?: () => void;
+}
+
+export function PortTemplate({ templateId, onBack }: PortTemplateProps = {}) {
+  const { autosave, setAutosave } = useAutosaveSetting();
   const {
     addNode,
+    addRoot,
+    addSibling,
+    duplicateNode,
     deleteNode,
     updateNode,
+    moveNode,
+    indentNode,
+    outdentNode,
+    copyNode,
+    cutNode,
+    pasteNodes,
+    importTree,
+    exportTree,
     handleSave,
     clearStorage,
     activeNodeId,
     setActiveNodeId,
     tree,
-    setTree,
-  } = usePortTemplate();
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    isDirty,
+    lastSavedAt,
+    syncConflict,
+    reloadTheirs,
+    keepMine,
+    trash,
+    restoreTrash,
+  } = usePortTemplate(templateId, { autosave });
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(
+    null
+  );
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(
+    null
+  );
+  const { collapsedIds, toggleCollapsed, collapseAll, expandAll, expandNodes } =
+    useCollapsedNodes(templateId);
+  const { labelDisplay, setLabelDisplay } = useLabelDisplay(templateId);
+  const { notify } = useToast();
+  const [search, setSearch] = useState<SearchQuery>(EMPTY_SEARCH);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [conflictScope, setConflictScope] = useState<ConflictScope>("template");
+  // Each pass walks the whole tree, so it only runs again when the tree or its own inputs change
+  const portCheck = useMemo(
+    () => checkPorts(tree, conflictScope),
+    [tree, conflictScope]
+  );
+  const locks = useMemo(() => collectLocks(tree), [tree]);
+  const searchResult = useMemo(() => searchTree(tree, search), [tree, search]);
+  const { visibleIds } = searchResult;
+  // While searching, every matching branch is shown, even inside collapsed nodes
+  const rows = useMemo(
+    () =>
+      flattenTree(tree, {
+        collapsedIds: visibleIds ? NO_COLLAPSED_IDS : collapsedIds,
+        visibleIds,
+      }),
+    [tree, visibleIds, collapsedIds]
+  );
+  const activeIndex = rows.findIndex((row) => row.node.id === activeNodeId);
+  const draggedIndex = rows.findIndex((row) => row.node.id === draggedId);
+  const tabStopIndex = activeIndex === -1 ? 0 : activeIndex;
+  const treeRef = useRef<HTMLDivElement>(null);
+  // Row to focus once keyboard navigation has made it active (and it is rendered)
+  const pendingFocusId = useRef<string | null>(null);
+
+  const handleExport = (format: ExportFormat) => {
+    try {
+      exportTree(format);
+    } catch (error) {
+      notify(`Could not export: ${errorMessage(error)}`, { level: "error" });
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const nodes = await readTreeFile(file);
+      setPendingImport({ fileName: file.name, nodes });
+    } catch (error) {
+      setPendingImport(null);
+      notify(`Could not import ${file.name}: ${errorMessage(error)}`, {
+        level: "error",
+      });
+    }
+  };
+
+  const runClipboardAction = async (
+    action: string,
+    run: () => Promise<void>
+  ) => {
+    try {
+      await run();
+    } catch (error) {
+      notify(`Could not ${action}: ${errorMessage(error)}`, { level: "error" });
+    }
+  };
+
+  const handleCopy = (nodeId: string) =>
+    runClipboardAction("copy", () => copyNode(nodeId));
+  const handleCut = (nodeId: string) =>
+    runClipboardAction("cut", () => cutNode(nodeId));
+  const handlePaste = (nodeId: string | null, position: "child" | "sibling") =>
+    runClipboardAction("paste", () => pasteNodes(nodeId, position));
+
+  const handleDelete = (nodeId: string) => {
+    const node = rows.find((row) => row.node.id === nodeId)?.node;
+    if (!node || node.children.length === 0) {
+      deleteNode(nodeId);
+      return;
+    }
+    setPendingDelete({ node, descendantCount: collectIds(node.children).size });
+  };
+
+  const confirmDelete = () => {
+    if (pendingDelete) deleteNode(pendingDelete.node.id);
+    setPendingDelete(null);
+  };
+
+  const confirmImport = (mode: "replace" | "append") => {
+    if (pendingImport) importTree(pendingImport.nodes, mode);
+    setPendingImport(null);
+  };
+
+  const handleTreeKeyDown = (e: ReactKeyboardEvent<HTMLDivElement>) => {
+    // Keys pressed in a row's input or buttons are theirs
+    const target = e.target as HTMLElement;
+    if (target.getAttribute("role") !== "treeitem") return;
+    const navigation = navigateTree(rows, target.dataset.nodeId ?? null, e.key);
+    if (!navigation) return;
+    e.preventDefault();
+    if (navigation.type === "toggle") {
+      toggleCollapsed(navigation.nodeId);
+    } else {
+      pendingFocusId.current = navigation.nodeId;
+      setActiveNodeId(navigation.nodeId);
+    }
+  };
+
+  const showPort = (port: ConflictingPort) => {
+    if (visibleIds && !visibleIds.has(port.nodeId)) setSearch(EMPTY_SEARCH);
+    expandNodes(port.ancestorIds);
+    pendingFocusId.current = port.nodeId;
+    setActiveNodeId(port.nodeId);
+  };
+
+  useEffect(() => {
+    const nodeId = pendingFocusId.current;
+    if (nodeId === null || nodeId !== activeNodeId) return;
+    pendingFocusId.current = null;
+    treeRef.current
+      ?.querySelectorAll<HTMLElement>('[role="treeitem"]')
+      .forEach((item) => {
+        if (item.dataset.nodeId === nodeId) item.focus();
+      });
+  }, [activeNodeId]);
+
+  const isFileDrag = (e: DragEvent<HTMLDivElement>) =>
+    e.dataTransfer.types.includes("Files");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      // Other fields (search box, template name, ...) keep their native text undo
+      const inTree =
+        e.target instanceof Node && treeRef.current?.contains(e.target);
+      if (isEditable(e.target) && !inTree) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
 
   return (
-    <div className="p-6 max-w-[700px] mx-auto">
+    <div
+      className="p-6 max-w-[700px] mx-auto"
+      onDragOver={(e) => {
+        if (isFileDrag(e)) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        const file = e.dataTransfer.files[0];
+        if (file) handleImportFile(file);
+      }}
+    >
       <PortTemplateHeader
         tree={tree}
-        setTree={setTree}
-        setActiveNodeId={setActiveNodeId}
+        onAddRoot={addRoot}
         handleSave={handleSave}
+        isDirty={isDirty}
+        lastSavedAt={lastSavedAt}
+        autosave={autosave}
+        onAutosaveChange={setAutosave}
         clearStorage={clearStorage}
+        trash={trash}
+        onRestoreTrash={restoreTrash}
+        undo={undo}
+        redo={redo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        onBack={onBack}
+        onExport={handleExport}
+        onImportFile={handleImportFile}
+        onPaste={() => handlePaste(null, "sibling")}
+        onExpandAll={expandAll}
+        onCollapseAll={() => collapseAll(tree)}
+        labelDisplay={labelDisplay}
+        onLabelDisplayChange={setLabelDisplay}
+        search={search}
+        onSearchChange={setSearch}
+        matchCount={searchResult.matchIds.length}
+        matchIndex={
+          activeNodeId === null
+            ? -1
+            : searchResult.matchIds.indexOf(activeNodeId)
+        }
+        searchError={searchResult.error}
+        onStepMatch={(direction) => {
+          const next = stepMatch(
+            searchResult.matchIds,
+            activeNodeId,
+            direction
+          );
+          if (next) setActiveNodeId(next);
+        }}
       />
-      <div>
-        {tree.map((node, idx) => (
-          <TreeNode
-            key={node.id}
-            node={node}
-            onAdd={addNode}
-            onDelete={deleteNode}
-            onUpdate={updateNode}
-            activeNodeId={activeNodeId}
-            setActiveNodeId={setActiveNodeId}
-            treeLength={tree.length}
-            isLast={idx === tree.length - 1}
-          />
-        ))}
+      {syncConflict ? (
+        <SyncConflictBanner
+          conflict={syncConflict}
+          tree={tree}
+          onReloadTheirs={reloadTheirs}
+          onKeepMine={keepMine}
+        />
+      ) : null}
+      {pendingImport ? (
+        <div className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+          <span>
+            Import {pendingImport.nodes.length} root node(s) from{" "}
+            {pendingImport.fileName}?
+          </span>
+          <Button variant="primary" onClick={() => confirmImport("replace")}>
+            Replace tree
+          </Button>
+          <Button variant="secondary" onClick={() => confirmImport("append")}>
+            Append roots
+          </Button>
+          <Button variant="ghost" onClick={() => setPendingImport(null)}>
+            Cancel
+          </Button>
+        </div>
+      ) : null}
+      {portCheck.portCount > 0 ? (
+        <PortConflicts
+          conflicts={portCheck.conflicts}
+          scope={conflictScope}
+          onScopeChange={setConflictScope}
+          onSelect={showPort}
+        />
+      ) : null}
+      <div
+        ref={treeRef}
+        role="tree"
+        aria-label="Port template"
+        onKeyDown={handleTreeKeyDown}
+      >
+        <VirtualList
+          className="max-h-[70vh]"
+          itemCount={rows.length}
+          estimatedItemHeight={ESTIMATED_ROW_HEIGHT}
+          getItemKey={(idx) => rows[idx].node.id}
+          pinnedIndices={[tabStopIndex, draggedIndex]}
+          scrollToIndex={activeIndex}
+          renderItem={(idx) => (
+            <TreeNode
+              {...rows[idx]}
+              onAdd={addNode}
+              onDelete={handleDelete}
+              onUpdate={updateNode}
+              onAddSibling={addSibling}
+              onDuplicate={duplicateNode}
+              onIndent={indentNode}
+              onOutdent={outdentNode}
+              onCopy={handleCopy}
+              onCut={handleCut}
+              onPaste={handlePaste}
+              onMove={moveNode}
+              activeNodeId={activeNodeId}
+              setActiveNodeId={setActiveNodeId}
+              isTabStop={idx === tabStopIndex}
+              labelDisplay={labelDisplay}
+              lock={lockOf(locks, rows[idx].node.id)}
+              parentLock={lockOf(locks, rows[idx].parentId)}
+              indentLock={lockOf(locks, rows[idx].previousId)}
+              outdentLock={lockOf(
+                locks,
+                rows[idx].ancestorIds[rows[idx].depth - 2] ?? null
+              )}
+              deleteBlocker={locks.undeletable.get(rows[idx].node.id) ?? null}
+              valueError={portCheck.errors.get(rows[idx].node.id) ?? null}
+              searchPattern={searchResult.pattern}
+              draggedId={draggedId}
+              onDragChange={setDraggedId}
+              onToggleCollapsed={toggleCollapsed}
+            />
+          )}
+        />
       </div>
+      {pendingDelete ? (
+        <ConfirmDialog
+          title={`Delete "${pendingDelete.node.label || "unnamed node"}"?`}
+          confirmLabel="Delete"
+          onConfirm={confirmDelete}
+          onCancel={() => setPendingDelete(null)}
+        >
+          {`Its ${pendingDelete.descendantCount} descendant node(s) will be deleted with it.`}
+        </ConfirmDialog>
+      ) : null}
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, within } from "@testing-library/react";
 import { PortTemplateHeader } from "./PortTemplateHeader";
 import type { TreeNodeType } from "../../types/TreeNode";
 import "@testing-library/jest-dom";
@@ -19,10 +19,33 @@ describe("PortTemplateHeader", () => {
 
   const defaultProps = {
     tree: mockTree,
-    setTree: jest.fn(),
-    setActiveNodeId: jest.fn(),
+    onAddRoot: jest.fn(),
     handleSave: jest.fn(),
+    isDirty: false,
+    lastSavedAt: null,
+    autosave: true,
+    onAutosaveChange: jest.fn(),
     clearStorage: jest.fn(),
+    trash: null,
+    onRestoreTrash: jest.fn(),
+    undo: jest.fn(),
+    redo: jest.fn(),
+    canUndo: true,
+    canRedo: true,
+    onBack: jest.fn(),
+    onExport: jest.fn(),
+    onImportFile: jest.fn(),
+    onPaste: jest.fn(),
+    search: { text: "", caseSensitive: false, regex: false },
+    onSearchChange: jest.fn(),
+    matchCount: 0,
+    matchIndex: -1,
+    searchError: null,
+    onStepMatch: jest.fn(),
+    onExpandAll: jest.fn(),
+    onCollapseAll: jest.fn(),
+    labelDisplay: "both" as const,
+    onLabelDisplayChange: jest.fn(),
   };
 
   beforeEach(() => {
@@ -51,70 +74,13 @@ describe("PortTemplateHeader", () => {
   });
 
   describe("Add button functionality", () => {
-    it("calls setActiveNodeId and setTree when add button is clicked", () => {
+    it("calls onAddRoot when add button is clicked", () => {
       render(<PortTemplateHeader {...defaultProps} />);
 
       const addButton = screen.getByText("+");
       fireEvent.click(addButton);
 
-      expect(defaultProps.setActiveNodeId).toHaveBeenCalledWith(
-        "mock-uuid-1234"
-      );
-      expect(defaultProps.setTree).toHaveBeenCalledWith([
-        ...mockTree,
-        {
-          id: "mock-uuid-1234",
-          value: "",
-          label: "root",
-          children: [],
-        },
-      ]);
-    });
-
-    it("adds new node with correct structure", () => {
-      render(<PortTemplateHeader {...defaultProps} />);
-
-      const addButton = screen.getByText("+");
-      fireEvent.click(addButton);
-
-      const expectedNewTree = [
-        ...mockTree,
-        {
-          id: "mock-uuid-1234",
-          value: "",
-          label: "root",
-          children: [],
-        },
-      ];
-
-      expect(defaultProps.setTree).toHaveBeenCalledWith(expectedNewTree);
-    });
-
-    it("preserves existing tree when adding new node", () => {
-      const multiNodeTree = [
-        ...mockTree,
-        {
-          id: "2",
-          value: "second value",
-          label: "Second Node",
-          children: [],
-        },
-      ];
-
-      render(<PortTemplateHeader {...defaultProps} tree={multiNodeTree} />);
-
-      const addButton = screen.getByText("+");
-      fireEvent.click(addButton);
-
-      expect(defaultProps.setTree).toHaveBeenCalledWith([
-        ...multiNodeTree,
-        {
-          id: "mock-uuid-1234",
-          value: "",
-          label: "root",
-          children: [],
-        },
-      ]);
+      expect(defaultProps.onAddRoot).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -128,26 +94,376 @@ describe("PortTemplateHeader", () => {
       expect(defaultProps.handleSave).toHaveBeenCalledTimes(1);
     });
 
-    it("calls clearStorage when Clear Storage button is clicked", () => {
+    it("calls clearStorage once Clear Storage is confirmed", () => {
       render(<PortTemplateHeader {...defaultProps} />);
 
       const clearButton = screen.getByText("Clear Storage");
       fireEvent.click(clearButton);
+      expect(defaultProps.clearStorage).not.toHaveBeenCalled();
+
+      fireEvent.click(
+        within(screen.getByRole("dialog")).getByRole("button", {
+          name: "Clear",
+        })
+      );
 
       expect(defaultProps.clearStorage).toHaveBeenCalledTimes(1);
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
     });
 
-    it("does not call any handlers when Back button is clicked", () => {
+    it("calls only onBack when Back button is clicked", () => {
       render(<PortTemplateHeader {...defaultProps} />);
 
       const backButton = screen.getByText("Back");
       fireEvent.click(backButton);
 
-      // Back button doesn't have onClick handler in current implementation
+      expect(defaultProps.onBack).toHaveBeenCalledTimes(1);
       expect(defaultProps.handleSave).not.toHaveBeenCalled();
       expect(defaultProps.clearStorage).not.toHaveBeenCalled();
-      expect(defaultProps.setTree).not.toHaveBeenCalled();
-      expect(defaultProps.setActiveNodeId).not.toHaveBeenCalled();
+      expect(defaultProps.onAddRoot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Clear confirmation and trash", () => {
+    const nestedTree: TreeNodeType[] = [
+      {
+        id: "1",
+        value: "",
+        label: "root",
+        children: [
+          { id: "2", value: "80", label: "http", children: [] },
+          { id: "3", value: "443", label: "https", children: [] },
+        ],
+      },
+    ];
+
+    it("tells how many nodes will be cleared", () => {
+      render(<PortTemplateHeader {...defaultProps} tree={nestedTree} />);
+
+      fireEvent.click(screen.getByText("Clear Storage"));
+
+      const dialog = screen.getByRole("dialog", {
+        name: "Clear this template?",
+      });
+      expect(dialog).toHaveAccessibleDescription(
+        "All 3 node(s) will be removed. Until the next clear, they can be restored from the trash."
+      );
+      expect(
+        within(dialog).getByRole("button", { name: "Cancel" })
+      ).toHaveFocus();
+    });
+
+    it("does not clear when the dialog is cancelled", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      fireEvent.click(screen.getByText("Clear Storage"));
+      fireEvent.click(screen.getByRole("button", { name: "Cancel" }));
+
+      fireEvent.click(screen.getByText("Clear Storage"));
+      fireEvent.keyDown(screen.getByRole("dialog"), { key: "Escape" });
+
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+      expect(defaultProps.clearStorage).not.toHaveBeenCalled();
+    });
+
+    it("only offers Restore when the trash holds a tree", () => {
+      const { rerender } = render(<PortTemplateHeader {...defaultProps} />);
+      expect(screen.queryByText("Restore")).not.toBeInTheDocument();
+
+      rerender(
+        <PortTemplateHeader
+          {...defaultProps}
+          trash={{ tree: nestedTree, clearedAt: new Date(2025, 0, 2, 9, 5) }}
+        />
+      );
+      const restoreButton = screen.getByText("Restore");
+      expect(restoreButton).toHaveAttribute(
+        "title",
+        "Restore the tree cleared at 09:05"
+      );
+
+      fireEvent.click(restoreButton);
+      expect(defaultProps.onRestoreTrash).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Undo/Redo buttons", () => {
+    it("calls undo and redo when clicked", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      fireEvent.click(screen.getByText("Undo"));
+      fireEvent.click(screen.getByText("Redo"));
+
+      expect(defaultProps.undo).toHaveBeenCalledTimes(1);
+      expect(defaultProps.redo).toHaveBeenCalledTimes(1);
+    });
+
+    it("disables the buttons when there is nothing to undo or redo", () => {
+      render(
+        <PortTemplateHeader {...defaultProps} canUndo={false} canRedo={false} />
+      );
+
+      expect(screen.getByText("Undo")).toBeDisabled();
+      expect(screen.getByText("Redo")).toBeDisabled();
+
+      fireEvent.click(screen.getByText("Undo"));
+      expect(defaultProps.undo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Save status", () => {
+    it("shows nothing before the first save", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      expect(screen.getByTestId("save-status")).toBeEmptyDOMElement();
+    });
+
+    it("shows when the template was last saved", () => {
+      render(
+        <PortTemplateHeader
+          {...defaultProps}
+          lastSavedAt={new Date(2025, 0, 2, 9, 5)}
+        />
+      );
+
+      expect(screen.getByTestId("save-status")).toHaveTextContent(
+        "Saved at 09:05"
+      );
+    });
+
+    it("flags unsaved changes", () => {
+      render(
+        <PortTemplateHeader
+          {...defaultProps}
+          isDirty={true}
+          lastSavedAt={new Date(2025, 0, 2, 9, 5)}
+        />
+      );
+
+      expect(screen.getByTestId("save-status")).toHaveTextContent(
+        "Unsaved changes"
+      );
+    });
+
+    it("turns autosave on and off", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      const checkbox = screen.getByLabelText("Autosave");
+      expect(checkbox).toBeChecked();
+
+      fireEvent.click(checkbox);
+
+      expect(defaultProps.onAutosaveChange).toHaveBeenCalledWith(false);
+    });
+  });
+
+  describe("Expand/Collapse buttons", () => {
+    it("calls onExpandAll and onCollapseAll", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      fireEvent.click(screen.getByText("Expand all"));
+      fireEvent.click(screen.getByText("Collapse all"));
+
+      expect(defaultProps.onExpandAll).toHaveBeenCalledTimes(1);
+      expect(defaultProps.onCollapseAll).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Node display", () => {
+    it("shows the current display mode", () => {
+      render(<PortTemplateHeader {...defaultProps} labelDisplay="label" />);
+
+      expect(screen.getByLabelText("Node display")).toHaveValue("label");
+    });
+
+    it("calls onLabelDisplayChange with the picked mode", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText("Node display"), {
+        target: { value: "value" },
+      });
+
+      expect(defaultProps.onLabelDisplayChange).toHaveBeenCalledWith("value");
+    });
+  });
+
+  describe("Export/Import buttons", () => {
+    it("calls onExport when Export is clicked", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      fireEvent.click(screen.getByText("Export"));
+
+      expect(defaultProps.onExport).toHaveBeenCalledTimes(1);
+      expect(defaultProps.onExport).toHaveBeenCalledWith("json");
+    });
+
+    it("exports in the selected format", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText("Export format"), {
+        target: { value: "yaml-compact" },
+      });
+      fireEvent.click(screen.getByText("Export"));
+
+      expect(defaultProps.onExport).toHaveBeenCalledWith("yaml-compact");
+    });
+
+    it("offers JSON and both YAML forms", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      const options = within(screen.getByLabelText("Export format"))
+        .getAllByRole("option")
+        .map((o) => o.textContent);
+
+      expect(options).toEqual(["JSON", "YAML", "YAML (compact)"]);
+    });
+
+    it("accepts JSON and YAML files", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      const accept = screen
+        .getByTestId("import-file-input")
+        .getAttribute("accept");
+
+      expect(accept).toContain(".json");
+      expect(accept).toContain(".yaml");
+      expect(accept).toContain(".yml");
+    });
+
+    it("calls onPaste when Paste is clicked", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      fireEvent.click(screen.getByText("Paste"));
+
+      expect(defaultProps.onPaste).toHaveBeenCalledTimes(1);
+    });
+
+    it("opens the file picker when Import is clicked", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+      const input = screen.getByTestId("import-file-input");
+      const clickSpy = jest.spyOn(input, "click");
+
+      fireEvent.click(screen.getByText("Import"));
+
+      expect(clickSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("passes the picked file to onImportFile", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+      const file = new File(["[]"], "tree.json", { type: "application/json" });
+
+      fireEvent.change(screen.getByTestId("import-file-input"), {
+        target: { files: [file] },
+      });
+
+      expect(defaultProps.onImportFile).toHaveBeenCalledWith(file);
+    });
+
+    it("ignores an empty file selection", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      fireEvent.change(screen.getByTestId("import-file-input"), {
+        target: { files: [] },
+      });
+
+      expect(defaultProps.onImportFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Search", () => {
+    const activeSearch = { text: "web", caseSensitive: false, regex: false };
+
+    it("reports typed queries through onSearchChange", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText("Search nodes"), {
+        target: { value: "http" },
+      });
+
+      expect(defaultProps.onSearchChange).toHaveBeenCalledWith({
+        text: "http",
+        caseSensitive: false,
+        regex: false,
+      });
+    });
+
+    it("toggles case sensitivity and regex mode", () => {
+      render(<PortTemplateHeader {...defaultProps} search={activeSearch} />);
+
+      fireEvent.click(screen.getByLabelText("Match case"));
+      fireEvent.click(screen.getByLabelText("Regex"));
+
+      expect(defaultProps.onSearchChange).toHaveBeenNthCalledWith(1, {
+        ...activeSearch,
+        caseSensitive: true,
+      });
+      expect(defaultProps.onSearchChange).toHaveBeenNthCalledWith(2, {
+        ...activeSearch,
+        regex: true,
+      });
+    });
+
+    it("steps through matches with Enter and Shift+Enter", () => {
+      render(<PortTemplateHeader {...defaultProps} search={activeSearch} />);
+      const input = screen.getByLabelText("Search nodes");
+
+      fireEvent.keyDown(input, { key: "Enter" });
+      fireEvent.keyDown(input, { key: "Enter", shiftKey: true });
+      fireEvent.keyDown(input, { key: "a" });
+
+      expect(defaultProps.onStepMatch).toHaveBeenNthCalledWith(1, 1);
+      expect(defaultProps.onStepMatch).toHaveBeenNthCalledWith(2, -1);
+      expect(defaultProps.onStepMatch).toHaveBeenCalledTimes(2);
+    });
+
+    it("shows the match position", () => {
+      const { rerender } = render(
+        <PortTemplateHeader
+          {...defaultProps}
+          search={activeSearch}
+          matchCount={3}
+          matchIndex={1}
+        />
+      );
+
+      expect(screen.getByTestId("search-status")).toHaveTextContent("2 of 3");
+
+      rerender(
+        <PortTemplateHeader
+          {...defaultProps}
+          search={activeSearch}
+          matchCount={3}
+          matchIndex={-1}
+        />
+      );
+      expect(screen.getByTestId("search-status")).toHaveTextContent(
+        "3 matches"
+      );
+
+      rerender(<PortTemplateHeader {...defaultProps} search={activeSearch} />);
+      expect(screen.getByTestId("search-status")).toHaveTextContent(
+        "No matches"
+      );
+    });
+
+    it("shows regex errors", () => {
+      render(
+        <PortTemplateHeader
+          {...defaultProps}
+          search={{ text: "(", caseSensitive: false, regex: true }}
+          searchError="Unterminated group"
+        />
+      );
+
+      expect(screen.getByTestId("search-status")).toHaveTextContent(
+        "Invalid regex: Unterminated group"
+      );
+    });
+
+    it("shows no status without a query", () => {
+      render(<PortTemplateHeader {...defaultProps} />);
+
+      expect(screen.getByTestId("search-status")).toBeEmptyDOMElement();
     });
   });
 
@@ -185,14 +501,7 @@ describe("PortTemplateHeader", () => {
       const addButton = screen.getByText("+");
       fireEvent.click(addButton);
 
-      expect(defaultProps.setTree).toHaveBeenCalledWith([
-        {
-          id: "mock-uuid-1234",
-          value: "",
-          label: "root",
-          children: [],
-        },
-      ]);
+      expect(defaultProps.onAddRoot).toHaveBeenCalledTimes(1);
     });
 
     it("handles multiple rapid clicks on add button", () => {
@@ -205,46 +514,7 @@ describe("PortTemplateHeader", () => {
       fireEvent.click(addButton);
       fireEvent.click(addButton);
 
-      expect(defaultProps.setActiveNodeId).toHaveBeenCalledTimes(3);
-      expect(defaultProps.setTree).toHaveBeenCalledTimes(3);
-    });
-
-    it("handles tree with nested children", () => {
-      const complexTree: TreeNodeType[] = [
-        {
-          id: "1",
-          value: "parent",
-          label: "Parent",
-          children: [
-            {
-              id: "2",
-              value: "child",
-              label: "Child",
-              children: [],
-            },
-          ],
-        },
-      ];
-
-      const complexProps = {
-        ...defaultProps,
-        tree: complexTree,
-      };
-
-      render(<PortTemplateHeader {...complexProps} />);
-
-      const addButton = screen.getByText("+");
-      fireEvent.click(addButton);
-
-      expect(defaultProps.setTree).toHaveBeenCalledWith([
-        ...complexTree,
-        {
-          id: "mock-uuid-1234",
-          value: "",
-          label: "root",
-          children: [],
-        },
-      ]);
+      expect(defaultProps.onAddRoot).toHaveBeenCalledTimes(3);
     });
   });
 
@@ -253,7 +523,7 @@ describe("PortTemplateHeader", () => {
       render(<PortTemplateHeader {...defaultProps} />);
 
       const buttons = screen.getAllByRole("button");
-      expect(buttons).toHaveLength(4);
+      expect(buttons).toHaveLength(11);
 
       // All buttons should be keyboard accessible
       buttons.forEach((button) => {
@@ -282,10 +552,32 @@ describe("PortTemplateHeader", () => {
       // This test ensures TypeScript catches missing props
       const requiredProps = {
         tree: mockTree,
-        setTree: jest.fn(),
-        setActiveNodeId: jest.fn(),
+        onAddRoot: jest.fn(),
         handleSave: jest.fn(),
+        isDirty: false,
+        lastSavedAt: null,
+        autosave: false,
+        onAutosaveChange: jest.fn(),
         clearStorage: jest.fn(),
+        trash: null,
+        onRestoreTrash: jest.fn(),
+        undo: jest.fn(),
+        redo: jest.fn(),
+        canUndo: false,
+        canRedo: false,
+        onExport: jest.fn(),
+        onImportFile: jest.fn(),
+        onPaste: jest.fn(),
+        search: { text: "", caseSensitive: false, regex: false },
+        onSearchChange: jest.fn(),
+        matchCount: 0,
+        matchIndex: -1,
+        searchError: null,
+        onStepMatch: jest.fn(),
+        onExpandAll: jest.fn(),
+        onCollapseAll: jest.fn(),
+        labelDisplay: "value" as const,
+        onLabelDisplayChange: jest.fn(),
       };
 
       expect(() =>
@@ -299,13 +591,8 @@ describe("PortTemplateHeader", () => {
       const addButton = screen.getByText("+");
       fireEvent.click(addButton);
 
-      // Verify setActiveNodeId is called with string
-      expect(defaultProps.setActiveNodeId).toHaveBeenCalledWith(
-        expect.any(String)
-      );
-
-      // Verify setTree is called with array
-      expect(defaultProps.setTree).toHaveBeenCalledWith(expect.any(Array));
+      // onAddRoot takes no arguments; the hook creates the node
+      expect(defaultProps.onAddRoot).toHaveBeenCalledWith();
     });
   });
 });
@@ -1,60 +1,315 @@
 /**
  * Header component for the port template editor.
  *
- * Renders controls for adding a new root node, navigating back, saving the template,
- * and clearing persisted storage. The "add" action generates a new UUID, appends a
- * root node to the provided tree, and sets the new node as the active node.
+ * Renders controls for adding a new root node, undoing/redoing tree edits, expanding or
+ * collapsing every node, choosing what the nodes display, navigating back, exporting/importing
+ * the tree as a file, pasting a copied subtree at the root, saving the template (and turning
+ * autosave on or off), and clearing persisted storage. Next to Save, a status tells whether
+ * there are unsaved changes or when the template was last saved. Clearing asks for confirmation
+ * first; once a tree has been cleared, a Restore button brings it back from the trash. A search
+ * row below the buttons filters the tree by node label and value. The "add" button asks for a
+ * new, empty root node (see usePortTemplate's addRoot).
  *
  * @param props - Component props
  * @param props.tree - The current tree of nodes representing the port template.
- * @param props.setTree - Function to update the tree state.
- * @param props.setActiveNodeId - Function to set the currently active node ID (or null to clear).
+ * @param props.onAddRoot - Callback invoked when the "+" button is clicked.
  * @param props.handleSave - Callback invoked when the Save button is clicked.
- * @param props.clearStorage - Callback invoked when the Clear Storage button is clicked.
+ * @param props.isDirty - Whether the tree has changes that are not saved yet.
+ * @param props.lastSavedAt - When the tree was last saved, or null when unknown.
+ * @param props.autosave - Whether the tree is saved automatically after edits.
+ * @param props.onAutosaveChange - Callback invoked with the new state of the Autosave checkbox.
+ * @param props.clearStorage - Callback invoked once clearing has been confirmed in the dialog opened by the Clear Storage button.
+ * @param props.trash - The last cleared tree and when it was cleared, or null when the trash is empty.
+ * @param props.onRestoreTrash - Callback invoked when the Restore button is clicked.
+ * @param props.undo - Callback invoked when the Undo button is clicked.
+ * @param props.redo - Callback invoked when the Redo button is clicked.
+ * @param props.canUndo - Whether there is an edit to undo; disables the Undo button otherwise.
+ * @param props.canRedo - Whether there is an edit to redo; disables the Redo button otherwise.
+ * @param props.onExpandAll - Callback invoked when the "Expand all" button is clicked.
+ * @param props.onCollapseAll - Callback invoked when the "Collapse all" button is clicked.
+ * @param props.labelDisplay - What the nodes currently display (value, label or "label: value").
+ * @param props.onLabelDisplayChange - Callback invoked with the display mode picked in the select.
+ * @param props.onBack - Callback invoked when the Back button is clicked (navigates to the template list).
+ * @param props.onExport - Callback invoked with the selected format (JSON, YAML or compact YAML) when the Export button is clicked.
+ * @param props.onPaste - Callback invoked when the Paste button is clicked (pastes the clipboard's subtree as new root nodes).
+ * @param props.onImportFile - Callback invoked with the JSON or YAML file picked after clicking the Import button.
+ * @param props.search - Current search query and its case-sensitivity / regex options.
+ * @param props.onSearchChange - Callback invoked with the updated query when the search box or an option changes.
+ * @param props.matchCount - Number of nodes matching the search.
+ * @param props.matchIndex - Position of the active node among the matches, or -1 when it is not a match.
+ * @param props.searchError - Message shown instead of the match count when the query is an invalid regex.
+ * @param props.onStepMatch - Callback invoked with 1 (Enter) or -1 (Shift+Enter) to move to the next / previous match.
  *
  * @remarks
  * - The UI groups action buttons on the right and uses a dashed variant for the "add" button.
- * - New nodes are created with an empty value and label "root".
+ * - Import opens a hidden file input; the input is reset afterwards so the same file can be picked again.
+ * - Searches are case-insensitive literal matches unless "Match case" / "Regex" are checked.
  *
  * @returns A JSX element containing the header and its action buttons.
  */
+import { useRef, useState } from "react";
 import type { TreeNodeType } from "../../types/TreeNode";
+import { EXPORT_FORMATS, collectIds } from "../../utils/treeTransfer";
+import type { ExportFormat } from "../../utils/treeTransfer";
+import type { SearchQuery } from "../../utils/treeSearch";
+import { LABEL_DISPLAYS } from "../../utils/templateLibrary";
+import type { LabelDisplay } from "../../utils/templateLibrary";
+import type { TrashedTree } from "../../hooks/usePortTemplate";
+import { formatTime } from "../../utils/time";
 import { Button } from "../ui/Buton";
-import { v4 as uuidv4 } from "uuid";
+import { ConfirmDialog } from "../ui/ConfirmDialog";
 
 export interface PortTemplateHeaderProps {
   tree: TreeNodeType[];
-  setTree: (tree: TreeNodeType[]) => void;
-  setActiveNodeId: (id: string | null) => void;
+  onAddRoot: () => void;
   handleSave: () => void;
+  isDirty: boolean;
+  lastSavedAt: Date | null;
+  autosave: boolean;
+  onAutosaveChange: (autosave: boolean) => void;
   clearStorage: () => void;
+  trash: TrashedTree | null;
+  onRestoreTrash: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onExpandAll: () => void;
+  onCollapseAll: () => void;
+  labelDisplay: LabelDisplay;
+  onLabelDisplayChange: (labelDisplay: LabelDisplay) => void;
+  onBack?: () => void;
+  onExport: (format: ExportFormat) => void;
+  onImportFile: (file: File) => void;
+  onPaste: () => void;
+  search: SearchQuery;
+  onSearchChange: (search: SearchQuery) => void;
+  matchCount: number;
+  matchIndex: number;
+  searchError: string | null;
+  onStepMatch: (direction: 1 | -1) => void;
 }
 
 export function PortTemplateHeader({
   tree,
-  setTree,
-  setActiveNodeId,
+  onAddRoot,
   handleSave,
+  isDirty,
+  lastSavedAt,
+  autosave,
+  onAutosaveChange,
   clearStorage,
+  trash,
+  onRestoreTrash,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+  onExpandAll,
+  onCollapseAll,
+  labelDisplay,
+  onLabelDisplayChange,
+  onBack,
+  onExport,
+  onImportFile,
+  onPaste,
+  search,
+  onSearchChange,
+  matchCount,
+  matchIndex,
+  searchError,
+  onStepMatch,
 }: PortTemplateHeaderProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("json");
+  const [confirmingClear, setConfirmingClear] = useState(false);
+
   return (
-    <div className="flex gap-2 mb-4">
+    <div className="flex flex-wrap gap-2 mb-4">
+      <Button variant="dashed" onClick={() => onAddRoot()}>
+        +
+      </Button>
       <Button
-        variant="dashed"
-        onClick={() => {
-          const id = uuidv4();
-          setActiveNodeId(id);
-          setTree([...tree, { id, value: "", label: "root", children: [] }]);
-        }}
+        variant="ghost"
+        onClick={undo}
+        disabled={!canUndo}
+        title="Undo (Ctrl+Z)"
       >
-        +
+        Undo
+      </Button>
+      <Button
+        variant="ghost"
+        onClick={redo}
+        disabled={!canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        Redo
+      </Button>
+      <Button variant="ghost" onClick={onExpandAll}>
+        Expand all
       </Button>
+      <Button variant="ghost" onClick={onCollapseAll}>
+        Collapse all
+      </Button>
+      <select
+        aria-label="Node display"
+        className="border rounded px-2 py-1 border-dashed border-gray-400 text-gray-800 outline-none focus:border-blue-500"
+        value={labelDisplay}
+        onChange={(e) => onLabelDisplayChange(e.target.value as LabelDisplay)}
+      >
+        {(Object.keys(LABEL_DISPLAYS) as LabelDisplay[]).map((mode) => (
+          <option key={mode} value={mode}>
+            {LABEL_DISPLAYS[mode]}
+          </option>
+        ))}
+      </select>
       <div className="ml-auto flex gap-2">
-        <Button variant="secondary">Back</Button>
+        <Button variant="secondary" onClick={onBack}>
+          Back
+        </Button>
+        <select
+          aria-label="Export format"
+          className="border rounded px-2 py-1 border-dashed border-gray-400 text-gray-800 outline-none focus:border-blue-500"
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+        >
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+            <option key={format} value={format}>
+              {EXPORT_FORMATS[format].label}
+            </option>
+          ))}
+        </select>
+        <Button variant="secondary" onClick={() => onExport(exportFormat)}>
+          Export
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.yaml,.yml,application/json,application/yaml"
+          className="hidden"
+          data-testid="import-file-input"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportFile(file);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          variant="secondary"
+          onClick={onPaste}
+          title="Paste copied nodes at the root"
+        >
+          Paste
+        </Button>
+        <span
+          data-testid="save-status"
+          aria-live="polite"
+          className={`self-center text-xs ${
+            isDirty ? "text-amber-600" : "text-gray-500"
+          }`}
+        >
+          {isDirty
+            ? "Unsaved changes"
+            : lastSavedAt
+            ? `Saved at ${formatTime(lastSavedAt)}`
+            : ""}
+        </span>
         <Button variant="primary" onClick={handleSave}>
           Save
         </Button>
-        <Button onClick={clearStorage}>Clear Storage</Button>
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={autosave}
+            onChange={(e) => onAutosaveChange(e.target.checked)}
+          />
+          Autosave
+        </label>
+        <Button onClick={() => setConfirmingClear(true)}>Clear Storage</Button>
+        {trash ? (
+          <Button
+            variant="ghost"
+            onClick={() => onRestoreTrash()}
+            title={`Restore the tree cleared at ${formatTime(trash.clearedAt)}`}
+          >
+            Restore
+          </Button>
+        ) : null}
+      </div>
+      {confirmingClear ? (
+        <ConfirmDialog
+          title="Clear this template?"
+          confirmLabel="Clear"
+          onConfirm={() => {
+            setConfirmingClear(false);
+            clearStorage();
+          }}
+          onCancel={() => setConfirmingClear(false)}
+        >
+          {tree.length > 0
+            ? `All ${
+                collectIds(tree).size
+              } node(s) will be removed. Until the next clear, they can be restored from the trash.`
+            : "The template is already empty; its stored data will be removed."}
+        </ConfirmDialog>
+      ) : null}
+      <div className="basis-full flex items-center gap-3">
+        <input
+          type="search"
+          aria-label="Search nodes"
+          placeholder="Search labels and values"
+          className="border rounded px-2 py-1 border-dashed border-gray-400 text-gray-800 outline-none focus:border-blue-500"
+          value={search.text}
+          onChange={(e) => onSearchChange({ ...search, text: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key !== "Enter") return;
+            e.preventDefault();
+            onStepMatch(e.shiftKey ? -1 : 1);
+          }}
+        />
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={search.caseSensitive}
+            onChange={(e) =>
+              onSearchChange({ ...search, caseSensitive: e.target.checked })
+            }
+          />
+          Match case
+        </label>
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={search.regex}
+            onChange={(e) =>
+              onSearchChange({ ...search, regex: e.target.checked })
+            }
+          />
+          Regex
+        </label>
+        <span
+          data-testid="search-status"
+          aria-live="polite"
+          className={`text-xs ${
+            searchError ? "text-red-600" : "text-gray-500"
+          }`}
+        >
+          {searchError
+            ? `Invalid regex: ${searchError}`
+            : search.text === ""
+            ? ""
+            : matchCount === 0
+            ? "No matches"
+            : matchIndex === -1
+            ? `${matchCount} matches`
+            : `${matchIndex + 1} of ${matchCount}`}
+        </span>
       </div>
     </div>
   );
@@ -0,0 +1,75 @@
+import { render, screen, fireEvent } from "@testing-library/react";
+import { SyncConflictBanner } from "./SyncConflictBanner";
+import type { TreeNodeType } from "../../types/TreeNode";
+import "@testing-library/jest-dom";
+
+describe("SyncConflictBanner", () => {
+  const node = (id: string, value: string): TreeNodeType => ({
+    id,
+    label: id,
+    value,
+    children: [],
+  });
+
+  const defaultProps = {
+    conflict: {
+      theirs: [node("web", "8080"), node("api", "81")],
+      savedAt: new Date(2025, 0, 2, 9, 5),
+    },
+    tree: [node("web", "80"), node("db", "5432")],
+    onReloadTheirs: jest.fn(),
+    onKeepMine: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("tells when the template was saved in another tab", () => {
+    render(<SyncConflictBanner {...defaultProps} />);
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "This template was saved in another tab at 09:05 while you had unsaved changes."
+    );
+  });
+
+  it("leaves the time out when it is unknown", () => {
+    render(
+      <SyncConflictBanner
+        {...defaultProps}
+        conflict={{ ...defaultProps.conflict, savedAt: null }}
+      />
+    );
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "This template was saved in another tab while you had unsaved changes."
+    );
+  });
+
+  it("reloads theirs or keeps mine", () => {
+    render(<SyncConflictBanner {...defaultProps} />);
+
+    fireEvent.click(screen.getByText("Reload theirs"));
+    expect(defaultProps.onReloadTheirs).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText("Keep mine"));
+    expect(defaultProps.onKeepMine).toHaveBeenCalled();
+  });
+
+  it("shows and hides the differences", () => {
+    render(<SyncConflictBanner {...defaultProps} />);
+    expect(screen.queryByRole("list")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Show differences"));
+
+    const items = screen.getAllByRole("listitem");
+    expect(items.map((item) => item.textContent)).toEqual([
+      'web: value "80" → "8080"',
+      "Only in theirs: api",
+      "Only in mine: db",
+    ]);
+
+    fireEvent.click(screen.getByText("Hide differences"));
+    expect(screen.queryByRole("list")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * SyncConflictBanner
+ *
+ * Banner shown when the template was saved in another tab while this one had unsaved changes
+ * (see usePortTemplate). It offers to reload their version, dropping the local changes, or to
+ * keep the local version, which the next save then writes over theirs. "Show differences" lists
+ * what reloading theirs would change (see diffTrees).
+ *
+ * @param props.conflict - The version saved in the other tab.
+ * @param props.tree - The tree being edited in this tab.
+ * @param props.onReloadTheirs - Callback invoked when "Reload theirs" is clicked.
+ * @param props.onKeepMine - Callback invoked when "Keep mine" is clicked.
+ *
+ * @returns A JSX element containing the banner.
+ */
+import { useState } from "react";
+import type { TreeNodeType } from "../../types/TreeNode";
+import type { SyncConflict } from "../../hooks/usePortTemplate";
+import { diffTrees } from "../../utils/treeDiff";
+import type { TreeChange } from "../../utils/treeDiff";
+import { formatTime } from "../../utils/time";
+import { Button } from "../ui/Buton";
+
+export interface SyncConflictBannerProps {
+  conflict: SyncConflict;
+  tree: TreeNodeType[];
+  onReloadTheirs: () => void;
+  onKeepMine: () => void;
+}
+
+const formatPath = (path: string[]) =>
+  path.map((label) => label || "unnamed node").join(" › ");
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "none" : JSON.stringify(value);
+
+const describeChange = (change: TreeChange) => {
+  switch (change.type) {
+    case "added":
+      return `Only in theirs: ${formatPath(change.path)}`;
+    case "removed":
+      return `Only in mine: ${formatPath(change.path)}`;
+    case "changed":
+      return `${formatPath(change.path)}: ${change.fields
+        .map(
+          ({ field, before, after }) =>
+            `${field} ${formatValue(before)} → ${formatValue(after)}`
+        )
+        .join(", ")}`;
+    case "moved":
+      return `Moved: ${formatPath(change.fromPath)} → ${formatPath(
+        change.path
+      )}`;
+  }
+};
+
+export function SyncConflictBanner({
+  conflict,
+  tree,
+  onReloadTheirs,
+  onKeepMine,
+}: SyncConflictBannerProps) {
+  const [showDiff, setShowDiff] = useState(false);
+  const changes = showDiff ? diffTrees(tree, conflict.theirs) : [];
+
+  return (
+    <div role="alert" className="mb-4 text-sm text-amber-600">
+      <div className="flex items-center gap-2">
+        <span>
+          This template was saved in another tab
+          {conflict.savedAt ? ` at ${formatTime(conflict.savedAt)}` : ""} while
+          you had unsaved changes.
+        </span>
+        <Button variant="ghost" onClick={onReloadTheirs}>
+          Reload theirs
+        </Button>
+        <Button variant="ghost" onClick={onKeepMine}>
+          Keep mine
+        </Button>
+        <Button variant="ghost" onClick={() => setShowDiff(!showDiff)}>
+          {showDiff ? "Hide differences" : "Show differences"}
+        </Button>
+      </div>
+      {showDiff ? (
+        <ul aria-label="Differences" className="mt-1 text-gray-700">
+          {changes.map((change) => (
+            <li key={`${change.type}:${change.nodeId}`}>
+              {describeChange(change)}
+            </li>
+          ))}
+          {changes.length === 0 ? <li>No differences</li> : null}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
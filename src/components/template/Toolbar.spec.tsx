@@ -4,11 +4,13 @@ import { Toolbar } from "./Toolbar";
 import type { TreeNodeType } from "../../types/TreeNode";
 
 jest.mock("../ui/Buton", () => ({
-  Button: ({ children, onClick, variant }: any) => (
+  Button: ({ children, onClick, variant, disabled, title }: any) => (
     <button
       onClick={onClick}
       data-testid={`button-${variant}`}
       className={`btn-${variant}`}
+      disabled={disabled}
+      title={title}
     >
       {children}
     </button>
@@ -16,13 +18,15 @@ jest.mock("../ui/Buton", () => ({
 }));
 
 jest.mock("../ui/ToggleSwitch", () => ({
-  ToggleSwitch: ({ onChange, checked, label }: any) => (
-    <div data-testid="toggle-switch">
+  ToggleSwitch: ({ onChange, checked, label, disabled, title }: any) => (
+    <div data-testid="toggle-switch" title={title}>
       <input
         type="checkbox"
         checked={checked}
         onChange={(e) => onChange?.(e.target.checked)}
         data-testid="toggle-input"
+        aria-label={label}
+        disabled={disabled}
       />
       {label && <span>{label}</span>}
     </div>
@@ -43,6 +47,25 @@ describe("Toolbar Component", () => {
     onAdd: jest.fn(),
     onDelete: jest.fn(),
     onUpdate: jest.fn(),
+    onAddSibling: jest.fn(),
+    onDuplicate: jest.fn(),
+    onIndent: jest.fn(),
+    onOutdent: jest.fn(),
+    onCopy: jest.fn(),
+    onCut: jest.fn(),
+    onPaste: jest.fn(),
+    canIndent: true,
+    canOutdent: true,
+    lock: null,
+    parentLock: null,
+    indentLock: null,
+    outdentLock: null,
+    deleteBlocker: null,
+  };
+
+  const ownLock = {
+    holderId: "test-node-1",
+    reason: '"Test Label" is read-only',
   };
 
   beforeEach(() => {
@@ -102,7 +125,7 @@ describe("Toolbar Component", () => {
       const nodeWithReadOnly = { ...mockNode, readOnly: true };
       render(<Toolbar {...mockProps} node={nodeWithReadOnly} />);
 
-      const toggleInput = screen.getByTestId("toggle-input");
+      const toggleInput = screen.getByLabelText("Read only");
       expect(toggleInput).toBeChecked();
     });
 
@@ -130,9 +153,9 @@ describe("Toolbar Component", () => {
 
     it("should call onUpdate when toggle switch changes to false", () => {
       const nodeWithReadOnly = { ...mockNode, readOnly: true };
-      render(<Toolbar {...mockProps} node={nodeWithReadOnly} />);
+      render(<Toolbar {...mockProps} node={nodeWithReadOnly} lock={ownLock} />);
 
-      const toggleInput = screen.getByTestId("toggle-input");
+      const toggleInput = screen.getByLabelText("Read only");
       fireEvent.click(toggleInput);
 
       expect(mockProps.onUpdate).toHaveBeenCalledWith(mockNode.id, {
@@ -142,6 +165,115 @@ describe("Toolbar Component", () => {
     });
   });
 
+  describe("Label", () => {
+    it("should show the node's label", () => {
+      render(<Toolbar {...mockProps} />);
+
+      expect(screen.getByLabelText("Node label")).toHaveValue("Test Label");
+    });
+
+    it("should call onUpdate with the renamed label", () => {
+      render(<Toolbar {...mockProps} />);
+
+      fireEvent.change(screen.getByLabelText("Node label"), {
+        target: { value: "http" },
+      });
+
+      expect(mockProps.onUpdate).toHaveBeenCalledWith("test-node-1", {
+        ...mockNode,
+        label: "http",
+      });
+    });
+
+    it("should not allow renaming read-only nodes", () => {
+      render(
+        <Toolbar
+          {...mockProps}
+          node={{ ...mockNode, readOnly: true }}
+          lock={ownLock}
+        />
+      );
+
+      expect(screen.getByLabelText("Node label")).toHaveAttribute("readonly");
+    });
+  });
+
+  describe("Value Type", () => {
+    it("should show the node's value type, string by default", () => {
+      render(<Toolbar {...mockProps} />);
+
+      expect(screen.getByLabelText("Value type")).toHaveValue("string");
+    });
+
+    it("should change the type and coerce the value", () => {
+      render(
+        <Toolbar {...mockProps} node={{ ...mockNode, value: " 08080" }} />
+      );
+
+      fireEvent.change(screen.getByLabelText("Value type"), {
+        target: { value: "port" },
+      });
+
+      expect(mockProps.onUpdate).toHaveBeenCalledWith(
+        "test-node-1",
+        expect.objectContaining({ valueType: "port", value: "8080" })
+      );
+    });
+
+    it("should only edit options for enums", () => {
+      const { rerender } = render(<Toolbar {...mockProps} />);
+      expect(screen.queryByLabelText("Enum options")).not.toBeInTheDocument();
+
+      rerender(
+        <Toolbar
+          {...mockProps}
+          node={{ ...mockNode, valueType: "enum", options: ["tcp", "udp"] }}
+        />
+      );
+
+      expect(screen.getByLabelText("Enum options")).toHaveValue("tcp, udp");
+    });
+
+    it("should update the options as they are typed", () => {
+      const enumNode: TreeNodeType = {
+        ...mockNode,
+        valueType: "enum",
+        options: ["tcp"],
+      };
+      const { rerender } = render(<Toolbar {...mockProps} node={enumNode} />);
+      const input = screen.getByLabelText("Enum options");
+
+      fireEvent.change(input, { target: { value: "tcp, " } });
+
+      expect(mockProps.onUpdate).toHaveBeenCalledWith("test-node-1", {
+        ...enumNode,
+        options: ["tcp"],
+      });
+
+      rerender(
+        <Toolbar {...mockProps} node={{ ...enumNode, options: ["tcp"] }} />
+      );
+      expect(input).toHaveValue("tcp, ");
+
+      rerender(
+        <Toolbar {...mockProps} node={{ ...enumNode, options: ["udp"] }} />
+      );
+      expect(input).toHaveValue("udp");
+    });
+
+    it("should not allow retyping read-only nodes", () => {
+      render(
+        <Toolbar
+          {...mockProps}
+          node={{ ...mockNode, readOnly: true }}
+          lock={ownLock}
+        />
+      );
+
+      expect(screen.getByLabelText("Value type")).toBeDisabled();
+    });
+  });
+
   describe("Button Interactions", () => {
     it("should call onDelete when delete button is clicked", () => {
       render(<Toolbar {...mockProps} />);
@@ -252,6 +384,20 @@ describe("Toolbar Component", () => {
         onAdd: undefined as any,
         onDelete: undefined as any,
         onUpdate: undefined as any,
+        onAddSibling: undefined as never,
+        onDuplicate: undefined as never,
+        onIndent: undefined as never,
+        onOutdent: undefined as never,
+        onCopy: undefined as never,
+        onCut: undefined as never,
+        onPaste: undefined as never,
+        canIndent: false,
+        canOutdent: false,
+        lock: null,
+        parentLock: null,
+        indentLock: null,
+        outdentLock: null,
+        deleteBlocker: null,
       };
 
       // This should not throw an error
@@ -261,12 +407,188 @@ describe("Toolbar Component", () => {
     });
   });
 
+  describe("Structure Actions", () => {
+    it("should insert a sibling before the node", () => {
+      render(<Toolbar {...mockProps} />);
+
+      fireEvent.click(screen.getByTitle("Insert sibling before"));
+
+      expect(mockProps.onAddSibling).toHaveBeenCalledWith(
+        "test-node-1",
+        "before"
+      );
+    });
+
+    it("should insert a sibling after the node", () => {
+      render(<Toolbar {...mockProps} />);
+
+      fireEvent.click(screen.getByTitle("Insert sibling after"));
+
+      expect(mockProps.onAddSibling).toHaveBeenCalledWith(
+        "test-node-1",
+        "after"
+      );
+    });
+
+    it("should duplicate the node", () => {
+      render(<Toolbar {...mockProps} />);
+
+      fireEvent.click(screen.getByTitle("Duplicate"));
+
+      expect(mockProps.onDuplicate).toHaveBeenCalledWith("test-node-1");
+    });
+
+    it("should call onIndent and onOutdent with the node id", () => {
+      render(<Toolbar {...mockProps} />);
+
+      fireEvent.click(screen.getByTitle("Indent"));
+      fireEvent.click(screen.getByTitle("Outdent"));
+
+      expect(mockProps.onIndent).toHaveBeenCalledWith("test-node-1");
+      expect(mockProps.onOutdent).toHaveBeenCalledWith("test-node-1");
+    });
+
+    it("should disable indent and outdent when not applicable", () => {
+      render(<Toolbar {...mockProps} canIndent={false} canOutdent={false} />);
+
+      expect(screen.getByTitle("Indent")).toBeDisabled();
+      expect(screen.getByTitle("Outdent")).toBeDisabled();
+      expect(screen.getByTitle("Insert sibling before")).toBeEnabled();
+    });
+  });
+
+  describe("Clipboard Actions", () => {
+    it("should copy and cut the node", () => {
+      render(<Toolbar {...mockProps} />);
+
+      fireEvent.click(screen.getByTitle("Copy"));
+      fireEvent.click(screen.getByTitle("Cut"));
+
+      expect(mockProps.onCopy).toHaveBeenCalledWith("test-node-1");
+      expect(mockProps.onCut).toHaveBeenCalledWith("test-node-1");
+    });
+
+    it("should paste as a child or as a sibling", () => {
+      render(<Toolbar {...mockProps} />);
+
+      fireEvent.click(screen.getByTitle("Paste as child"));
+      fireEvent.click(screen.getByTitle("Paste as sibling"));
+
+      expect(mockProps.onPaste).toHaveBeenNthCalledWith(
+        1,
+        "test-node-1",
+        "child"
+      );
+      expect(mockProps.onPaste).toHaveBeenNthCalledWith(
+        2,
+        "test-node-1",
+        "sibling"
+      );
+    });
+  });
+
+  describe("Locks", () => {
+    const lockedNode = { ...mockNode, readOnly: true };
+
+    it("should offer to lock the subtree of read-only nodes only", () => {
+      const { rerender } = render(<Toolbar {...mockProps} />);
+      expect(screen.queryByLabelText("Lock subtree")).not.toBeInTheDocument();
+
+      rerender(<Toolbar {...mockProps} node={lockedNode} lock={ownLock} />);
+      fireEvent.click(screen.getByLabelText("Lock subtree"));
+
+      expect(mockProps.onUpdate).toHaveBeenCalledWith(mockNode.id, {
+        ...lockedNode,
+        lockSubtree: true,
+      });
+    });
+
+    it("should block changes under and of a locked node, with the reason", () => {
+      render(<Toolbar {...mockProps} node={lockedNode} lock={ownLock} />);
+
+      expect(screen.getByText("+")).toBeDisabled();
+      expect(screen.getByText("+")).toHaveAttribute(
+        "title",
+        'Add child ("Test Label" is read-only)'
+      );
+      expect(screen.getByTitle(/^Paste as child/)).toBeDisabled();
+      expect(screen.getByTitle(/^Indent/)).toBeDisabled();
+      expect(screen.getByTitle(/^Outdent/)).toBeDisabled();
+      expect(screen.getByTitle("Insert sibling after")).toBeEnabled();
+      expect(screen.getByLabelText("Read only")).toBeEnabled();
+    });
+
+    it("should not lift a lock inherited from an ancestor", () => {
+      const reason = '"web" locks its subtree';
+      render(<Toolbar {...mockProps} lock={{ holderId: "web", reason }} />);
+
+      expect(screen.getByLabelText("Read only")).toBeDisabled();
+      expect(screen.getByTestId("toggle-switch")).toHaveAttribute(
+        "title",
+        reason
+      );
+    });
+
+    it("should not insert next to a node whose parent is locked", () => {
+      render(
+        <Toolbar
+          {...mockProps}
+          parentLock={{ holderId: "web", reason: '"web" is read-only' }}
+        />
+      );
+
+      expect(
+        screen.getByTitle('Insert sibling before ("web" is read-only)')
+      ).toBeDisabled();
+      expect(screen.getByTitle(/^Insert sibling after/)).toBeDisabled();
+      expect(screen.getByTitle(/^Duplicate/)).toBeDisabled();
+      expect(screen.getByTitle(/^Paste as sibling/)).toBeDisabled();
+      expect(screen.getByText("+")).toBeEnabled();
+    });
+
+    it("should not indent under a locked sibling or outdent into a locked grandparent", () => {
+      const { rerender } = render(
+        <Toolbar
+          {...mockProps}
+          indentLock={{ holderId: "web", reason: '"web" is read-only' }}
+        />
+      );
+
+      expect(screen.getByTitle('Indent ("web" is read-only)')).toBeDisabled();
+      expect(screen.getByTitle("Outdent")).toBeEnabled();
+
+      rerender(
+        <Toolbar
+          {...mockProps}
+          outdentLock={{ holderId: "db", reason: '"db" locks its subtree' }}
+        />
+      );
+
+      expect(
+        screen.getByTitle('Outdent ("db" locks its subtree)')
+      ).toBeDisabled();
+      expect(screen.getByTitle("Indent")).toBeEnabled();
+    });
+
+    it("should not delete or cut protected nodes", () => {
+      render(
+        <Toolbar {...mockProps} deleteBlocker="it contains locked nodes" />
+      );
+
+      expect(
+        screen.getByTitle("Delete (it contains locked nodes)")
+      ).toBeDisabled();
+      expect(screen.getByTitle(/^Cut/)).toBeDisabled();
+      expect(screen.getByTitle("Copy")).toBeEnabled();
+    });
+  });
+
   describe("Accessibility", () => {
     it("should have proper button roles", () => {
       render(<Toolbar {...mockProps} />);
 
       const buttons = screen.getAllByRole("button");
-      expect(buttons).toHaveLength(2); // Delete and Add buttons
+      expect(buttons).toHaveLength(11); // Delete, 5 structure, 4 clipboard and Add buttons
     });
 
     it("should have proper checkbox role for toggle", () => {
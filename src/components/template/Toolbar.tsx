@@ -2,24 +2,60 @@
  * Toolbar component for a tree node.
  *
  * Renders a compact set of controls for a node:
- * - A ToggleSwitch to toggle the node's read-only state.
+ * - A text input to rename the node's label (read-only along with the node).
+ * - A select for the node's value type and, for enums, a comma-separated list of its options.
+ * - ToggleSwitches to lock the node (read-only) and, once locked, to lock its whole subtree.
  * - A delete Button to remove the node.
+ * - Structure Buttons to insert a sibling before/after the node, duplicate it with its
+ *   subtree, and indent/outdent it.
+ * - Clipboard Buttons to copy or cut the node's subtree and to paste a copied subtree as
+ *   its last child or as its next sibling.
  * - An add Button to create a child node.
  *
- * The ToggleSwitch reflects `node.readOnly` (defaults to false) and, when changed,
- * calls `onUpdate` with a shallow copy of the node ({ ...node, readOnly: checked })
- * to avoid mutating the original prop. The delete and add buttons call `onDelete`
- * and `onAdd` respectively with the node's id.
+ * The lock switches reflect `node.readOnly` and `node.lockSubtree` (default false) and, when
+ * changed, call `onUpdate` with a shallow copy of the node ({ ...node, readOnly: checked })
+ * to avoid mutating the original prop; label edits call it with { ...node, label }. Changing
+ * the value type coerces the node's value to the new type (see changeValueType). The delete
+ * and add buttons call `onDelete` and `onAdd` respectively with the node's id.
+ *
+ * Controls that a lock forbids (see treeLocks) are disabled and their title gives the reason:
+ * a locked node cannot be edited, moved or get children, nodes cannot be inserted next to a
+ * node whose parent is locked, a node cannot be indented under a locked previous sibling or
+ * outdented into a locked grandparent, and the delete and cut buttons follow `deleteBlocker`. A
+ * lock inherited from an ancestor cannot be lifted here.
  *
  * @param props.node - The TreeNodeType instance this toolbar controls. Used to derive id and readOnly state.
  * @param props.onAdd - Callback invoked with the node id when the add button is clicked (intended to create a child).
  * @param props.onDelete - Callback invoked with the node id when the delete button is clicked.
  * @param props.onUpdate - Callback invoked with the node id and the updated node when any node property is changed.
+ * @param props.onAddSibling - Callback invoked with the node id and "before" | "after" to insert a sibling.
+ * @param props.onDuplicate - Callback invoked with the node id to copy the node and its subtree right after it.
+ * @param props.onIndent - Callback invoked with the node id to make it a child of its previous sibling.
+ * @param props.onOutdent - Callback invoked with the node id to move it up to its parent's level.
+ * @param props.onCopy - Callback invoked with the node id to copy its subtree to the clipboard.
+ * @param props.onCut - Callback invoked with the node id to move its subtree to the clipboard.
+ * @param props.onPaste - Callback invoked with the node id and "child" | "sibling" to paste the clipboard's subtree.
+ * @param props.canIndent - Whether the node has a previous sibling; disables the indent button otherwise.
+ * @param props.canOutdent - Whether the node has a parent; disables the outdent button otherwise.
+ * @param props.lock - The lock on the node, or null when it is not locked.
+ * @param props.parentLock - The lock on the node's parent, or null.
+ * @param props.indentLock - The lock on the node's previous sibling, which indenting moves it under, or null.
+ * @param props.outdentLock - The lock on the node's grandparent, which outdenting moves it under, or null.
+ * @param props.deleteBlocker - Why the node cannot be deleted, or null.
  * @returns A JSX element containing the toolbar controls.
  *
  */
-import type { TreeNodeType } from "../../types/TreeNode";
+import { useState } from "react";
+import type { TreeNodeType, ValueType } from "../../types/TreeNode";
+import {
+  VALUE_TYPES,
+  changeValueType,
+  parseOptions,
+} from "../../utils/valueTypes";
+import { blockedTitle } from "../../utils/treeLocks";
+import type { NodeLock } from "../../utils/treeLocks";
 import { Button } from "../ui/Buton";
+import { InputText } from "../ui/InputText";
 import { ToggleSwitch } from "../ui/ToggleSwitch";
 
 export interface ToolbarProps {
@@ -27,24 +63,206 @@ export interface ToolbarProps {
   onAdd: (id: string) => void;
   onDelete: (id: string) => void;
   onUpdate: (id: string, updatedNode: TreeNodeType) => void;
+  onAddSibling: (id: string, position: "before" | "after") => void;
+  onDuplicate: (id: string) => void;
+  onIndent: (id: string) => void;
+  onOutdent: (id: string) => void;
+  onCopy: (id: string) => void;
+  onCut: (id: string) => void;
+  onPaste: (id: string, position: "child" | "sibling") => void;
+  canIndent: boolean;
+  canOutdent: boolean;
+  lock: NodeLock | null;
+  parentLock: NodeLock | null;
+  indentLock: NodeLock | null;
+  outdentLock: NodeLock | null;
+  deleteBlocker: string | null;
 }
 
-export function Toolbar({ node, onAdd, onDelete, onUpdate }: ToolbarProps) {
+export function Toolbar({
+  node,
+  onAdd,
+  onDelete,
+  onUpdate,
+  onAddSibling,
+  onDuplicate,
+  onIndent,
+  onOutdent,
+  onCopy,
+  onCut,
+  onPaste,
+  canIndent,
+  canOutdent,
+  lock,
+  parentLock,
+  indentLock,
+  outdentLock,
+  deleteBlocker,
+}: ToolbarProps) {
+  const locked = lock !== null;
+  const lockInherited = lock !== null && lock.holderId !== node.id;
+  const joinedOptions = (node.options ?? []).join(", ");
+  // The options are edited as text so that e.g. a trailing comma survives until the next option
+  const [optionsText, setOptionsText] = useState(joinedOptions);
+  const [syncedOptions, setSyncedOptions] = useState(joinedOptions);
+
+  if (joinedOptions !== syncedOptions) {
+    setSyncedOptions(joinedOptions);
+    setOptionsText(joinedOptions);
+  }
+
   return (
     <div className="flex items-center gap-1 ml-auto">
       <div className="flex items-center gap-1 bg-gray-100 py-.5 px-2 shadow-md">
+        <InputText
+          ariaLabel="Node label"
+          placeholder="label"
+          value={node.label}
+          onChange={(label) => onUpdate(node.id, { ...node, label })}
+          readonly={locked}
+        />
+        <select
+          aria-label="Value type"
+          className="border rounded px-1 py-1 border-dashed border-gray-400 text-gray-800 outline-none focus:border-blue-500"
+          value={node.valueType ?? "string"}
+          onChange={(e) =>
+            onUpdate(
+              node.id,
+              changeValueType(node, e.target.value as ValueType)
+            )
+          }
+          disabled={locked}
+        >
+          {(Object.keys(VALUE_TYPES) as ValueType[]).map((type) => (
+            <option key={type} value={type}>
+              {VALUE_TYPES[type]}
+            </option>
+          ))}
+        </select>
+        {node.valueType === "enum" ? (
+          <InputText
+            ariaLabel="Enum options"
+            placeholder="option, option"
+            value={optionsText}
+            onChange={(text) => {
+              const options = parseOptions(text);
+              setOptionsText(text);
+              setSyncedOptions(options.join(", "));
+              onUpdate(node.id, { ...node, options });
+            }}
+            readonly={locked}
+          />
+        ) : null}
         <ToggleSwitch
           onChange={(checked) =>
             onUpdate(node.id, { ...node, readOnly: checked })
           }
           checked={node.readOnly || false}
           label="Read only"
+          disabled={lockInherited}
+          title={lockInherited ? lock.reason : undefined}
         />
-        <Button variant="ghost" onClick={() => onDelete(node.id)}>
+        {node.readOnly ? (
+          <ToggleSwitch
+            onChange={(checked) =>
+              onUpdate(node.id, { ...node, lockSubtree: checked })
+            }
+            checked={node.lockSubtree || false}
+            label="Lock subtree"
+            disabled={lockInherited}
+            title={lockInherited ? lock.reason : undefined}
+          />
+        ) : null}
+        <Button
+          variant="ghost"
+          onClick={() => onDelete(node.id)}
+          disabled={deleteBlocker !== null}
+          title={blockedTitle("Delete", deleteBlocker)}
+        >
           🗑
         </Button>
       </div>
-      <Button variant="dashed" onClick={() => onAdd(node.id)}>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="secondary"
+          onClick={() => onAddSibling(node.id, "before")}
+          disabled={parentLock !== null}
+          title={blockedTitle("Insert sibling before", parentLock?.reason)}
+        >
+          ↑+
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => onAddSibling(node.id, "after")}
+          disabled={parentLock !== null}
+          title={blockedTitle("Insert sibling after", parentLock?.reason)}
+        >
+          ↓+
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => onDuplicate(node.id)}
+          disabled={parentLock !== null}
+          title={blockedTitle("Duplicate", parentLock?.reason)}
+        >
+          ⧉
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => onOutdent(node.id)}
+          disabled={!canOutdent || locked || outdentLock !== null}
+          title={blockedTitle("Outdent", (lock ?? outdentLock)?.reason)}
+        >
+          ←
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => onIndent(node.id)}
+          disabled={!canIndent || locked || indentLock !== null}
+          title={blockedTitle("Indent", (lock ?? indentLock)?.reason)}
+        >
+          →
+        </Button>
+      </div>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="secondary"
+          onClick={() => onCopy(node.id)}
+          title="Copy"
+        >
+          ⎘
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => onCut(node.id)}
+          disabled={deleteBlocker !== null}
+          title={blockedTitle("Cut", deleteBlocker)}
+        >
+          ✂
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => onPaste(node.id, "child")}
+          disabled={locked}
+          title={blockedTitle("Paste as child", lock?.reason)}
+        >
+          ⤷
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => onPaste(node.id, "sibling")}
+          disabled={parentLock !== null}
+          title={blockedTitle("Paste as sibling", parentLock?.reason)}
+        >
+          ⤵
+        </Button>
+      </div>
+      <Button
+        variant="dashed"
+        onClick={() => onAdd(node.id)}
+        disabled={locked}
+        title={blockedTitle("Add child", lock?.reason)}
+      >
         +
       </Button>
     </div>
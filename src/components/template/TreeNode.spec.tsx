@@ -1,32 +1,76 @@
-import { render, screen, fireEvent } from "@testing-library/react";
+import {
+  render,
+  screen,
+  fireEvent,
+  createEvent,
+  act,
+} from "@testing-library/react";
 import "@testing-library/jest-dom";
 import { TreeNode } from "./TreeNode";
 import type { TreeNodeType } from "../../types/TreeNode";
 
 jest.mock("../ui/InputText", () => ({
-  InputText: jest.fn(({ value, onChange, onClick, readonly }) => (
-    <input
-      data-testid="input-text"
-      value={value}
-      onChange={(e) => onChange?.(e.target.value)}
-      onClick={onClick}
-      readOnly={readonly}
-    />
-  )),
+  InputText: jest.fn(
+    ({
+      value,
+      onChange,
+      onClick,
+      readonly,
+      highlighted,
+      error,
+      tabIndex,
+      ariaLabel,
+      ref,
+    }) => (
+      <input
+        data-error={error ?? undefined}
+        ref={ref}
+        tabIndex={tabIndex}
+        aria-label={ariaLabel}
+        data-testid="input-text"
+        data-highlighted={highlighted}
+        value={value}
+        onChange={(e) => onChange?.(e.target.value)}
+        onClick={onClick}
+        readOnly={readonly}
+      />
+    )
+  ),
 }));
 
 jest.mock("./Toolbar", () => ({
-  Toolbar: jest.fn(({ node, onAdd, onDelete, onUpdate }) => (
-    <div data-testid="toolbar">
-      <button onClick={() => onAdd(node.id)}>Add</button>
-      <button onClick={() => onDelete(node.id)}>Delete</button>
-      <button
-        onClick={() => onUpdate(node.id, { ...node, readOnly: !node.readOnly })}
+  Toolbar: jest.fn(
+    ({
+      node,
+      onAdd,
+      onDelete,
+      onUpdate,
+      onDuplicate,
+      canIndent,
+      canOutdent,
+      parentLock,
+      deleteBlocker,
+    }) => (
+      <div
+        data-testid="toolbar"
+        data-can-indent={canIndent}
+        data-can-outdent={canOutdent}
+        data-parent-lock={parentLock?.reason}
+        data-delete-blocker={deleteBlocker ?? undefined}
       >
-        Update
-      </button>
-    </div>
-  )),
+        <button onClick={() => onAdd(node.id)}>Add</button>
+        <button onClick={() => onDelete(node.id)}>Delete</button>
+        <button onClick={() => onDuplicate(node.id)}>Duplicate</button>
+        <button
+          onClick={() =>
+            onUpdate(node.id, { ...node, readOnly: !node.readOnly })
+          }
+        >
+          Update
+        </button>
+      </div>
+    )
+  ),
 }));
 
 describe("TreeNode Component", () => {
@@ -34,10 +78,40 @@ describe("TreeNode Component", () => {
     onAdd: jest.fn(),
     onDelete: jest.fn(),
     onUpdate: jest.fn(),
+    onAddSibling: jest.fn(),
+    onDuplicate: jest.fn(),
+    onIndent: jest.fn(),
+    onOutdent: jest.fn(),
+    onCopy: jest.fn(),
+    onCut: jest.fn(),
+    onPaste: jest.fn(),
+    onMove: jest.fn(),
     setActiveNodeId: jest.fn(),
+    parentId: "parent-1",
+    index: 2,
+    previousId: "sibling-1",
+    depth: 1,
     isLast: false,
+    posInSet: 3,
+    setSize: 4,
+    ancestorIds: ["parent-1"],
+    guides: [true],
+    hasVisibleChildren: false,
+    isCollapsed: false,
+    descendantCount: 0,
     activeNodeId: null,
-    treeLength: 1,
+    isTabStop: false,
+    labelDisplay: "value" as const,
+    lock: null,
+    parentLock: null,
+    indentLock: null,
+    outdentLock: null,
+    deleteBlocker: null,
+    valueError: null,
+    searchPattern: null,
+    draggedId: null,
+    onDragChange: jest.fn(),
+    onToggleCollapsed: jest.fn(),
   };
 
   const mockNode: TreeNodeType = {
@@ -48,6 +122,8 @@ describe("TreeNode Component", () => {
     readOnly: false,
   };
 
+  const ownLock = { holderId: "node-1", reason: '"Test Node" is read-only' };
+
   beforeEach(() => {
     jest.clearAllMocks();
   });
@@ -69,7 +145,7 @@ describe("TreeNode Component", () => {
 
     it("should render read-only input when node is read-only", () => {
       const readOnlyNode = { ...mockNode, readOnly: true };
-      render(<TreeNode node={readOnlyNode} {...mockProps} />);
+      render(<TreeNode node={readOnlyNode} {...mockProps} lock={ownLock} />);
 
       const input = screen.getByTestId("input-text");
       expect(input).toHaveAttribute("readOnly");
@@ -203,136 +279,917 @@ describe("TreeNode Component", () => {
     });
   });
 
-  describe("Children Rendering", () => {
-    it("should render child nodes recursively", () => {
-      const nodeWithChildren: TreeNodeType = {
-        ...mockNode,
-        children: [
-          {
-            id: "child-1",
-            value: "Child Value",
-            label: "Child Node",
-            children: [],
-          },
-        ],
-      };
+  describe("Structure Actions", () => {
+    it("should pass onDuplicate to the toolbar", () => {
+      render(<TreeNode node={mockNode} {...mockProps} activeNodeId="node-1" />);
 
-      render(<TreeNode node={nodeWithChildren} {...mockProps} />);
+      fireEvent.click(screen.getByText("Duplicate"));
 
-      const inputs = screen.getAllByTestId("input-text");
-      expect(inputs).toHaveLength(2); // Parent + child
-      expect(screen.getByDisplayValue("Test Value")).toBeInTheDocument();
-      expect(screen.getByDisplayValue("Child Value")).toBeInTheDocument();
+      expect(mockProps.onDuplicate).toHaveBeenCalledWith("node-1");
     });
 
-    it("should pass correct isLast prop to child nodes", () => {
-      const nodeWithMultipleChildren: TreeNodeType = {
-        ...mockNode,
-        children: [
-          {
-            id: "child-1",
-            value: "Child 1",
-            label: "Child 1",
-            children: [],
-          },
-          {
-            id: "child-2",
-            value: "Child 2",
-            label: "Child 2",
-            children: [],
-          },
-        ],
-      };
+    it("should allow indent only when the node has a previous sibling", () => {
+      const { rerender } = render(
+        <TreeNode node={mockNode} {...mockProps} activeNodeId="node-1" />
+      );
+
+      expect(screen.getByTestId("toolbar")).toHaveAttribute(
+        "data-can-indent",
+        "true"
+      );
+
+      rerender(
+        <TreeNode
+          node={mockNode}
+          {...mockProps}
+          index={0}
+          activeNodeId="node-1"
+        />
+      );
+
+      expect(screen.getByTestId("toolbar")).toHaveAttribute(
+        "data-can-indent",
+        "false"
+      );
+    });
+
+    it("should allow outdent only for non-root nodes", () => {
+      const { rerender } = render(
+        <TreeNode node={mockNode} {...mockProps} activeNodeId="node-1" />
+      );
+
+      expect(screen.getByTestId("toolbar")).toHaveAttribute(
+        "data-can-outdent",
+        "true"
+      );
+
+      rerender(
+        <TreeNode
+          node={mockNode}
+          {...mockProps}
+          parentId={null}
+          activeNodeId="node-1"
+        />
+      );
+
+      expect(screen.getByTestId("toolbar")).toHaveAttribute(
+        "data-can-outdent",
+        "false"
+      );
+    });
+  });
+
+  describe("Row Layout", () => {
+    const nodeWithChildren: TreeNodeType = {
+      ...mockNode,
+      children: [
+        { id: "child-1", value: "Child 1", label: "child", children: [] },
+      ],
+    };
+
+    it("should not render its children", () => {
+      render(<TreeNode {...mockProps} node={nodeWithChildren} />);
+
+      expect(screen.getAllByTestId("input-text")).toHaveLength(1);
+    });
+
+    it("should indent the row by its depth", () => {
+      const { container } = render(
+        <TreeNode {...mockProps} node={mockNode} depth={3} />
+      );
+
+      expect((container.firstChild as HTMLElement).style.paddingLeft).toBe(
+        "128px"
+      );
+    });
+  });
+
+  describe("Measured Connector Lines", () => {
+    const nodeWithChild: TreeNodeType = {
+      ...mockNode,
+      children: [
+        { id: "child-1", value: "Child 1", label: "child", children: [] },
+      ],
+    };
+
+    // Places the node box at `top` with the given height inside a row starting at y=0
+    const mockBoxGeometry = (top: number, height: number) =>
+      jest
+        .spyOn(HTMLElement.prototype, "getBoundingClientRect")
+        .mockImplementation(function (this: HTMLElement) {
+          return (
+            this.dataset.testid === "node-box"
+              ? { top, height, bottom: top + height }
+              : { top: 0, height: 0, bottom: 0 }
+          ) as DOMRect;
+        });
+
+    const verticalLines = (container: HTMLElement) =>
+      Array.from(container.querySelectorAll<HTMLElement>(".w-px")).map(
+        (line) => ({
+          left: line.style.left,
+          top: line.style.top,
+          bottom: line.style.bottom,
+          height: line.style.height,
+          spansToBottom: line.classList.contains("bottom-0"),
+        })
+      );
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      delete (window as Partial<typeof window>).ResizeObserver;
+    });
 
+    it("should draw no vertical line for a root without shown children", () => {
       const { container } = render(
-        <TreeNode node={nodeWithMultipleChildren} {...mockProps} />
+        <TreeNode
+          {...mockProps}
+          node={mockNode}
+          parentId={null}
+          depth={0}
+          ancestorIds={[]}
+          guides={[]}
+        />
       );
 
-      // Should render multiple child nodes
-      const inputs = screen.getAllByTestId("input-text");
-      expect(inputs).toHaveLength(3); // Parent + 2 children
+      expect(verticalLines(container)).toEqual([]);
+    });
+
+    it("should run the line to the parent through the whole row unless last", () => {
+      mockBoxGeometry(0, 34);
+      const { container } = render(<TreeNode {...mockProps} node={mockNode} />);
 
-      // Verify container has the tree structure
-      expect(container.querySelector(".relative")).toBeInTheDocument();
+      expect(verticalLines(container)).toMatchObject([
+        { left: "32px", bottom: "0px", height: "" },
+      ]);
     });
 
-    it("should render deeply nested children", () => {
-      const deeplyNestedNode: TreeNodeType = {
-        ...mockNode,
-        children: [
-          {
-            id: "child-1",
-            value: "Child 1",
-            label: "Child 1",
-            children: [
-              {
-                id: "grandchild-1",
-                value: "Grandchild 1",
-                label: "Grandchild 1",
-                children: [],
-              },
-            ],
-          },
-        ],
-      };
+    it("should stop a last child's line at the middle of its box", () => {
+      // A wrapped node: 50px tall box, 10px below the top of the row
+      mockBoxGeometry(10, 50);
+      const { container } = render(
+        <TreeNode {...mockProps} node={mockNode} isLast guides={[false]} />
+      );
 
-      render(<TreeNode node={deeplyNestedNode} {...mockProps} />);
+      expect(verticalLines(container)).toMatchObject([
+        { left: "32px", bottom: "", height: "35px" },
+      ]);
+    });
 
-      const inputs = screen.getAllByTestId("input-text");
-      expect(inputs).toHaveLength(3); // Parent + child + grandchild
-      expect(screen.getByDisplayValue("Test Value")).toBeInTheDocument();
-      expect(screen.getByDisplayValue("Child 1")).toBeInTheDocument();
-      expect(screen.getByDisplayValue("Grandchild 1")).toBeInTheDocument();
+    it("should draw the continuing lines of nested levels only", () => {
+      mockBoxGeometry(0, 34);
+      const { container } = render(
+        <TreeNode
+          {...mockProps}
+          node={mockNode}
+          depth={3}
+          ancestorIds={["a", "b", "c"]}
+          guides={[true, false, false]}
+          isLast
+        />
+      );
+
+      expect(verticalLines(container)).toMatchObject([
+        { left: "32px", bottom: "0px" },
+        { left: "96px", height: "17px" },
+      ]);
+    });
+
+    it("should join a single child to its parent whatever their heights", () => {
+      mockBoxGeometry(4, 60);
+      const { container: parentRow } = render(
+        <TreeNode
+          {...mockProps}
+          node={nodeWithChild}
+          parentId={null}
+          depth={0}
+          ancestorIds={[]}
+          guides={[]}
+          hasVisibleChildren
+        />
+      );
+
+      // The line to the children starts under the box and runs to the bottom of the row...
+      expect(verticalLines(parentRow)).toMatchObject([
+        { left: "32px", top: "64px", spansToBottom: true },
+      ]);
+
+      jest.restoreAllMocks();
+      mockBoxGeometry(0, 20);
+      const { container: childRow } = render(
+        <TreeNode
+          {...mockProps}
+          node={nodeWithChild.children[0]}
+          parentId={mockNode.id}
+          depth={1}
+          ancestorIds={[mockNode.id]}
+          guides={[false]}
+          isLast
+        />
+      );
+
+      // ...and the only child's line picks it up at the top of its row, at the same x
+      expect(verticalLines(childRow)).toMatchObject([
+        { left: "32px", top: "", height: "10px" },
+      ]);
+    });
+
+    it("should re-measure when the row or its box resizes", () => {
+      let notifyResize = () => {};
+      const observed: Element[] = [];
+      window.ResizeObserver = class {
+        constructor(callback: () => void) {
+          notifyResize = callback;
+        }
+        observe(element: Element) {
+          observed.push(element);
+        }
+        unobserve() {}
+        disconnect() {}
+      } as unknown as typeof ResizeObserver;
+
+      mockBoxGeometry(0, 34);
+      const { container } = render(
+        <TreeNode {...mockProps} node={mockNode} isLast guides={[false]} />
+      );
+      expect(verticalLines(container)[0].height).toBe("17px");
+      expect(observed).toEqual([
+        container.firstChild,
+        screen.getByTestId("node-box"),
+      ]);
+
+      // e.g. the toolbar wrapping onto a second line makes the row taller
+      jest.restoreAllMocks();
+      mockBoxGeometry(20, 34);
+      act(() => notifyResize());
+
+      expect(verticalLines(container)[0].height).toBe("37px");
+    });
+  });
+
+  describe("Keyboard and ARIA", () => {
+    const nodeWithChild: TreeNodeType = {
+      ...mockNode,
+      children: [
+        { id: "child-1", value: "Child 1", label: "child", children: [] },
+      ],
+    };
+
+    it("should render a treeitem with its position in the tree", () => {
+      render(<TreeNode {...mockProps} node={mockNode} />);
+
+      const item = screen.getByRole("treeitem", { name: "Test Node" });
+      expect(item).toHaveAttribute("aria-level", "2");
+      expect(item).toHaveAttribute("aria-posinset", "3");
+      expect(item).toHaveAttribute("aria-setsize", "4");
+      expect(item).toHaveAttribute("aria-selected", "false");
+      expect(item).not.toHaveAttribute("aria-expanded");
+    });
+
+    it("should expose the expanded state of nodes with children", () => {
+      const { rerender } = render(
+        <TreeNode {...mockProps} node={nodeWithChild} hasVisibleChildren />
+      );
+
+      expect(screen.getByRole("treeitem")).toHaveAttribute(
+        "aria-expanded",
+        "true"
+      );
+
+      rerender(<TreeNode {...mockProps} node={nodeWithChild} isCollapsed />);
+
+      expect(screen.getByRole("treeitem")).toHaveAttribute(
+        "aria-expanded",
+        "false"
+      );
+    });
+
+    it("should mark the active node as selected", () => {
+      render(<TreeNode {...mockProps} node={mockNode} activeNodeId="node-1" />);
+
+      expect(screen.getByRole("treeitem")).toHaveAttribute(
+        "aria-selected",
+        "true"
+      );
+    });
+
+    it("should only be in the tab order when it is the tab stop", () => {
+      const { rerender } = render(<TreeNode {...mockProps} node={mockNode} />);
+
+      expect(screen.getByRole("treeitem")).toHaveAttribute("tabindex", "-1");
+
+      rerender(<TreeNode {...mockProps} node={mockNode} isTabStop />);
+
+      expect(screen.getByRole("treeitem")).toHaveAttribute("tabindex", "0");
+      expect(screen.getByTestId("input-text")).toHaveAttribute(
+        "tabindex",
+        "-1"
+      );
+    });
+
+    it("should make the node active when it receives focus", () => {
+      render(<TreeNode {...mockProps} node={mockNode} isTabStop />);
+
+      fireEvent.focus(screen.getByRole("treeitem"));
+
+      expect(mockProps.setActiveNodeId).toHaveBeenCalledWith("node-1");
+    });
+
+    it("should not re-activate the active node on focus", () => {
+      render(<TreeNode {...mockProps} node={mockNode} activeNodeId="node-1" />);
+
+      fireEvent.focus(screen.getByTestId("input-text"));
+
+      expect(mockProps.setActiveNodeId).not.toHaveBeenCalled();
+    });
+
+    it("should edit the value on Enter and leave edit mode on Escape", () => {
+      render(<TreeNode {...mockProps} node={mockNode} isTabStop />);
+      const item = screen.getByRole("treeitem");
+      const input = screen.getByTestId("input-text");
+
+      item.focus();
+      fireEvent.keyDown(item, { key: "Enter" });
+      expect(input).toHaveFocus();
+
+      fireEvent.keyDown(input, { key: "Escape" });
+      expect(item).toHaveFocus();
+    });
+
+    it("should keep focus in the input on Enter", () => {
+      render(<TreeNode {...mockProps} node={mockNode} isTabStop />);
+      const input = screen.getByTestId("input-text");
+
+      input.focus();
+      fireEvent.keyDown(input, { key: "Enter" });
+
+      expect(input).toHaveFocus();
     });
   });
 
-  describe("Props Passing", () => {
-    it("should pass all required props to child nodes", () => {
-      const nodeWithChildren: TreeNodeType = {
+  describe("Drag and Drop", () => {
+    const DRAG_MIME_TYPE = "application/x-port-template-node";
+
+    const createDataTransfer = (draggedId = "dragged-1") => ({
+      types: [DRAG_MIME_TYPE],
+      getData: jest.fn((type: string) =>
+        type === DRAG_MIME_TYPE ? draggedId : ""
+      ),
+      setData: jest.fn(),
+      setDragImage: jest.fn(),
+      dropEffect: "none",
+      effectAllowed: "all",
+    });
+
+    // Row is 100px tall starting at y=0, so clientY maps directly to a drop zone
+    const mockRowRect = (row: HTMLElement) => {
+      row.getBoundingClientRect = jest.fn(
+        () => ({ top: 0, height: 100, bottom: 100 } as DOMRect)
+      );
+    };
+
+    // jsdom has no DragEvent, so clientY must be attached by hand
+    const fireDragEvent = (
+      type: "dragOver" | "drop",
+      element: HTMLElement,
+      dataTransfer: ReturnType<typeof createDataTransfer>,
+      clientY: number
+    ) => {
+      const event = createEvent[type](element, { dataTransfer });
+      Object.defineProperty(event, "clientY", { value: clientY });
+      fireEvent(element, event);
+    };
+
+    const getRow = () =>
+      screen.getByTestId("input-text").closest(".mb-2") as HTMLElement;
+
+    it("should render a drag handle", () => {
+      render(<TreeNode node={mockNode} {...mockProps} />);
+
+      const handle = screen.getByLabelText("Drag to move");
+      expect(handle).toHaveAttribute("draggable", "true");
+    });
+
+    it("should put the node id on the drag data when drag starts", () => {
+      render(<TreeNode node={mockNode} {...mockProps} />);
+
+      const dataTransfer = createDataTransfer();
+      fireEvent.dragStart(screen.getByLabelText("Drag to move"), {
+        dataTransfer,
+      });
+
+      expect(dataTransfer.setData).toHaveBeenCalledWith(
+        DRAG_MIME_TYPE,
+        "node-1"
+      );
+    });
+
+    it("should move before the node when dropped on its top quarter", () => {
+      render(<TreeNode node={mockNode} {...mockProps} />);
+      const row = getRow();
+      mockRowRect(row);
+
+      fireDragEvent("drop", row, createDataTransfer(), 10);
+
+      expect(mockProps.onMove).toHaveBeenCalledWith("dragged-1", "parent-1", 2);
+    });
+
+    it("should move after the node when dropped on its bottom quarter", () => {
+      render(<TreeNode node={mockNode} {...mockProps} />);
+      const row = getRow();
+      mockRowRect(row);
+
+      fireDragEvent("drop", row, createDataTransfer(), 90);
+
+      expect(mockProps.onMove).toHaveBeenCalledWith("dragged-1", "parent-1", 3);
+    });
+
+    it("should append as last child when dropped on the middle", () => {
+      const nodeWithChild: TreeNodeType = {
         ...mockNode,
         children: [
-          {
-            id: "child-1",
-            value: "Child Value",
-            label: "Child Node",
-            children: [],
-          },
+          { id: "child-1", value: "Child", label: "child", children: [] },
         ],
       };
+      render(<TreeNode node={nodeWithChild} {...mockProps} />);
+      const row = screen
+        .getByDisplayValue("Test Value")
+        .closest(".mb-2") as HTMLElement;
+      mockRowRect(row);
+
+      fireDragEvent("drop", row, createDataTransfer(), 50);
+
+      expect(mockProps.onMove).toHaveBeenCalledWith("dragged-1", "node-1", 1);
+    });
+
+    it("should show a drop indicator while dragging over the node edge", () => {
+      render(<TreeNode node={mockNode} {...mockProps} />);
+      const row = getRow();
+      mockRowRect(row);
+
+      fireDragEvent("dragOver", row, createDataTransfer(), 5);
+
+      expect(screen.getByTestId("drop-indicator")).toHaveClass("-top-1");
+
+      fireEvent.dragLeave(row);
+
+      expect(screen.queryByTestId("drop-indicator")).not.toBeInTheDocument();
+    });
+
+    it("should report when its drag starts and ends", () => {
+      render(<TreeNode node={mockNode} {...mockProps} />);
+      const handle = screen.getByLabelText("Drag to move");
+
+      fireEvent.dragStart(handle, { dataTransfer: createDataTransfer() });
+      expect(mockProps.onDragChange).toHaveBeenCalledWith("node-1");
+
+      fireEvent.dragEnd(handle);
+      expect(mockProps.onDragChange).toHaveBeenLastCalledWith(null);
+    });
 
-      render(<TreeNode node={nodeWithChildren} {...mockProps} />);
+    it("should fade the rows of the subtree being dragged", () => {
+      const { container } = render(
+        <TreeNode node={mockNode} {...mockProps} draggedId="parent-1" />
+      );
+
+      expect(container.firstChild).toHaveClass("opacity-50");
+      expect(container.firstChild).toHaveAttribute("data-dragging", "true");
+    });
+
+    it("should ignore drops inside the subtree being dragged", () => {
+      render(<TreeNode node={mockNode} {...mockProps} draggedId="parent-1" />);
+      const row = getRow();
+      mockRowRect(row);
 
-      // Child should receive all the same callbacks
-      const childInput = screen.getByDisplayValue("Child Value");
-      fireEvent.click(childInput);
+      fireDragEvent("dragOver", row, createDataTransfer("parent-1"), 50);
+      fireDragEvent("drop", row, createDataTransfer("parent-1"), 50);
 
-      expect(mockProps.setActiveNodeId).toHaveBeenCalledWith("child-1");
+      expect(screen.queryByTestId("drop-indicator")).not.toBeInTheDocument();
+      expect(mockProps.onMove).not.toHaveBeenCalled();
     });
 
-    it("should maintain activeNodeId state across parent and children", () => {
-      const nodeWithChildren: TreeNodeType = {
+    it("should ignore drops on the dragged node itself", () => {
+      render(<TreeNode node={mockNode} {...mockProps} draggedId="node-1" />);
+      const row = getRow();
+      mockRowRect(row);
+
+      fireDragEvent("drop", row, createDataTransfer("node-1"), 10);
+
+      expect(mockProps.onMove).not.toHaveBeenCalled();
+    });
+
+    it("should not let locked nodes be dragged", () => {
+      render(<TreeNode node={mockNode} {...mockProps} lock={ownLock} />);
+
+      const handle = screen.getByLabelText("Drag to move");
+      expect(handle).toHaveAttribute("draggable", "false");
+      expect(handle).toHaveAttribute(
+        "title",
+        'Drag to move ("Test Node" is read-only)'
+      );
+    });
+
+    it("should refuse drops inside a locked node", () => {
+      render(<TreeNode node={mockNode} {...mockProps} lock={ownLock} />);
+      const row = getRow();
+      mockRowRect(row);
+
+      fireDragEvent("drop", row, createDataTransfer(), 50);
+      expect(mockProps.onMove).not.toHaveBeenCalled();
+
+      fireDragEvent("drop", row, createDataTransfer(), 90);
+      expect(mockProps.onMove).toHaveBeenCalledWith("dragged-1", "parent-1", 3);
+    });
+
+    it("should refuse drops next to a node whose parent is locked", () => {
+      render(
+        <TreeNode
+          node={mockNode}
+          {...mockProps}
+          parentLock={{ holderId: "parent-1", reason: "locked" }}
+        />
+      );
+      const row = getRow();
+      mockRowRect(row);
+
+      fireDragEvent("dragOver", row, createDataTransfer(), 5);
+      fireDragEvent("drop", row, createDataTransfer(), 5);
+      expect(screen.queryByTestId("drop-indicator")).not.toBeInTheDocument();
+      expect(mockProps.onMove).not.toHaveBeenCalled();
+
+      fireDragEvent("drop", row, createDataTransfer(), 50);
+      expect(mockProps.onMove).toHaveBeenCalledWith("dragged-1", "node-1", 0);
+    });
+  });
+
+  describe("Locks", () => {
+    it("should show a lock icon with the reason", () => {
+      render(<TreeNode node={mockNode} {...mockProps} lock={ownLock} />);
+
+      expect(screen.getByRole("img", { name: "Locked" })).toHaveAttribute(
+        "title",
+        '"Test Node" is read-only'
+      );
+    });
+
+    it("should make nodes locked by an ancestor read-only", () => {
+      render(
+        <TreeNode
+          node={mockNode}
+          {...mockProps}
+          labelDisplay="both"
+          lock={{ holderId: "parent-1", reason: '"web" locks its subtree' }}
+        />
+      );
+
+      expect(screen.getByLabelText("Label")).toHaveAttribute("readonly");
+      expect(screen.getByLabelText("Value")).toHaveAttribute("readonly");
+      expect(screen.getByRole("img", { name: "Locked" })).toHaveAttribute(
+        "title",
+        '"web" locks its subtree'
+      );
+    });
+
+    it("should not show a lock icon on unlocked nodes", () => {
+      render(<TreeNode node={mockNode} {...mockProps} />);
+
+      expect(
+        screen.queryByRole("img", { name: "Locked" })
+      ).not.toBeInTheDocument();
+    });
+
+    it("should pass the locks to the toolbar", () => {
+      render(
+        <TreeNode
+          node={mockNode}
+          {...mockProps}
+          activeNodeId="node-1"
+          parentLock={{ holderId: "parent-1", reason: '"web" is read-only' }}
+          deleteBlocker="it contains locked nodes"
+        />
+      );
+
+      const toolbar = screen.getByTestId("toolbar");
+      expect(toolbar).toHaveAttribute("data-parent-lock", '"web" is read-only');
+      expect(toolbar).toHaveAttribute(
+        "data-delete-blocker",
+        "it contains locked nodes"
+      );
+    });
+  });
+
+  describe("Collapsing", () => {
+    const parentNode: TreeNodeType = {
+      id: "parent",
+      label: "root",
+      value: "web",
+      children: [
+        { id: "a", label: "child", value: "80", children: [] },
+        {
+          id: "b",
+          label: "child",
+          value: "443",
+          children: [
+            { id: "b1", label: "child", value: "tls", children: [] },
+            { id: "b2", label: "child", value: "mtls", children: [] },
+          ],
+        },
+      ],
+    };
+
+    it("should only show a chevron for nodes with children", () => {
+      const { rerender } = render(
+        <TreeNode {...mockProps} node={parentNode} hasVisibleChildren />
+      );
+
+      expect(screen.getByRole("button", { name: "Collapse" })).toHaveAttribute(
+        "aria-expanded",
+        "true"
+      );
+
+      rerender(<TreeNode {...mockProps} node={mockNode} />);
+
+      expect(
+        screen.queryByRole("button", { name: "Collapse" })
+      ).not.toBeInTheDocument();
+    });
+
+    it("should call onToggleCollapsed when the chevron is clicked", () => {
+      render(<TreeNode {...mockProps} node={parentNode} hasVisibleChildren />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Collapse" }));
+
+      expect(mockProps.onToggleCollapsed).toHaveBeenCalledWith("parent");
+    });
+
+    it("should show the descendant count of a collapsed node", () => {
+      render(
+        <TreeNode
+          {...mockProps}
+          node={parentNode}
+          isCollapsed
+          descendantCount={4}
+        />
+      );
+
+      expect(screen.getByTestId("descendant-count")).toHaveTextContent("4");
+      expect(screen.getByRole("button", { name: "Expand" })).toHaveAttribute(
+        "aria-expanded",
+        "false"
+      );
+    });
+
+    it("should not show a badge on expanded nodes", () => {
+      render(<TreeNode {...mockProps} node={parentNode} hasVisibleChildren />);
+
+      expect(screen.queryByTestId("descendant-count")).not.toBeInTheDocument();
+    });
+
+    it("should expand a collapsed node when adding a child to it", () => {
+      render(
+        <TreeNode
+          {...mockProps}
+          node={parentNode}
+          isCollapsed
+          descendantCount={4}
+          activeNodeId="parent"
+        />
+      );
+
+      fireEvent.click(screen.getByText("Add"));
+
+      expect(mockProps.onToggleCollapsed).toHaveBeenCalledWith("parent");
+      expect(mockProps.onAdd).toHaveBeenCalledWith("parent");
+    });
+  });
+
+  describe("Labels", () => {
+    it("should only show the value in value mode", () => {
+      render(<TreeNode node={mockNode} {...mockProps} />);
+
+      expect(screen.getByLabelText("Value")).toHaveValue("Test Value");
+      expect(screen.queryByLabelText("Label")).not.toBeInTheDocument();
+    });
+
+    it("should show the label next to the value in both mode", () => {
+      render(<TreeNode node={mockNode} {...mockProps} labelDisplay="both" />);
+
+      const [label, value] = screen.getAllByTestId("input-text");
+      expect(label).toHaveAccessibleName("Label");
+      expect(label).toHaveValue("Test Node");
+      expect(value).toHaveAccessibleName("Value");
+      expect(value).toHaveValue("Test Value");
+      expect(screen.getByTestId("node-box")).toHaveTextContent(":");
+    });
+
+    it("should only show the label in label mode", () => {
+      render(<TreeNode node={mockNode} {...mockProps} labelDisplay="label" />);
+
+      expect(screen.getByLabelText("Label")).toHaveValue("Test Node");
+      expect(screen.queryByLabelText("Value")).not.toBeInTheDocument();
+    });
+
+    it("should call onUpdate when the label is edited", () => {
+      render(<TreeNode node={mockNode} {...mockProps} labelDisplay="both" />);
+
+      fireEvent.change(screen.getByLabelText("Label"), {
+        target: { value: "http" },
+      });
+
+      expect(screen.getByLabelText("Label")).toHaveValue("http");
+      expect(mockProps.onUpdate).toHaveBeenCalledWith("node-1", {
         ...mockNode,
-        children: [
-          {
-            id: "child-1",
-            value: "Child Value",
-            label: "Child Node",
-            children: [],
-          },
-        ],
-      };
+        label: "http",
+      });
+    });
+
+    it("should pick up labels changed elsewhere", () => {
+      const { rerender } = render(
+        <TreeNode node={mockNode} {...mockProps} labelDisplay="both" />
+      );
+
+      rerender(
+        <TreeNode
+          node={{ ...mockNode, label: "Renamed" }}
+          {...mockProps}
+          labelDisplay="both"
+        />
+      );
+
+      expect(screen.getByLabelText("Label")).toHaveValue("Renamed");
+    });
+
+    it("should make the label read-only with the node", () => {
+      render(
+        <TreeNode
+          node={{ ...mockNode, readOnly: true }}
+          {...mockProps}
+          labelDisplay="both"
+          lock={ownLock}
+        />
+      );
 
+      expect(screen.getByLabelText("Label")).toHaveAttribute("readonly");
+    });
+
+    it("should edit the label on Enter in label mode", () => {
+      render(<TreeNode node={mockNode} {...mockProps} labelDisplay="label" />);
+
+      fireEvent.keyDown(screen.getByRole("treeitem"), { key: "Enter" });
+
+      expect(screen.getByLabelText("Label")).toHaveFocus();
+    });
+
+    it("should edit the value on Enter in both mode", () => {
+      render(<TreeNode node={mockNode} {...mockProps} labelDisplay="both" />);
+
+      fireEvent.keyDown(screen.getByRole("treeitem"), { key: "Enter" });
+
+      expect(screen.getByLabelText("Value")).toHaveFocus();
+    });
+  });
+
+  describe("Typed Values", () => {
+    const flagNode: TreeNodeType = {
+      id: "tls",
+      label: "tls",
+      value: "true",
+      valueType: "boolean",
+      children: [],
+    };
+
+    it("should render the editor of the node's value type", () => {
+      render(<TreeNode {...mockProps} node={flagNode} />);
+
+      expect(screen.getByRole("switch", { name: "Value" })).toHaveAttribute(
+        "aria-checked",
+        "true"
+      );
+      expect(screen.queryByTestId("input-text")).not.toBeInTheDocument();
+    });
+
+    it("should call onUpdate with the edited value", () => {
+      render(<TreeNode {...mockProps} node={flagNode} />);
+
+      fireEvent.click(screen.getByRole("switch"));
+
+      expect(mockProps.onUpdate).toHaveBeenCalledWith("tls", {
+        ...flagNode,
+        value: "false",
+      });
+    });
+
+    it("should flag an invalid value on its editor", () => {
       render(
         <TreeNode
-          node={nodeWithChildren}
           {...mockProps}
-          activeNodeId="child-1"
+          node={{ ...mockNode, valueType: "port", value: "99999" }}
+          valueError="Port 99999 is outside 1-65535"
         />
       );
 
-      // But child should show toolbar (would be handled by recursive call)
-      const inputs = screen.getAllByTestId("input-text");
-      expect(inputs).toHaveLength(2);
+      expect(screen.getByTestId("input-text")).toHaveAttribute(
+        "data-error",
+        "Port 99999 is outside 1-65535"
+      );
+    });
+
+    it("should move focus into the editor on Enter", () => {
+      render(<TreeNode {...mockProps} node={flagNode} />);
+
+      fireEvent.keyDown(screen.getByRole("treeitem"), { key: "Enter" });
+
+      expect(screen.getByRole("switch")).toHaveFocus();
+      expect(screen.getByRole("switch")).toHaveAttribute("tabindex", "-1");
+    });
+  });
+
+  describe("Search", () => {
+    const searchNode: TreeNodeType = {
+      id: "web",
+      label: "Web tier",
+      value: "frontend",
+      children: [],
+    };
+
+    it("should highlight matched text in the label", () => {
+      render(
+        <TreeNode {...mockProps} node={searchNode} searchPattern={/WEB/i} />
+      );
+
+      const label = screen.getByTestId("search-label");
+      expect(label).toHaveTextContent("Web tier");
+      expect(label.querySelector("mark")).toHaveTextContent("Web");
+      expect(screen.getByTestId("input-text")).toHaveAttribute(
+        "data-highlighted",
+        "false"
+      );
+    });
+
+    it("should highlight the input when the value matches", () => {
+      render(
+        <TreeNode {...mockProps} node={searchNode} searchPattern={/front/} />
+      );
+
+      expect(screen.getByTestId("input-text")).toHaveAttribute(
+        "data-highlighted",
+        "true"
+      );
+      expect(screen.getByTestId("search-label")).toBeInTheDocument();
+    });
+
+    it("should highlight the label input when the label is shown", () => {
+      render(
+        <TreeNode
+          {...mockProps}
+          node={searchNode}
+          searchPattern={/tier/}
+          labelDisplay="both"
+        />
+      );
+
+      expect(screen.getByLabelText("Label")).toHaveAttribute(
+        "data-highlighted",
+        "true"
+      );
+      expect(screen.getByLabelText("Value")).toHaveAttribute(
+        "data-highlighted",
+        "false"
+      );
+      expect(screen.queryByTestId("search-label")).not.toBeInTheDocument();
+    });
+
+    it("should show the matched value when only labels are shown", () => {
+      render(
+        <TreeNode
+          {...mockProps}
+          node={searchNode}
+          searchPattern={/front/}
+          labelDisplay="label"
+        />
+      );
+
+      const value = screen.getByTestId("search-value");
+      expect(value).toHaveTextContent("frontend");
+      expect(value.querySelector("mark")).toHaveTextContent("front");
+    });
+
+    it("should not mark anything without a search", () => {
+      render(<TreeNode {...mockProps} node={searchNode} />);
+
+      expect(screen.queryByTestId("search-label")).not.toBeInTheDocument();
+    });
+
+    it("should not mark nodes that do not match", () => {
+      render(
+        <TreeNode {...mockProps} node={searchNode} searchPattern={/443/} />
+      );
+
+      expect(screen.queryByTestId("search-label")).not.toBeInTheDocument();
+      expect(screen.getByTestId("input-text")).toHaveAttribute(
+        "data-highlighted",
+        "false"
+      );
     });
   });
 
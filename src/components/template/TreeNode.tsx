@@ -1,131 +1,494 @@
 /**
- * Renders a single node in a recursive tree UI.
+ * Renders a single row of the flattened tree UI.
  *
  * The TreeNode component displays:
- * - a connector line that visually links the node to its parent/children,
- * - an editable text input for the node's value (unless readOnly),
- * - an inline toolbar when the node is active,
- * - its children as nested TreeNode components.
+ * - connector lines that visually link the node to its parent/children,
+ * - an editable text input for the node's label and/or an editor for its value matching its
+ *   `valueType` (see ValueEditor), as chosen by `labelDisplay` (read-only while locked),
+ * - a lock icon, with the reason as its title, when the node is locked (see treeLocks),
+ * - a drag handle and drop zones for reordering/reparenting the node's subtree,
+ * - an inline toolbar when the node is active.
  *
- * The component calculates the total visual height occupied by the node's
- * descendant subtree to correctly size vertical connector lines.
+ * Children are not rendered here: PortTemplate flattens the visible tree into rows
+ * (see flattenTree) and renders each one as its own TreeNode, indented by its depth.
+ * Connector lines are drawn per row from the row's precomputed `guides`, so a row
+ * never needs to look at its subtree and rows can be mounted independently.
+ *
+ * Each row only draws the parts of the lines that cross it, from the row's measured
+ * geometry: lines that continue span the whole row, a last child's line stops at the
+ * middle of its node box and the line down to the children starts at the bottom of the
+ * box. The lines therefore stay joined whatever the height of each row (wrapped
+ * content, the toolbar, fonts); the node box is re-measured whenever it or the row
+ * resizes.
  *
  * @remarks
  * - The component is controlled in part by the `activeNodeId` prop to determine
  *   whether the node's toolbar should be shown.
- * - The node's value is kept in local state (`fieldValue`) and any changes are
- *   propagated upward via the `onUpdate` callback.
- * - Recursion: each child in `node.children` is rendered as its own TreeNode.
+ * - The node's value and label are kept in local state (`fieldValue`, `fieldLabel`) and
+ *   any changes are propagated upward via the `onUpdate` callback. External changes to
+ *   `node.value` or `node.label` (such as undo/redo) reset the local state.
+ * - Collapsing: nodes with children get a chevron that hides or shows their subtree. A collapsed
+ *   node shows a badge with its number of descendants.
+ * - Search: with a `searchPattern`, the inputs whose text matches are highlighted. Matching
+ *   nodes also show the field that `labelDisplay` hides, with the matched text highlighted.
+ * - Keyboard: the row is a `treeitem` with a roving tabindex (only the `isTabStop` row is in
+ *   the tab order). Focusing the row or anything in it makes the node active. Enter on the
+ *   row moves focus into the value editor (the label input when only labels are shown) and
+ *   Escape in an editor returns focus to the row; moving between rows is handled by the
+ *   enclosing tree (see PortTemplate).
+ * - Drag and drop: dropping on the top quarter of a node inserts before it, the bottom
+ *   quarter inserts after it, and anything in between appends as its last child. Drops
+ *   inside the subtree being dragged (`draggedId` or one of `ancestorIds`) are ignored.
+ *   Locked nodes cannot be dragged, nor receive drops inside them; drops before or after a
+ *   node are refused when its parent is locked.
  *
  * @param props.node - The tree node data (value, id, children, readOnly flag, etc.).
  * @param props.onAdd - Callback invoked with the current node id to add a child.
  * @param props.onDelete - Callback invoked with a node id to delete that node.
  * @param props.onUpdate - Callback invoked with (nodeId, updatedNode) whenever the node is updated.
- * @param props.isLast - True if this node is the last sibling; used to adjust connector rendering.
+ * @param props.onAddSibling - Callback invoked with (nodeId, "before" | "after") to insert a sibling.
+ * @param props.onDuplicate - Callback invoked with a node id to duplicate it with its subtree.
+ * @param props.onIndent - Callback invoked with a node id to indent it under its previous sibling.
+ * @param props.onOutdent - Callback invoked with a node id to move it up one level.
+ * @param props.onCopy - Callback invoked with a node id to copy its subtree to the clipboard.
+ * @param props.onCut - Callback invoked with a node id to cut its subtree to the clipboard.
+ * @param props.onPaste - Callback invoked with (nodeId, "child" | "sibling") to paste the clipboard's subtree.
+ * @param props.onMove - Callback invoked with (nodeId, targetParentId, index) when a node is dropped.
+ * @param props.parentId - Id of this node's parent, or null for root nodes.
+ * @param props.index - Position of this node among its siblings.
+ * @param props.depth - Nesting depth of the node, 0 for root nodes.
+ * @param props.isLast - True if this node is the last visible sibling; its line to the parent stops at the node.
+ * @param props.posInSet - 1-based position of the node among its visible siblings (aria-posinset).
+ * @param props.setSize - Number of visible siblings, the node included (aria-setsize).
+ * @param props.ancestorIds - Ids of the node's ancestors, root first.
+ * @param props.guides - Whether the vertical line of each nesting level continues below this row.
+ * @param props.hasVisibleChildren - True if the node's children are rendered below it.
+ * @param props.isCollapsed - True if the node's subtree is collapsed.
+ * @param props.descendantCount - Number of descendants shown in the collapsed badge.
  * @param props.activeNodeId - Id of the currently active node; used to toggle the toolbar.
  * @param props.setActiveNodeId - Setter to mark a node as active (or null to clear).
- * @param props.treeLength - Total number of nodes in the tree (provided for contextual layout; not required for basic rendering).
+ * @param props.isTabStop - True if the row is the tree's tab stop (tabindex 0).
+ * @param props.labelDisplay - Whether the row shows the node's value, its label, or both ("label: value").
+ * @param props.lock - The lock on the node, or null when it is not locked.
+ * @param props.parentLock - The lock on the node's parent, or null.
+ * @param props.indentLock - The lock on the node's previous sibling, passed to the Toolbar.
+ * @param props.outdentLock - The lock on the node's grandparent, passed to the Toolbar.
+ * @param props.deleteBlocker - Why the node cannot be deleted (it is locked or contains locked nodes), or null.
+ * @param props.valueError - Why the node's value is invalid (e.g. a malformed or conflicting port), or null.
+ * @param props.searchPattern - Active search pattern used to highlight matches, or null when not searching.
+ * @param props.draggedId - Id of the node being dragged, or null.
+ * @param props.onDragChange - Callback invoked with the node id when its drag starts, and null when it ends.
+ * @param props.onToggleCollapsed - Callback invoked with a node id when its chevron is clicked.
  *
- * @returns A JSX element representing the node and its nested children.
+ * @returns A JSX element representing the node's row.
  */
 
-import { useState } from "react";
+import { useLayoutEffect, useRef, useState } from "react";
+import type { DragEvent, KeyboardEvent } from "react";
 import type { TreeNodeType } from "../../types/TreeNode";
 import { InputText } from "../ui/InputText";
 import { Toolbar } from "./Toolbar";
+import { ValueEditor } from "./ValueEditor";
+import { HighlightedText } from "../ui/HighlightedText";
+import { nodeMatches } from "../../utils/treeSearch";
+import type { TreeRow } from "../../utils/treeRows";
+import type { LabelDisplay } from "../../utils/templateLibrary";
+import { blockedTitle } from "../../utils/treeLocks";
+import type { NodeLock } from "../../utils/treeLocks";
 
-export interface TreeNodeProps {
-  node: TreeNodeType;
+export interface TreeNodeProps extends TreeRow {
   onAdd: (parentId: string) => void;
   onDelete: (nodeId: string) => void;
   onUpdate: (nodeId: string, node: TreeNodeType) => void;
-  isLast: boolean;
+  onAddSibling: (nodeId: string, position: "before" | "after") => void;
+  onDuplicate: (nodeId: string) => void;
+  onIndent: (nodeId: string) => void;
+  onOutdent: (nodeId: string) => void;
+  onCopy: (nodeId: string) => void;
+  onCut: (nodeId: string) => void;
+  onPaste: (nodeId: string, position: "child" | "sibling") => void;
+  onMove: (
+    nodeId: string,
+    targetParentId: string | null,
+    index: number
+  ) => void;
   activeNodeId: string | null;
   setActiveNodeId: (id: string | null) => void;
-  treeLength: number;
+  isTabStop: boolean;
+  labelDisplay: LabelDisplay;
+  lock: NodeLock | null;
+  parentLock: NodeLock | null;
+  indentLock: NodeLock | null;
+  outdentLock: NodeLock | null;
+  deleteBlocker: string | null;
+  valueError: string | null;
+  searchPattern: RegExp | null;
+  draggedId: string | null;
+  onDragChange: (nodeId: string | null) => void;
+  onToggleCollapsed: (nodeId: string) => void;
+}
+
+const INDENT = 32; // Horizontal offset of each nesting level in pixels
+const DRAG_MIME_TYPE = "application/x-port-template-node";
+
+// Position of the node box within its row, in pixels from the top of the row
+interface BoxGeometry {
+  center: number;
+  bottom: number;
 }
 
-const NODE_HEIGHT = 34; // Height of each node box in pixels
-const MARGIN_BETWEEN_NODES = 8; // Vertical margin between nodes in pixels
+const measureBox = (
+  row: HTMLElement | null,
+  box: HTMLElement | null
+): BoxGeometry | null => {
+  if (!row || !box) return null;
+  const rowTop = row.getBoundingClientRect().top;
+  const rect = box.getBoundingClientRect();
+  return {
+    center: rect.top - rowTop + rect.height / 2,
+    bottom: rect.bottom - rowTop,
+  };
+};
+
+const sameGeometry = (a: BoxGeometry, b: BoxGeometry) =>
+  a.center === b.center && a.bottom === b.bottom;
+
+type DropPosition = "before" | "after" | "inside";
+
+const getDropPosition = (e: DragEvent<HTMLElement>): DropPosition => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const ratio = rect.height ? (e.clientY - rect.top) / rect.height : 0.5;
+  if (ratio < 0.25) return "before";
+  if (ratio > 0.75) return "after";
+  return "inside";
+};
 
 export function TreeNode({
   node,
   onAdd,
   onDelete,
   onUpdate,
+  onAddSibling,
+  onDuplicate,
+  onIndent,
+  onOutdent,
+  onCopy,
+  onCut,
+  onPaste,
+  onMove,
+  parentId,
+  index,
+  depth,
+  posInSet,
+  setSize,
+  ancestorIds,
+  guides,
+  hasVisibleChildren,
+  isCollapsed,
+  descendantCount,
   activeNodeId,
   setActiveNodeId,
-  treeLength,
+  isTabStop,
+  labelDisplay,
+  lock,
+  parentLock,
+  indentLock,
+  outdentLock,
+  deleteBlocker,
+  valueError,
+  searchPattern,
+  draggedId,
+  onDragChange,
+  onToggleCollapsed,
 }: TreeNodeProps) {
   const [fieldValue, setFieldValue] = useState(node.value);
+  const [syncedValue, setSyncedValue] = useState(node.value);
+  const [fieldLabel, setFieldLabel] = useState(node.label);
+  const [syncedLabel, setSyncedLabel] = useState(node.label);
+  const [dropPosition, setDropPosition] = useState<DropPosition | null>(null);
+  const [boxGeometry, setBoxGeometry] = useState<BoxGeometry>({
+    center: 0,
+    bottom: 0,
+  });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowRef = useRef<HTMLDivElement>(null);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const labelInputRef = useRef<HTMLInputElement>(null);
+  const valueEditorRef = useRef<HTMLElement>(null);
+
+  // Measure before the first paint, then whenever the row or the box resizes (the toolbar,
+  // a wrapped value, fonts, window width)
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const box = boxRef.current;
+    const measure = () => {
+      const measured = measureBox(container, box);
+      if (measured) {
+        setBoxGeometry((current) =>
+          sameGeometry(measured, current) ? current : measured
+        );
+      }
+    };
+    measure();
+    if (!container || !box || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    observer.observe(box);
+    return () => observer.disconnect();
+  }, []);
 
-  const countDescendants = (node: TreeNodeType): number =>
-    node?.children.reduce((acc, child) => acc + 1 + countDescendants(child), 0);
+  // Pick up values and labels changed outside these inputs (e.g. undo/redo, the toolbar)
+  if (node.value !== syncedValue) {
+    setSyncedValue(node.value);
+    setFieldValue(node.value);
+  }
+  if (node.label !== syncedLabel) {
+    setSyncedLabel(node.label);
+    setFieldLabel(node.label);
+  }
 
-  const hasMoreThanOneChild = node.children.length > 1;
-  const hasOneChild = node.children.length === 1;
-  const lastChildNode = node.children[node.children.length - 1];
+  const hasChildren = node.children.length > 0;
+  const isMatch = searchPattern ? nodeMatches(node, searchPattern) : false;
+  const valueMatches = searchPattern ? searchPattern.test(node.value) : false;
+  const labelMatches = searchPattern ? searchPattern.test(node.label) : false;
+  const showsLabel = labelDisplay !== "value";
+  const showsValue = labelDisplay !== "label";
+  // The dragged subtree (including this node) cannot be its own drop target
+  const isInDraggedSubtree =
+    draggedId !== null &&
+    (draggedId === node.id || ancestorIds.includes(draggedId));
+  // Dropping inside adds a child to this node; before or after, a child to its parent
+  const canDrop = (position: DropPosition) =>
+    position === "inside" ? lock === null : parentLock === null;
 
-  const allNodeHeight =
-    (MARGIN_BETWEEN_NODES + NODE_HEIGHT) * countDescendants(node) -
-    (lastChildNode?.children.length === 0 ? NODE_HEIGHT / 2 : 0); // Adjust for last child without children
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const onRow = e.target === e.currentTarget;
+    if (e.key === "Enter" && onRow) {
+      e.preventDefault();
+      (showsValue ? valueEditorRef : labelInputRef).current?.focus();
+    } else if (e.key === "Escape" && !onRow) {
+      e.preventDefault();
+      e.currentTarget.focus();
+    }
+  };
+
+  const handleDragStart = (e: DragEvent<HTMLElement>) => {
+    e.stopPropagation();
+    e.dataTransfer.setData(DRAG_MIME_TYPE, node.id);
+    e.dataTransfer.effectAllowed = "move";
+    if (rowRef.current) e.dataTransfer.setDragImage(rowRef.current, 0, 0);
+    onDragChange(node.id);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes(DRAG_MIME_TYPE)) return;
+    if (isInDraggedSubtree) return;
+    const position = getDropPosition(e);
+    if (!canDrop(position)) {
+      setDropPosition(null);
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setDropPosition(position);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    const draggedNodeId = e.dataTransfer.getData(DRAG_MIME_TYPE);
+    setDropPosition(null);
+    const position = getDropPosition(e);
+    if (!draggedNodeId || isInDraggedSubtree || !canDrop(position)) return;
+    e.preventDefault();
+    if (position === "before") onMove(draggedNodeId, parentId, index);
+    else if (position === "after") onMove(draggedNodeId, parentId, index + 1);
+    else onMove(draggedNodeId, node.id, node.children.length);
+  };
 
   return (
-    <div className="relative pl-8">
+    <div
+      ref={containerRef}
+      role="treeitem"
+      aria-label={node.label}
+      aria-level={depth + 1}
+      aria-posinset={posInSet}
+      aria-setsize={setSize}
+      aria-expanded={hasChildren ? !isCollapsed : undefined}
+      aria-selected={activeNodeId === node.id}
+      tabIndex={isTabStop ? 0 : -1}
+      data-node-id={node.id}
+      onFocus={() => {
+        if (activeNodeId !== node.id) setActiveNodeId(node.id);
+      }}
+      onKeyDown={handleKeyDown}
+      className={`relative flow-root outline-none focus-visible:bg-blue-50 ${
+        isInDraggedSubtree ? "opacity-50" : ""
+      }`}
+      style={{ paddingLeft: (depth + 1) * INDENT }}
+      data-dragging={isInDraggedSubtree}
+    >
       {/* Connector Lines */}
-
-      {/* Node Box */}
-      <div className="flex items-center gap-2 mb-2 relative">
-        {/* vertical line */}
+      {guides.map((continues, level) => {
+        const isOwnLine = level === guides.length - 1;
+        // Lines of outer levels only pass through rows where they continue
+        if (!isOwnLine && !continues) return null;
+        return (
+          <div
+            key={level}
+            className="absolute top-0 w-px bg-gray-200"
+            style={{
+              left: (level + 1) * INDENT,
+              ...(continues ? { bottom: 0 } : { height: boxGeometry.center }),
+            }}
+          ></div>
+        );
+      })}
+      {hasVisibleChildren ? (
         <div
-          className={`absolute left-0 top-[34px] w-px bg-red-500`}
-          style={{
-            bottom: hasMoreThanOneChild
-              ? `-${allNodeHeight}px`
-              : hasOneChild
-              ? `-${NODE_HEIGHT - MARGIN_BETWEEN_NODES}px`
-              : "0px",
-          }}
+          className="absolute bottom-0 w-px bg-gray-200"
+          style={{ left: (depth + 1) * INDENT, top: boxGeometry.bottom }}
         ></div>
+      ) : null}
+
+      {/* Node Box */}
+      <div
+        ref={rowRef}
+        className="flex items-center gap-2 mb-2 relative"
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDropPosition(null)}
+        onDrop={handleDrop}
+      >
+        {/* drop indicator */}
+        {dropPosition === "before" || dropPosition === "after" ? (
+          <div
+            data-testid="drop-indicator"
+            className={`absolute left-0 right-0 h-0.5 bg-blue-500 pointer-events-none ${
+              dropPosition === "before" ? "-top-1" : "-bottom-1"
+            }`}
+          ></div>
+        ) : null}
         <div
-          className={`relative before:content-[''] before:absolute before:-left-8 before:top-1/2 before:-translate-y-1/2 before:w-8 before:h-px before:bg-red-500`}
+          ref={boxRef}
+          data-testid="node-box"
+          className={`relative flex items-center gap-1 before:content-[''] before:absolute before:-left-8 before:top-1/2 before:-translate-y-1/2 before:w-8 before:h-px before:bg-gray-200 rounded ${
+            dropPosition === "inside" ? "ring-2 ring-blue-400" : ""
+          }`}
         >
-          <InputText
-            value={fieldValue}
-            onChange={(val) => {
-              setFieldValue(val);
-              onUpdate(node.id, { ...node, value: val });
-            }}
-            onClick={() => setActiveNodeId(node.id)}
-            readonly={node.readOnly || false}
-          />
+          {showsLabel ? (
+            <InputText
+              ref={labelInputRef}
+              tabIndex={-1}
+              ariaLabel="Label"
+              placeholder="label"
+              value={fieldLabel}
+              onChange={(label) => {
+                setFieldLabel(label);
+                onUpdate(node.id, { ...node, label });
+              }}
+              onClick={() => setActiveNodeId(node.id)}
+              readonly={lock !== null}
+              highlighted={labelMatches}
+            />
+          ) : null}
+          {showsLabel && showsValue ? (
+            <span className="text-gray-500">:</span>
+          ) : null}
+          {showsValue ? (
+            <ValueEditor
+              ref={valueEditorRef}
+              tabIndex={-1}
+              node={node}
+              value={fieldValue}
+              onChange={(val) => {
+                setFieldValue(val);
+                onUpdate(node.id, { ...node, value: val });
+              }}
+              onClick={() => setActiveNodeId(node.id)}
+              readonly={lock !== null}
+              highlighted={valueMatches}
+              error={valueError}
+            />
+          ) : null}
         </div>
+        {lock ? (
+          <span
+            role="img"
+            aria-label="Locked"
+            title={lock.reason}
+            className="select-none text-gray-500"
+          >
+            🔒
+          </span>
+        ) : null}
+        {hasChildren ? (
+          <button
+            type="button"
+            onClick={() => onToggleCollapsed(node.id)}
+            className="select-none text-gray-500 hover:text-gray-800 w-4"
+            aria-expanded={!isCollapsed}
+            aria-label={isCollapsed ? "Expand" : "Collapse"}
+            title={isCollapsed ? "Expand" : "Collapse"}
+          >
+            {isCollapsed ? "▸" : "▾"}
+          </button>
+        ) : null}
+        {isCollapsed ? (
+          <span
+            data-testid="descendant-count"
+            className="text-xs text-gray-600 bg-gray-200 rounded-full px-2"
+            title={`${descendantCount} hidden nodes`}
+          >
+            {descendantCount}
+          </span>
+        ) : null}
+        {isMatch && !showsLabel ? (
+          <span data-testid="search-label" className="text-xs text-gray-500">
+            <HighlightedText text={node.label} pattern={searchPattern} />
+          </span>
+        ) : null}
+        {isMatch && !showsValue ? (
+          <span data-testid="search-value" className="text-xs text-gray-500">
+            <HighlightedText text={node.value} pattern={searchPattern} />
+          </span>
+        ) : null}
+        <span
+          draggable={lock === null}
+          onDragStart={handleDragStart}
+          onDragEnd={() => onDragChange(null)}
+          className={`select-none text-gray-400 ${
+            lock ? "cursor-not-allowed" : "cursor-grab hover:text-gray-600"
+          }`}
+          title={blockedTitle("Drag to move", lock?.reason)}
+          aria-label="Drag to move"
+        >
+          ⋮⋮
+        </span>
         {activeNodeId === node.id ? (
           <Toolbar
             node={node}
-            onAdd={onAdd}
+            onAdd={(id) => {
+              // Keep the new child visible
+              if (isCollapsed) onToggleCollapsed(id);
+              onAdd(id);
+            }}
             onDelete={onDelete}
             onUpdate={onUpdate}
+            onAddSibling={onAddSibling}
+            onDuplicate={onDuplicate}
+            onIndent={onIndent}
+            onOutdent={onOutdent}
+            onCopy={onCopy}
+            onCut={onCut}
+            onPaste={onPaste}
+            canIndent={index > 0}
+            canOutdent={parentId !== null}
+            lock={lock}
+            parentLock={parentLock}
+            indentLock={indentLock}
+            outdentLock={outdentLock}
+            deleteBlocker={deleteBlocker}
           />
         ) : null}
       </div>
-
-      {/* Children */}
-      <div className="ml-0">
-        {node.children.map((child, idx) => (
-          <TreeNode
-            key={child.id}
-            node={child}
-            onAdd={onAdd}
-            onDelete={onDelete}
-            onUpdate={onUpdate}
-            isLast={idx === node.children.length - 1}
-            treeLength={treeLength}
-            activeNodeId={activeNodeId}
-            setActiveNodeId={setActiveNodeId}
-          />
-        ))}
-      </div>
     </div>
   );
 }
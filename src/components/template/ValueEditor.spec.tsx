@@ -0,0 +1,175 @@
+import { createRef } from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import "@testing-library/jest-dom";
+import { ValueEditor } from "./ValueEditor";
+import type { TreeNodeType } from "../../types/TreeNode";
+
+describe("ValueEditor", () => {
+  const baseNode: TreeNodeType = {
+    id: "node-1",
+    label: "http",
+    value: "80",
+    children: [],
+  };
+
+  const renderEditor = (
+    node: Partial<TreeNodeType>,
+    value = "80",
+    readonly = false
+  ) => {
+    const onChange = jest.fn();
+    render(
+      <ValueEditor
+        node={{ ...baseNode, ...node }}
+        value={value}
+        onChange={onChange}
+        readonly={readonly}
+      />
+    );
+    return onChange;
+  };
+
+  it("should edit untyped values as text", () => {
+    const onChange = renderEditor({});
+
+    const input = screen.getByRole("textbox", { name: "Value" });
+    fireEvent.change(input, { target: { value: "8080" } });
+
+    expect(input).toHaveValue("80");
+    expect(onChange).toHaveBeenCalledWith("8080");
+  });
+
+  it("should edit integers with a number input", () => {
+    const onChange = renderEditor({ valueType: "integer" }, "3");
+
+    const input = screen.getByRole("spinbutton", { name: "Value" });
+    fireEvent.change(input, { target: { value: "4" } });
+
+    expect(input).not.toHaveAttribute("min");
+    expect(onChange).toHaveBeenCalledWith("4");
+  });
+
+  it("should edit ports as text to allow ranges and protocols", () => {
+    const onChange = renderEditor({ valueType: "port" });
+
+    const input = screen.getByRole("textbox", { name: "Value" });
+    fireEvent.change(input, { target: { value: "8000-8100/tcp" } });
+
+    expect(input).toHaveAttribute("placeholder", "80 or 8000-8100/tcp");
+    expect(onChange).toHaveBeenCalledWith("8000-8100/tcp");
+  });
+
+  it("should flag invalid values", () => {
+    render(
+      <ValueEditor
+        node={{ ...baseNode, valueType: "port" }}
+        value="99999"
+        onChange={jest.fn()}
+        error="Port 99999 is outside 1-65535"
+      />
+    );
+
+    const input = screen.getByRole("textbox");
+    expect(input).toBeInvalid();
+    expect(input).toHaveAttribute("title", "Port 99999 is outside 1-65535");
+  });
+
+  it("should not flag valid values", () => {
+    renderEditor({ valueType: "port" });
+
+    expect(screen.getByRole("textbox")).toBeValid();
+  });
+
+  it("should edit booleans with a switch", () => {
+    const onChange = renderEditor({ valueType: "boolean" }, "true");
+
+    const toggle = screen.getByRole("switch", { name: "Value" });
+    expect(toggle).toHaveAttribute("aria-checked", "true");
+
+    fireEvent.click(toggle);
+
+    expect(onChange).toHaveBeenCalledWith("false");
+    expect(toggle).toHaveAttribute("aria-checked", "false");
+  });
+
+  it("should follow boolean values changed elsewhere", () => {
+    const node = { ...baseNode, valueType: "boolean" as const };
+    const { rerender } = render(
+      <ValueEditor node={node} value="false" onChange={jest.fn()} />
+    );
+
+    rerender(<ValueEditor node={node} value="true" onChange={jest.fn()} />);
+
+    expect(screen.getByRole("switch")).toHaveAttribute("aria-checked", "true");
+  });
+
+  it("should pick enum values from the node's options", () => {
+    const onChange = renderEditor(
+      { valueType: "enum", options: ["tcp", "udp"] },
+      "tcp"
+    );
+
+    const select = screen.getByRole("combobox", { name: "Value" });
+    expect(
+      screen.getAllByRole("option").map((option) => option.textContent)
+    ).toEqual(["tcp", "udp"]);
+
+    fireEvent.change(select, { target: { value: "udp" } });
+
+    expect(onChange).toHaveBeenCalledWith("udp");
+  });
+
+  it("should keep listing an enum value that is not an option", () => {
+    renderEditor({ valueType: "enum", options: ["tcp", "udp"] }, "sctp");
+
+    expect(screen.getByRole("combobox")).toHaveValue("sctp");
+    expect(screen.getAllByRole("option")).toHaveLength(3);
+  });
+
+  it("should list repeated enum options once", () => {
+    renderEditor({ valueType: "enum", options: ["tcp", "udp", "tcp"] }, "udp");
+
+    expect(
+      screen.getAllByRole("option").map((option) => option.textContent)
+    ).toEqual(["tcp", "udp"]);
+  });
+
+  it("should hint at hosts", () => {
+    renderEditor({ valueType: "host" }, "");
+
+    expect(screen.getByPlaceholderText("host or IP")).toBeInTheDocument();
+  });
+
+  it("should not allow editing read-only values", () => {
+    const onChange = renderEditor({ valueType: "boolean" }, "true", true);
+
+    fireEvent.click(screen.getByRole("switch"));
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(screen.getByRole("switch")).toHaveAttribute("aria-disabled", "true");
+  });
+
+  it("should disable the select of read-only enums", () => {
+    renderEditor({ valueType: "enum", options: ["tcp"] }, "tcp", true);
+
+    expect(screen.getByRole("combobox")).toBeDisabled();
+  });
+
+  it.each([
+    ["string", "textbox"],
+    ["boolean", "switch"],
+    ["enum", "combobox"],
+  ] as const)("should point the ref at the %s editor", (valueType, role) => {
+    const ref = createRef<HTMLElement>();
+    render(
+      <ValueEditor
+        ref={ref}
+        node={{ ...baseNode, valueType, options: ["80"] }}
+        value="80"
+        onChange={jest.fn()}
+      />
+    );
+
+    expect(ref.current).toBe(screen.getByRole(role));
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Editor for a node's value, matching the node's `valueType` (see utils/valueTypes):
+ *
+ * - string: a text input.
+ * - integer: a number input.
+ * - boolean: a ToggleSwitch, on when the value is "true".
+ * - enum: a select listing the node's `options`. A value that is not one of the options (e.g.
+ *   after the options changed) stays listed so that it is not silently replaced.
+ * - port: a text input, since ports may be ranges with a protocol (see portValidation).
+ * - host: a text input with a hostname / IP placeholder.
+ *
+ * Every editor reports its new value as a string through `onChange` and is read-only with
+ * `readonly` (e.g. for locked nodes, see treeLocks); text inputs are flagged as invalid with
+ * `error`. `ref` points at whichever element is rendered, so callers can focus it.
+ *
+ * @param props.node - The node whose value is edited; provides `valueType` and `options`.
+ * @param props.value - The value shown, which may differ from `node.value` while it is being edited.
+ * @param props.onChange - Callback invoked with the new value.
+ * @param props.onClick - Callback invoked when the editor is clicked.
+ * @param props.readonly - Whether the value cannot be changed.
+ * @param props.highlighted - Whether to highlight the editor (e.g. as a search match).
+ * @param props.error - Why the value is invalid (e.g. a malformed or conflicting port), or null.
+ * @param props.tabIndex - Tab index of the editor element.
+ * @param props.ref - Ref set to the editor element.
+ *
+ * @returns A JSX element for the editor.
+ */
+import type { Ref } from "react";
+import type { TreeNodeType, ValueType } from "../../types/TreeNode";
+import { InputText } from "../ui/InputText";
+import { ToggleSwitch } from "../ui/ToggleSwitch";
+
+const PLACEHOLDERS: Partial<Record<ValueType, string>> = {
+  port: "80 or 8000-8100/tcp",
+  host: "host or IP",
+};
+
+export interface ValueEditorProps {
+  node: TreeNodeType;
+  value: string;
+  onChange: (value: string) => void;
+  onClick?: () => void;
+  readonly?: boolean;
+  highlighted?: boolean;
+  error?: string | null;
+  tabIndex?: number;
+  ref?: Ref<HTMLElement>;
+}
+
+export function ValueEditor({
+  node,
+  value,
+  onChange,
+  onClick,
+  readonly = false,
+  highlighted,
+  error,
+  tabIndex,
+  ref,
+}: ValueEditorProps) {
+  // The editors render different elements; point `ref` at whichever one is mounted
+  const setElement = (element: HTMLElement | null) => {
+    if (typeof ref === "function") ref(element);
+    else if (ref) ref.current = element;
+  };
+
+  switch (node.valueType) {
+    case "boolean":
+      return (
+        <ToggleSwitch
+          ref={setElement}
+          ariaLabel="Value"
+          tabIndex={tabIndex}
+          checked={value === "true"}
+          onChange={(checked) => onChange(String(checked))}
+          disabled={readonly}
+        />
+      );
+    case "enum": {
+      // Stored or imported options may repeat; each is listed once
+      const options = [...new Set(node.options ?? [])];
+      const choices = options.includes(value) ? options : [value, ...options];
+      return (
+        <select
+          ref={setElement}
+          aria-label="Value"
+          tabIndex={tabIndex}
+          className={`border rounded px-2 py-1 border-dashed border-gray-400 text-gray-800 outline-none focus:border-blue-500 disabled:bg-gray-100 ${
+            highlighted ? "bg-yellow-100 border-yellow-500" : ""
+          }`}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onClick={onClick}
+          disabled={readonly}
+        >
+          {choices.map((choice) => (
+            <option key={choice} value={choice}>
+              {choice}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    case "integer":
+      return (
+        <InputText
+          ref={setElement}
+          type="number"
+          ariaLabel="Value"
+          tabIndex={tabIndex}
+          value={value}
+          onChange={onChange}
+          onClick={onClick}
+          readonly={readonly}
+          highlighted={highlighted}
+          error={error}
+        />
+      );
+    default:
+      return (
+        <InputText
+          ref={setElement}
+          ariaLabel="Value"
+          placeholder={PLACEHOLDERS[node.valueType ?? "string"]}
+          tabIndex={tabIndex}
+          value={value}
+          onChange={onChange}
+          onClick={onClick}
+          readonly={readonly}
+          highlighted={highlighted}
+          error={error}
+        />
+      );
+  }
+}
@@ -3,6 +3,9 @@ interface ButtonProps {
   onClick?: () => void;
   children: React.ReactNode;
   style?: React.CSSProperties;
+  disabled?: boolean;
+  title?: string;
+  autoFocus?: boolean;
 }
 
 export function Button({
@@ -10,12 +13,18 @@ export function Button({
   onClick,
   children,
   style,
+  disabled,
+  title,
+  autoFocus,
 }: ButtonProps) {
   return (
     <button
-      className={`btn-${variant} font-semibold py-1 px-3 rounded text-sm transition cursor-pointer`}
+      className={`btn-${variant} font-semibold py-1 px-3 rounded text-sm transition cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed`}
       onClick={onClick}
       style={style}
+      disabled={disabled}
+      title={title}
+      autoFocus={autoFocus}
     >
       {children}
     </button>
@@ -0,0 +1,84 @@
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ConfirmDialog } from "./ConfirmDialog";
+import "@testing-library/jest-dom";
+
+describe("ConfirmDialog", () => {
+  const defaultProps = {
+    title: 'Delete "web"?',
+    confirmLabel: "Delete",
+    onConfirm: jest.fn(),
+    onCancel: jest.fn(),
+  };
+
+  const renderDialog = () =>
+    render(
+      <ConfirmDialog {...defaultProps}>
+        Its 2 descendant node(s) will be deleted with it.
+      </ConfirmDialog>
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should be a modal dialog named by its title and described by its body", () => {
+    renderDialog();
+
+    const dialog = screen.getByRole("dialog", { name: 'Delete "web"?' });
+    expect(dialog).toHaveAttribute("aria-modal", "true");
+    expect(dialog).toHaveAccessibleDescription(
+      "Its 2 descendant node(s) will be deleted with it."
+    );
+  });
+
+  it("should confirm", () => {
+    renderDialog();
+
+    fireEvent.click(screen.getByText("Delete"));
+
+    expect(defaultProps.onConfirm).toHaveBeenCalledTimes(1);
+    expect(defaultProps.onCancel).not.toHaveBeenCalled();
+  });
+
+  it("should cancel from the cancel button and the backdrop only", () => {
+    renderDialog();
+
+    fireEvent.click(screen.getByText("Cancel"));
+    fireEvent.click(screen.getByRole("dialog"));
+    fireEvent.click(screen.getByRole("dialog").parentElement!);
+
+    expect(defaultProps.onCancel).toHaveBeenCalledTimes(2);
+    expect(defaultProps.onConfirm).not.toHaveBeenCalled();
+  });
+
+  it("should cancel on Escape without letting the key through", () => {
+    const onKeyDown = jest.fn();
+    render(
+      <div onKeyDown={onKeyDown}>
+        <ConfirmDialog {...defaultProps}>Body</ConfirmDialog>
+      </div>
+    );
+
+    fireEvent.keyDown(screen.getByText("Cancel"), { key: "Escape" });
+
+    expect(defaultProps.onCancel).toHaveBeenCalledTimes(1);
+    expect(onKeyDown).not.toHaveBeenCalled();
+  });
+
+  it("should focus cancel first and keep Tab between the buttons", () => {
+    renderDialog();
+
+    const cancel = screen.getByText("Cancel");
+    const confirm = screen.getByText("Delete");
+    expect(cancel).toHaveFocus();
+
+    fireEvent.keyDown(cancel, { key: "Tab" });
+    expect(confirm).toHaveFocus();
+
+    fireEvent.keyDown(confirm, { key: "Tab" });
+    expect(cancel).toHaveFocus();
+
+    fireEvent.keyDown(cancel, { key: "Tab", shiftKey: true });
+    expect(confirm).toHaveFocus();
+  });
+});
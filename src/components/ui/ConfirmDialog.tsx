@@ -0,0 +1,78 @@
+import { useId } from "react";
+import { Button } from "./Buton";
+
+interface ConfirmDialogProps {
+  title: string;
+  children: React.ReactNode; // what will happen, e.g. how much is deleted
+  confirmLabel?: string;
+  cancelLabel?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal dialog asking to confirm an action. Render it only while the question is open.
+ *
+ * Cancel is focused first so that a stray Enter does not confirm a destructive action; Escape
+ * and clicks on the backdrop cancel, and Tab cycles between the two buttons.
+ */
+export function ConfirmDialog({
+  title,
+  children,
+  confirmLabel = "Confirm",
+  cancelLabel = "Cancel",
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  const titleId = useId();
+  const descriptionId = useId();
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/30"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        aria-describedby={descriptionId}
+        className="w-96 p-4 bg-white rounded shadow-lg"
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            e.stopPropagation();
+            onCancel();
+          } else if (e.key === "Tab") {
+            // Keep the focus inside the dialog
+            const buttons = Array.from(
+              e.currentTarget.querySelectorAll("button")
+            );
+            const index = buttons.indexOf(
+              document.activeElement as HTMLButtonElement
+            );
+            const next = e.shiftKey ? index - 1 : index + 1;
+            e.preventDefault();
+            buttons[(next + buttons.length) % buttons.length]?.focus();
+          }
+        }}
+      >
+        <h2 id={titleId} className="mb-2 font-semibold text-gray-800">
+          {title}
+        </h2>
+        <div id={descriptionId} className="mb-4 text-sm text-gray-700">
+          {children}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onCancel} autoFocus>
+            {cancelLabel}
+          </Button>
+          <Button variant="primary" onClick={onConfirm}>
+            {confirmLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
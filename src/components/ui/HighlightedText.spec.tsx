@@ -0,0 +1,47 @@
+import { render } from "@testing-library/react";
+import { HighlightedText } from "./HighlightedText";
+import "@testing-library/jest-dom";
+
+describe("HighlightedText", () => {
+  const marks = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll("mark")).map(
+      (mark) => mark.textContent
+    );
+
+  it("should render the text as it is without a pattern", () => {
+    const { container, rerender } = render(<HighlightedText text="https" />);
+
+    expect(container.innerHTML).toBe("https");
+
+    rerender(<HighlightedText text="https" pattern={null} />);
+
+    expect(container.innerHTML).toBe("https");
+  });
+
+  it("should mark every match and keep the text around them", () => {
+    const { container } = render(
+      <HighlightedText text="http and HTTPS" pattern={/http/i} />
+    );
+
+    expect(container).toHaveTextContent("http and HTTPS");
+    expect(marks(container)).toEqual(["http", "HTTP"]);
+  });
+
+  it("should mark nothing when the pattern does not match", () => {
+    const { container } = render(
+      <HighlightedText text="postgres" pattern={/redis/} />
+    );
+
+    expect(container).toHaveTextContent("postgres");
+    expect(marks(container)).toEqual([]);
+  });
+
+  it("should skip empty matches", () => {
+    const { container } = render(
+      <HighlightedText text="8080" pattern={/0*/} />
+    );
+
+    expect(container).toHaveTextContent("8080");
+    expect(marks(container)).toEqual(["0", "0"]);
+  });
+});
@@ -0,0 +1,23 @@
+import { splitMatches } from "../../utils/treeSearch";
+
+interface HighlightedTextProps {
+  text: string;
+  pattern?: RegExp | null;
+}
+
+export function HighlightedText({ text, pattern }: HighlightedTextProps) {
+  if (!pattern) return <>{text}</>;
+  return (
+    <>
+      {splitMatches(text, pattern).map((part, idx) =>
+        part.match ? (
+          <mark key={idx} className="bg-yellow-200 text-gray-900 rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={idx}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
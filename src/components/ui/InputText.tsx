@@ -1,8 +1,17 @@
+import type { Ref } from "react";
+
 export interface InputTextProps {
   onChange?: (value: string) => void;
   value?: string;
   onClick?: () => void;
   readonly?: boolean;
+  placeholder?: string;
+  highlighted?: boolean;
+  error?: string | null; // marks the value invalid and explains why
+  tabIndex?: number;
+  ariaLabel?: string;
+  type?: "text" | "number";
+  ref?: Ref<HTMLInputElement>;
 }
 
 export function InputText({
@@ -10,15 +19,30 @@ export function InputText({
   value,
   onClick,
   readonly,
+  placeholder,
+  highlighted,
+  error,
+  tabIndex,
+  ariaLabel,
+  type = "text",
+  ref,
 }: InputTextProps) {
   return (
     <input
-      type="text"
-      className="border w-[100px] rounded px-2 py-1 border-dashed border-gray-400 text-gray-800 outline-none focus:border-dashed focus:border-blue-500 read-only:bg-gray-100"
+      ref={ref}
+      type={type}
+      className={`border w-[100px] rounded px-2 py-1 border-dashed border-gray-400 text-gray-800 outline-none focus:border-dashed focus:border-blue-500 read-only:bg-gray-100 ${
+        highlighted ? "bg-yellow-100 border-yellow-500" : ""
+      } ${error ? "border-red-500 focus:border-red-600" : ""}`}
       value={value}
       onChange={(e) => onChange?.(e.target.value)}
       onClick={onClick}
       readOnly={readonly}
+      placeholder={placeholder}
+      tabIndex={tabIndex}
+      aria-label={ariaLabel}
+      aria-invalid={error ? true : undefined}
+      title={error ?? undefined}
     />
   );
 }
@@ -0,0 +1,63 @@
+import { ToastContext } from "../../hooks/useToast";
+import { useToastQueue } from "../../hooks/useToastQueue";
+import type { ToastLevel } from "../../hooks/useToastQueue";
+import { Button } from "./Buton";
+
+interface ToastProviderProps {
+  children: React.ReactNode;
+}
+
+const LEVEL_CLASSES: Record<ToastLevel, string> = {
+  success: "border-green-500 text-green-800",
+  error: "border-red-500 text-red-700",
+  info: "border-blue-500 text-gray-800",
+};
+
+export function ToastProvider({ children }: ToastProviderProps) {
+  const { toasts, queuedCount, notify, dismiss } = useToastQueue();
+
+  return (
+    <ToastContext value={{ notify, dismiss }}>
+      {children}
+      <div
+        aria-label="Notifications"
+        className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80"
+      >
+        {toasts.map((toast) => (
+          <div
+            key={toast.id}
+            role={toast.level === "error" ? "alert" : "status"}
+            className={`flex items-center gap-2 p-3 bg-white border-l-4 rounded shadow text-sm ${
+              LEVEL_CLASSES[toast.level]
+            }`}
+          >
+            <span className="flex-1">{toast.message}</span>
+            {toast.action ? (
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  toast.action?.onClick();
+                  dismiss(toast.id);
+                }}
+              >
+                {toast.action.label}
+              </Button>
+            ) : null}
+            <Button
+              variant="ghost"
+              onClick={() => dismiss(toast.id)}
+              title="Dismiss"
+            >
+              ×
+            </Button>
+          </div>
+        ))}
+        {queuedCount > 0 ? (
+          <span className="text-xs text-right text-gray-500">
+            {queuedCount} more notification(s)
+          </span>
+        ) : null}
+      </div>
+    </ToastContext>
+  );
+}
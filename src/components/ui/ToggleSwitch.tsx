@@ -1,19 +1,38 @@
 import { useState } from "react";
+import type { Ref } from "react";
 
 interface ToggleSwitchProps {
   checked?: boolean;
   onChange?: (checked: boolean) => void;
   label?: string;
+  disabled?: boolean;
+  tabIndex?: number;
+  ariaLabel?: string;
+  title?: string;
+  ref?: Ref<HTMLDivElement>;
 }
 
 export function ToggleSwitch({
   checked = false,
   onChange,
   label,
+  disabled = false,
+  tabIndex = 0,
+  ariaLabel,
+  title,
+  ref,
 }: ToggleSwitchProps) {
   const [isOn, setIsOn] = useState(checked);
+  const [syncedChecked, setSyncedChecked] = useState(checked);
+
+  // Follow changes made elsewhere (e.g. undo/redo)
+  if (checked !== syncedChecked) {
+    setSyncedChecked(checked);
+    setIsOn(checked);
+  }
 
   const handleToggle = () => {
+    if (disabled) return;
     const newValue = !isOn;
     setIsOn(newValue);
     onChange?.(newValue);
@@ -21,8 +40,22 @@ export function ToggleSwitch({
 
   return (
     <div
-      className="flex items-center gap-2 cursor-pointer select-none"
+      ref={ref}
+      role="switch"
+      aria-checked={isOn}
+      aria-disabled={disabled}
+      aria-label={ariaLabel ?? label}
+      tabIndex={tabIndex}
+      title={title}
+      className={`flex items-center gap-2 select-none outline-none ${
+        disabled ? "cursor-not-allowed opacity-60" : "cursor-pointer"
+      }`}
       onClick={handleToggle}
+      onKeyDown={(e) => {
+        if (e.key !== " ") return;
+        e.preventDefault();
+        handleToggle();
+      }}
     >
       {/* Switch */}
       <div
@@ -0,0 +1,107 @@
+import { render, screen, fireEvent } from "@testing-library/react";
+import { VirtualList } from "./VirtualList";
+import type { VirtualListProps } from "./VirtualList";
+import "@testing-library/jest-dom";
+
+// jsdom has no layout: the viewport falls back to 800px, and items are only measured when
+// offsetHeight is stubbed
+let itemHeight = 0;
+jest
+  .spyOn(HTMLElement.prototype, "offsetHeight", "get")
+  .mockImplementation(() => itemHeight);
+
+describe("VirtualList", () => {
+  const keysOf = (count: number) =>
+    Array.from({ length: count }, (_, i) => `item-${i}`);
+
+  const list = (keys: string[], props: Partial<VirtualListProps> = {}) => (
+    <VirtualList
+      itemCount={keys.length}
+      estimatedItemHeight={20}
+      getItemKey={(idx) => keys[idx]}
+      renderItem={(idx) => <span>{keys[idx]}</span>}
+      {...props}
+    />
+  );
+
+  // The absolutely positioned wrapper of an item
+  const wrapperOf = (key: string) => screen.getByText(key).parentElement!;
+
+  const container = () =>
+    screen.getByText("item-0").closest(".overflow-auto") as HTMLElement;
+
+  beforeEach(() => {
+    itemHeight = 0;
+  });
+
+  it("should mount the items in view and the overscan only", () => {
+    render(list(keysOf(1000)));
+
+    // 40 items fill the 800px viewport, plus 5 of overscan after them
+    expect(screen.getByText("item-0")).toBeInTheDocument();
+    expect(screen.getByText("item-45")).toBeInTheDocument();
+    expect(screen.queryByText("item-46")).not.toBeInTheDocument();
+    expect(wrapperOf("item-45")).toHaveStyle({ top: "900px" });
+    expect(wrapperOf("item-0").parentElement).toHaveStyle({
+      height: "20000px",
+    });
+  });
+
+  it("should follow the scroll position", () => {
+    render(list(keysOf(1000)));
+
+    const scroller = container();
+    scroller.scrollTop = 2000;
+    fireEvent.scroll(scroller);
+
+    expect(screen.queryByText("item-94")).not.toBeInTheDocument();
+    expect(screen.getByText("item-95")).toBeInTheDocument();
+    expect(screen.getByText("item-145")).toBeInTheDocument();
+    expect(screen.queryByText("item-146")).not.toBeInTheDocument();
+  });
+
+  it("should keep pinned items mounted out of view", () => {
+    render(list(keysOf(1000), { pinnedIndices: [500, -1, 5000] }));
+
+    expect(wrapperOf("item-500")).toHaveStyle({ top: "10000px" });
+    expect(screen.queryByText("item-499")).not.toBeInTheDocument();
+  });
+
+  it("should scroll just enough to bring scrollToIndex into view", () => {
+    const keys = keysOf(1000);
+    const { rerender } = render(list(keys));
+    const scroller = container();
+
+    rerender(list(keys, { scrollToIndex: 200 }));
+    expect(scroller.scrollTop).toBe(201 * 20 - 800);
+
+    rerender(list(keys, { scrollToIndex: 10 }));
+    expect(scroller.scrollTop).toBe(200);
+
+    rerender(list(keys, { scrollToIndex: 20 }));
+    expect(scroller.scrollTop).toBe(200);
+  });
+
+  it("should lay items out by their measured heights", () => {
+    itemHeight = 50;
+    render(list(keysOf(100)));
+
+    // The 46 mounted items are measured; the others keep the estimate
+    expect(wrapperOf("item-1")).toHaveStyle({ top: "50px" });
+    expect(wrapperOf("item-0").parentElement).toHaveStyle({
+      height: `${46 * 50 + 54 * 20}px`,
+    });
+  });
+
+  it("should forget the heights of items that are gone", () => {
+    itemHeight = 50;
+    const { rerender } = render(list(["a", "b"]));
+    expect(wrapperOf("b")).toHaveStyle({ top: "50px" });
+
+    rerender(list(["b"]));
+    itemHeight = 0;
+    rerender(list(["a", "b"]));
+
+    expect(wrapperOf("b")).toHaveStyle({ top: "20px" });
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import type { ReactNode } from "react";
+
+/**
+ * Scrollable list that only mounts the items in view (plus `overscan` items on each side).
+ *
+ * Items are absolutely positioned and keep their natural height: every mounted item is
+ * measured (again whenever it resizes) and items that have not been measured yet are assumed
+ * to be `estimatedItemHeight` pixels tall, so the scroll height stays that of the full list.
+ * Items listed in `pinnedIndices` stay mounted while scrolled out of view, e.g. the row holding
+ * keyboard focus. When `scrollToIndex` changes, the list scrolls just enough to bring that
+ * item into view.
+ */
+
+export interface VirtualListProps {
+  itemCount: number;
+  estimatedItemHeight: number;
+  renderItem: (index: number) => ReactNode;
+  getItemKey: (index: number) => string;
+  pinnedIndices?: number[];
+  scrollToIndex?: number;
+  overscan?: number;
+  className?: string;
+}
+
+// Used until the viewport has been measured (and in environments without layout)
+const FALLBACK_VIEWPORT_HEIGHT = 800;
+
+// Index of the item containing `position`, given the items' start offsets
+const findIndexAt = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+/**
+ * Returns `current` with the heights of the mounted items that changed, or `current` itself
+ * when none did, so measuring does not cost an extra render.
+ */
+const measureItems = (
+  elements: Map<string, HTMLElement>,
+  current: Map<string, number>
+): Map<string, number> => {
+  let next = current;
+  for (const [key, element] of elements) {
+    const height = element.offsetHeight;
+    if (height > 0 && current.get(key) !== height) {
+      if (next === current) next = new Map(current);
+      next.set(key, height);
+    }
+  }
+  return next;
+};
+
+export function VirtualList({
+  itemCount,
+  estimatedItemHeight,
+  renderItem,
+  getItemKey,
+  pinnedIndices = [],
+  scrollToIndex,
+  overscan = 5,
+  className = "",
+}: VirtualListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const itemElements = useRef(new Map<string, HTMLElement>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [measuredHeight, setMeasuredHeight] = useState(0);
+  const [itemHeights, setItemHeights] = useState(new Map<string, number>());
+  const viewportHeight = measuredHeight || FALLBACK_VIEWPORT_HEIGHT;
+
+  const keys: string[] = [];
+  const offsets = [0];
+  let measuredCount = 0;
+  for (let index = 0; index < itemCount; index++) {
+    const key = getItemKey(index);
+    const height = itemHeights.get(key);
+    if (height !== undefined) measuredCount++;
+    keys.push(key);
+    offsets.push(offsets[index] + (height ?? estimatedItemHeight));
+  }
+  // Heights are kept by key, so items that are gone (e.g. deleted nodes) leave theirs behind
+  const hasStaleHeights = measuredCount < itemHeights.size;
+
+  const first = Math.max(0, findIndexAt(offsets, scrollTop) - overscan);
+  const last = Math.min(
+    itemCount,
+    findIndexAt(offsets, scrollTop + viewportHeight) + 1 + overscan
+  );
+  const indices: number[] = [];
+  for (let index = first; index < last; index++) indices.push(index);
+  pinnedIndices.forEach((index) => {
+    if (index >= 0 && index < itemCount && (index < first || index >= last)) {
+      indices.push(index);
+    }
+  });
+
+  const offsetsRef = useRef(offsets);
+
+  useLayoutEffect(() => {
+    offsetsRef.current = offsets;
+  });
+
+  // Measure items as they mount; later size changes are picked up by the ResizeObserver
+  const mountedKeys = indices.map((index) => keys[index]).join("\n");
+  useLayoutEffect(() => {
+    const next = measureItems(itemElements.current, itemHeights);
+    if (next !== itemHeights) setItemHeights(next);
+  }, [mountedKeys, itemHeights]);
+
+  useLayoutEffect(() => {
+    if (!hasStaleHeights) return;
+    const live = new Set<string>();
+    for (let index = 0; index < itemCount; index++) {
+      live.add(getItemKey(index));
+    }
+    setItemHeights(
+      (current) => new Map([...current].filter(([key]) => live.has(key)))
+    );
+  }, [hasStaleHeights, itemCount, getItemKey]);
+
+  useLayoutEffect(() => {
+    const measure = () =>
+      setMeasuredHeight(containerRef.current?.clientHeight ?? 0);
+    measure();
+    window.addEventListener("resize", measure);
+    return () => window.removeEventListener("resize", measure);
+  }, []);
+
+  useEffect(() => {
+    if (typeof ResizeObserver === "undefined") return;
+    const elements = itemElements.current;
+    const observer = new ResizeObserver(() =>
+      setItemHeights((current) => measureItems(elements, current))
+    );
+    elements.forEach((element) => observer.observe(element));
+    observerRef.current = observer;
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  // One callback for every item, so that re-renders do not detach and attach them again
+  const attachItem = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    const key = element.dataset.key as string;
+    itemElements.current.set(key, element);
+    observerRef.current?.observe(element);
+    return () => {
+      itemElements.current.delete(key);
+      observerRef.current?.unobserve(element);
+    };
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || scrollToIndex === undefined || scrollToIndex < 0) return;
+    // Offsets come from a ref: re-measured rows must not pull the view back to the target
+    const top = offsetsRef.current[scrollToIndex];
+    const bottom = offsetsRef.current[scrollToIndex + 1];
+    if (top < container.scrollTop) {
+      container.scrollTop = top;
+    } else if (bottom > container.scrollTop + viewportHeight) {
+      container.scrollTop = bottom - viewportHeight;
+    }
+  }, [scrollToIndex, viewportHeight]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`overflow-auto ${className}`}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="relative" style={{ height: offsets[itemCount] }}>
+        {indices.map((index) => (
+          <div
+            key={keys[index]}
+            ref={attachItem}
+            data-key={keys[index]}
+            className="absolute left-0 right-0"
+            style={{ top: offsets[index] }}
+          >
+            {renderItem(index)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { renderHook, act } from "@testing-library/react";
+import { useAutosaveSetting } from "./useAutosaveSetting";
+
+const mockToast = { notify: jest.fn(), dismiss: jest.fn() };
+jest.mock("./useToast", () => ({
+  useToast: () => mockToast,
+}));
+
+describe("useAutosaveSetting", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it("should autosave by default", () => {
+    const { result } = renderHook(() => useAutosaveSetting());
+
+    expect(result.current.autosave).toBe(true);
+  });
+
+  it("should persist the setting", () => {
+    const { result } = renderHook(() => useAutosaveSetting());
+
+    act(() => {
+      result.current.setAutosave(false);
+    });
+
+    expect(result.current.autosave).toBe(false);
+    expect(localStorage.getItem("settings:autosave")).toBe("false");
+  });
+
+  it("should restore a disabled autosave", () => {
+    localStorage.setItem("settings:autosave", "false");
+
+    const { result } = renderHook(() => useAutosaveSetting());
+
+    expect(result.current.autosave).toBe(false);
+  });
+
+  it("should report a setting that cannot be stored and still apply it", () => {
+    jest.spyOn(Storage.prototype, "setItem").mockImplementationOnce(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+    const { result } = renderHook(() => useAutosaveSetting());
+
+    act(() => {
+      result.current.setAutosave(false);
+    });
+
+    expect(result.current.autosave).toBe(false);
+    expect(mockToast.notify).toHaveBeenCalledWith(
+      "Could not save the autosave setting: browser storage is full",
+      { level: "error" }
+    );
+  });
+});
@@ -0,0 +1,23 @@
+import { usePersistedSetting } from "./usePersistedSetting";
+
+export const AUTOSAVE_STORAGE_KEY = "settings:autosave";
+
+/**
+ * Hook tracking whether templates are saved automatically after edits (see usePortTemplate).
+ *
+ * The setting applies to every template. It is written to localStorage under
+ * "settings:autosave" as soon as it changes (see usePersistedSetting); autosave is on unless it
+ * was turned off.
+ *
+ * Returns { autosave, setAutosave }.
+ */
+export function useAutosaveSetting() {
+  const [autosave, setAutosave] = usePersistedSetting(
+    AUTOSAVE_STORAGE_KEY,
+    "autosave setting",
+    (stored) => stored !== "false",
+    String
+  );
+
+  return { autosave, setAutosave };
+}
@@ -0,0 +1,162 @@
+import { renderHook, act } from "@testing-library/react";
+import { useCollapsedNodes } from "./useCollapsedNodes";
+import type { TreeNodeType } from "../types/TreeNode";
+
+jest.mock("uuid", () => ({
+  v4: jest.fn(() => "mock-uuid"),
+}));
+
+const mockToast = { notify: jest.fn(), dismiss: jest.fn() };
+jest.mock("./useToast", () => ({
+  useToast: () => mockToast,
+}));
+
+const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+describe("useCollapsedNodes", () => {
+  const tree: TreeNodeType[] = [
+    {
+      id: "root-1",
+      label: "root",
+      value: "",
+      children: [
+        {
+          id: "child-1",
+          label: "child",
+          value: "",
+          children: [{ id: "leaf-1", label: "child", value: "", children: [] }],
+        },
+      ],
+    },
+    { id: "root-2", label: "root", value: "", children: [] },
+  ];
+
+  const stored = (key: string) =>
+    JSON.parse(localStorage.getItem(key) ?? "null");
+
+  beforeEach(() => {
+    localStorage.clear();
+    consoleWarnSpy.mockClear();
+    mockToast.notify.mockClear();
+  });
+
+  it("should start with nothing collapsed", () => {
+    const { result } = renderHook(() => useCollapsedNodes("tpl-1"));
+
+    expect(result.current.collapsedIds.size).toBe(0);
+  });
+
+  it("should toggle nodes and persist the set per template", () => {
+    const { result } = renderHook(() => useCollapsedNodes("tpl-1"));
+
+    act(() => {
+      result.current.toggleCollapsed("root-1");
+    });
+    expect(result.current.collapsedIds).toEqual(new Set(["root-1"]));
+    expect(stored("template:tpl-1:collapsed")).toEqual(["root-1"]);
+
+    act(() => {
+      result.current.toggleCollapsed("root-1");
+    });
+    expect(result.current.collapsedIds.size).toBe(0);
+    expect(stored("template:tpl-1:collapsed")).toEqual([]);
+  });
+
+  it("should restore the collapsed set on reload", () => {
+    localStorage.setItem("template:tpl-1:collapsed", '["child-1"]');
+
+    const { result } = renderHook(() => useCollapsedNodes("tpl-1"));
+
+    expect(result.current.collapsedIds).toEqual(new Set(["child-1"]));
+  });
+
+  it("should reload when the template changes", () => {
+    localStorage.setItem("template:tpl-2:collapsed", '["root-1"]');
+    const { result, rerender } = renderHook(({ id }) => useCollapsedNodes(id), {
+      initialProps: { id: "tpl-1" },
+    });
+
+    rerender({ id: "tpl-2" });
+
+    expect(result.current.collapsedIds).toEqual(new Set(["root-1"]));
+  });
+
+  it("should use the legacy key without a template", () => {
+    const { result } = renderHook(() => useCollapsedNodes());
+
+    act(() => {
+      result.current.toggleCollapsed("root-1");
+    });
+
+    expect(stored("treeData:collapsed")).toEqual(["root-1"]);
+  });
+
+  it("should collapse every node with children and expand all", () => {
+    const { result } = renderHook(() => useCollapsedNodes("tpl-1"));
+
+    act(() => {
+      result.current.collapseAll(tree);
+    });
+    expect(result.current.collapsedIds).toEqual(new Set(["root-1", "child-1"]));
+
+    act(() => {
+      result.current.expandAll();
+    });
+    expect(result.current.collapsedIds.size).toBe(0);
+    expect(stored("template:tpl-1:collapsed")).toEqual([]);
+  });
+
+  it("should expand the given nodes only", () => {
+    localStorage.setItem(
+      "template:tpl-1:collapsed",
+      '["root-1", "child-1", "root-2"]'
+    );
+    const { result } = renderHook(() => useCollapsedNodes("tpl-1"));
+
+    act(() => {
+      result.current.expandNodes(["root-1", "child-1"]);
+    });
+
+    expect(result.current.collapsedIds).toEqual(new Set(["root-2"]));
+    expect(stored("template:tpl-1:collapsed")).toEqual(["root-2"]);
+  });
+
+  it("should not rewrite storage when nothing needs expanding", () => {
+    const { result } = renderHook(() => useCollapsedNodes("tpl-1"));
+
+    act(() => {
+      result.current.expandNodes(["root-1"]);
+    });
+
+    expect(localStorage.getItem("template:tpl-1:collapsed")).toBeNull();
+  });
+
+  it("should ignore malformed stored data", () => {
+    localStorage.setItem("template:tpl-1:collapsed", "{oops");
+
+    const { result } = renderHook(() => useCollapsedNodes("tpl-1"));
+
+    expect(result.current.collapsedIds.size).toBe(0);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      "Failed to parse collapsed nodes:",
+      expect.any(SyntaxError)
+    );
+  });
+
+  it("should report collapsed nodes that cannot be stored", () => {
+    jest.spyOn(Storage.prototype, "setItem").mockImplementationOnce(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+    const { result } = renderHook(() => useCollapsedNodes("tpl-1"));
+
+    act(() => {
+      result.current.toggleCollapsed("root-1");
+    });
+
+    expect(result.current.collapsedIds.has("root-1")).toBe(true);
+    expect(mockToast.notify).toHaveBeenCalledWith(
+      "Could not save the collapsed nodes: browser storage is full",
+      { level: "error" }
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import {
+  LEGACY_STORAGE_KEY,
+  collapsedStorageKey,
+} from "../utils/templateLibrary";
+import { usePersistedSetting } from "./usePersistedSetting";
+
+const LEGACY_COLLAPSED_STORAGE_KEY = `${LEGACY_STORAGE_KEY}:collapsed`;
+
+const parseCollapsedIds = (raw: string | null): Set<string> => {
+  if (!raw) return new Set();
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed))
+      throw new Error("Collapsed ids are not an array");
+    return new Set(parsed.filter((id): id is string => typeof id === "string"));
+  } catch (error) {
+    console.warn("Failed to parse collapsed nodes:", error);
+    return new Set();
+  }
+};
+
+const collectParentIds = (
+  nodes: TreeNodeType[],
+  ids: Set<string> = new Set()
+): Set<string> => {
+  nodes.forEach((node) => {
+    if (node.children.length > 0) ids.add(node.id);
+    collectParentIds(node.children, ids);
+  });
+  return ids;
+};
+
+/**
+ * Hook tracking which nodes of a template are collapsed.
+ *
+ * The collapsed ids are view state: unlike the tree they are written to localStorage on every
+ * change (under the template's "template:<id>:collapsed" key, or "treeData:collapsed" without a
+ * template) and reloaded whenever `templateId` changes (see usePersistedSetting).
+ *
+ * - toggleCollapsed(id) collapses or expands one node.
+ * - collapseAll(tree) collapses every node that has children; expandAll() expands everything.
+ * - expandNodes(ids) expands the given nodes, e.g. the ancestors of a node to reveal.
+ *
+ * Returns { collapsedIds, toggleCollapsed, collapseAll, expandAll, expandNodes }.
+ */
+export function useCollapsedNodes(templateId?: string) {
+  const storageKey = templateId
+    ? collapsedStorageKey(templateId)
+    : LEGACY_COLLAPSED_STORAGE_KEY;
+  const [collapsedIds, update] = usePersistedSetting(
+    storageKey,
+    "collapsed nodes",
+    parseCollapsedIds,
+    (ids) => JSON.stringify(Array.from(ids))
+  );
+
+  const toggleCollapsed = (nodeId: string) => {
+    const next = new Set(collapsedIds);
+    if (next.has(nodeId)) next.delete(nodeId);
+    else next.add(nodeId);
+    update(next);
+  };
+
+  const collapseAll = (tree: TreeNodeType[]) => update(collectParentIds(tree));
+
+  const expandAll = () => update(new Set());
+
+  const expandNodes = (nodeIds: string[]) => {
+    if (!nodeIds.some((id) => collapsedIds.has(id))) return;
+    const next = new Set(collapsedIds);
+    nodeIds.forEach((id) => next.delete(id));
+    update(next);
+  };
+
+  return { collapsedIds, toggleCollapsed, collapseAll, expandAll, expandNodes };
+}
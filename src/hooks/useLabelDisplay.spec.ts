@@ -0,0 +1,81 @@
+import { renderHook, act } from "@testing-library/react";
+import { useLabelDisplay } from "./useLabelDisplay";
+
+jest.mock("uuid", () => ({
+  v4: jest.fn(() => "mock-uuid"),
+}));
+
+const mockToast = { notify: jest.fn(), dismiss: jest.fn() };
+jest.mock("./useToast", () => ({
+  useToast: () => mockToast,
+}));
+
+describe("useLabelDisplay", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it("should show labels and values by default", () => {
+    const { result } = renderHook(() => useLabelDisplay("tpl-1"));
+
+    expect(result.current.labelDisplay).toBe("both");
+  });
+
+  it("should persist the display mode per template", () => {
+    const { result } = renderHook(() => useLabelDisplay("tpl-1"));
+
+    act(() => {
+      result.current.setLabelDisplay("label");
+    });
+
+    expect(result.current.labelDisplay).toBe("label");
+    expect(localStorage.getItem("template:tpl-1:display")).toBe("label");
+  });
+
+  it("should reload when the template changes", () => {
+    localStorage.setItem("template:tpl-2:display", "value");
+    const { result, rerender } = renderHook(({ id }) => useLabelDisplay(id), {
+      initialProps: { id: "tpl-1" },
+    });
+
+    rerender({ id: "tpl-2" });
+
+    expect(result.current.labelDisplay).toBe("value");
+  });
+
+  it("should use the legacy key without a template", () => {
+    const { result } = renderHook(() => useLabelDisplay());
+
+    act(() => {
+      result.current.setLabelDisplay("value");
+    });
+
+    expect(localStorage.getItem("treeData:display")).toBe("value");
+  });
+
+  it("should ignore unknown stored modes", () => {
+    localStorage.setItem("template:tpl-1:display", "toString");
+
+    const { result } = renderHook(() => useLabelDisplay("tpl-1"));
+
+    expect(result.current.labelDisplay).toBe("both");
+  });
+
+  it("should report a display mode that cannot be stored", () => {
+    jest.spyOn(Storage.prototype, "setItem").mockImplementationOnce(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+    const { result } = renderHook(() => useLabelDisplay("tpl-1"));
+
+    act(() => {
+      result.current.setLabelDisplay("value");
+    });
+
+    expect(result.current.labelDisplay).toBe("value");
+    expect(mockToast.notify).toHaveBeenCalledWith(
+      "Could not save the display mode: browser storage is full",
+      { level: "error" }
+    );
+  });
+});
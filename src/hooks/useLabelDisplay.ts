@@ -0,0 +1,40 @@
+import {
+  DEFAULT_LABEL_DISPLAY,
+  LABEL_DISPLAYS,
+  LEGACY_STORAGE_KEY,
+  labelDisplayStorageKey,
+} from "../utils/templateLibrary";
+import type { LabelDisplay } from "../utils/templateLibrary";
+import { usePersistedSetting } from "./usePersistedSetting";
+
+const LEGACY_LABEL_DISPLAY_STORAGE_KEY = `${LEGACY_STORAGE_KEY}:display`;
+
+const isLabelDisplay = (value: string | null): value is LabelDisplay =>
+  value !== null && Object.keys(LABEL_DISPLAYS).includes(value);
+
+const parseLabelDisplay = (stored: string | null): LabelDisplay =>
+  isLabelDisplay(stored) ? stored : DEFAULT_LABEL_DISPLAY;
+
+/**
+ * Hook tracking how the nodes of a template are displayed (see LabelDisplay).
+ *
+ * Like the collapsed nodes, the display mode is written to localStorage as soon as it changes
+ * (under the template's "template:<id>:display" key, or "treeData:display" without a template)
+ * and reloaded whenever `templateId` changes (see usePersistedSetting). Missing or unknown
+ * stored modes fall back to DEFAULT_LABEL_DISPLAY.
+ *
+ * Returns { labelDisplay, setLabelDisplay }.
+ */
+export function useLabelDisplay(templateId?: string) {
+  const storageKey = templateId
+    ? labelDisplayStorageKey(templateId)
+    : LEGACY_LABEL_DISPLAY_STORAGE_KEY;
+  const [labelDisplay, setLabelDisplay] = usePersistedSetting(
+    storageKey,
+    "display mode",
+    parseLabelDisplay,
+    (mode) => mode
+  );
+
+  return { labelDisplay, setLabelDisplay };
+}
@@ -0,0 +1,80 @@
+import { renderHook, act } from "@testing-library/react";
+import { usePersistedSetting } from "./usePersistedSetting";
+
+const mockToast = { notify: jest.fn(), dismiss: jest.fn() };
+jest.mock("./useToast", () => ({
+  useToast: () => mockToast,
+}));
+
+const parseCount = (raw: string | null) => Number(raw ?? "0");
+
+describe("usePersistedSetting", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it("should start with the parsed stored value", () => {
+    localStorage.setItem("count", "3");
+
+    const { result } = renderHook(() =>
+      usePersistedSetting("count", "count", parseCount, String)
+    );
+
+    expect(result.current[0]).toBe(3);
+  });
+
+  it("should parse a missing value", () => {
+    const { result } = renderHook(() =>
+      usePersistedSetting("count", "count", parseCount, String)
+    );
+
+    expect(result.current[0]).toBe(0);
+  });
+
+  it("should store the value as soon as it changes", () => {
+    const { result } = renderHook(() =>
+      usePersistedSetting("count", "count", parseCount, String)
+    );
+
+    act(() => {
+      result.current[1](5);
+    });
+
+    expect(result.current[0]).toBe(5);
+    expect(localStorage.getItem("count")).toBe("5");
+  });
+
+  it("should read the value again when the key changes", () => {
+    localStorage.setItem("count:a", "1");
+    localStorage.setItem("count:b", "2");
+    const { result, rerender } = renderHook(
+      ({ storageKey }) =>
+        usePersistedSetting(storageKey, "count", parseCount, String),
+      { initialProps: { storageKey: "count:a" } }
+    );
+
+    rerender({ storageKey: "count:b" });
+
+    expect(result.current[0]).toBe(2);
+  });
+
+  it("should report a value that cannot be stored and still apply it", () => {
+    jest.spyOn(Storage.prototype, "setItem").mockImplementationOnce(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+    const { result } = renderHook(() =>
+      usePersistedSetting("count", "count", parseCount, String)
+    );
+
+    act(() => {
+      result.current[1](5);
+    });
+
+    expect(result.current[0]).toBe(5);
+    expect(mockToast.notify).toHaveBeenCalledWith(
+      "Could not save the count: browser storage is full",
+      { level: "error" }
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { describeStorageError } from "../utils/treeStorage";
+import { useToast } from "./useToast";
+
+/**
+ * Hook holding a setting that is written to localStorage under `storageKey` as soon as it
+ * changes, and read again whenever `storageKey` changes (e.g. when switching templates).
+ *
+ * `parse` turns the stored string (null when nothing is stored) into the setting, `serialize`
+ * turns the setting back into a string. A write that fails is reported as an error toast
+ * naming the setting ("Could not save the <name>: ..."), so the hook must be used within a
+ * ToastProvider; the setting then lasts until the page is reloaded.
+ *
+ * Returns [value, setValue].
+ */
+export function usePersistedSetting<T>(
+  storageKey: string,
+  name: string,
+  parse: (raw: string | null) => T,
+  serialize: (value: T) => string
+): [T, (next: T) => void] {
+  const [value, setValue] = useState<T>(() =>
+    parse(localStorage.getItem(storageKey))
+  );
+  const [loadedKey, setLoadedKey] = useState(storageKey);
+  const { notify } = useToast();
+
+  if (loadedKey !== storageKey) {
+    setLoadedKey(storageKey);
+    setValue(parse(localStorage.getItem(storageKey)));
+  }
+
+  const setPersisted = (next: T) => {
+    setValue(next);
+    try {
+      localStorage.setItem(storageKey, serialize(next));
+    } catch (error) {
+      notify(`Could not save the ${name}: ${describeStorageError(error)}`, {
+        level: "error",
+      });
+    }
+  };
+
+  return [value, setPersisted];
+}
@@ -1,6 +1,9 @@
 import { renderHook, act } from "@testing-library/react";
-import { usePortTemplate } from "./usePortTemplate";
+import { AUTOSAVE_DELAY, usePortTemplate } from "./usePortTemplate";
 import type { TreeNodeType } from "../types/TreeNode";
+import type { TreeAction } from "../utils/treeActions";
+import { getNode } from "../utils/treeStore";
+import { downloadFile } from "../utils/treeTransfer";
 
 const localStorageMock = {
   getItem: jest.fn(),
@@ -12,10 +15,19 @@ const localStorageMock = {
 };
 
 Object.defineProperty(window, "localStorage", { value: localStorageMock });
-window.alert = jest.fn();
+
+const mockToast = { notify: jest.fn(), dismiss: jest.fn() };
+jest.mock("./useToast", () => ({
+  useToast: () => mockToast,
+}));
 
 const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
 
+jest.mock("../utils/treeTransfer", () => ({
+  ...jest.requireActual("../utils/treeTransfer"),
+  downloadFile: jest.fn(),
+}));
+
 // Mock UUID
 let uuidCounter = 0;
 jest.mock("uuid", () => ({
@@ -27,7 +39,6 @@ describe("usePortTemplate Hook", () => {
     jest.clearAllMocks();
     localStorageMock.getItem.mockReturnValue(null);
     uuidCounter = 0;
-    window.alert = jest.fn();
     consoleWarnSpy.mockClear();
   });
 
@@ -49,6 +60,11 @@ describe("usePortTemplate Hook", () => {
       expect(typeof result.current.clearStorage).toBe("function");
       expect(typeof result.current.setActiveNodeId).toBe("function");
       expect(typeof result.current.setTree).toBe("function");
+      expect(typeof result.current.undo).toBe("function");
+      expect(typeof result.current.redo).toBe("function");
+      expect(typeof result.current.importTree).toBe("function");
+      expect(typeof result.current.duplicateNode).toBe("function");
+      expect(typeof result.current.exportTree).toBe("function");
     });
   });
 
@@ -79,11 +95,30 @@ describe("usePortTemplate Hook", () => {
       // Should initialize with empty tree
       expect(result.current.tree).toEqual([]);
 
-      // Should log a warning about the invalid JSON
-      expect(consoleWarnSpy).toHaveBeenCalledWith(
-        "Failed to parse saved tree data:",
-        expect.any(SyntaxError)
+      // Should report the invalid JSON
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        expect.stringMatching(/^Could not read the saved template: /),
+        { level: "error" }
+      );
+    });
+
+    it("should give fresh ids to nodes whose ids repeat", () => {
+      const node = (label: string): TreeNodeType => ({
+        id: "dup",
+        label,
+        value: "",
+        children: [],
+      });
+      localStorageMock.getItem.mockReturnValue(
+        JSON.stringify([{ ...node("a"), children: [node("b")] }, node("c")])
       );
+
+      const { result } = renderHook(() => usePortTemplate());
+
+      expect(result.current.tree).toEqual([
+        { ...node("a"), children: [{ ...node("b"), id: "mock-uuid-1" }] },
+        { ...node("c"), id: "mock-uuid-2" },
+      ]);
     });
 
     it("should handle null localStorage data", () => {
@@ -117,10 +152,46 @@ describe("usePortTemplate Hook", () => {
 
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
         "treeData",
-        JSON.stringify(testTree)
+        expect.any(String)
+      );
+      expect(JSON.parse(localStorageMock.setItem.mock.calls[0][1])).toEqual({
+        formatVersion: 1,
+        savedAt: expect.any(String),
+        tree: testTree,
+      });
+      expect(mockToast.notify).toHaveBeenCalledWith("Template saved", {
+        level: "success",
+      });
+    });
+
+    it("should load tree data saved in the envelope format", () => {
+      const savedTree: TreeNodeType[] = [
+        { id: "saved-1", label: "root", value: "saved", children: [] },
+      ];
+      localStorageMock.getItem.mockReturnValue(
+        JSON.stringify({
+          formatVersion: 1,
+          savedAt: "2025-01-01T00:00:00.000Z",
+          tree: savedTree,
+        })
+      );
+
+      const { result } = renderHook(() => usePortTemplate());
+
+      expect(result.current.tree).toEqual(savedTree);
+    });
+
+    it("should reject saved data with invalid nodes", () => {
+      localStorageMock.getItem.mockReturnValue(
+        JSON.stringify([{ id: "broken", value: "no label", children: [] }])
       );
-      expect(window.alert).toHaveBeenCalledWith(
-        "Template saved to localStorage!"
+
+      const { result } = renderHook(() => usePortTemplate());
+
+      expect(result.current.tree).toEqual([]);
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        "Could not read the saved template: Invalid tree data: tree[0].label must be a string. It is kept in storage and will not be autosaved over.",
+        { level: "error" }
       );
     });
 
@@ -145,7 +216,308 @@ describe("usePortTemplate Hook", () => {
       expect(localStorageMock.removeItem).toHaveBeenCalledWith("treeData");
       expect(result.current.tree).toEqual([]);
       expect(result.current.activeNodeId).toBeNull();
-      expect(window.alert).toHaveBeenCalledWith("Local storage cleared!");
+      expect(mockToast.notify).toHaveBeenCalledWith("Template cleared", {
+        action: { label: "Undo", onClick: expect.any(Function) },
+      });
+    });
+
+    it("should bring a cleared tree back from the toast's Undo", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+      const testTree: TreeNodeType[] = [
+        { id: "test-1", label: "test", value: "test", children: [] },
+      ];
+
+      act(() => {
+        result.current.setTree(testTree);
+      });
+      act(() => {
+        result.current.clearStorage();
+      });
+      act(() => {
+        mockToast.notify.mock.calls[0][1].action.onClick();
+      });
+
+      expect(result.current.tree).toEqual(testTree);
+      expect(result.current.isDirty).toBe(false);
+      expect(result.current.trash).toBeNull();
+      expect(localStorageMock.setItem).toHaveBeenLastCalledWith(
+        "treeData",
+        expect.any(String)
+      );
+      expect(
+        JSON.parse(localStorageMock.setItem.mock.calls[1][1]).tree
+      ).toEqual(testTree);
+      expect(localStorageMock.removeItem).toHaveBeenLastCalledWith(
+        "treeData:trash"
+      );
+    });
+
+    it("should restore a cleared tree from the toast's Undo after unmounting", () => {
+      const { result, unmount } = renderHook(() =>
+        usePortTemplate("tpl-1", { autosave: false })
+      );
+      const testTree: TreeNodeType[] = [
+        { id: "test-1", label: "test", value: "test", children: [] },
+      ];
+
+      act(() => {
+        result.current.setTree(testTree);
+      });
+      act(() => {
+        result.current.clearStorage();
+      });
+      unmount();
+      mockToast.notify.mock.calls[0][1].action.onClick();
+
+      const [key, raw] = localStorageMock.setItem.mock.calls[1];
+      expect(key).toBe("template:tpl-1");
+      expect(JSON.parse(raw).tree).toEqual(testTree);
+      expect(localStorageMock.removeItem).toHaveBeenLastCalledWith(
+        "template:tpl-1:trash"
+      );
+    });
+
+    it("should keep the trash when the toast's Undo cannot write the tree", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.setTree([
+          { id: "test-1", label: "test", value: "test", children: [] },
+        ]);
+      });
+      act(() => {
+        result.current.clearStorage();
+      });
+      localStorageMock.setItem.mockImplementationOnce(() => {
+        throw new Error("Access denied");
+      });
+      act(() => {
+        mockToast.notify.mock.calls[0][1].action.onClick();
+      });
+
+      expect(localStorageMock.removeItem).not.toHaveBeenCalledWith(
+        "treeData:trash"
+      );
+      expect(result.current.trash).not.toBeNull();
+      expect(result.current.tree).toEqual([]);
+    });
+
+    it("should report storage failures as an error toast", () => {
+      localStorageMock.setItem.mockImplementationOnce(() => {
+        throw new DOMException("Quota exceeded", "QuotaExceededError");
+      });
+      const testTree: TreeNodeType[] = [
+        { id: "test-1", label: "test", value: "test", children: [] },
+      ];
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.setTree(testTree);
+      });
+      expect(() =>
+        act(() => {
+          result.current.handleSave();
+        })
+      ).not.toThrow();
+
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        "Could not save the template: browser storage is full",
+        { level: "error" }
+      );
+      expect(mockToast.notify).not.toHaveBeenCalledWith(
+        "Template saved",
+        expect.anything()
+      );
+      expect(result.current.isDirty).toBe(true);
+      expect(result.current.lastSavedAt).toBeNull();
+    });
+  });
+
+  describe("Trash", () => {
+    const clearedTree: TreeNodeType[] = [
+      { id: "test-1", label: "test", value: "test", children: [] },
+    ];
+
+    it("should move a cleared tree to the trash", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.setTree(clearedTree);
+      });
+      act(() => {
+        result.current.clearStorage();
+      });
+
+      expect(result.current.trash).toEqual({
+        tree: clearedTree,
+        clearedAt: expect.any(Date),
+      });
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        "treeData:trash",
+        expect.any(String)
+      );
+      expect(
+        JSON.parse(localStorageMock.setItem.mock.calls[0][1]).tree
+      ).toEqual(clearedTree);
+    });
+
+    it("should keep the trash when clearing an empty tree", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.setTree(clearedTree);
+      });
+      act(() => {
+        result.current.clearStorage();
+      });
+      act(() => {
+        result.current.clearStorage();
+      });
+
+      expect(result.current.trash?.tree).toEqual(clearedTree);
+      expect(localStorageMock.setItem).toHaveBeenCalledTimes(1);
+      expect(mockToast.notify).toHaveBeenLastCalledWith(
+        "Template cleared",
+        undefined
+      );
+    });
+
+    it("should load the trash of the template", () => {
+      localStorageMock.getItem.mockImplementation((key: string) =>
+        key === "template:tpl-1:trash"
+          ? JSON.stringify({
+              formatVersion: 1,
+              savedAt: "2025-01-02T03:04:05.000Z",
+              tree: clearedTree,
+            })
+          : null
+      );
+
+      const { result } = renderHook(() => usePortTemplate("tpl-1"));
+
+      expect(result.current.trash).toEqual({
+        tree: clearedTree,
+        clearedAt: new Date("2025-01-02T03:04:05.000Z"),
+      });
+    });
+
+    it("should restore the trash as unsaved changes", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.setTree(clearedTree);
+      });
+      act(() => {
+        result.current.clearStorage();
+      });
+      act(() => {
+        result.current.restoreTrash();
+      });
+
+      expect(result.current.tree).toEqual(clearedTree);
+      expect(result.current.isDirty).toBe(true);
+      expect(result.current.trash).toBeNull();
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith(
+        "treeData:trash"
+      );
+    });
+  });
+
+  describe("Template Library Integration", () => {
+    const templateTree: TreeNodeType[] = [
+      { id: "t-root", label: "root", value: "template", children: [] },
+    ];
+
+    it("should load the tree stored for the given template", () => {
+      localStorageMock.getItem.mockImplementation((key: string) =>
+        key === "template:tpl-1" ? JSON.stringify(templateTree) : null
+      );
+
+      const { result } = renderHook(() => usePortTemplate("tpl-1"));
+
+      expect(localStorageMock.getItem).toHaveBeenCalledWith("template:tpl-1");
+      expect(result.current.tree).toEqual(templateTree);
+    });
+
+    it("should save to the template key and bump its updatedAt", () => {
+      localStorageMock.getItem.mockImplementation((key: string) =>
+        key === "templates"
+          ? JSON.stringify([
+              {
+                id: "tpl-1",
+                name: "Web",
+                createdAt: "2025-01-01T00:00:00.000Z",
+                updatedAt: "2025-01-01T00:00:00.000Z",
+              },
+            ])
+          : null
+      );
+      const { result } = renderHook(() => usePortTemplate("tpl-1"));
+
+      act(() => {
+        result.current.setTree(templateTree);
+      });
+      act(() => {
+        result.current.handleSave();
+      });
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        "template:tpl-1",
+        expect.any(String)
+      );
+      const [, index] = localStorageMock.setItem.mock.calls.find(
+        ([key]) => key === "templates"
+      );
+      expect(JSON.parse(index)[0].updatedAt).not.toBe(
+        "2025-01-01T00:00:00.000Z"
+      );
+    });
+
+    it("should only clear the template's own key", () => {
+      const { result } = renderHook(() => usePortTemplate("tpl-1"));
+
+      act(() => {
+        result.current.clearStorage();
+      });
+
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith(
+        "template:tpl-1"
+      );
+      expect(localStorageMock.removeItem).not.toHaveBeenCalledWith("treeData");
+    });
+
+    it("should reload and reset history when the template changes", () => {
+      localStorageMock.getItem.mockImplementation((key: string) =>
+        key === "template:tpl-2" ? JSON.stringify(templateTree) : null
+      );
+      const { result, rerender } = renderHook(({ id }) => usePortTemplate(id), {
+        initialProps: { id: "tpl-1" },
+      });
+
+      act(() => {
+        result.current.setTree([
+          { id: "other", label: "root", value: "", children: [] },
+        ]);
+        result.current.setActiveNodeId("other");
+      });
+
+      rerender({ id: "tpl-2" });
+
+      expect(result.current.tree).toEqual(templateTree);
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.activeNodeId).toBeNull();
     });
   });
 
@@ -237,7 +609,29 @@ describe("usePortTemplate Hook", () => {
       });
 
       expect(result.current.tree).toEqual(originalTree);
-      expect(result.current.activeNodeId).toBe("mock-uuid-1"); // Still sets active node
+      expect(result.current.activeNodeId).toBeNull();
+    });
+
+    it("should keep the active node when the add is dropped", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, {
+          interceptAction: (action) =>
+            action.type === "insert" && action.parentId !== null
+              ? null
+              : action,
+        })
+      );
+
+      act(() => {
+        result.current.addRoot();
+      });
+      act(() => {
+        result.current.addNode("mock-uuid-1");
+      });
+
+      expect(result.current.tree).toHaveLength(1);
+      expect(result.current.tree[0].children).toEqual([]);
+      expect(result.current.activeNodeId).toBe("mock-uuid-1");
     });
 
     it("should generate unique IDs for each new node", () => {
@@ -688,56 +1082,1825 @@ describe("usePortTemplate Hook", () => {
     });
   });
 
-  describe("Edge Cases", () => {
-    it("should handle empty tree operations gracefully", () => {
+  describe("Actions", () => {
+    const rootNode: TreeNodeType = {
+      id: "root-1",
+      label: "root",
+      value: "",
+      children: [],
+    };
+
+    it("should apply dispatched actions as undoable edits", () => {
       const { result } = renderHook(() => usePortTemplate());
 
-      // Try to add to non-existent parent
       act(() => {
-        result.current.addNode("non-existent");
+        result.current.dispatch({
+          type: "insert",
+          parentId: null,
+          nodes: [rootNode],
+        });
       });
+      expect(result.current.tree).toEqual([rootNode]);
 
-      // Try to delete non-existent node
       act(() => {
-        result.current.deleteNode("non-existent");
+        result.current.undo();
       });
+      expect(result.current.tree).toEqual([]);
+    });
+
+    it("should append an empty root node with addRoot", () => {
+      const { result } = renderHook(() => usePortTemplate());
 
-      // Try to update non-existent node
       act(() => {
-        result.current.updateNode("non-existent", {
-          id: "test",
-          label: "test",
-          value: "test",
-          children: [],
-        });
+        result.current.addRoot();
       });
 
-      expect(result.current.tree).toEqual([]);
+      expect(result.current.tree).toEqual([
+        { id: "mock-uuid-1", label: "root", value: "", children: [] },
+      ]);
+      expect(result.current.activeNodeId).toBe("mock-uuid-1");
     });
 
-    it("should handle malformed localStorage data", () => {
-      localStorageMock.getItem.mockReturnValue("not-valid-json");
-
+    it("should apply every edit made within one event", () => {
       const { result } = renderHook(() => usePortTemplate());
 
-      expect(result.current.tree).toEqual([]);
-      expect(consoleWarnSpy).toHaveBeenCalledWith(
-        "Failed to parse saved tree data:",
-        expect.any(SyntaxError)
-      );
+      act(() => {
+        result.current.setTree([rootNode]);
+      });
+      act(() => {
+        result.current.addNode("root-1");
+        result.current.addNode("root-1");
+        result.current.updateNode("root-1", { ...rootNode, value: "80" });
+      });
+
+      expect(result.current.tree[0].value).toBe("80");
+      expect(result.current.tree[0].children).toHaveLength(2);
     });
 
-    it("should handle saving empty tree", () => {
+    it("should expose the normalized store of the tree", () => {
       const { result } = renderHook(() => usePortTemplate());
 
       act(() => {
-        result.current.handleSave();
+        result.current.setTree([rootNode]);
+      });
+
+      expect(getNode(result.current.store, "root-1")).toEqual({
+        id: "root-1",
+        label: "root",
+        value: "",
+      });
+      expect(result.current.store.rootIds).toEqual(["root-1"]);
+    });
+
+    it("should let interceptAction see, rewrite and drop edits", () => {
+      const interceptAction = jest.fn((action: TreeAction) => {
+        if (action.type === "delete") return null;
+        if (action.type === "update") {
+          return {
+            ...action,
+            node: { ...action.node, value: action.node.value.trim() },
+          };
+        }
+        return action;
+      });
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { interceptAction })
+      );
+
+      act(() => {
+        result.current.setTree([rootNode]);
+      });
+      act(() => {
+        result.current.updateNode("root-1", { ...rootNode, value: " 80 " });
+      });
+      act(() => {
+        result.current.deleteNode("root-1");
       });
 
-      expect(localStorageMock.setItem).toHaveBeenCalledWith("treeData", "[]");
-      expect(window.alert).toHaveBeenCalledWith(
-        "Template saved to localStorage!"
+      expect(result.current.tree).toEqual([{ ...rootNode, value: "80" }]);
+      expect(interceptAction).toHaveBeenLastCalledWith(
+        { type: "delete", nodeId: "root-1" },
+        [{ ...rootNode, value: "80" }]
       );
     });
   });
+
+  describe("moveNode", () => {
+    const createTree = (): TreeNodeType[] => [
+      {
+        id: "root-1",
+        label: "root",
+        value: "root1",
+        children: [
+          {
+            id: "child-1",
+            label: "child",
+            value: "child1",
+            children: [
+              {
+                id: "grandchild-1",
+                label: "child",
+                value: "grandchild1",
+                children: [],
+              },
+            ],
+          },
+          { id: "child-2", label: "child", value: "child2", children: [] },
+          { id: "child-3", label: "child", value: "child3", children: [] },
+        ],
+      },
+      { id: "root-2", label: "root", value: "root2", children: [] },
+    ];
+
+    const childIds = (nodes: TreeNodeType[]) => nodes.map((n) => n.id);
+
+    it("should move a node forward among its siblings", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      act(() => {
+        result.current.moveNode("child-1", "root-1", 3);
+      });
+
+      expect(childIds(result.current.tree[0].children)).toEqual([
+        "child-2",
+        "child-3",
+        "child-1",
+      ]);
+    });
+
+    it("should move a node backward among its siblings", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      act(() => {
+        result.current.moveNode("child-3", "root-1", 0);
+      });
+
+      expect(childIds(result.current.tree[0].children)).toEqual([
+        "child-3",
+        "child-1",
+        "child-2",
+      ]);
+    });
+
+    it("should reparent a node together with its subtree", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      act(() => {
+        result.current.moveNode("child-1", "root-2", 0);
+      });
+
+      expect(childIds(result.current.tree[0].children)).toEqual([
+        "child-2",
+        "child-3",
+      ]);
+      expect(result.current.tree[1].children[0]).toMatchObject({
+        id: "child-1",
+        children: [{ id: "grandchild-1" }],
+      });
+    });
+
+    it("should move a node to the root level", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      act(() => {
+        result.current.moveNode("grandchild-1", null, 1);
+      });
+
+      expect(childIds(result.current.tree)).toEqual([
+        "root-1",
+        "grandchild-1",
+        "root-2",
+      ]);
+      expect(result.current.tree[0].children[0].children).toHaveLength(0);
+    });
+
+    it("should clamp out-of-range indexes", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      act(() => {
+        result.current.moveNode("root-1", null, 99);
+      });
+
+      expect(childIds(result.current.tree)).toEqual(["root-2", "root-1"]);
+    });
+
+    it("should refuse to move a node into its own descendants", () => {
+      const { result } = renderHook(() => usePortTemplate());
+      const tree = createTree();
+
+      act(() => {
+        result.current.setTree(tree);
+      });
+      act(() => {
+        result.current.moveNode("root-1", "grandchild-1", 0);
+      });
+      act(() => {
+        result.current.moveNode("child-1", "child-1", 0);
+      });
+
+      expect(result.current.tree).toBe(tree);
+    });
+
+    it("should ignore unknown node or parent ids", () => {
+      const { result } = renderHook(() => usePortTemplate());
+      const tree = createTree();
+
+      act(() => {
+        result.current.setTree(tree);
+      });
+      act(() => {
+        result.current.moveNode("missing", "root-1", 0);
+        result.current.moveNode("child-1", "missing", 0);
+      });
+
+      expect(result.current.tree).toBe(tree);
+    });
+
+    it("should not record an undo step for a move to the same position", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      act(() => {
+        result.current.moveNode("child-2", "root-1", 2);
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      // The only recorded step was setTree
+      expect(result.current.tree).toEqual([]);
+    });
+
+    it("should be undoable", () => {
+      const { result } = renderHook(() => usePortTemplate());
+      const tree = createTree();
+
+      act(() => {
+        result.current.setTree(tree);
+      });
+      act(() => {
+        result.current.moveNode("child-1", "root-2", 0);
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree).toBe(tree);
+    });
+  });
+
+  describe("Structure Operations", () => {
+    const createTree = (): TreeNodeType[] => [
+      {
+        id: "root-1",
+        label: "root",
+        value: "root1",
+        children: [
+          { id: "child-1", label: "child", value: "child1", children: [] },
+          { id: "child-2", label: "child", value: "child2", children: [] },
+        ],
+      },
+    ];
+
+    const ids = (nodes: TreeNodeType[]) => nodes.map((n) => n.id);
+
+    describe("addSibling", () => {
+      it("should insert a sibling after a child node", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(createTree());
+        });
+        act(() => {
+          result.current.addSibling("child-1", "after");
+        });
+
+        expect(ids(result.current.tree[0].children)).toEqual([
+          "child-1",
+          "mock-uuid-1",
+          "child-2",
+        ]);
+        expect(result.current.tree[0].children[1]).toMatchObject({
+          label: "child",
+          value: "",
+          children: [],
+        });
+        expect(result.current.activeNodeId).toBe("mock-uuid-1");
+      });
+
+      it("should insert a sibling before a child node", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(createTree());
+        });
+        act(() => {
+          result.current.addSibling("child-1", "before");
+        });
+
+        expect(ids(result.current.tree[0].children)).toEqual([
+          "mock-uuid-1",
+          "child-1",
+          "child-2",
+        ]);
+      });
+
+      it("should insert a root sibling labelled root", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(createTree());
+        });
+        act(() => {
+          result.current.addSibling("root-1", "before");
+        });
+
+        expect(ids(result.current.tree)).toEqual(["mock-uuid-1", "root-1"]);
+        expect(result.current.tree[0].label).toBe("root");
+      });
+
+      it("should not modify tree if node ID is not found", () => {
+        const { result } = renderHook(() => usePortTemplate());
+        const tree = createTree();
+
+        act(() => {
+          result.current.setTree(tree);
+        });
+        act(() => {
+          result.current.addSibling("non-existent-id", "after");
+        });
+
+        expect(result.current.tree).toBe(tree);
+      });
+    });
+
+    describe("duplicateNode", () => {
+      const branchTree = (): TreeNodeType[] => [
+        {
+          id: "root-1",
+          label: "root",
+          value: "web",
+          children: [
+            {
+              id: "child-1",
+              label: "child",
+              value: "80",
+              readOnly: true,
+              children: [],
+            },
+            { id: "child-2", label: "child", value: "443", children: [] },
+          ],
+        },
+        { id: "root-2", label: "root", value: "db", children: [] },
+      ];
+
+      it("should insert a deep copy with fresh ids right after the original", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(branchTree());
+        });
+        act(() => {
+          result.current.duplicateNode("root-1");
+        });
+
+        expect(ids(result.current.tree)).toEqual([
+          "root-1",
+          "mock-uuid-1",
+          "root-2",
+        ]);
+        expect(result.current.tree[1]).toEqual({
+          id: "mock-uuid-1",
+          label: "root",
+          value: "web",
+          children: [
+            {
+              id: "mock-uuid-2",
+              label: "child",
+              value: "80",
+              readOnly: true,
+              children: [],
+            },
+            {
+              id: "mock-uuid-3",
+              label: "child",
+              value: "443",
+              children: [],
+            },
+          ],
+        });
+        expect(result.current.tree[0]).toEqual(branchTree()[0]);
+      });
+
+      it("should duplicate nested nodes among their siblings", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(branchTree());
+        });
+        act(() => {
+          result.current.duplicateNode("child-1");
+        });
+
+        expect(ids(result.current.tree[0].children)).toEqual([
+          "child-1",
+          "mock-uuid-1",
+          "child-2",
+        ]);
+      });
+
+      it("should make the copy the active node", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(branchTree());
+        });
+        act(() => {
+          result.current.duplicateNode("child-2");
+        });
+
+        expect(result.current.activeNodeId).toBe("mock-uuid-1");
+      });
+
+      it("should be undoable as a single step", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(branchTree());
+        });
+        act(() => {
+          result.current.duplicateNode("root-1");
+        });
+        act(() => {
+          result.current.undo();
+        });
+
+        expect(result.current.tree).toEqual(branchTree());
+      });
+
+      it("should ignore unknown nodes", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(branchTree());
+        });
+        const before = result.current.tree;
+        act(() => {
+          result.current.duplicateNode("missing");
+        });
+
+        expect(result.current.tree).toBe(before);
+        expect(result.current.activeNodeId).toBeNull();
+      });
+    });
+
+    describe("indentNode", () => {
+      it("should make the node the last child of its previous sibling", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(createTree());
+        });
+        act(() => {
+          result.current.indentNode("child-2");
+        });
+
+        expect(ids(result.current.tree[0].children)).toEqual(["child-1"]);
+        expect(ids(result.current.tree[0].children[0].children)).toEqual([
+          "child-2",
+        ]);
+      });
+
+      it("should do nothing for a first child", () => {
+        const { result } = renderHook(() => usePortTemplate());
+        const tree = createTree();
+
+        act(() => {
+          result.current.setTree(tree);
+        });
+        act(() => {
+          result.current.indentNode("child-1");
+        });
+
+        expect(result.current.tree).toBe(tree);
+      });
+    });
+
+    describe("outdentNode", () => {
+      it("should move the node right after its parent", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(createTree());
+        });
+        act(() => {
+          result.current.outdentNode("child-1");
+        });
+
+        expect(ids(result.current.tree)).toEqual(["root-1", "child-1"]);
+        expect(ids(result.current.tree[0].children)).toEqual(["child-2"]);
+      });
+
+      it("should do nothing for a root node", () => {
+        const { result } = renderHook(() => usePortTemplate());
+        const tree = createTree();
+
+        act(() => {
+          result.current.setTree(tree);
+        });
+        act(() => {
+          result.current.outdentNode("root-1");
+        });
+
+        expect(result.current.tree).toBe(tree);
+      });
+
+      it("should reverse an indent", () => {
+        const { result } = renderHook(() => usePortTemplate());
+
+        act(() => {
+          result.current.setTree(createTree());
+        });
+        act(() => {
+          result.current.indentNode("child-2");
+        });
+        act(() => {
+          result.current.outdentNode("child-2");
+        });
+
+        expect(result.current.tree).toEqual(createTree());
+      });
+    });
+  });
+
+  describe("Clipboard", () => {
+    const clipboardMock = {
+      writeText: jest.fn(() => Promise.resolve()),
+      readText: jest.fn(() => Promise.resolve("")),
+    };
+    const createTree = (): TreeNodeType[] => [
+      {
+        id: "root-1",
+        label: "root",
+        value: "web",
+        children: [
+          {
+            id: "child-1",
+            label: "child",
+            value: "80",
+            readOnly: true,
+            children: [],
+          },
+          { id: "child-2", label: "child", value: "443", children: [] },
+        ],
+      },
+    ];
+    const payload = (nodes: TreeNodeType[]) =>
+      JSON.stringify({ type: "port-template/subtree", version: 1, nodes });
+
+    beforeEach(() => {
+      Object.defineProperty(navigator, "clipboard", {
+        value: clipboardMock,
+        configurable: true,
+      });
+    });
+
+    it("should copy a node's subtree to the clipboard", async () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      await act(async () => {
+        await result.current.copyNode("root-1");
+      });
+
+      expect(clipboardMock.writeText).toHaveBeenCalledWith(
+        payload([createTree()[0]])
+      );
+      expect(result.current.tree).toEqual(createTree());
+    });
+
+    it("should remove a cut node after writing it to the clipboard", async () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      await act(async () => {
+        await result.current.cutNode("child-2");
+      });
+
+      expect(clipboardMock.writeText).toHaveBeenCalledWith(
+        payload([createTree()[0].children[1]])
+      );
+      expect(result.current.tree[0].children.map((n) => n.id)).toEqual([
+        "child-1",
+      ]);
+    });
+
+    it("should keep a cut node when the clipboard write fails", async () => {
+      clipboardMock.writeText.mockRejectedValueOnce(new Error("Denied"));
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      await act(async () => {
+        await expect(result.current.cutNode("child-2")).rejects.toThrow(
+          "Denied"
+        );
+      });
+
+      expect(result.current.tree).toEqual(createTree());
+    });
+
+    it("should paste as the last child with new ids", async () => {
+      clipboardMock.readText.mockResolvedValueOnce(payload([createTree()[0]]));
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      await act(async () => {
+        await result.current.pasteNodes("child-2", "child");
+      });
+
+      const pasted = result.current.tree[0].children[1].children[0];
+      expect(pasted).toEqual({
+        id: "mock-uuid-1",
+        label: "root",
+        value: "web",
+        children: [
+          {
+            id: "mock-uuid-2",
+            label: "child",
+            value: "80",
+            readOnly: true,
+            children: [],
+          },
+          {
+            id: "mock-uuid-3",
+            label: "child",
+            value: "443",
+            children: [],
+          },
+        ],
+      });
+      expect(result.current.activeNodeId).toBe("mock-uuid-1");
+    });
+
+    it("should paste as the next sibling", async () => {
+      clipboardMock.readText.mockResolvedValueOnce(
+        payload([{ id: "x", label: "x", value: "8080", children: [] }])
+      );
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      await act(async () => {
+        await result.current.pasteNodes("child-1", "sibling");
+      });
+
+      expect(result.current.tree[0].children.map((n) => n.id)).toEqual([
+        "child-1",
+        "mock-uuid-1",
+        "child-2",
+      ]);
+    });
+
+    it("should paste at the root level without a target", async () => {
+      clipboardMock.readText.mockResolvedValueOnce(
+        payload([{ id: "root-1", label: "x", value: "", children: [] }])
+      );
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      await act(async () => {
+        await result.current.pasteNodes(null, "sibling");
+      });
+
+      expect(result.current.tree.map((n) => n.id)).toEqual([
+        "root-1",
+        "mock-uuid-1",
+      ]);
+    });
+
+    it("should reject invalid clipboard contents and leave the tree alone", async () => {
+      clipboardMock.readText.mockResolvedValueOnce('{"nodes": "oops"}');
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      await act(async () => {
+        await expect(
+          result.current.pasteNodes("root-1", "child")
+        ).rejects.toThrow("Clipboard does not contain a copied subtree");
+      });
+
+      expect(result.current.tree).toEqual(createTree());
+    });
+
+    it("should refuse to cut nodes that cannot be deleted", async () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      await act(async () => {
+        await expect(result.current.cutNode("root-1")).rejects.toThrow(
+          "it contains locked nodes"
+        );
+      });
+
+      expect(clipboardMock.writeText).not.toHaveBeenCalled();
+      expect(result.current.tree).toEqual(createTree());
+    });
+
+    it("should refuse to paste under a locked node", async () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(createTree());
+      });
+      await act(async () => {
+        await expect(
+          result.current.pasteNodes("child-1", "child")
+        ).rejects.toThrow('"child" is read-only');
+      });
+
+      expect(clipboardMock.readText).not.toHaveBeenCalled();
+      expect(result.current.tree).toEqual(createTree());
+    });
+  });
+
+  describe("Locks", () => {
+    // "locked" locks its subtree; "ro" only locks itself
+    const createTree = (): TreeNodeType[] => [
+      {
+        id: "locked",
+        label: "locked",
+        value: "",
+        readOnly: true,
+        lockSubtree: true,
+        children: [{ id: "inner", label: "inner", value: "80", children: [] }],
+      },
+      {
+        id: "ro",
+        label: "ro",
+        value: "",
+        readOnly: true,
+        children: [{ id: "free", label: "free", value: "443", children: [] }],
+      },
+      { id: "open", label: "open", value: "", children: [] },
+    ];
+
+    const renderWithTree = () => {
+      const hook = renderHook(() => usePortTemplate());
+      act(() => {
+        hook.result.current.setTree(createTree());
+      });
+      return hook;
+    };
+
+    it("should not edit locked nodes or their locked descendants", () => {
+      const { result } = renderWithTree();
+      const [locked] = createTree();
+
+      act(() => {
+        result.current.updateNode("locked", { ...locked, value: "x" });
+        result.current.updateNode("inner", {
+          ...locked.children[0],
+          value: "x",
+        });
+      });
+
+      expect(result.current.tree).toEqual(createTree());
+    });
+
+    it("should let a node's own lock be lifted, but not an inherited one", () => {
+      const { result } = renderWithTree();
+      const [locked] = createTree();
+
+      act(() => {
+        result.current.updateNode("inner", {
+          ...locked.children[0],
+          readOnly: true,
+        });
+      });
+      expect(result.current.tree).toEqual(createTree());
+
+      act(() => {
+        result.current.updateNode("locked", { ...locked, readOnly: false });
+      });
+      act(() => {
+        result.current.updateNode("inner", {
+          ...locked.children[0],
+          value: "8080",
+        });
+      });
+
+      expect(result.current.tree[0].readOnly).toBe(false);
+      expect(result.current.tree[0].children[0].value).toBe("8080");
+    });
+
+    it("should keep the children of a node that does not lock its subtree editable", () => {
+      const { result } = renderWithTree();
+
+      act(() => {
+        result.current.updateNode("free", {
+          ...createTree()[1].children[0],
+          value: "8443",
+        });
+      });
+
+      expect(result.current.tree[1].children[0].value).toBe("8443");
+    });
+
+    it("should not delete locked nodes or nodes containing them", () => {
+      const { result } = renderWithTree();
+
+      act(() => {
+        result.current.deleteNode("ro");
+        result.current.deleteNode("inner");
+      });
+      expect(result.current.tree).toEqual(createTree());
+
+      act(() => {
+        result.current.deleteNode("free");
+      });
+      expect(result.current.tree[1].children).toEqual([]);
+    });
+
+    it("should not add, duplicate or move nodes under locked nodes", () => {
+      const { result } = renderWithTree();
+
+      act(() => {
+        result.current.addNode("ro");
+        result.current.addSibling("inner", "after");
+        result.current.duplicateNode("inner");
+        result.current.moveNode("open", "locked", 0);
+        result.current.indentNode("open");
+      });
+
+      expect(result.current.tree).toEqual(createTree());
+      expect(result.current.activeNodeId).toBeNull();
+      expect(result.current.canUndo).toBe(true); // only setTree was recorded
+    });
+
+    it("should not move locked nodes", () => {
+      const { result } = renderWithTree();
+
+      act(() => {
+        result.current.moveNode("ro", null, 3);
+        result.current.outdentNode("inner");
+      });
+
+      expect(result.current.tree).toEqual(createTree());
+    });
+
+    it("should still add siblings next to locked nodes at the root", () => {
+      const { result } = renderWithTree();
+
+      act(() => {
+        result.current.addSibling("ro", "after");
+      });
+
+      expect(result.current.tree.map((n) => n.id)).toEqual([
+        "locked",
+        "ro",
+        "mock-uuid-1",
+        "open",
+      ]);
+    });
+  });
+
+  describe("Autosave", () => {
+    const rootNode: TreeNodeType = {
+      id: "root-1",
+      label: "root",
+      value: "80",
+      children: [],
+    };
+
+    const savedTrees = () =>
+      localStorageMock.setItem.mock.calls
+        .filter(([key]) => key === "treeData")
+        .map(([, raw]) => JSON.parse(raw).tree);
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should start clean, with the time of the stored save", () => {
+      localStorageMock.getItem.mockReturnValue(
+        JSON.stringify({
+          formatVersion: 1,
+          savedAt: "2025-01-02T03:04:05.000Z",
+          tree: [rootNode],
+        })
+      );
+
+      const { result } = renderHook(() => usePortTemplate());
+
+      expect(result.current.isDirty).toBe(false);
+      expect(result.current.lastSavedAt).toEqual(
+        new Date("2025-01-02T03:04:05.000Z")
+      );
+    });
+
+    it("should track unsaved changes until the tree is saved", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.setTree([rootNode]);
+      });
+      expect(result.current.isDirty).toBe(true);
+
+      act(() => {
+        result.current.handleSave();
+      });
+      expect(result.current.isDirty).toBe(false);
+      expect(result.current.lastSavedAt).toEqual(new Date());
+    });
+
+    it("should be clean again when the edits are undone", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.setTree([rootNode]);
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.isDirty).toBe(false);
+    });
+
+    it("should save once the edits have paused for the delay", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosaveDelay: 500 })
+      );
+
+      act(() => {
+        result.current.setTree([rootNode]);
+      });
+      act(() => {
+        jest.advanceTimersByTime(300);
+      });
+      act(() => {
+        result.current.updateNode("root-1", { ...rootNode, value: "8080" });
+      });
+      act(() => {
+        jest.advanceTimersByTime(300);
+      });
+      expect(savedTrees()).toEqual([]);
+
+      act(() => {
+        jest.advanceTimersByTime(200);
+      });
+
+      expect(savedTrees()).toEqual([[{ ...rootNode, value: "8080" }]]);
+      expect(result.current.isDirty).toBe(false);
+      expect(mockToast.notify).not.toHaveBeenCalled();
+    });
+
+    it("should not autosave over stored data it cannot read", () => {
+      localStorageMock.getItem.mockReturnValue(
+        JSON.stringify({ formatVersion: 2, savedAt: null, tree: [] })
+      );
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree([rootNode]);
+      });
+      act(() => {
+        jest.advanceTimersByTime(AUTOSAVE_DELAY * 2);
+      });
+
+      expect(localStorageMock.setItem).not.toHaveBeenCalled();
+      expect(result.current.isDirty).toBe(true);
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        "Could not read the saved template: Tree data format 2 is newer than supported format 1. It is kept in storage and will not be autosaved over.",
+        { level: "error" }
+      );
+
+      act(() => {
+        result.current.handleSave();
+      });
+      act(() => {
+        result.current.setTree([{ ...rootNode, value: "443" }]);
+      });
+      act(() => {
+        jest.advanceTimersByTime(AUTOSAVE_DELAY);
+      });
+
+      expect(savedTrees()).toEqual([
+        [rootNode],
+        [{ ...rootNode, value: "443" }],
+      ]);
+    });
+
+    it("should report an autosave that fails and keep the changes", () => {
+      localStorageMock.setItem.mockImplementationOnce(() => {
+        throw new Error("Access denied");
+      });
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree([rootNode]);
+      });
+      act(() => {
+        jest.advanceTimersByTime(AUTOSAVE_DELAY);
+      });
+
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        "Could not save the template: Access denied",
+        { level: "error" }
+      );
+      expect(result.current.isDirty).toBe(true);
+    });
+
+    it("should not save automatically when autosave is off", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.setTree([rootNode]);
+      });
+      act(() => {
+        jest.runAllTimers();
+      });
+
+      expect(savedTrees()).toEqual([]);
+      expect(result.current.isDirty).toBe(true);
+    });
+
+    it("should warn before leaving the page with unsaved changes", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+      const leave = () => {
+        const event = new Event("beforeunload", { cancelable: true });
+        window.dispatchEvent(event);
+        return event.defaultPrevented;
+      };
+
+      expect(leave()).toBe(false);
+
+      act(() => {
+        result.current.setTree([rootNode]);
+      });
+      expect(leave()).toBe(true);
+
+      act(() => {
+        result.current.handleSave();
+      });
+      expect(leave()).toBe(false);
+    });
+  });
+
+  describe("Cross-tab sync", () => {
+    const node = (value: string): TreeNodeType => ({
+      id: "root-1",
+      label: "root",
+      value,
+      children: [],
+    });
+
+    const stored = (
+      tree: TreeNodeType[],
+      savedAt = "2025-01-02T03:04:05.000Z"
+    ) => JSON.stringify({ formatVersion: 1, savedAt, tree });
+
+    // What the browser dispatches in this tab when another one writes to localStorage
+    const saveInOtherTab = (key: string, newValue: string | null) =>
+      act(() => {
+        window.dispatchEvent(new StorageEvent("storage", { key, newValue }));
+      });
+
+    beforeEach(() => {
+      localStorageMock.getItem.mockReturnValue(stored([node("80")]));
+    });
+
+    it("should adopt their version when there are no unsaved changes", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      saveInOtherTab(
+        "treeData",
+        stored([node("8080")], "2025-01-02T04:00:00.000Z")
+      );
+
+      expect(result.current.tree).toEqual([node("8080")]);
+      expect(result.current.isDirty).toBe(false);
+      expect(result.current.lastSavedAt).toEqual(
+        new Date("2025-01-02T04:00:00.000Z")
+      );
+      expect(result.current.syncConflict).toBeNull();
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        "Template updated from another tab",
+        { level: "info" }
+      );
+    });
+
+    it("should adopt trees cleared in another tab", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      saveInOtherTab("treeData", null);
+
+      expect(result.current.tree).toEqual([]);
+      expect(result.current.isDirty).toBe(false);
+    });
+
+    it("should ignore other keys and saves of the same tree", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      saveInOtherTab("template:tpl-2", stored([node("8080")]));
+      saveInOtherTab("treeData", stored([node("80")]));
+
+      expect(result.current.tree).toEqual([node("80")]);
+      expect(mockToast.notify).not.toHaveBeenCalled();
+    });
+
+    it("should listen to storage events without subscribing again on edits", () => {
+      const addListener = jest.spyOn(window, "addEventListener");
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+      const subscriptions = () =>
+        addListener.mock.calls.filter(([type]) => type === "storage").length;
+      const before = subscriptions();
+
+      act(() => {
+        result.current.updateNode("root-1", node("81"));
+      });
+      act(() => {
+        result.current.updateNode("root-1", node("82"));
+      });
+
+      expect(subscriptions()).toBe(before);
+      saveInOtherTab("treeData", stored([node("8080")]));
+      expect(result.current.syncConflict?.theirs).toEqual([node("8080")]);
+      addListener.mockRestore();
+    });
+
+    it("should report a conflict when there are unsaved changes", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.updateNode("root-1", node("443"));
+      });
+      saveInOtherTab("treeData", stored([node("8080")]));
+
+      expect(result.current.tree).toEqual([node("443")]);
+      expect(result.current.isDirty).toBe(true);
+      expect(result.current.syncConflict).toEqual({
+        theirs: [node("8080")],
+        savedAt: new Date("2025-01-02T03:04:05.000Z"),
+      });
+    });
+
+    it("should count a save of the same changes as saved", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.updateNode("root-1", node("443"));
+      });
+      saveInOtherTab("treeData", stored([node("443")]));
+
+      expect(result.current.isDirty).toBe(false);
+      expect(result.current.syncConflict).toBeNull();
+    });
+
+    it("should reload their version, dropping the unsaved changes", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.updateNode("root-1", node("443"));
+      });
+      saveInOtherTab("treeData", stored([node("8080")]));
+      act(() => {
+        result.current.reloadTheirs();
+      });
+
+      expect(result.current.tree).toEqual([node("8080")]);
+      expect(result.current.isDirty).toBe(false);
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.syncConflict).toBeNull();
+    });
+
+    it("should keep mine and overwrite theirs on the next save", () => {
+      const { result } = renderHook(() =>
+        usePortTemplate(undefined, { autosave: false })
+      );
+
+      act(() => {
+        result.current.updateNode("root-1", node("443"));
+      });
+      saveInOtherTab("treeData", stored([node("8080")]));
+      act(() => {
+        result.current.keepMine();
+      });
+
+      expect(result.current.tree).toEqual([node("443")]);
+      expect(result.current.syncConflict).toBeNull();
+
+      act(() => {
+        result.current.handleSave();
+      });
+      expect(
+        JSON.parse(localStorageMock.setItem.mock.calls[0][1]).tree
+      ).toEqual([node("443")]);
+    });
+
+    it("should not autosave while a conflict is pending", () => {
+      jest.useFakeTimers();
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.updateNode("root-1", node("443"));
+      });
+      saveInOtherTab("treeData", stored([node("8080")]));
+      act(() => {
+        jest.advanceTimersByTime(AUTOSAVE_DELAY * 2);
+      });
+      expect(localStorageMock.setItem).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.keepMine();
+      });
+      act(() => {
+        jest.advanceTimersByTime(AUTOSAVE_DELAY);
+      });
+      expect(localStorageMock.setItem).toHaveBeenCalledTimes(1);
+      jest.useRealTimers();
+    });
+
+    it("should keep its tree and stop autosaving when theirs cannot be read", () => {
+      jest.useFakeTimers();
+      const { result } = renderHook(() => usePortTemplate());
+
+      saveInOtherTab("treeData", "not-valid-json");
+      act(() => {
+        result.current.updateNode("root-1", node("443"));
+      });
+      act(() => {
+        jest.advanceTimersByTime(AUTOSAVE_DELAY * 2);
+      });
+
+      expect(result.current.tree).toEqual([node("443")]);
+      expect(localStorageMock.setItem).not.toHaveBeenCalled();
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        expect.stringMatching(/^Could not read the saved template: /),
+        { level: "error" }
+      );
+      jest.useRealTimers();
+    });
+
+    it("should pick up the trash of another tab", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      localStorageMock.getItem.mockImplementation((key: string) =>
+        key === "treeData:trash" ? stored([node("22")]) : null
+      );
+      saveInOtherTab("treeData:trash", stored([node("22")]));
+
+      expect(result.current.trash?.tree).toEqual([node("22")]);
+      expect(result.current.tree).toEqual([node("80")]);
+    });
+  });
+
+  describe("Import/Export", () => {
+    const existingTree: TreeNodeType[] = [
+      { id: "root-1", label: "root", value: "existing", children: [] },
+    ];
+    const importedTree: TreeNodeType[] = [
+      {
+        id: "root-1",
+        label: "root",
+        value: "imported",
+        children: [
+          { id: "child-1", label: "child", value: "80", children: [] },
+        ],
+      },
+    ];
+
+    it("should replace the tree with the imported one", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(existingTree);
+      });
+      act(() => {
+        result.current.importTree(importedTree, "replace");
+      });
+
+      expect(result.current.tree).toEqual(importedTree);
+    });
+
+    it("should append imported roots and regenerate colliding ids", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(existingTree);
+        result.current.setActiveNodeId("root-1");
+      });
+      act(() => {
+        result.current.importTree(importedTree, "append");
+      });
+
+      expect(result.current.tree).toHaveLength(2);
+      expect(result.current.tree[0]).toEqual(existingTree[0]);
+      expect(result.current.tree[1]).toMatchObject({
+        id: "mock-uuid-1",
+        value: "imported",
+        children: [{ id: "child-1" }],
+      });
+      expect(result.current.activeNodeId).toBeNull();
+    });
+
+    it("should make imports undoable", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(existingTree);
+      });
+      act(() => {
+        result.current.importTree(importedTree, "replace");
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree).toEqual(existingTree);
+    });
+
+    it("should download the tree as pretty-printed JSON", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(existingTree);
+      });
+      act(() => {
+        result.current.exportTree();
+      });
+
+      expect(downloadFile).toHaveBeenCalledWith(
+        "port-template.json",
+        expect.stringContaining('\n  "tree"'),
+        "application/json"
+      );
+      const [, contents] = (downloadFile as jest.Mock).mock.calls[0];
+      expect(JSON.parse(contents).tree).toEqual(existingTree);
+    });
+
+    it("should download the tree as YAML in the requested form", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(existingTree);
+      });
+      act(() => {
+        result.current.exportTree("yaml");
+      });
+
+      expect(downloadFile).toHaveBeenCalledWith(
+        "port-template.yaml",
+        expect.stringContaining("formatVersion: 1"),
+        "application/yaml"
+      );
+    });
+
+    it("should name the export after the template", () => {
+      localStorageMock.getItem.mockImplementation((key: string) =>
+        key === "templates"
+          ? JSON.stringify([
+              {
+                id: "tpl-1",
+                name: "Web Ports",
+                createdAt: "2025-01-01T00:00:00.000Z",
+                updatedAt: "2025-01-01T00:00:00.000Z",
+              },
+            ])
+          : null
+      );
+      const { result } = renderHook(() => usePortTemplate("tpl-1"));
+
+      act(() => {
+        result.current.exportTree();
+      });
+
+      expect(downloadFile).toHaveBeenCalledWith(
+        "web-ports.json",
+        expect.any(String),
+        "application/json"
+      );
+    });
+  });
+
+  describe("Undo/Redo", () => {
+    const baseTree: TreeNodeType[] = [
+      { id: "root-1", label: "root", value: "root", children: [] },
+    ];
+
+    it("should start with nothing to undo or redo", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it("should keep undo and redo between renders", () => {
+      const { result } = renderHook(() => usePortTemplate());
+      const { undo, redo } = result.current;
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+
+      expect(result.current.undo).toBe(undo);
+      expect(result.current.redo).toBe(redo);
+    });
+
+    it("should not record setting the tree it already holds", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+      act(() => {
+        result.current.setTree(JSON.parse(JSON.stringify(baseTree)));
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      // The only recorded step was the first setTree
+      expect(result.current.tree).toEqual([]);
+    });
+
+    it("should not record the tree loaded from localStorage", () => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify(baseTree));
+
+      const { result } = renderHook(() => usePortTemplate());
+
+      expect(result.current.tree).toEqual(baseTree);
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    it("should undo and redo addNode", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+      act(() => {
+        result.current.addNode("root-1");
+      });
+
+      expect(result.current.tree[0].children).toHaveLength(1);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree).toEqual(baseTree);
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => {
+        result.current.redo();
+      });
+
+      expect(result.current.tree[0].children).toHaveLength(1);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it("should restore a deleted subtree on undo", () => {
+      const { result } = renderHook(() => usePortTemplate());
+      const nestedTree: TreeNodeType[] = [
+        {
+          id: "root-1",
+          label: "root",
+          value: "root",
+          children: [
+            { id: "child-1", label: "child", value: "child", children: [] },
+          ],
+        },
+      ];
+
+      act(() => {
+        result.current.setTree(nestedTree);
+      });
+      act(() => {
+        result.current.deleteNode("root-1");
+      });
+
+      expect(result.current.tree).toEqual([]);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree).toEqual(nestedTree);
+    });
+
+    it("should coalesce consecutive value edits of the same node", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+      ["r", "ro", "roo"].forEach((value) => {
+        act(() => {
+          result.current.updateNode("root-1", { ...baseTree[0], value });
+        });
+      });
+
+      expect(result.current.tree[0].value).toBe("roo");
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree).toEqual(baseTree);
+    });
+
+    it("should coalesce label edits apart from value edits", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+      act(() => {
+        result.current.updateNode("root-1", { ...baseTree[0], value: "x" });
+      });
+      ["w", "we", "web"].forEach((label) => {
+        act(() => {
+          result.current.updateNode("root-1", {
+            ...result.current.tree[0],
+            label,
+          });
+        });
+      });
+
+      expect(result.current.tree[0]).toMatchObject({
+        label: "web",
+        value: "x",
+      });
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree[0]).toMatchObject({
+        label: baseTree[0].label,
+        value: "x",
+      });
+    });
+
+    it("should record a value type change as its own step", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+      act(() => {
+        result.current.updateNode("root-1", { ...baseTree[0], value: "080" });
+      });
+      act(() => {
+        result.current.updateNode("root-1", {
+          ...result.current.tree[0],
+          valueType: "port",
+          value: "80",
+        });
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree[0]).toMatchObject({ value: "080" });
+      expect(result.current.tree[0].valueType).toBeUndefined();
+    });
+
+    it("should not coalesce value edits of different nodes", () => {
+      const { result } = renderHook(() => usePortTemplate());
+      const twoRoots: TreeNodeType[] = [
+        ...baseTree,
+        { id: "root-2", label: "root", value: "second", children: [] },
+      ];
+
+      act(() => {
+        result.current.setTree(twoRoots);
+      });
+      act(() => {
+        result.current.updateNode("root-1", { ...twoRoots[0], value: "a" });
+      });
+      act(() => {
+        result.current.updateNode("root-2", { ...twoRoots[1], value: "b" });
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree[0].value).toBe("a");
+      expect(result.current.tree[1].value).toBe("second");
+    });
+
+    it("should record non-value updates as separate steps", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+      act(() => {
+        result.current.updateNode("root-1", { ...baseTree[0], value: "x" });
+      });
+      act(() => {
+        result.current.updateNode("root-1", {
+          ...baseTree[0],
+          value: "x",
+          readOnly: true,
+        });
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree[0]).toMatchObject({ value: "x" });
+      expect(result.current.tree[0].readOnly).toBeUndefined();
+    });
+
+    it("should clear the redo stack after a new mutation", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => {
+        result.current.addRoot();
+      });
+
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it("should keep the redo stack after an edit that changes nothing", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+      act(() => {
+        result.current.undo();
+      });
+      act(() => {
+        result.current.addNode("root-1"); // root-1 is gone after the undo
+      });
+
+      expect(result.current.canRedo).toBe(true);
+    });
+
+    it("should make clearStorage undoable", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.setTree(baseTree);
+      });
+      act(() => {
+        result.current.clearStorage();
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tree).toEqual(baseTree);
+    });
+
+    it("should ignore undo and redo when the stacks are empty", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.undo();
+        result.current.redo();
+      });
+
+      expect(result.current.tree).toEqual([]);
+    });
+
+    it("should keep at most 100 undo steps", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      for (let i = 0; i < 105; i++) {
+        act(() => {
+          result.current.setTree([
+            { id: `n-${i}`, label: "root", value: "", children: [] },
+          ]);
+        });
+      }
+      for (let i = 0; i < 105; i++) {
+        act(() => {
+          result.current.undo();
+        });
+      }
+
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.tree[0].id).toBe("n-4");
+    });
+  });
+
+  describe("Edge Cases", () => {
+    it("should handle empty tree operations gracefully", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      // Try to add to non-existent parent
+      act(() => {
+        result.current.addNode("non-existent");
+      });
+
+      // Try to delete non-existent node
+      act(() => {
+        result.current.deleteNode("non-existent");
+      });
+
+      // Try to update non-existent node
+      act(() => {
+        result.current.updateNode("non-existent", {
+          id: "test",
+          label: "test",
+          value: "test",
+          children: [],
+        });
+      });
+
+      expect(result.current.tree).toEqual([]);
+    });
+
+    it("should handle malformed localStorage data", () => {
+      localStorageMock.getItem.mockReturnValue("not-valid-json");
+
+      const { result } = renderHook(() => usePortTemplate());
+
+      expect(result.current.tree).toEqual([]);
+      expect(mockToast.notify).toHaveBeenCalledWith(
+        expect.stringMatching(/^Could not read the saved template: /),
+        { level: "error" }
+      );
+    });
+
+    it("should handle saving empty tree", () => {
+      const { result } = renderHook(() => usePortTemplate());
+
+      act(() => {
+        result.current.handleSave();
+      });
+
+      expect(
+        JSON.parse(localStorageMock.setItem.mock.calls[0][1]).tree
+      ).toEqual([]);
+      expect(mockToast.notify).toHaveBeenCalledWith("Template saved", {
+        level: "success",
+      });
+    });
+  });
 });
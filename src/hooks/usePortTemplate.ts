@@ -1,88 +1,710 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useReducer, useRef, useState } from "react";
 import type { TreeNodeType } from "../types/TreeNode";
 import { v4 as uuidv4 } from "uuid";
+import {
+  describeStorageError,
+  parseStoredTree,
+  serializeTree,
+} from "../utils/treeStorage";
+import {
+  LEGACY_STORAGE_KEY,
+  getTemplate,
+  templateStorageKey,
+  touchTemplate,
+  trashStorageKey,
+} from "../utils/templateLibrary";
+import {
+  EXPORT_FORMATS,
+  downloadFile,
+  regenerateCollidingIds,
+  toFileName,
+} from "../utils/treeTransfer";
+import type { ExportFormat } from "../utils/treeTransfer";
+import {
+  readNodesFromClipboard,
+  writeNodesToClipboard,
+} from "../utils/treeClipboard";
+import { findDeleteBlocker, findLock } from "../utils/treeLocks";
+import { sameTree } from "../utils/treeOps";
+import {
+  emptyStore,
+  hasNode,
+  locationOf,
+  nodeIdsOf,
+  normalizeTree,
+  selectNode,
+  selectTree,
+} from "../utils/treeStore";
+import type { TreeStore } from "../utils/treeStore";
+import { applyTreeAction, coalesceKeyOf } from "../utils/treeActions";
+import type { TreeAction } from "../utils/treeActions";
+import { useToast } from "./useToast";
+import type { ToastApi } from "./useToast";
+
+const HISTORY_LIMIT = 100; // Maximum number of undo steps kept in memory
+const LEGACY_TRASH_STORAGE_KEY = `${LEGACY_STORAGE_KEY}:trash`;
+export const AUTOSAVE_DELAY = 1000; // Default wait after the last edit before autosaving, in ms
+
+export interface PortTemplateOptions {
+  autosave?: boolean; // true by default
+  autosaveDelay?: number; // in ms; AUTOSAVE_DELAY by default
+  // Sees every tree edit before it is applied; returns the action to apply instead, or null to
+  // drop it
+  interceptAction?: (
+    action: TreeAction,
+    tree: TreeNodeType[]
+  ) => TreeAction | null;
+}
+
+// The tree as last loaded from or written to localStorage
+interface SavedTree {
+  store: TreeStore;
+  at: Date | null; // null when unknown (nothing stored, legacy data)
+  // Why the stored data could not be read (it is malformed or from a newer version of the app).
+  // It is left in storage, and autosave stays off so that it is not overwritten unasked.
+  unreadable?: string;
+}
+
+// A version of the tree saved in another tab while this one had unsaved changes
+export interface SyncConflict {
+  theirs: TreeNodeType[];
+  savedAt: Date | null;
+}
+
+// The last cleared tree, which can be restored until the next clear
+export interface TrashedTree {
+  tree: TreeNodeType[];
+  clearedAt: Date;
+}
+
+interface TreeHistory {
+  past: TreeStore[];
+  present: TreeStore;
+  future: TreeStore[];
+  coalesceKey: string | null; // Key of the last entry; equal keys merge into one step
+}
+
+const emptyHistory = (store: TreeStore = emptyStore): TreeHistory => ({
+  past: [],
+  present: store,
+  future: [],
+  coalesceKey: null,
+});
+
+type HistoryAction =
+  | { type: "edit"; action: TreeAction }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "load"; store: TreeStore }; // starts a fresh history
 
 /**
- * Hook to manage a TreeNodeType[] with localStorage persistence.
+ * Applies edits to the present store and pushes the previous store onto the undo stack. Edits
+ * that change nothing leave the history untouched. When the edit's coalesce key matches the
+ * key of the previous step, the previous step is reused so that e.g. typing into one input
+ * produces a single undo entry.
+ */
+const historyReducer = (h: TreeHistory, action: HistoryAction): TreeHistory => {
+  switch (action.type) {
+    case "edit": {
+      const next = applyTreeAction(h.present, action.action);
+      if (next === h.present) return h; // rejected; nothing to record
+      const coalesceKey = coalesceKeyOf(h.present, action.action);
+      if (coalesceKey !== null && coalesceKey === h.coalesceKey) {
+        return { ...h, present: next, future: [] };
+      }
+      return {
+        past: [...h.past, h.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        coalesceKey,
+      };
+    }
+    case "undo":
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        coalesceKey: null,
+      };
+    case "redo":
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        coalesceKey: null,
+      };
+    case "load":
+      return emptyHistory(action.store);
+  }
+};
+
+/**
+ * Whether nodes may be inserted next to `nodeId`, that is under its parent (see treeLocks).
+ */
+const canAddNextTo = (store: TreeStore, nodeId: string) => {
+  const location = locationOf(store, nodeId);
+  return !location || !findLock(store, location.parentId);
+};
+
+const emptyNode = (label: string): TreeNodeType => ({
+  id: uuidv4(),
+  label,
+  value: "",
+  children: [],
+});
+
+/**
+ * Deep-copies a node and its descendants, giving every copy a fresh id.
+ */
+const cloneWithNewIds = (node: TreeNodeType): TreeNodeType => ({
+  ...node,
+  id: uuidv4(),
+  children: node.children.map(cloneWithNewIds),
+});
+
+/**
+ * Parses a stored tree (see parseStoredTree). The store holds one node per id, so ids that
+ * repeat (e.g. in data edited by hand) get fresh ones instead of losing all nodes but one.
+ */
+const readStoredTree = (raw: string) => {
+  const { tree, savedAt } = parseStoredTree(raw);
+  return { tree: regenerateCollidingIds(tree, new Set()), savedAt };
+};
+
+/**
+ * The tree stored as `raw` (e.g. a localStorage value); an empty tree when nothing is stored,
+ * or when the data cannot be read, which is then marked `unreadable`.
+ */
+const parseSaved = (raw: string | null): SavedTree => {
+  if (!raw) return { store: emptyStore, at: null };
+  try {
+    const { tree, savedAt } = readStoredTree(raw);
+    return {
+      store: normalizeTree(tree),
+      at: savedAt ? new Date(savedAt) : null,
+    };
+  } catch (error) {
+    return {
+      store: emptyStore,
+      at: null,
+      unreadable: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+const reportUnreadable = (reason: string, notify: ToastApi["notify"]) =>
+  notify(
+    `Could not read the saved template: ${reason}. It is kept in storage and will not be autosaved over.`,
+    { level: "error" }
+  );
+
+const readTrash = (trashKey: string): TrashedTree | null => {
+  const raw = localStorage.getItem(trashKey);
+  if (!raw) return null;
+  try {
+    const { tree, savedAt } = readStoredTree(raw);
+    return { tree, clearedAt: savedAt ? new Date(savedAt) : new Date() };
+  } catch (error) {
+    console.warn("Failed to parse the trashed tree:", error);
+    return null;
+  }
+};
+
+/**
+ * Writes `tree` to localStorage under `storageKey`, bumping the `updatedAt` of the template
+ * when there is one, and returns the time of the save. When storage fails (e.g. it is full),
+ * reports it as an error toast and returns null.
+ */
+const writeTree = (
+  storageKey: string,
+  templateId: string | undefined,
+  tree: TreeNodeType[],
+  notify: ToastApi["notify"]
+): Date | null => {
+  const savedAt = new Date();
+  try {
+    localStorage.setItem(storageKey, serializeTree(tree, savedAt));
+    if (templateId) touchTemplate(templateId);
+    return savedAt;
+  } catch (error) {
+    notify(`Could not save the template: ${describeStorageError(error)}`, {
+      level: "error",
+    });
+    return null;
+  }
+};
+
+/**
+ * Hook to manage a TreeNodeType[] with localStorage persistence and undo/redo history.
  *
- * - Loads "treeData" on mount.
- * - addNode(parentId), deleteNode(id), updateNode(id, node) mutate the in-memory tree.
+ * - With a `templateId`, the tree is stored under that template's key in the template library
+ *   and saving bumps the template's `updatedAt`; without one, the legacy "treeData" slot is used.
+ * - Loads the tree on mount (and whenever `templateId` changes), migrating and validating older
+ *   storage formats (see treeStorage); nodes whose ids repeat get fresh ones. Stored data that
+ *   cannot be read (malformed, or saved by a newer version of the app) is reported as an error
+ *   and left in storage: the editor starts empty and autosave stays off until the tree is saved
+ *   by hand.
+ * - addNode(parentId), addRoot(), addSibling(id, "before" | "after"), duplicateNode(id),
+ *   deleteNode(id), updateNode(id, node), moveNode(id, parentId, index), indentNode(id),
+ *   outdentNode(id) and setTree(tree) mutate the in-memory tree and record an undo step.
+ *   Consecutive value (or label) edits of the same node are coalesced into a single step.
+ * - Every change to the tree is a TreeAction (see treeActions) sent through dispatch(action),
+ *   which the functions above wrap; `options.interceptAction` can rewrite or drop any of them.
+ * - The tree is held as a normalized, id-indexed store (see treeStore), so that an edit only
+ *   touches the nodes it involves; `store` is that store and `tree` the nested tree selected
+ *   from it, in which unchanged subtrees keep their identity from one edit to the next.
+ * - Read-only locks are enforced (see treeLocks): edits, deletions and moves of locked nodes,
+ *   and insertions under them, are ignored.
+ * - undo() / redo() walk the bounded history (both keep their identity between renders);
+ *   canUndo / canRedo tell whether they apply.
+ * - importTree(nodes, "replace" | "append") swaps in or appends an imported tree (ids that
+ *   collide with existing ones are regenerated); exportTree(format) downloads the tree as JSON
+ *   (the default) or YAML.
+ * - copyNode(id) / cutNode(id) put a node's subtree on the system clipboard (see treeClipboard);
+ *   pasteNodes(targetId, "child" | "sibling") inserts the clipboard's subtree with new ids. They
+ *   return promises that reject, without touching the tree, when the clipboard fails or holds
+ *   something else, or when locks forbid the cut or the paste.
  * - handleSave() persists to localStorage; clearStorage() clears it and resets state.
+ * - Clearing a non-empty tree moves it to the template's trash slot ("template:<id>:trash", or
+ *   "treeData:trash" without a template), replacing what was there: `trash` holds it and
+ *   restoreTrash() brings it back as unsaved changes, emptying the slot. The "Undo" of the
+ *   clear's toast writes it back to storage instead, which also works after the editor closed.
+ * - isDirty tells whether the store differs from the one last loaded or saved (undoing back to
+ *   it makes the tree clean again), and lastSavedAt when that was (null when unknown). Unless
+ *   `options.autosave` is false, a dirty tree is saved once `options.autosaveDelay` ms have
+ *   passed without edits. While the tree is dirty, leaving the page asks for confirmation
+ *   (beforeunload).
+ * - Saves and clears made in other tabs are picked up through `storage` events: a clean tree
+ *   is replaced by theirs, while a dirty one keeps its changes and `syncConflict` holds their
+ *   version instead. reloadTheirs() then adopts it and keepMine() dismisses it; autosave waits
+ *   until one of them is called (or the tree is saved).
+ * - Feedback goes through toasts (see useToast), so the hook must be used within a
+ *   ToastProvider: saving and clearing are confirmed, clearing offers to undo, and storage
+ *   failures are reported as errors (the tree then stays dirty) instead of being thrown.
  *
- * Returns { addNode, deleteNode, updateNode, handleSave, clearStorage, activeNodeId, setActiveNodeId, tree, setTree }.
+ * Returns { dispatch, addNode, addRoot, addSibling, duplicateNode, deleteNode, updateNode,
+ * moveNode, indentNode, outdentNode, copyNode, cutNode, pasteNodes, importTree, exportTree,
+ * handleSave, clearStorage, activeNodeId, setActiveNodeId, store, tree, setTree, undo, redo,
+ * canUndo, canRedo, isDirty, lastSavedAt, syncConflict, reloadTheirs, keepMine, trash,
+ * restoreTrash }.
  */
-export function usePortTemplate() {
-  const [tree, setTree] = useState<TreeNodeType[]>([]);
+export function usePortTemplate(
+  templateId?: string,
+  {
+    autosave = true,
+    autosaveDelay = AUTOSAVE_DELAY,
+    interceptAction,
+  }: PortTemplateOptions = {}
+) {
+  const [history, dispatchHistory] = useReducer(
+    historyReducer,
+    emptyStore,
+    emptyHistory
+  );
+  const [saved, setSaved] = useState<SavedTree>({
+    store: emptyStore,
+    at: null,
+  });
+  const [conflict, setConflict] = useState<SavedTree | null>(null);
+  const [trash, setTrash] = useState<TrashedTree | null>(null);
   const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
+  // Storage key of the tree the hook holds; null once unmounted. Toasts outlive the editor, so
+  // their actions check it before touching the hook's state.
+  const openKey = useRef<string | null>(null);
+  // Node an add asked to make active; it becomes active once the add has been applied
+  const pendingActiveId = useRef<string | null>(null);
+  const { notify } = useToast();
+  const store = history.present;
+  const tree = selectTree(store);
+  const storageKey = templateId
+    ? templateStorageKey(templateId)
+    : LEGACY_STORAGE_KEY;
+  const trashKey = templateId
+    ? trashStorageKey(templateId)
+    : LEGACY_TRASH_STORAGE_KEY;
+  // Undoing back to the saved store leaves the tree clean
+  const isDirty = store !== saved.store;
+  // The state the storage listener compares incoming saves with, so that it is not subscribed
+  // again on every edit
+  const current = useRef({ store, tree, isDirty, savedStore: saved.store });
 
   useEffect(() => {
-    const savedTree = localStorage.getItem("treeData");
-    if (savedTree) {
-      try {
-        setTree(JSON.parse(savedTree));
-      } catch (error) {
-        console.warn("Failed to parse saved tree data:", error);
-        setTree([]);
-      }
+    const loaded = parseSaved(localStorage.getItem(storageKey));
+    dispatchHistory({ type: "load", store: loaded.store });
+    setSaved(loaded);
+    setConflict(null);
+    setTrash(readTrash(trashKey));
+    setActiveNodeId(null);
+    if (loaded.unreadable !== undefined) {
+      reportUnreadable(loaded.unreadable, notify);
     }
-  }, []);
-
-  const addNode = (parentId: string) => {
-    const newNode: TreeNodeType = {
-      id: uuidv4(),
-      label: "child",
-      value: "",
-      children: [],
+    openKey.current = storageKey;
+    return () => {
+      openKey.current = null;
     };
-    const updateTree = (nodes: TreeNodeType[]): TreeNodeType[] =>
-      nodes.map((node) =>
-        node.id === parentId
-          ? { ...node, children: [...node.children, newNode] }
-          : { ...node, children: updateTree(node.children) }
+  }, [storageKey, trashKey, notify]);
+
+  useEffect(() => {
+    current.current = { store, tree, isDirty, savedStore: saved.store };
+  });
+
+  // Adds that were dropped or rejected (see dispatch) leave the active node as it was
+  useEffect(() => {
+    const nodeId = pendingActiveId.current;
+    pendingActiveId.current = null;
+    if (nodeId !== null && hasNode(store, nodeId)) setActiveNodeId(nodeId);
+  }, [store]);
+
+  // Saves and clears made in other tabs (the storage event only fires in the other tabs)
+  useEffect(() => {
+    const sync = (e: StorageEvent) => {
+      const { store, tree, isDirty, savedStore } = current.current;
+      if (e.key === null || e.key === trashKey) setTrash(readTrash(trashKey));
+      if (e.key !== null && e.key !== storageKey) return;
+      const incoming = parseSaved(
+        e.key === null ? localStorage.getItem(storageKey) : e.newValue
       );
-    setActiveNodeId(newNode.id);
-    setTree(updateTree(tree));
+      if (incoming.unreadable !== undefined) {
+        // Keep what this tab holds, but stop autosaving over what they saved
+        setSaved((saved) => ({ ...saved, unreadable: incoming.unreadable }));
+        reportUnreadable(incoming.unreadable, notify);
+        return;
+      }
+      const theirs = selectTree(incoming.store);
+      if (sameTree(theirs, tree)) {
+        // They saved what this tab holds: it is saved too
+        setSaved({ store, at: incoming.at });
+        setConflict(null);
+        return;
+      }
+      if (sameTree(theirs, selectTree(savedStore))) return;
+      if (isDirty) {
+        setConflict(incoming);
+        return;
+      }
+      dispatchHistory({ type: "load", store: incoming.store });
+      setSaved(incoming);
+      setConflict(null);
+      notify("Template updated from another tab", { level: "info" });
+    };
+    window.addEventListener("storage", sync);
+    return () => window.removeEventListener("storage", sync);
+  }, [storageKey, trashKey, notify]);
+
+  // Debounced autosave: every edit restarts the countdown. It waits while a conflict with
+  // another tab is pending, and stays off while the stored data is unreadable, so that it does
+  // not overwrite their version or that data unasked.
+  const unreadable = saved.unreadable !== undefined;
+  useEffect(() => {
+    if (!autosave || !isDirty || conflict || unreadable) return;
+    const timer = setTimeout(() => {
+      const at = writeTree(storageKey, templateId, selectTree(store), notify);
+      if (at) setSaved({ store, at });
+    }, autosaveDelay);
+    return () => clearTimeout(timer);
+  }, [
+    autosave,
+    autosaveDelay,
+    isDirty,
+    conflict,
+    unreadable,
+    store,
+    storageKey,
+    templateId,
+    notify,
+  ]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const warn = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = ""; // Still required by some browsers to show the prompt
+    };
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [isDirty]);
+
+  /**
+   * Applies a tree edit and records an undo step (see historyReducer); every change to the tree
+   * goes through here.
+   */
+  const dispatch = (action: TreeAction) => {
+    const next = interceptAction ? interceptAction(action, tree) : action;
+    if (next) dispatchHistory({ type: "edit", action: next });
   };
 
-  const deleteNode = (nodeId: string) => {
-    const updateTree = (nodes: TreeNodeType[]): TreeNodeType[] =>
-      nodes
-        .filter((n: TreeNodeType) => n.id !== nodeId)
-        .map((n: TreeNodeType) => ({ ...n, children: updateTree(n.children) }));
-    setTree(updateTree(tree));
+  const setTree = (newTree: TreeNodeType[]) =>
+    dispatch({ type: "set", tree: newTree });
+
+  /**
+   * Dispatches an action that adds nodes and makes the first of them active once it is in the
+   * tree.
+   */
+  const dispatchAdd = (
+    action: Extract<TreeAction, { nodes: TreeNodeType[] }>
+  ) => {
+    pendingActiveId.current = action.nodes[0]?.id ?? null;
+    dispatch(action);
   };
 
-  const updateNode = (nodeId: string, node: TreeNodeType) => {
-    const updateTree = (nodes: TreeNodeType[]): TreeNodeType[] =>
-      nodes.map((n: TreeNodeType) =>
-        n.id === nodeId
-          ? { ...n, ...node }
-          : { ...n, children: updateTree(n.children) }
-      );
-    setTree(updateTree(tree));
+  const addNode = (parentId: string) => {
+    if (findLock(store, parentId)) return;
+    const node = emptyNode("child");
+    dispatchAdd({ type: "insert", parentId, nodes: [node] });
+  };
+
+  /**
+   * Appends an empty root node and makes it active.
+   */
+  const addRoot = () => {
+    const node = emptyNode("root");
+    dispatchAdd({ type: "insert", parentId: null, nodes: [node] });
+  };
+
+  const deleteNode = (nodeId: string) => dispatch({ type: "delete", nodeId });
+
+  const updateNode = (nodeId: string, node: TreeNodeType) =>
+    dispatch({ type: "update", nodeId, node });
+
+  /**
+   * Moves a node and its subtree; see treeStore.moveNode for how `index` is interpreted.
+   */
+  const moveNode = (
+    nodeId: string,
+    targetParentId: string | null,
+    index: number
+  ) => dispatch({ type: "move", nodeId, parentId: targetParentId, index });
+
+  /**
+   * Inserts an empty node next to `nodeId`, on the same level, and makes it active.
+   */
+  const addSibling = (nodeId: string, position: "before" | "after") => {
+    const location = locationOf(store, nodeId);
+    if (!location || !canAddNextTo(store, nodeId)) return;
+    const node = emptyNode(location.parentId === null ? "root" : "child");
+    dispatchAdd({ type: "insertNextTo", nodeId, position, nodes: [node] });
+  };
+
+  /**
+   * Copies a node and its whole subtree (with new ids) directly after the original and makes
+   * the copy active.
+   */
+  const duplicateNode = (nodeId: string) => {
+    const original = selectNode(store, nodeId);
+    if (!original || !canAddNextTo(store, nodeId)) return;
+    const copy = cloneWithNewIds(original);
+    dispatchAdd({
+      type: "insertNextTo",
+      nodeId,
+      position: "after",
+      nodes: [copy],
+    });
+  };
+
+  /**
+   * Makes a node the last child of its previous sibling. No-op for first children.
+   */
+  const indentNode = (nodeId: string) => dispatch({ type: "indent", nodeId });
+
+  /**
+   * Moves a node up one level, right after its current parent. No-op for root nodes.
+   */
+  const outdentNode = (nodeId: string) => dispatch({ type: "outdent", nodeId });
+
+  const copyNode = async (nodeId: string) => {
+    const node = selectNode(store, nodeId);
+    if (node) await writeNodesToClipboard([node]);
+  };
+
+  /**
+   * Copies a node's subtree to the clipboard and then deletes it; the node is kept when the
+   * clipboard write fails. Rejects without copying when the node cannot be deleted.
+   */
+  const cutNode = async (nodeId: string) => {
+    const node = selectNode(store, nodeId);
+    if (!node) return;
+    const blocker = findDeleteBlocker(store, nodeId);
+    if (blocker) throw new Error(blocker);
+    await writeNodesToClipboard([node]);
+    deleteNode(nodeId);
+  };
+
+  /**
+   * Inserts the clipboard's subtree as the last children of `targetId` ("child") or right after
+   * it ("sibling"); a null target appends it to the root level. The first pasted node becomes
+   * active. Rejects before reading the clipboard when the target's new parent is locked.
+   */
+  const pasteNodes = async (
+    targetId: string | null,
+    position: "child" | "sibling"
+  ) => {
+    const newParentId =
+      targetId === null || position === "child"
+        ? targetId
+        : locationOf(store, targetId)?.parentId ?? null;
+    const lock = findLock(store, newParentId);
+    if (lock) throw new Error(lock.reason);
+    const nodes = (await readNodesFromClipboard()).map(cloneWithNewIds);
+    dispatchAdd(
+      targetId === null || position === "child"
+        ? { type: "insert", parentId: targetId, nodes }
+        : { type: "insertNextTo", nodeId: targetId, position: "after", nodes }
+    );
+  };
+
+  const importTree = (nodes: TreeNodeType[], mode: "replace" | "append") => {
+    const incoming = regenerateCollidingIds(
+      nodes,
+      new Set(mode === "append" ? nodeIdsOf(store) : [])
+    );
+    dispatch(
+      mode === "replace"
+        ? { type: "set", tree: incoming }
+        : { type: "insert", parentId: null, nodes: incoming }
+    );
+    setActiveNodeId(null);
   };
 
+  const exportTree = (format: ExportFormat = "json") => {
+    const name = (templateId && getTemplate(templateId)?.name) || "";
+    const { extension, mimeType, serialize } = EXPORT_FORMATS[format];
+    downloadFile(toFileName(name, extension), serialize(tree), mimeType);
+  };
+
+  const undo = useCallback(() => dispatchHistory({ type: "undo" }), []);
+
+  const redo = useCallback(() => dispatchHistory({ type: "redo" }), []);
+
   const handleSave = () => {
-    localStorage.setItem("treeData", JSON.stringify(tree));
-    alert("Template saved to localStorage!");
+    const at = writeTree(storageKey, templateId, tree, notify);
+    if (!at) return;
+    setSaved({ store, at });
+    setConflict(null);
+    notify("Template saved", { level: "success" });
+  };
+
+  /**
+   * Drops the unsaved changes and the undo history for the version saved in another tab.
+   */
+  const reloadTheirs = () => {
+    if (!conflict) return;
+    dispatchHistory({ type: "load", store: conflict.store });
+    setSaved(conflict);
+    setConflict(null);
+    setActiveNodeId(null);
+  };
+
+  /**
+   * Dismisses the conflict, keeping the unsaved changes; the next save overwrites the version
+   * saved in another tab.
+   */
+  const keepMine = () => setConflict(null);
+
+  const restoreTree = (trashed: TrashedTree) => {
+    localStorage.removeItem(trashKey);
+    setTrash(null);
+    setTree(trashed.tree);
+    setActiveNodeId(null);
   };
 
+  /**
+   * Undoes a clear from its toast: writes the cleared tree back to storage before emptying the
+   * trash slot, so that it is not lost when the editor is gone by then, and shows it as saved
+   * when the editor still holds this template, with a fresh undo history like any tree loaded
+   * from storage. The trash is kept when the write fails.
+   */
+  const undoClear = (trashed: TrashedTree) => {
+    const at = writeTree(storageKey, templateId, trashed.tree, notify);
+    if (!at) return;
+    localStorage.removeItem(trashKey);
+    if (openKey.current !== storageKey) return;
+    const restored = normalizeTree(trashed.tree);
+    dispatchHistory({ type: "load", store: restored });
+    setTrash(null);
+    setSaved({ store: restored, at });
+    setActiveNodeId(null);
+  };
+
+  /**
+   * Removes the stored tree, moving it to the trash slot, and empties the editor. The toast's
+   * "Undo" restores it (see undoClear).
+   */
   const clearStorage = () => {
-    localStorage.removeItem("treeData");
+    const trashed =
+      store.rootIds.length > 0 ? { tree, clearedAt: new Date() } : null;
+    localStorage.removeItem(storageKey);
+    if (trashed) {
+      setTrash(trashed);
+      try {
+        localStorage.setItem(
+          trashKey,
+          serializeTree(trashed.tree, trashed.clearedAt)
+        );
+      } catch (error) {
+        notify(
+          `Could not keep the cleared tree in the trash: ${describeStorageError(
+            error
+          )}`,
+          { level: "error" }
+        );
+      }
+    }
     setTree([]);
+    setSaved({ store: emptyStore, at: null });
+    setConflict(null);
     setActiveNodeId(null);
-    alert("Local storage cleared!");
+    notify(
+      "Template cleared",
+      trashed
+        ? { action: { label: "Undo", onClick: () => undoClear(trashed) } }
+        : undefined
+    );
+  };
+
+  const restoreTrash = () => {
+    if (trash) restoreTree(trash);
+  };
+
+  const syncConflict: SyncConflict | null = conflict && {
+    theirs: selectTree(conflict.store),
+    savedAt: conflict.at,
   };
 
   return {
+    dispatch,
     addNode,
+    addRoot,
+    addSibling,
+    duplicateNode,
     deleteNode,
     updateNode,
+    moveNode,
+    indentNode,
+    outdentNode,
+    copyNode,
+    cutNode,
+    pasteNodes,
+    importTree,
+    exportTree,
     handleSave,
     clearStorage,
     activeNodeId,
     setActiveNodeId,
+    store,
     tree,
     setTree,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    isDirty,
+    lastSavedAt: saved.at,
+    syncConflict,
+    reloadTheirs,
+    keepMine,
+    trash,
+    restoreTrash,
   };
 }
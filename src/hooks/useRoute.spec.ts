@@ -0,0 +1,52 @@
+import { renderHook, act } from "@testing-library/react";
+import { useRoute } from "./useRoute";
+
+describe("useRoute", () => {
+  beforeEach(() => {
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("should parse the current path", () => {
+    window.history.replaceState(null, "", "/templates/tpl-1");
+
+    const { result } = renderHook(() => useRoute());
+
+    expect(result.current.route).toEqual({ name: "template", id: "tpl-1" });
+  });
+
+  it("should push a history entry when navigating", () => {
+    const { result } = renderHook(() => useRoute());
+    const length = window.history.length;
+
+    act(() => {
+      result.current.navigate({ name: "settings" });
+    });
+
+    expect(window.location.pathname).toBe("/settings");
+    expect(window.history.length).toBe(length + 1);
+    expect(result.current.route).toEqual({ name: "settings" });
+  });
+
+  it("should replace the entry when asked to", () => {
+    const { result } = renderHook(() => useRoute());
+    const length = window.history.length;
+
+    act(() => {
+      result.current.navigate({ name: "settings" }, { replace: true });
+    });
+
+    expect(window.location.pathname).toBe("/settings");
+    expect(window.history.length).toBe(length);
+  });
+
+  it("should follow the browser's back and forward buttons", () => {
+    const { result } = renderHook(() => useRoute());
+
+    act(() => {
+      window.history.pushState(null, "", "/templates/tpl-2");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    });
+
+    expect(result.current.route).toEqual({ name: "template", id: "tpl-2" });
+  });
+});
@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from "react";
+import { parseRoute, routePath } from "../utils/routes";
+import type { Route } from "../utils/routes";
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("popstate", onChange);
+  return () => window.removeEventListener("popstate", onChange);
+};
+
+const getPathname = () => window.location.pathname;
+
+/**
+ * Hook following the route of the current URL (see utils/routes) with the History API.
+ *
+ * - route is parsed from `location.pathname` and follows the browser's back / forward buttons.
+ * - navigate(route, { replace }) pushes (or replaces) a history entry and updates every
+ *   component using the hook.
+ *
+ * Returns { route, navigate }.
+ */
+export function useRoute() {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+
+  const navigate = (to: Route, { replace = false } = {}) => {
+    const path = routePath(to);
+    if (path === window.location.pathname) return;
+    if (replace) window.history.replaceState(null, "", path);
+    else window.history.pushState(null, "", path);
+    // pushState does not fire popstate; tell the subscribers ourselves
+    window.dispatchEvent(new PopStateEvent("popstate"));
+  };
+
+  return { route: parseRoute(pathname), navigate };
+}
@@ -0,0 +1,134 @@
+import { renderHook, act } from "@testing-library/react";
+import { useTemplateLibrary } from "./useTemplateLibrary";
+import { templateStorageKey } from "../utils/templateLibrary";
+
+const mockToast = { notify: jest.fn(), dismiss: jest.fn() };
+jest.mock("./useToast", () => ({
+  useToast: () => mockToast,
+}));
+
+let uuidCounter = 0;
+jest.mock("uuid", () => ({
+  v4: jest.fn(() => `mock-uuid-${++uuidCounter}`),
+}));
+
+describe("useTemplateLibrary Hook", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    uuidCounter = 0;
+  });
+
+  it("should start with the templates already in storage", () => {
+    localStorage.setItem(
+      "templates",
+      JSON.stringify([
+        {
+          id: "t-1",
+          name: "Stored",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          updatedAt: "2025-01-01T00:00:00.000Z",
+        },
+      ])
+    );
+
+    const { result } = renderHook(() => useTemplateLibrary());
+
+    expect(result.current.templates.map((t) => t.name)).toEqual(["Stored"]);
+  });
+
+  it("should create a template and return it", () => {
+    const { result } = renderHook(() => useTemplateLibrary());
+
+    let createdId = "";
+    act(() => {
+      createdId = result.current.createTemplate("Web")?.id ?? "";
+    });
+
+    expect(createdId).toBe("mock-uuid-1");
+    expect(result.current.templates).toHaveLength(1);
+    expect(result.current.templates[0].name).toBe("Web");
+  });
+
+  it("should rename a template", () => {
+    const { result } = renderHook(() => useTemplateLibrary());
+
+    act(() => {
+      result.current.createTemplate("Web");
+    });
+    act(() => {
+      result.current.renameTemplate("mock-uuid-1", "Web servers");
+    });
+
+    expect(result.current.templates[0].name).toBe("Web servers");
+  });
+
+  it("should duplicate a template", () => {
+    const { result } = renderHook(() => useTemplateLibrary());
+
+    act(() => {
+      result.current.createTemplate("Web");
+    });
+    act(() => {
+      result.current.duplicateTemplate("mock-uuid-1");
+    });
+
+    expect(result.current.templates.map((t) => t.name).sort()).toEqual([
+      "Web",
+      "Web (copy)",
+    ]);
+  });
+
+  it("should delete a template and its stored tree", () => {
+    const { result } = renderHook(() => useTemplateLibrary());
+
+    act(() => {
+      result.current.createTemplate("Web");
+    });
+    act(() => {
+      result.current.deleteTemplate("mock-uuid-1");
+    });
+
+    expect(result.current.templates).toEqual([]);
+    expect(localStorage.getItem(templateStorageKey("mock-uuid-1"))).toBeNull();
+  });
+
+  it("should report a template that cannot be created", () => {
+    jest.spyOn(Storage.prototype, "setItem").mockImplementationOnce(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+    const { result } = renderHook(() => useTemplateLibrary());
+
+    let created: unknown = null;
+    act(() => {
+      created = result.current.createTemplate("Web");
+    });
+
+    expect(created).toBeUndefined();
+    expect(result.current.templates).toEqual([]);
+    expect(mockToast.notify).toHaveBeenCalledWith(
+      "Could not create the template: browser storage is full",
+      { level: "error" }
+    );
+  });
+
+  it("should report renames that cannot be stored and keep the old name", () => {
+    const { result } = renderHook(() => useTemplateLibrary());
+    act(() => {
+      result.current.createTemplate("Web");
+    });
+    jest.spyOn(Storage.prototype, "setItem").mockImplementationOnce(() => {
+      throw new Error("Access denied");
+    });
+
+    act(() => {
+      result.current.renameTemplate("mock-uuid-1", "Web servers");
+    });
+
+    expect(result.current.templates[0].name).toBe("Web");
+    expect(mockToast.notify).toHaveBeenCalledWith(
+      "Could not rename the template: Access denied",
+      { level: "error" }
+    );
+  });
+});
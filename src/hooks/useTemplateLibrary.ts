@@ -0,0 +1,64 @@
+import { useState } from "react";
+import * as library from "../utils/templateLibrary";
+import type { TemplateMeta } from "../utils/templateLibrary";
+import { describeStorageError } from "../utils/treeStorage";
+import { useToast } from "./useToast";
+
+/**
+ * Hook exposing the template library (see utils/templateLibrary) as React state.
+ *
+ * - templates: all templates, most recently updated first.
+ * - createTemplate(name), renameTemplate(id, name), duplicateTemplate(id) and
+ *   deleteTemplate(id) update localStorage and refresh the list. Create and duplicate
+ *   return the new template so callers can open it.
+ * - Storage failures (e.g. quota exceeded) are reported as error toasts instead of being
+ *   thrown, so the hook must be used within a ToastProvider; create and duplicate then return
+ *   undefined.
+ *
+ * Returns { templates, createTemplate, renameTemplate, duplicateTemplate, deleteTemplate, refresh }.
+ */
+export function useTemplateLibrary() {
+  const [templates, setTemplates] = useState<TemplateMeta[]>(() =>
+    library.listTemplates()
+  );
+  const { notify } = useToast();
+
+  const refresh = () => setTemplates(library.listTemplates());
+
+  // Runs a change to the library and refreshes the list, even when the change fails midway
+  const write = <T>(what: string, change: () => T): T | undefined => {
+    try {
+      return change();
+    } catch (error) {
+      notify(`Could not ${what}: ${describeStorageError(error)}`, {
+        level: "error",
+      });
+      return undefined;
+    } finally {
+      refresh();
+    }
+  };
+
+  const createTemplate = (name: string): TemplateMeta | undefined =>
+    write("create the template", () => library.createTemplate(name));
+
+  const renameTemplate = (id: string, name: string) => {
+    write("rename the template", () => library.renameTemplate(id, name));
+  };
+
+  const duplicateTemplate = (id: string): TemplateMeta | undefined =>
+    write("duplicate the template", () => library.duplicateTemplate(id));
+
+  const deleteTemplate = (id: string) => {
+    write("delete the template", () => library.deleteTemplate(id));
+  };
+
+  return {
+    templates,
+    createTemplate,
+    renameTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+    refresh,
+  };
+}
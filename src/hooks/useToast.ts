@@ -0,0 +1,25 @@
+import { createContext, useContext } from "react";
+import type { ToastOptions } from "./useToastQueue";
+
+export interface ToastApi {
+  notify: (message: string, options?: ToastOptions) => number;
+  dismiss: (id: number) => void;
+}
+
+export const ToastContext = createContext<ToastApi | null>(null);
+
+/**
+ * Hook giving access to the toast notifications of the enclosing ToastProvider.
+ *
+ * - notify(message, { level, action, duration }) shows a toast and returns its id.
+ * - dismiss(id) removes it early.
+ *
+ * Both keep their identity across renders, so they can be used in effects.
+ *
+ * Returns { notify, dismiss }.
+ */
+export function useToast(): ToastApi {
+  const api = useContext(ToastContext);
+  if (!api) throw new Error("useToast must be used within a ToastProvider");
+  return api;
+}
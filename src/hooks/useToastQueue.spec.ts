@@ -0,0 +1,128 @@
+import { renderHook, act } from "@testing-library/react";
+import {
+  MAX_VISIBLE_TOASTS,
+  TOAST_DURATIONS,
+  useToastQueue,
+} from "./useToastQueue";
+
+describe("useToastQueue", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should show toasts with their level and action", () => {
+    const { result } = renderHook(() => useToastQueue());
+    const onClick = jest.fn();
+
+    act(() => {
+      result.current.notify("Saved", { level: "success" });
+      result.current.notify("Cleared", { action: { label: "Undo", onClick } });
+    });
+
+    expect(result.current.toasts).toEqual([
+      {
+        id: 1,
+        message: "Saved",
+        level: "success",
+        action: null,
+        duration: TOAST_DURATIONS.success,
+      },
+      {
+        id: 2,
+        message: "Cleared",
+        level: "info",
+        action: { label: "Undo", onClick },
+        duration: TOAST_DURATIONS.info,
+      },
+    ]);
+  });
+
+  it("should dismiss toasts", () => {
+    const { result } = renderHook(() => useToastQueue());
+
+    let id = 0;
+    act(() => {
+      id = result.current.notify("Saved");
+    });
+    act(() => {
+      result.current.dismiss(id);
+    });
+
+    expect(result.current.toasts).toEqual([]);
+  });
+
+  it("should dismiss toasts automatically after their duration", () => {
+    const { result } = renderHook(() => useToastQueue());
+
+    act(() => {
+      result.current.notify("Failed", { level: "error" });
+      result.current.notify("Saved", { duration: 500 });
+    });
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+    expect(result.current.toasts.map((toast) => toast.message)).toEqual([
+      "Failed",
+    ]);
+
+    act(() => {
+      jest.advanceTimersByTime(TOAST_DURATIONS.error);
+    });
+    expect(result.current.toasts).toEqual([]);
+  });
+
+  it("should keep toasts without a duration until they are dismissed", () => {
+    const { result } = renderHook(() => useToastQueue());
+
+    act(() => {
+      result.current.notify("Read me", { duration: 0 });
+    });
+    act(() => {
+      jest.runAllTimers();
+    });
+
+    expect(result.current.toasts).toHaveLength(1);
+  });
+
+  it("should queue toasts beyond the visible ones", () => {
+    const { result } = renderHook(() => useToastQueue());
+
+    act(() => {
+      for (let i = 0; i <= MAX_VISIBLE_TOASTS; i++) {
+        result.current.notify(`Toast ${i}`, { duration: 1000 });
+      }
+    });
+    expect(result.current.toasts).toHaveLength(MAX_VISIBLE_TOASTS);
+    expect(result.current.queuedCount).toBe(1);
+
+    // The queued toast only starts its countdown once it is shown
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(result.current.toasts.map((toast) => toast.message)).toEqual([
+      `Toast ${MAX_VISIBLE_TOASTS}`,
+    ]);
+    expect(result.current.queuedCount).toBe(0);
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(result.current.toasts).toEqual([]);
+  });
+
+  it("should keep notify and dismiss stable across renders", () => {
+    const { result } = renderHook(() => useToastQueue());
+    const { notify, dismiss } = result.current;
+
+    act(() => {
+      notify("Saved");
+    });
+
+    expect(result.current.notify).toBe(notify);
+    expect(result.current.dismiss).toBe(dismiss);
+  });
+});
@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from "react";
+
+export type ToastLevel = "success" | "error" | "info";
+
+export interface ToastAction {
+  label: string; // e.g. "Undo"
+  onClick: () => void; // the toast is dismissed after it runs
+}
+
+export interface ToastOptions {
+  level?: ToastLevel; // "info" by default
+  action?: ToastAction;
+  duration?: number; // in ms before auto-dismissal; 0 keeps the toast until it is dismissed
+}
+
+export interface Toast {
+  id: number;
+  message: string;
+  level: ToastLevel;
+  action: ToastAction | null;
+  duration: number;
+}
+
+export const MAX_VISIBLE_TOASTS = 3; // Later toasts wait until one of these is dismissed
+
+// Errors stay longer so that there is time to read them
+export const TOAST_DURATIONS: Record<ToastLevel, number> = {
+  success: 4000,
+  info: 4000,
+  error: 8000,
+};
+
+/**
+ * Hook holding a queue of toast notifications (see ToastProvider).
+ *
+ * - notify(message, options) queues a toast and returns its id.
+ * - dismiss(id) removes a toast, shown or still queued.
+ *
+ * At most MAX_VISIBLE_TOASTS toasts are shown at once, oldest first; the others wait in the
+ * queue. A toast's auto-dismiss countdown only starts once it is shown.
+ *
+ * Returns { toasts (the shown ones), queuedCount, notify, dismiss }. notify and dismiss keep
+ * their identity across renders.
+ */
+export function useToastQueue() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const [api] = useState(() => {
+    const dismiss = (id: number) => {
+      clearTimeout(timers.current.get(id));
+      timers.current.delete(id);
+      setToasts((current) => current.filter((toast) => toast.id !== id));
+    };
+    const notify = (message: string, options: ToastOptions = {}) => {
+      const level = options.level ?? "info";
+      const toast: Toast = {
+        id: ++nextId.current,
+        message,
+        level,
+        action: options.action ?? null,
+        duration: options.duration ?? TOAST_DURATIONS[level],
+      };
+      setToasts((current) => [...current, toast]);
+      return toast.id;
+    };
+    return { notify, dismiss };
+  });
+
+  // Start the countdown of toasts as they are shown
+  useEffect(() => {
+    toasts.slice(0, MAX_VISIBLE_TOASTS).forEach((toast) => {
+      if (toast.duration <= 0 || timers.current.has(toast.id)) return;
+      timers.current.set(
+        toast.id,
+        setTimeout(() => api.dismiss(toast.id), toast.duration)
+      );
+    });
+  }, [toasts, api]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => {
+      pending.forEach(clearTimeout);
+      pending.clear();
+    };
+  }, []);
+
+  const visible = toasts.slice(0, MAX_VISIBLE_TOASTS);
+  return {
+    toasts: visible,
+    queuedCount: toasts.length - visible.length,
+    notify: api.notify,
+    dismiss: api.dismiss,
+  };
+}
@@ -0,0 +1,22 @@
+import type { TreeNodeType } from "../types/TreeNode";
+
+/**
+ * Helpers building and describing trees in tests.
+ */
+
+/**
+ * A node labelled with its id and an empty value.
+ */
+export const node = (
+  id: string,
+  children: TreeNodeType[] = [],
+  extra: Partial<TreeNodeType> = {}
+): TreeNodeType => ({ id, label: id, value: "", children, ...extra });
+
+/**
+ * The ids of a tree, nested like it, e.g. `[{ a: ["b"] }, "c"]`, to compare structures.
+ */
+export const treeShape = (nodes: TreeNodeType[]): unknown[] =>
+  nodes.map((n) =>
+    n.children.length ? { [n.id]: treeShape(n.children) } : n.id
+  );
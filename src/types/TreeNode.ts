@@ -1,8 +1,19 @@
+export type ValueType =
+  | "string"
+  | "integer"
+  | "boolean"
+  | "enum"
+  | "port"
+  | "host";
+
 export interface TreeNodeType {
   id: string;
   value: string;
   label: string;
   children: TreeNodeType[];
   readOnly?: boolean;
+  lockSubtree?: boolean; // with readOnly, also locks every descendant (see treeLocks)
   isLast?: boolean;
+  valueType?: ValueType; // how `value` is edited; "string" when omitted
+  options?: string[]; // choices of an "enum" value
 }
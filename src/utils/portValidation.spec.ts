@@ -0,0 +1,179 @@
+import {
+  checkPorts,
+  normalizePort,
+  parsePort,
+  portsConflict,
+} from "./portValidation";
+import type { TreeNodeType } from "../types/TreeNode";
+
+const port = (id: string, value: string): TreeNodeType => ({
+  id,
+  label: id,
+  value,
+  valueType: "port",
+  children: [],
+});
+
+const group = (id: string, children: TreeNodeType[]): TreeNodeType => ({
+  id,
+  label: id,
+  value: "",
+  children,
+});
+
+describe("portValidation", () => {
+  describe("normalizePort", () => {
+    it("should strip spaces, leading zeros and lowercase the protocol", () => {
+      expect(normalizePort(" 0080 - 90 / TCP")).toBe("80-90/tcp");
+      expect(normalizePort("53/UDP")).toBe("53/udp");
+    });
+
+    it("should leave values that are not shaped like ports", () => {
+      expect(normalizePort("http")).toBe("http");
+      expect(normalizePort("80.5")).toBe("80.5");
+    });
+  });
+
+  describe("parsePort", () => {
+    it("should parse single ports, ranges and protocols", () => {
+      expect(parsePort("80")).toEqual({
+        spec: { start: 80, end: 80, protocol: null },
+        error: null,
+      });
+      expect(parsePort("8000-8100/TCP")).toEqual({
+        spec: { start: 8000, end: 8100, protocol: "tcp" },
+        error: null,
+      });
+    });
+
+    it("should accept empty values without an error", () => {
+      expect(parsePort("  ")).toEqual({ spec: null, error: null });
+    });
+
+    it("should reject malformed values", () => {
+      expect(parsePort("http").error).toBe(
+        '"http" is not a port or a start-end range'
+      );
+      expect(parsePort("80-").spec).toBeNull();
+    });
+
+    it("should reject ports outside 1-65535", () => {
+      expect(parsePort("0").error).toBe("Port 0 is outside 1-65535");
+      expect(parsePort("80-70000").error).toBe("Port 70000 is outside 1-65535");
+    });
+
+    it("should reject reversed ranges", () => {
+      expect(parsePort("90-80").error).toBe(
+        "Range 90-80 ends before it starts"
+      );
+    });
+
+    it("should reject unknown protocols", () => {
+      expect(parsePort("80/http").error).toBe(
+        'Unknown protocol "http" (use tcp, udp, sctp)'
+      );
+    });
+  });
+
+  describe("portsConflict", () => {
+    const spec = (start: number, end: number, protocol: string | null) => ({
+      start,
+      end,
+      protocol,
+    });
+
+    it("should detect overlapping ranges", () => {
+      expect(portsConflict(spec(80, 90, null), spec(90, 100, null))).toBe(true);
+      expect(portsConflict(spec(80, 89, null), spec(90, 100, null))).toBe(
+        false
+      );
+    });
+
+    it("should only compare ports of the same protocol", () => {
+      expect(portsConflict(spec(53, 53, "tcp"), spec(53, 53, "udp"))).toBe(
+        false
+      );
+      expect(portsConflict(spec(53, 53, "tcp"), spec(53, 53, null))).toBe(true);
+    });
+  });
+
+  describe("checkPorts", () => {
+    it("should count ports and flag invalid ones", () => {
+      const check = checkPorts(
+        [port("a", "80"), port("b", "abc"), group("c", [])],
+        "template"
+      );
+
+      expect(check.portCount).toBe(2);
+      expect(check.errors.get("b")).toBe(
+        '"abc" is not a port or a start-end range'
+      );
+      expect(check.errors.has("a")).toBe(false);
+      expect(check.conflicts).toEqual([]);
+    });
+
+    it("should flag both ports of a conflict", () => {
+      const check = checkPorts(
+        [port("web", "8000-8100"), port("api", "8080/tcp")],
+        "template"
+      );
+
+      expect(check.errors.get("web")).toBe("Conflicts with api (8080/tcp)");
+      expect(check.errors.get("api")).toBe("Conflicts with web (8000-8100)");
+      expect(check.conflicts).toEqual([
+        {
+          first: {
+            nodeId: "web",
+            label: "web",
+            value: "8000-8100",
+            ancestorIds: [],
+          },
+          second: {
+            nodeId: "api",
+            label: "api",
+            value: "8080/tcp",
+            ancestorIds: [],
+          },
+        },
+      ]);
+    });
+
+    it("should only compare siblings in the siblings scope", () => {
+      const tree = [
+        group("one", [port("http", "80")]),
+        group("two", [port("web", "80"), port("dns", "53")]),
+      ];
+
+      expect(checkPorts(tree, "siblings").conflicts).toEqual([]);
+
+      const { conflicts } = checkPorts(tree, "template");
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].first.ancestorIds).toEqual(["one"]);
+      expect(conflicts[0].second.ancestorIds).toEqual(["two"]);
+    });
+
+    it("should list conflicts in port order", () => {
+      const { conflicts } = checkPorts(
+        [port("a", "443"), port("b", "22"), port("c", "443"), port("d", "22")],
+        "template"
+      );
+
+      expect(
+        conflicts.map(({ first, second }) => [first.nodeId, second.nodeId])
+      ).toEqual([
+        ["b", "d"],
+        ["a", "c"],
+      ]);
+    });
+
+    it("should ignore ports on different protocols", () => {
+      const check = checkPorts(
+        [port("dns", "53/udp"), port("dns-tcp", "53/tcp")],
+        "template"
+      );
+
+      expect(check.conflicts).toEqual([]);
+      expect(check.errors.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import type { TreeNodeType } from "../types/TreeNode";
+
+/**
+ * Validation of port values and detection of conflicting ports.
+ *
+ * The value of a port node (`valueType` "port") is a port number or a `start-end` range within
+ * MIN_PORT..MAX_PORT, optionally followed by a protocol: "80", "8000-8100", "53/udp". Empty
+ * values are allowed: the port is simply not set yet.
+ *
+ * Two ports conflict when their ranges overlap and they share a protocol; a port without a
+ * protocol stands for every protocol. Conflicts are looked for either among the siblings of
+ * each node or across the whole template (see ConflictScope).
+ */
+
+export const MIN_PORT = 1;
+export const MAX_PORT = 65535;
+export const PORT_PROTOCOLS = ["tcp", "udp", "sctp"];
+
+export interface PortSpec {
+  start: number;
+  end: number; // equal to `start` for single ports
+  protocol: string | null; // null for every protocol
+}
+
+export type ConflictScope = "siblings" | "template";
+
+export const CONFLICT_SCOPES: Record<ConflictScope, string> = {
+  siblings: "Among siblings",
+  template: "Whole template",
+};
+
+export interface ConflictingPort {
+  nodeId: string;
+  label: string;
+  value: string;
+  ancestorIds: string[]; // root first
+}
+
+export interface PortConflict {
+  first: ConflictingPort; // the port with the lower start
+  second: ConflictingPort;
+}
+
+export interface PortCheck {
+  portCount: number; // number of port nodes in the tree
+  errors: Map<string, string>; // node id -> why its port is invalid or conflicting
+  conflicts: PortConflict[]; // ordered by port
+}
+
+const PORT_PATTERN = /^(\d+)(?:-(\d+))?(?:\/([a-z]+))?$/i;
+
+const matchPort = (value: string) =>
+  PORT_PATTERN.exec(value.replace(/\s+/g, ""));
+
+/**
+ * Writes a port value in its canonical form (" 0080 - 90 / TCP" becomes "80-90/tcp"), or
+ * returns it unchanged when it is not shaped like a port.
+ */
+export function normalizePort(value: string): string {
+  const match = matchPort(value);
+  if (!match) return value;
+  const [, start, end, protocol] = match;
+  return `${Number(start)}${end === undefined ? "" : `-${Number(end)}`}${
+    protocol === undefined ? "" : `/${protocol.toLowerCase()}`
+  }`;
+}
+
+/**
+ * Parses a port value. `spec` is null for empty values and for invalid ones, which get an
+ * `error` explaining what is wrong.
+ */
+export function parsePort(value: string): {
+  spec: PortSpec | null;
+  error: string | null;
+} {
+  if (value.trim() === "") return { spec: null, error: null };
+  const match = matchPort(value);
+  if (!match) {
+    return {
+      spec: null,
+      error: `"${value}" is not a port or a start-end range`,
+    };
+  }
+  const start = Number(match[1]);
+  const end = match[2] === undefined ? start : Number(match[2]);
+  const protocol = match[3]?.toLowerCase() ?? null;
+  const outOfRange = [start, end].find(
+    (port) => port < MIN_PORT || port > MAX_PORT
+  );
+  if (outOfRange !== undefined) {
+    return {
+      spec: null,
+      error: `Port ${outOfRange} is outside ${MIN_PORT}-${MAX_PORT}`,
+    };
+  }
+  if (start > end) {
+    return {
+      spec: null,
+      error: `Range ${start}-${end} ends before it starts`,
+    };
+  }
+  if (protocol !== null && !PORT_PROTOCOLS.includes(protocol)) {
+    return {
+      spec: null,
+      error: `Unknown protocol "${protocol}" (use ${PORT_PROTOCOLS.join(
+        ", "
+      )})`,
+    };
+  }
+  return { spec: { start, end, protocol }, error: null };
+}
+
+export const portsConflict = (a: PortSpec, b: PortSpec): boolean =>
+  a.start <= b.end &&
+  b.start <= a.end &&
+  (a.protocol === null || b.protocol === null || a.protocol === b.protocol);
+
+/**
+ * Validates every port node of `nodes` and finds the pairs of ports that conflict within
+ * `scope`. Both nodes of a conflict get an error naming the other one (the first conflict
+ * found wins).
+ */
+export function checkPorts(
+  nodes: TreeNodeType[],
+  scope: ConflictScope
+): PortCheck {
+  const errors = new Map<string, string>();
+  const groups = new Map<
+    string | null,
+    { port: ConflictingPort; spec: PortSpec }[]
+  >();
+  let portCount = 0;
+
+  const visit = (
+    siblings: TreeNodeType[],
+    parentId: string | null,
+    ancestorIds: string[]
+  ) => {
+    siblings.forEach((node) => {
+      if (node.valueType === "port") {
+        portCount++;
+        const { spec, error } = parsePort(node.value);
+        if (error) errors.set(node.id, error);
+        if (spec) {
+          const key = scope === "template" ? null : parentId;
+          const group = groups.get(key) ?? [];
+          group.push({
+            port: {
+              nodeId: node.id,
+              label: node.label,
+              value: node.value,
+              ancestorIds,
+            },
+            spec,
+          });
+          groups.set(key, group);
+        }
+      }
+      visit(node.children, node.id, [...ancestorIds, node.id]);
+    });
+  };
+  visit(nodes, null, []);
+
+  const found: { conflict: PortConflict; start: number }[] = [];
+  const flag = (port: ConflictingPort, other: ConflictingPort) => {
+    if (!errors.has(port.nodeId)) {
+      errors.set(port.nodeId, `Conflicts with ${other.label} (${other.value})`);
+    }
+  };
+  groups.forEach((group) => {
+    // Sorted by start, a port can only overlap the ports that start before it ends
+    const sorted = [...group].sort((a, b) => a.spec.start - b.spec.start);
+    sorted.forEach((a, i) => {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const b = sorted[j];
+        if (b.spec.start > a.spec.end) break;
+        if (!portsConflict(a.spec, b.spec)) continue;
+        found.push({
+          conflict: { first: a.port, second: b.port },
+          start: a.spec.start,
+        });
+        flag(a.port, b.port);
+        flag(b.port, a.port);
+      }
+    });
+  });
+
+  const conflicts = found
+    .sort((a, b) => a.start - b.start)
+    .map(({ conflict }) => conflict);
+  return { portCount, errors, conflicts };
+}
@@ -0,0 +1,49 @@
+import { parseRoute, routePath } from "./routes";
+import type { Route } from "./routes";
+
+describe("routes", () => {
+  describe("parseRoute", () => {
+    it("should parse the known paths", () => {
+      expect(parseRoute("/")).toEqual({ name: "list" });
+      expect(parseRoute("/settings")).toEqual({ name: "settings" });
+      expect(parseRoute("/templates/tpl-1")).toEqual({
+        name: "template",
+        id: "tpl-1",
+      });
+    });
+
+    it("should ignore trailing slashes", () => {
+      expect(parseRoute("/settings/")).toEqual({ name: "settings" });
+      expect(parseRoute("/templates/tpl-1/")).toEqual({
+        name: "template",
+        id: "tpl-1",
+      });
+    });
+
+    it("should decode template ids", () => {
+      expect(parseRoute("/templates/a%2Fb")).toEqual({
+        name: "template",
+        id: "a/b",
+      });
+    });
+
+    it.each(["/templates", "/templates/a/b", "/nope", "/templates/%E0%A4%A"])(
+      "should not find %p",
+      (path) => {
+        expect(parseRoute(path)).toEqual({ name: "not-found", path });
+      }
+    );
+  });
+
+  describe("routePath", () => {
+    it.each<Route>([
+      { name: "list" },
+      { name: "settings" },
+      { name: "template", id: "tpl-1" },
+      { name: "template", id: "a/b c" },
+      { name: "not-found", path: "/nope" },
+    ])("should round-trip %p", (route) => {
+      expect(parseRoute(routePath(route))).toEqual(route);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * The app's client-side routes and their URL paths.
+ *
+ * - "/" lists the templates of the library.
+ * - "/templates/<id>" edits one template (the id is URI-encoded).
+ * - "/settings" shows the app-wide settings.
+ *
+ * Any other path is "not-found". A trailing slash is ignored.
+ */
+
+export type Route =
+  | { name: "list" }
+  | { name: "template"; id: string }
+  | { name: "settings" }
+  | { name: "not-found"; path: string };
+
+const TEMPLATE_PATH = /^\/templates\/([^/]+)$/;
+
+/**
+ * The route a URL path (e.g. `location.pathname`) leads to.
+ */
+export function parseRoute(path: string): Route {
+  const trimmed = path.length > 1 ? path.replace(/\/+$/, "") : path;
+  if (trimmed === "/" || trimmed === "") return { name: "list" };
+  if (trimmed === "/settings") return { name: "settings" };
+  const template = TEMPLATE_PATH.exec(trimmed);
+  if (template) {
+    try {
+      return { name: "template", id: decodeURIComponent(template[1]) };
+    } catch {
+      // Malformed escape sequence; no template id can match it
+    }
+  }
+  return { name: "not-found", path };
+}
+
+/**
+ * The URL path of a route; the inverse of parseRoute.
+ */
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case "list":
+      return "/";
+    case "template":
+      return `/templates/${encodeURIComponent(route.id)}`;
+    case "settings":
+      return "/settings";
+    case "not-found":
+      return route.path;
+  }
+}
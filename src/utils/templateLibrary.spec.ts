@@ -0,0 +1,236 @@
+import {
+  DEFAULT_TEMPLATE_NAME,
+  LEGACY_STORAGE_KEY,
+  LIBRARY_STORAGE_KEY,
+  collapsedStorageKey,
+  createTemplate,
+  deleteTemplate,
+  duplicateTemplate,
+  getTemplate,
+  labelDisplayStorageKey,
+  listTemplates,
+  renameTemplate,
+  templateStorageKey,
+  touchTemplate,
+  trashStorageKey,
+} from "./templateLibrary";
+import { parseStoredTree, serializeTree } from "./treeStorage";
+import type { TreeNodeType } from "../types/TreeNode";
+
+let uuidCounter = 0;
+jest.mock("uuid", () => ({
+  v4: jest.fn(() => `mock-uuid-${++uuidCounter}`),
+}));
+
+const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+describe("templateLibrary", () => {
+  const sampleTree: TreeNodeType[] = [
+    { id: "root-1", label: "root", value: "80", children: [] },
+  ];
+
+  beforeEach(() => {
+    localStorage.clear();
+    uuidCounter = 0;
+    consoleWarnSpy.mockClear();
+    jest.useFakeTimers().setSystemTime(new Date("2025-01-01T10:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const storedTree = (id: string) =>
+    parseStoredTree(localStorage.getItem(templateStorageKey(id)) as string)
+      .tree;
+
+  describe("listTemplates", () => {
+    it("should return an empty list for an empty library", () => {
+      expect(listTemplates()).toEqual([]);
+    });
+
+    it("should sort templates by most recently updated", () => {
+      createTemplate("Older");
+      jest.setSystemTime(new Date("2025-01-02T10:00:00.000Z"));
+      createTemplate("Newer");
+
+      expect(listTemplates().map((t) => t.name)).toEqual(["Newer", "Older"]);
+    });
+
+    it("should import the legacy treeData slot once", () => {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(sampleTree));
+
+      const templates = listTemplates();
+
+      expect(templates).toEqual([
+        {
+          id: "mock-uuid-1",
+          name: DEFAULT_TEMPLATE_NAME,
+          createdAt: "2025-01-01T10:00:00.000Z",
+          updatedAt: "2025-01-01T10:00:00.000Z",
+        },
+      ]);
+      expect(storedTree("mock-uuid-1")).toEqual(sampleTree);
+      expect(localStorage.getItem(LEGACY_STORAGE_KEY)).toBeNull();
+      expect(listTemplates()).toHaveLength(1);
+    });
+
+    it("should keep invalid legacy data and warn", () => {
+      localStorage.setItem(LEGACY_STORAGE_KEY, "not-json");
+
+      expect(listTemplates()).toEqual([]);
+      expect(localStorage.getItem(LEGACY_STORAGE_KEY)).toBe("not-json");
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        "Failed to import legacy tree data:",
+        expect.any(SyntaxError)
+      );
+    });
+
+    it("should ignore a corrupt index", () => {
+      localStorage.setItem(LIBRARY_STORAGE_KEY, "{broken");
+
+      expect(listTemplates()).toEqual([]);
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        "Failed to parse template library:",
+        expect.any(SyntaxError)
+      );
+    });
+
+    it("should skip malformed index entries", () => {
+      localStorage.setItem(
+        LIBRARY_STORAGE_KEY,
+        JSON.stringify([
+          { id: "1" },
+          { id: "2", name: "ok", createdAt: "a", updatedAt: "b" },
+        ])
+      );
+
+      expect(listTemplates().map((t) => t.id)).toEqual(["2"]);
+    });
+  });
+
+  describe("createTemplate", () => {
+    it("should add a template with timestamps and an empty tree", () => {
+      const meta = createTemplate("  Web ports ");
+
+      expect(meta).toEqual({
+        id: "mock-uuid-1",
+        name: "Web ports",
+        createdAt: "2025-01-01T10:00:00.000Z",
+        updatedAt: "2025-01-01T10:00:00.000Z",
+      });
+      expect(getTemplate("mock-uuid-1")).toEqual(meta);
+      expect(storedTree("mock-uuid-1")).toEqual([]);
+    });
+
+    it("should store an initial tree", () => {
+      createTemplate("Web ports", sampleTree);
+
+      expect(storedTree("mock-uuid-1")).toEqual(sampleTree);
+    });
+
+    it("should fall back to a default name", () => {
+      expect(createTemplate("   ").name).toBe(DEFAULT_TEMPLATE_NAME);
+    });
+  });
+
+  describe("renameTemplate", () => {
+    it("should rename and bump updatedAt", () => {
+      createTemplate("Old");
+      jest.setSystemTime(new Date("2025-01-02T10:00:00.000Z"));
+
+      const renamed = renameTemplate("mock-uuid-1", "New");
+
+      expect(renamed).toMatchObject({
+        name: "New",
+        createdAt: "2025-01-01T10:00:00.000Z",
+        updatedAt: "2025-01-02T10:00:00.000Z",
+      });
+      expect(getTemplate("mock-uuid-1")?.name).toBe("New");
+    });
+
+    it("should ignore empty names", () => {
+      createTemplate("Keep");
+
+      renameTemplate("mock-uuid-1", "  ");
+
+      expect(getTemplate("mock-uuid-1")?.name).toBe("Keep");
+    });
+
+    it("should return undefined for unknown ids", () => {
+      expect(renameTemplate("missing", "Name")).toBeUndefined();
+    });
+  });
+
+  describe("touchTemplate", () => {
+    it("should only bump updatedAt", () => {
+      createTemplate("Web");
+      jest.setSystemTime(new Date("2025-01-03T10:00:00.000Z"));
+
+      expect(touchTemplate("mock-uuid-1")).toMatchObject({
+        name: "Web",
+        updatedAt: "2025-01-03T10:00:00.000Z",
+      });
+    });
+  });
+
+  describe("duplicateTemplate", () => {
+    it("should copy the template and its tree", () => {
+      createTemplate("Web", sampleTree);
+
+      const copy = duplicateTemplate("mock-uuid-1");
+
+      expect(copy).toMatchObject({ id: "mock-uuid-2", name: "Web (copy)" });
+      expect(storedTree("mock-uuid-2")).toEqual(sampleTree);
+      expect(listTemplates()).toHaveLength(2);
+    });
+
+    it("should return undefined for unknown ids", () => {
+      expect(duplicateTemplate("missing")).toBeUndefined();
+      expect(listTemplates()).toEqual([]);
+    });
+  });
+
+  describe("deleteTemplate", () => {
+    it("should remove the index entry and the stored tree", () => {
+      createTemplate("Web", sampleTree);
+      createTemplate("Db");
+
+      deleteTemplate("mock-uuid-1");
+
+      expect(listTemplates().map((t) => t.name)).toEqual(["Db"]);
+      expect(
+        localStorage.getItem(templateStorageKey("mock-uuid-1"))
+      ).toBeNull();
+    });
+
+    it("should remove the template's view state and trash", () => {
+      createTemplate("Web", sampleTree);
+      localStorage.setItem(collapsedStorageKey("mock-uuid-1"), '["root-1"]');
+      localStorage.setItem(labelDisplayStorageKey("mock-uuid-1"), "label");
+      localStorage.setItem(
+        trashStorageKey("mock-uuid-1"),
+        serializeTree(sampleTree)
+      );
+
+      deleteTemplate("mock-uuid-1");
+
+      expect(
+        localStorage.getItem(collapsedStorageKey("mock-uuid-1"))
+      ).toBeNull();
+      expect(
+        localStorage.getItem(labelDisplayStorageKey("mock-uuid-1"))
+      ).toBeNull();
+      expect(localStorage.getItem(trashStorageKey("mock-uuid-1"))).toBeNull();
+    });
+  });
+
+  it("should keep templates independent of each other", () => {
+    createTemplate("A", sampleTree);
+    createTemplate("B");
+    localStorage.setItem(templateStorageKey("mock-uuid-2"), serializeTree([]));
+
+    expect(storedTree("mock-uuid-1")).toEqual(sampleTree);
+    expect(storedTree("mock-uuid-2")).toEqual([]);
+  });
+});
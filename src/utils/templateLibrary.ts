@@ -0,0 +1,184 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import { v4 as uuidv4 } from "uuid";
+import { parseStoredTree, serializeTree } from "./treeStorage";
+
+/**
+ * localStorage-backed library of named templates.
+ *
+ * The library index (names and timestamps) lives under "templates"; each template's tree
+ * is stored separately under "template:<id>" in the treeStorage envelope format, its
+ * collapsed node ids (view state) under "template:<id>:collapsed", how its nodes are
+ * displayed (see LabelDisplay) under "template:<id>:display" and its last cleared tree, which
+ * can still be restored, under "template:<id>:trash". The legacy single
+ * "treeData" slot is imported as a template the first time the index is read.
+ */
+
+export interface TemplateMeta {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * What each node shows: its value only, its label only, or "label: value".
+ */
+export type LabelDisplay = "value" | "label" | "both";
+
+export const LABEL_DISPLAYS: Record<LabelDisplay, string> = {
+  value: "Value only",
+  label: "Label only",
+  both: "Label: value",
+};
+
+export const DEFAULT_LABEL_DISPLAY: LabelDisplay = "both";
+
+export const LIBRARY_STORAGE_KEY = "templates";
+export const LEGACY_STORAGE_KEY = "treeData";
+export const DEFAULT_TEMPLATE_NAME = "Untitled template";
+
+export const templateStorageKey = (id: string) => `template:${id}`;
+export const collapsedStorageKey = (id: string) => `template:${id}:collapsed`;
+export const labelDisplayStorageKey = (id: string) => `template:${id}:display`;
+export const trashStorageKey = (id: string) => `template:${id}:trash`;
+
+const isTemplateMeta = (value: unknown): value is TemplateMeta => {
+  if (typeof value !== "object" || value === null) return false;
+  const meta = value as Record<string, unknown>;
+  return ["id", "name", "createdAt", "updatedAt"].every(
+    (key) => typeof meta[key] === "string"
+  );
+};
+
+const writeIndex = (templates: TemplateMeta[]) => {
+  localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(templates));
+};
+
+const importLegacyTree = (): TemplateMeta[] => {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacy) return [];
+  try {
+    const { tree, savedAt } = parseStoredTree(legacy);
+    const timestamp = savedAt ?? new Date().toISOString();
+    const meta: TemplateMeta = {
+      id: uuidv4(),
+      name: DEFAULT_TEMPLATE_NAME,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    localStorage.setItem(templateStorageKey(meta.id), serializeTree(tree));
+    writeIndex([meta]);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return [meta];
+  } catch (error) {
+    console.warn("Failed to import legacy tree data:", error);
+    return [];
+  }
+};
+
+/**
+ * Returns all templates in the library, most recently updated first.
+ */
+export function listTemplates(): TemplateMeta[] {
+  const raw = localStorage.getItem(LIBRARY_STORAGE_KEY);
+  if (!raw) return importLegacyTree();
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed))
+      throw new Error("Library index is not an array");
+    return parsed
+      .filter(isTemplateMeta)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.warn("Failed to parse template library:", error);
+    return [];
+  }
+}
+
+export function getTemplate(id: string): TemplateMeta | undefined {
+  return listTemplates().find((t) => t.id === id);
+}
+
+/**
+ * Adds a template to the library and stores its (initially empty) tree.
+ */
+export function createTemplate(
+  name: string,
+  tree: TreeNodeType[] = []
+): TemplateMeta {
+  const now = new Date().toISOString();
+  const meta: TemplateMeta = {
+    id: uuidv4(),
+    name: name.trim() || DEFAULT_TEMPLATE_NAME,
+    createdAt: now,
+    updatedAt: now,
+  };
+  localStorage.setItem(templateStorageKey(meta.id), serializeTree(tree));
+  writeIndex([...listTemplates(), meta]);
+  return meta;
+}
+
+const updateMeta = (
+  id: string,
+  update: (meta: TemplateMeta) => TemplateMeta
+): TemplateMeta | undefined => {
+  const templates = listTemplates();
+  const existing = templates.find((t) => t.id === id);
+  if (!existing) return undefined;
+  const updated = update(existing);
+  writeIndex(templates.map((t) => (t.id === id ? updated : t)));
+  return updated;
+};
+
+export function renameTemplate(
+  id: string,
+  name: string
+): TemplateMeta | undefined {
+  const trimmed = name.trim();
+  if (!trimmed) return getTemplate(id);
+  return updateMeta(id, (meta) => ({
+    ...meta,
+    name: trimmed,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+/**
+ * Marks a template as modified now, e.g. after its tree was saved.
+ */
+export function touchTemplate(id: string): TemplateMeta | undefined {
+  return updateMeta(id, (meta) => ({
+    ...meta,
+    updatedAt: new Date().toISOString(),
+  }));
+}
+
+/**
+ * Copies a template and its stored tree under a new id, named "<name> (copy)".
+ */
+export function duplicateTemplate(id: string): TemplateMeta | undefined {
+  const original = getTemplate(id);
+  if (!original) return undefined;
+  const now = new Date().toISOString();
+  const copy: TemplateMeta = {
+    id: uuidv4(),
+    name: `${original.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const storedTree = localStorage.getItem(templateStorageKey(id));
+  localStorage.setItem(
+    templateStorageKey(copy.id),
+    storedTree ?? serializeTree([])
+  );
+  writeIndex([...listTemplates(), copy]);
+  return copy;
+}
+
+export function deleteTemplate(id: string): void {
+  localStorage.removeItem(templateStorageKey(id));
+  localStorage.removeItem(collapsedStorageKey(id));
+  localStorage.removeItem(labelDisplayStorageKey(id));
+  localStorage.removeItem(trashStorageKey(id));
+  writeIndex(listTemplates().filter((t) => t.id !== id));
+}
@@ -0,0 +1,8 @@
+import { formatTime } from "./time";
+
+describe("formatTime", () => {
+  it("should format local hours and minutes with two digits", () => {
+    expect(formatTime(new Date(2025, 0, 2, 9, 5))).toBe("09:05");
+    expect(formatTime(new Date(2025, 0, 2, 23, 59, 59))).toBe("23:59");
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Formatting of times shown in the UI.
+ */
+
+/**
+ * `date` as "hh:mm" in local time.
+ */
+export const formatTime = (date: Date) =>
+  [date.getHours(), date.getMinutes()]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
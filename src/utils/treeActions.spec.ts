@@ -0,0 +1,222 @@
+import { applyTreeAction, coalesceKeyOf } from "./treeActions";
+import { getNode, normalizeTree, selectTree } from "./treeStore";
+import type { TreeStore } from "./treeStore";
+import { node, treeShape } from "../test/treeFixtures";
+
+// a          d
+// ├── b
+// └── e
+const store = normalizeTree([node("a", [node("b"), node("e")]), node("d")]);
+
+const shape = (s: TreeStore) => treeShape(selectTree(s));
+
+describe("treeActions", () => {
+  describe("applyTreeAction", () => {
+    it("should replace the tree", () => {
+      const next = [node("x")];
+
+      expect(
+        selectTree(applyTreeAction(store, { type: "set", tree: next }))
+      ).toEqual(next);
+    });
+
+    it("should keep the store when set to the tree it holds", () => {
+      const same = [node("a", [node("b"), node("e")]), node("d")];
+
+      expect(applyTreeAction(store, { type: "set", tree: same })).toBe(store);
+    });
+
+    it("should insert nodes under a parent", () => {
+      expect(
+        shape(
+          applyTreeAction(store, {
+            type: "insert",
+            parentId: "a",
+            nodes: [node("x")],
+            index: 1,
+          })
+        )
+      ).toEqual([{ a: ["b", "x", "e"] }, "d"]);
+    });
+
+    it.each([
+      ["before", [{ a: ["x", "b", "e"] }, "d"]],
+      ["after", [{ a: ["b", "x", "e"] }, "d"]],
+    ] as const)("should insert nodes %s a node", (position, expected) => {
+      expect(
+        shape(
+          applyTreeAction(store, {
+            type: "insertNextTo",
+            nodeId: "b",
+            position,
+            nodes: [node("x")],
+          })
+        )
+      ).toEqual(expected);
+    });
+
+    it("should merge updates into a node", () => {
+      const next = applyTreeAction(store, {
+        type: "update",
+        nodeId: "d",
+        node: { ...node("d"), value: "80" },
+      });
+
+      expect(selectTree(next)[1]).toEqual({ ...node("d"), value: "80" });
+    });
+
+    it("should leave the children of updated nodes alone", () => {
+      const next = applyTreeAction(store, {
+        type: "update",
+        nodeId: "a",
+        node: { ...node("a"), label: "web" },
+      });
+
+      expect(shape(next)).toEqual([{ a: ["b", "e"] }, "d"]);
+      expect(getNode(next, "a")?.label).toBe("web");
+    });
+
+    it("should delete, move, indent and outdent nodes", () => {
+      expect(
+        shape(applyTreeAction(store, { type: "delete", nodeId: "a" }))
+      ).toEqual(["d"]);
+      expect(
+        shape(
+          applyTreeAction(store, {
+            type: "move",
+            nodeId: "d",
+            parentId: "a",
+            index: 0,
+          })
+        )
+      ).toEqual([{ a: ["d", "b", "e"] }]);
+      expect(
+        shape(applyTreeAction(store, { type: "indent", nodeId: "e" }))
+      ).toEqual([{ a: [{ b: ["e"] }] }, "d"]);
+      expect(
+        shape(applyTreeAction(store, { type: "outdent", nodeId: "b" }))
+      ).toEqual([{ a: ["e"] }, "b", "d"]);
+    });
+
+    it("should return the same store for actions that do not apply", () => {
+      expect(applyTreeAction(store, { type: "indent", nodeId: "a" })).toBe(
+        store
+      );
+      expect(applyTreeAction(store, { type: "outdent", nodeId: "d" })).toBe(
+        store
+      );
+      expect(applyTreeAction(store, { type: "delete", nodeId: "x" })).toBe(
+        store
+      );
+      expect(
+        applyTreeAction(store, {
+          type: "insertNextTo",
+          nodeId: "x",
+          position: "after",
+          nodes: [node("y")],
+        })
+      ).toBe(store);
+    });
+
+    describe("with read-only locks", () => {
+      const locked = normalizeTree([
+        node("a", [node("b")], { readOnly: true }),
+        node("d"),
+      ]);
+
+      it("should not insert under or next to children of locked nodes", () => {
+        expect(
+          applyTreeAction(locked, {
+            type: "insert",
+            parentId: "a",
+            nodes: [node("x")],
+          })
+        ).toBe(locked);
+        expect(
+          applyTreeAction(locked, {
+            type: "insertNextTo",
+            nodeId: "b",
+            position: "before",
+            nodes: [node("x")],
+          })
+        ).toBe(locked);
+      });
+
+      it("should not edit, delete or move locked nodes", () => {
+        expect(
+          applyTreeAction(locked, {
+            type: "update",
+            nodeId: "a",
+            node: { ...node("a"), value: "80" },
+          })
+        ).toBe(locked);
+        expect(applyTreeAction(locked, { type: "delete", nodeId: "a" })).toBe(
+          locked
+        );
+        expect(
+          applyTreeAction(locked, {
+            type: "move",
+            nodeId: "a",
+            parentId: "d",
+            index: 0,
+          })
+        ).toBe(locked);
+        expect(
+          applyTreeAction(locked, {
+            type: "move",
+            nodeId: "d",
+            parentId: "a",
+            index: 0,
+          })
+        ).toBe(locked);
+      });
+
+      it("should still lift the lock", () => {
+        const next = applyTreeAction(locked, {
+          type: "update",
+          nodeId: "a",
+          node: { ...node("a"), readOnly: false },
+        });
+
+        expect(getNode(next, "a")?.readOnly).toBe(false);
+      });
+    });
+  });
+
+  describe("coalesceKeyOf", () => {
+    it("should key edits of a single text field by node and field", () => {
+      expect(
+        coalesceKeyOf(store, {
+          type: "update",
+          nodeId: "d",
+          node: { ...node("d"), value: "8" },
+        })
+      ).toBe("value:d");
+      expect(
+        coalesceKeyOf(store, {
+          type: "update",
+          nodeId: "d",
+          node: { ...node("d"), label: "web" },
+        })
+      ).toBe("label:d");
+    });
+
+    it("should not key other edits", () => {
+      expect(
+        coalesceKeyOf(store, {
+          type: "update",
+          nodeId: "d",
+          node: { ...node("d"), label: "web", value: "80" },
+        })
+      ).toBeNull();
+      expect(
+        coalesceKeyOf(store, {
+          type: "update",
+          nodeId: "d",
+          node: { ...node("d"), valueType: "port" },
+        })
+      ).toBeNull();
+      expect(coalesceKeyOf(store, { type: "delete", nodeId: "d" })).toBeNull();
+    });
+  });
+});
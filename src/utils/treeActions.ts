@@ -0,0 +1,157 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import {
+  childIdsOf,
+  getNode,
+  hasNode,
+  insertNodes,
+  locationOf,
+  moveNode,
+  normalizeTree,
+  removeNode,
+  selectTree,
+  toRecord,
+  updateNode,
+} from "./treeStore";
+import type { TreeStore } from "./treeStore";
+import { sameTree } from "./treeOps";
+import { acceptsUpdate, findDeleteBlocker, findLock } from "./treeLocks";
+
+/**
+ * The edits of a template's tree, as data.
+ *
+ * Every change made through usePortTemplate is one of these actions, applied to the hook's
+ * normalized store (see treeStore) by applyTreeAction. Actions carry everything they need (new
+ * nodes come with their ids), so that applying them is pure and they can be inspected,
+ * rewritten or replayed.
+ */
+export type TreeAction =
+  // Replaces the whole tree
+  | { type: "set"; tree: TreeNodeType[] }
+  // Inserts nodes under `parentId` (null for the root level), at `index` or at the end
+  | {
+      type: "insert";
+      parentId: string | null;
+      nodes: TreeNodeType[];
+      index?: number;
+    }
+  // Inserts nodes right before or after `nodeId`, under the same parent
+  | {
+      type: "insertNextTo";
+      nodeId: string;
+      position: "before" | "after";
+      nodes: TreeNodeType[];
+    }
+  // Merges the fields of `node` into the node with id `nodeId`; its children are left as they
+  // are (use the other actions to change them)
+  | { type: "update"; nodeId: string; node: TreeNodeType }
+  | { type: "delete"; nodeId: string }
+  // See treeStore.moveNode for how `index` is interpreted
+  | { type: "move"; nodeId: string; parentId: string | null; index: number }
+  // Makes a node the last child of its previous sibling
+  | { type: "indent"; nodeId: string }
+  // Moves a node up one level, right after its current parent
+  | { type: "outdent"; nodeId: string };
+
+// Node fields edited by typing, whose keystrokes are coalesced into one undo step
+const TEXT_FIELDS = ["value", "label"] as const;
+
+/**
+ * Moves a node unless read-only locks forbid it (see treeLocks).
+ */
+const moveUnlocked = (
+  store: TreeStore,
+  nodeId: string,
+  parentId: string | null,
+  index: number
+) => {
+  if (findLock(store, nodeId) || findLock(store, parentId)) return store;
+  return moveNode(store, nodeId, parentId, index);
+};
+
+/**
+ * Applies `action` to `store` and returns the new store, or `store` itself when the action
+ * does not apply: unknown ids, no-op moves, sets of the tree it already holds, or edits that
+ * read-only locks forbid (see treeLocks). Apart from sets, only the nodes involved (and their
+ * ancestors, for lock checks) are looked at.
+ */
+export function applyTreeAction(
+  store: TreeStore,
+  action: TreeAction
+): TreeStore {
+  switch (action.type) {
+    case "set":
+      return sameTree(action.tree, selectTree(store))
+        ? store
+        : normalizeTree(action.tree);
+    case "insert":
+      if (findLock(store, action.parentId)) return store;
+      return insertNodes(store, action.parentId, action.nodes, action.index);
+    case "insertNextTo": {
+      const location = locationOf(store, action.nodeId);
+      if (!location || findLock(store, location.parentId)) return store;
+      const index =
+        action.position === "before" ? location.index : location.index + 1;
+      return insertNodes(store, location.parentId, action.nodes, index);
+    }
+    case "update": {
+      const target = getNode(store, action.nodeId);
+      const lock = findLock(store, action.nodeId);
+      if (!target || !acceptsUpdate(lock, target, action.node)) return store;
+      return updateNode(store, action.nodeId, (record) => ({
+        ...record,
+        ...toRecord(action.node),
+      }));
+    }
+    case "delete":
+      if (!hasNode(store, action.nodeId)) return store;
+      if (findDeleteBlocker(store, action.nodeId)) return store;
+      return removeNode(store, action.nodeId);
+    case "move":
+      return moveUnlocked(store, action.nodeId, action.parentId, action.index);
+    case "indent": {
+      const location = locationOf(store, action.nodeId);
+      if (!location || location.index === 0) return store;
+      const previousId = location.siblingIds[location.index - 1];
+      return moveUnlocked(
+        store,
+        action.nodeId,
+        previousId,
+        childIdsOf(store, previousId).length
+      );
+    }
+    case "outdent": {
+      const location = locationOf(store, action.nodeId);
+      if (!location || location.parentId === null) return store;
+      const parentLocation = locationOf(store, location.parentId);
+      if (!parentLocation) return store;
+      return moveUnlocked(
+        store,
+        action.nodeId,
+        parentLocation.parentId,
+        parentLocation.index + 1
+      );
+    }
+  }
+}
+
+/**
+ * Key under which consecutive applications of `action` to `store` are merged into one undo
+ * step, or null. A keystroke changes nothing but a node's `value` or `label`; such edits are
+ * grouped per node and field.
+ */
+export function coalesceKeyOf(
+  store: TreeStore,
+  action: TreeAction
+): string | null {
+  if (action.type !== "update") return null;
+  const current = getNode(store, action.nodeId);
+  if (!current) return null;
+  const update = toRecord(action.node);
+  const changedFields = (Object.keys(update) as (keyof typeof update)[]).filter(
+    (field) => update[field] !== current[field]
+  );
+  const editedField = TEXT_FIELDS.find(
+    (field) => changedFields.length === 1 && changedFields[0] === field
+  );
+  return editedField ? `${editedField}:${action.nodeId}` : null;
+}
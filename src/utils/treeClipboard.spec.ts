@@ -0,0 +1,156 @@
+import {
+  CLIPBOARD_PAYLOAD_TYPE,
+  parseClipboardPayload,
+  readNodesFromClipboard,
+  serializeClipboardPayload,
+  writeNodesToClipboard,
+} from "./treeClipboard";
+import type { TreeNodeType } from "../types/TreeNode";
+
+describe("treeClipboard", () => {
+  const subtree: TreeNodeType[] = [
+    {
+      id: "web",
+      label: "web",
+      value: "frontend",
+      readOnly: true,
+      children: [
+        { id: "http", label: "http", value: "80", children: [] },
+        { id: "https", label: "https", value: "443", children: [] },
+      ],
+    },
+  ];
+
+  const clipboardMock = {
+    writeText: jest.fn(() => Promise.resolve()),
+    readText: jest.fn(() => Promise.resolve("")),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.defineProperty(navigator, "clipboard", {
+      value: clipboardMock,
+      configurable: true,
+    });
+  });
+
+  describe("serializeClipboardPayload", () => {
+    it("should wrap the nodes in a typed, versioned payload", () => {
+      expect(JSON.parse(serializeClipboardPayload(subtree))).toEqual({
+        type: CLIPBOARD_PAYLOAD_TYPE,
+        version: 1,
+        nodes: subtree,
+      });
+    });
+  });
+
+  describe("parseClipboardPayload", () => {
+    it("should round-trip serialized nodes", () => {
+      expect(parseClipboardPayload(serializeClipboardPayload(subtree))).toEqual(
+        subtree
+      );
+    });
+
+    it("should coerce typed values", () => {
+      const text = serializeClipboardPayload([
+        {
+          id: "proto",
+          label: "protocol",
+          value: "TCP",
+          valueType: "enum",
+          options: ["tcp", "udp"],
+          children: [],
+        },
+      ]);
+
+      expect(parseClipboardPayload(text)[0].value).toBe("tcp");
+    });
+
+    it("should reject text that is not JSON", () => {
+      expect(() => parseClipboardPayload("http: 80")).toThrow(
+        "Clipboard does not contain a copied subtree"
+      );
+    });
+
+    it("should reject JSON without the payload type", () => {
+      expect(() => parseClipboardPayload(JSON.stringify(subtree))).toThrow(
+        "Clipboard does not contain a copied subtree"
+      );
+      expect(() => parseClipboardPayload("null")).toThrow(
+        "Clipboard does not contain a copied subtree"
+      );
+    });
+
+    it("should reject unsupported versions", () => {
+      const text = JSON.stringify({
+        type: CLIPBOARD_PAYLOAD_TYPE,
+        version: 2,
+        nodes: subtree,
+      });
+
+      expect(() => parseClipboardPayload(text)).toThrow(
+        "Unsupported clipboard payload version 2"
+      );
+    });
+
+    it("should validate the nodes", () => {
+      const text = JSON.stringify({
+        type: CLIPBOARD_PAYLOAD_TYPE,
+        version: 1,
+        nodes: [{ id: "a", label: "http", value: 80, children: [] }],
+      });
+
+      expect(() => parseClipboardPayload(text)).toThrow(
+        "Invalid tree data: nodes[0].value must be a string"
+      );
+    });
+
+    it("should reject an empty payload", () => {
+      const text = serializeClipboardPayload([]);
+
+      expect(() => parseClipboardPayload(text)).toThrow(
+        "Clipboard subtree is empty"
+      );
+    });
+  });
+
+  describe("clipboard access", () => {
+    it("should write the payload as text", async () => {
+      await writeNodesToClipboard(subtree);
+
+      expect(clipboardMock.writeText).toHaveBeenCalledWith(
+        serializeClipboardPayload(subtree)
+      );
+    });
+
+    it("should read and parse the clipboard text", async () => {
+      clipboardMock.readText.mockResolvedValueOnce(
+        serializeClipboardPayload(subtree)
+      );
+
+      await expect(readNodesFromClipboard()).resolves.toEqual(subtree);
+    });
+
+    it("should reject when the clipboard holds something else", async () => {
+      clipboardMock.readText.mockResolvedValueOnce("hello");
+
+      await expect(readNodesFromClipboard()).rejects.toThrow(
+        "Clipboard does not contain a copied subtree"
+      );
+    });
+
+    it("should reject when the Clipboard API is unavailable", async () => {
+      Object.defineProperty(navigator, "clipboard", {
+        value: undefined,
+        configurable: true,
+      });
+
+      await expect(readNodesFromClipboard()).rejects.toThrow(
+        "Clipboard access is not available in this browser"
+      );
+      await expect(writeNodesToClipboard(subtree)).rejects.toThrow(
+        "Clipboard access is not available in this browser"
+      );
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import { validateTree } from "./treeStorage";
+import { coerceTreeValues } from "./valueTypes";
+
+/**
+ * Copy/paste of subtrees through the system clipboard, so branches can move between
+ * templates open in different tabs.
+ *
+ * Subtrees are written as plain-text JSON in this shape:
+ *
+ * ```json
+ * {
+ *   "type": "port-template/subtree",
+ *   "version": 1,
+ *   "nodes": [{ "id": "…", "label": "web", "value": "80", "readOnly": true, "children": [] }]
+ * }
+ * ```
+ *
+ * `nodes` holds one or more TreeNodeType roots, each with its full subtree. Ids are kept in
+ * the payload but are not meant to be reused: the editor assigns new ids when pasting.
+ */
+
+export const CLIPBOARD_PAYLOAD_TYPE = "port-template/subtree";
+export const CLIPBOARD_PAYLOAD_VERSION = 1;
+
+export interface ClipboardPayload {
+  type: typeof CLIPBOARD_PAYLOAD_TYPE;
+  version: number;
+  nodes: TreeNodeType[];
+}
+
+export function serializeClipboardPayload(nodes: TreeNodeType[]): string {
+  const payload: ClipboardPayload = {
+    type: CLIPBOARD_PAYLOAD_TYPE,
+    version: CLIPBOARD_PAYLOAD_VERSION,
+    nodes,
+  };
+  return JSON.stringify(payload);
+}
+
+/**
+ * Parses clipboard text into the nodes it carries, with typed values coerced to their type.
+ * Throws an Error with a user-facing message when the text is not a (valid) subtree payload.
+ */
+export function parseClipboardPayload(text: string): TreeNodeType[] {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new Error("Clipboard does not contain a copied subtree");
+  }
+  if (
+    typeof payload !== "object" ||
+    payload === null ||
+    (payload as Record<string, unknown>).type !== CLIPBOARD_PAYLOAD_TYPE
+  ) {
+    throw new Error("Clipboard does not contain a copied subtree");
+  }
+  const { version, nodes } = payload as Record<string, unknown>;
+  if (version !== CLIPBOARD_PAYLOAD_VERSION) {
+    throw new Error(`Unsupported clipboard payload version ${String(version)}`);
+  }
+  validateTree(nodes, "nodes");
+  if (nodes.length === 0) {
+    throw new Error("Clipboard subtree is empty");
+  }
+  return coerceTreeValues(nodes);
+}
+
+const getClipboard = (): Clipboard => {
+  if (!navigator.clipboard) {
+    throw new Error("Clipboard access is not available in this browser");
+  }
+  return navigator.clipboard;
+};
+
+export async function writeNodesToClipboard(
+  nodes: TreeNodeType[]
+): Promise<void> {
+  await getClipboard().writeText(serializeClipboardPayload(nodes));
+}
+
+export async function readNodesFromClipboard(): Promise<TreeNodeType[]> {
+  return parseClipboardPayload(await getClipboard().readText());
+}
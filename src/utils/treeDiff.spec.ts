@@ -0,0 +1,108 @@
+import { diffTrees } from "./treeDiff";
+import {
+  insertNodes,
+  moveNode,
+  normalizeTree,
+  removeNode,
+  selectTree,
+  updateNode,
+} from "./treeStore";
+import type { TreeStore } from "./treeStore";
+import type { TreeNodeType } from "../types/TreeNode";
+import { node } from "../test/treeFixtures";
+
+const edited = (nodes: TreeNodeType[], edit: (store: TreeStore) => TreeStore) =>
+  selectTree(edit(normalizeTree(nodes)));
+
+// a          d
+// ├── b
+// │   └── c
+// └── e
+const tree: TreeNodeType[] = [
+  node("a", [node("b", [node("c")]), node("e")]),
+  node("d"),
+];
+
+describe("diffTrees", () => {
+  it("should find no changes between equal trees", () => {
+    expect(diffTrees(tree, JSON.parse(JSON.stringify(tree)))).toEqual([]);
+    expect(diffTrees([], [])).toEqual([]);
+  });
+
+  it("should report changed fields", () => {
+    const after = edited(tree, (s) =>
+      updateNode(s, "c", (n) => ({
+        ...n,
+        value: "80",
+        readOnly: true,
+      }))
+    );
+
+    expect(diffTrees(tree, after)).toEqual([
+      {
+        type: "changed",
+        nodeId: "c",
+        path: ["a", "b", "c"],
+        fields: [
+          { field: "value", before: "", after: "80" },
+          { field: "readOnly", before: undefined, after: true },
+        ],
+      },
+    ]);
+  });
+
+  it("should report added and removed subtrees by their roots", () => {
+    const after = edited(tree, (s) =>
+      insertNodes(removeNode(s, "b"), "d", [node("x", [node("y")])])
+    );
+
+    expect(diffTrees(tree, after)).toEqual([
+      { type: "added", nodeId: "x", path: ["d", "x"] },
+      { type: "removed", nodeId: "b", path: ["a", "b"] },
+    ]);
+  });
+
+  it("should report nodes moved to another parent", () => {
+    expect(
+      diffTrees(
+        tree,
+        edited(tree, (s) => moveNode(s, "b", "d", 0))
+      )
+    ).toEqual([
+      {
+        type: "moved",
+        nodeId: "b",
+        path: ["d", "b"],
+        fromPath: ["a", "b"],
+      },
+    ]);
+  });
+
+  it("should report the fewest reordered siblings", () => {
+    const siblings = [node("p"), node("q"), node("r"), node("s")];
+
+    expect(
+      diffTrees(
+        siblings,
+        edited(siblings, (s) => moveNode(s, "p", null, 4))
+      )
+    ).toEqual([{ type: "moved", nodeId: "p", path: ["p"], fromPath: ["p"] }]);
+    expect(
+      diffTrees(
+        tree,
+        edited(tree, (s) => moveNode(s, "e", "a", 0))
+      )
+    ).toHaveLength(1);
+  });
+
+  it("should not report siblings shifted by insertions or removals", () => {
+    const after = edited(tree, (s) =>
+      insertNodes(removeNode(s, "b"), "a", [node("x")], 0)
+    );
+
+    expect(diffTrees(tree, after).map((change) => change.type)).toEqual([
+      "added",
+      "removed",
+    ]);
+  });
+});
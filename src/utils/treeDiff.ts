@@ -0,0 +1,150 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import { changedFields } from "./treeOps";
+import type { NodeField } from "./treeOps";
+
+/**
+ * Differences between two versions of a tree, matched by node id, e.g. to show what reloading
+ * the version saved in another tab would change.
+ *
+ * A subtree that was added or removed as a whole is reported once, by its root. Nodes that
+ * changed parent, or whose order among their siblings changed, are reported as moved; for
+ * reorders, only the fewest nodes that account for the new order are (the siblings outside
+ * the longest run kept in order).
+ */
+
+export interface FieldChange {
+  field: NodeField;
+  before: unknown;
+  after: unknown;
+}
+
+export type TreeChange =
+  | { type: "added"; nodeId: string; path: string[] }
+  | { type: "removed"; nodeId: string; path: string[] }
+  | { type: "changed"; nodeId: string; path: string[]; fields: FieldChange[] }
+  | { type: "moved"; nodeId: string; path: string[]; fromPath: string[] };
+
+interface IndexedNode {
+  node: TreeNodeType;
+  parentId: string | null;
+  path: string[]; // labels from the root down to the node
+}
+
+const indexTree = (nodes: TreeNodeType[]) => {
+  const index = new Map<string, IndexedNode>();
+  const visit = (
+    children: TreeNodeType[],
+    parentId: string | null,
+    parentPath: string[]
+  ) =>
+    children.forEach((node) => {
+      const path = [...parentPath, node.label];
+      index.set(node.id, { node, parentId, path });
+      visit(node.children, node.id, path);
+    });
+  visit(nodes, null, []);
+  return index;
+};
+
+/**
+ * The ids of `after` that are not part of a longest common subsequence with `before`.
+ */
+const outOfOrder = (before: string[], after: string[]): Set<string> => {
+  // lengths[i][j]: longest common subsequence of before[i..] and after[j..]
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const moved = new Set(after);
+  for (let i = 0, j = 0; i < before.length && j < after.length; ) {
+    if (before[i] === after[j]) {
+      moved.delete(after[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return moved;
+};
+
+/**
+ * The changes that turn `before` into `after`: first the added, changed and moved nodes in the
+ * order of `after`, then the removed ones in the order of `before`. Empty when both trees hold
+ * the same nodes in the same order (see treeOps.sameTree).
+ */
+export function diffTrees(
+  before: TreeNodeType[],
+  after: TreeNodeType[]
+): TreeChange[] {
+  const beforeIndex = indexTree(before);
+  const afterIndex = indexTree(after);
+  const changes: TreeChange[] = [];
+
+  // Of the children kept under the same parent, those whose relative order changed
+  const reordered = new Set<string>();
+  const compareOrder = (
+    beforeChildren: TreeNodeType[],
+    afterChildren: TreeNodeType[],
+    parentId: string | null
+  ) => {
+    const kept = (children: TreeNodeType[], index: Map<string, IndexedNode>) =>
+      children
+        .filter((child) => index.get(child.id)?.parentId === parentId)
+        .map((child) => child.id);
+    outOfOrder(
+      kept(beforeChildren, afterIndex),
+      kept(afterChildren, beforeIndex)
+    ).forEach((id) => reordered.add(id));
+  };
+  compareOrder(before, after, null);
+
+  afterIndex.forEach(({ node, parentId, path }, id) => {
+    const previous = beforeIndex.get(id);
+    if (!previous) {
+      if (parentId === null || beforeIndex.has(parentId)) {
+        changes.push({ type: "added", nodeId: id, path });
+      }
+      return;
+    }
+    const fields = changedFields(previous.node, node);
+    if (fields.length) {
+      changes.push({
+        type: "changed",
+        nodeId: id,
+        path,
+        fields: fields.map((field) => ({
+          field,
+          before: previous.node[field],
+          after: node[field],
+        })),
+      });
+    }
+    if (previous.parentId !== parentId || reordered.has(id)) {
+      changes.push({
+        type: "moved",
+        nodeId: id,
+        path,
+        fromPath: previous.path,
+      });
+    }
+    compareOrder(previous.node.children, node.children, id);
+  });
+
+  beforeIndex.forEach(({ parentId, path }, id) => {
+    if (afterIndex.has(id)) return;
+    if (parentId === null || afterIndex.has(parentId)) {
+      changes.push({ type: "removed", nodeId: id, path });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,158 @@
+import {
+  acceptsUpdate,
+  blockedTitle,
+  collectLocks,
+  findDeleteBlocker,
+  findLock,
+  lockOf,
+} from "./treeLocks";
+import { normalizeTree } from "./treeStore";
+import type { TreeNodeType } from "../types/TreeNode";
+
+describe("treeLocks", () => {
+  const tree: TreeNodeType[] = [
+    {
+      id: "web",
+      label: "web",
+      value: "",
+      readOnly: true,
+      lockSubtree: true,
+      children: [
+        {
+          id: "http",
+          label: "http",
+          value: "80",
+          children: [{ id: "tls", label: "", value: "on", children: [] }],
+        },
+      ],
+    },
+    {
+      id: "db",
+      label: "db",
+      value: "",
+      children: [
+        { id: "port", label: "port", value: "5432", children: [] },
+        {
+          id: "replica",
+          label: "replica",
+          value: "",
+          readOnly: true,
+          children: [{ id: "lag", label: "lag", value: "5", children: [] }],
+        },
+      ],
+    },
+  ];
+
+  describe("collectLocks", () => {
+    const locks = collectLocks(tree);
+
+    it("should lock read-only nodes", () => {
+      expect(locks.locked.get("replica")).toEqual({
+        holderId: "replica",
+        reason: '"replica" is read-only',
+      });
+      expect(locks.locked.has("db")).toBe(false);
+    });
+
+    it("should cascade subtree locks to every descendant", () => {
+      expect(locks.locked.get("http")).toEqual({
+        holderId: "web",
+        reason: '"web" locks its subtree',
+      });
+      expect(locks.locked.get("tls")?.holderId).toBe("web");
+      expect(locks.locked.has("lag")).toBe(false);
+    });
+
+    it("should protect locked nodes and their ancestors from deletion", () => {
+      expect(locks.undeletable.get("replica")).toBe('"replica" is read-only');
+      expect(locks.undeletable.get("db")).toBe("it contains locked nodes");
+      expect(locks.undeletable.has("port")).toBe(false);
+      expect(locks.undeletable.has("lag")).toBe(false);
+    });
+
+    it("should name unlabelled nodes", () => {
+      const [node] = collectLocks([
+        { id: "x", label: "", value: "", readOnly: true, children: [] },
+      ]).locked.values();
+
+      expect(node.reason).toBe('"unnamed node" is read-only');
+    });
+  });
+
+  describe("lockOf", () => {
+    it("should return the lock of a node, or null", () => {
+      const locks = collectLocks(tree);
+
+      expect(lockOf(locks, "replica")?.holderId).toBe("replica");
+      expect(lockOf(locks, "db")).toBeNull();
+      expect(lockOf(locks, null)).toBeNull();
+    });
+  });
+
+  describe("acceptsUpdate", () => {
+    const locks = collectLocks(tree);
+    const replica = tree[1].children[1];
+    const http = tree[0].children[0];
+    const accepts = (node: TreeNodeType, update: TreeNodeType) =>
+      acceptsUpdate(lockOf(locks, node.id), node, update);
+
+    it("should let unlocked nodes change freely", () => {
+      const port = tree[1].children[0];
+
+      expect(accepts(port, { ...port, value: "5433" })).toBe(true);
+    });
+
+    it("should only let locked nodes lift their own lock", () => {
+      expect(accepts(replica, { ...replica, value: "x" })).toBe(false);
+      expect(accepts(replica, { ...replica, readOnly: false })).toBe(true);
+      expect(
+        accepts(replica, { ...replica, readOnly: false, label: "x" })
+      ).toBe(false);
+    });
+
+    it("should not change nodes locked by an ancestor", () => {
+      expect(accepts(http, { ...http, readOnly: true })).toBe(false);
+    });
+  });
+
+  // Every node of `tree`
+  const ids = ["web", "http", "tls", "db", "port", "replica", "lag"];
+
+  describe("findLock", () => {
+    const store = normalizeTree(tree);
+    const locks = collectLocks(tree);
+
+    it("should agree with collectLocks", () => {
+      ids.forEach((id) =>
+        expect(findLock(store, id)).toEqual(lockOf(locks, id))
+      );
+    });
+
+    it("should return null for unknown ids and the root level", () => {
+      expect(findLock(store, "missing")).toBeNull();
+      expect(findLock(store, null)).toBeNull();
+    });
+  });
+
+  describe("findDeleteBlocker", () => {
+    const store = normalizeTree(tree);
+    const locks = collectLocks(tree);
+
+    it("should agree with collectLocks", () => {
+      ids.forEach((id) =>
+        expect(findDeleteBlocker(store, id)).toBe(
+          locks.undeletable.get(id) ?? null
+        )
+      );
+    });
+  });
+
+  describe("blockedTitle", () => {
+    it("should add the reason to the title", () => {
+      expect(blockedTitle("Delete", '"web" is read-only')).toBe(
+        'Delete ("web" is read-only)'
+      );
+      expect(blockedTitle("Delete", null)).toBe("Delete");
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import type { NodeRecord, TreeStore } from "./treeStore";
+import { getNode, parentIdOf, subtreeIds } from "./treeStore";
+
+/**
+ * Read-only locks of tree nodes.
+ *
+ * A node is locked when its `readOnly` flag is set. A locked node with `lockSubtree` also locks
+ * every descendant; such an inherited lock can only be lifted on the node that holds it.
+ *
+ * A locked node cannot be edited (except for lifting its own lock), deleted or moved, and
+ * nothing can be added under it: no new, pasted, duplicated or dropped children. A node whose
+ * subtree contains a locked node cannot be deleted either, so that deleting (or cutting) a
+ * parent never takes locked nodes with it.
+ *
+ * collectLocks works the locks out for a whole nested tree at once, for rendering; findLock and
+ * findDeleteBlocker answer for a single node of a normalized store (see treeStore), for edits.
+ */
+
+export interface NodeLock {
+  holderId: string; // id of the node whose flag locks this one: itself or an ancestor
+  reason: string; // e.g. `"web" is read-only`
+}
+
+export interface TreeLocks {
+  locked: Map<string, NodeLock>;
+  undeletable: Map<string, string>; // node id -> why the node cannot be deleted
+}
+
+// Fields that a locked node still accepts changes of, so that its lock can be lifted
+const LOCK_FIELDS: (keyof TreeNodeType)[] = ["readOnly", "lockSubtree"];
+
+const nodeName = (node: NodeRecord) => `"${node.label || "unnamed node"}"`;
+
+/**
+ * Finds the locked nodes of `nodes` and the nodes that cannot be deleted.
+ */
+export function collectLocks(nodes: TreeNodeType[]): TreeLocks {
+  const locked = new Map<string, NodeLock>();
+  const undeletable = new Map<string, string>();
+
+  // Returns whether the subtree of `node` contains a locked node
+  const visit = (node: TreeNodeType, inherited: NodeLock | null): boolean => {
+    const lock =
+      inherited ??
+      (node.readOnly
+        ? { holderId: node.id, reason: `${nodeName(node)} is read-only` }
+        : null);
+    if (lock) locked.set(node.id, lock);
+    const childLock =
+      inherited ??
+      (node.readOnly && node.lockSubtree
+        ? { holderId: node.id, reason: `${nodeName(node)} locks its subtree` }
+        : null);
+    const containsLock = node.children
+      .map((child) => visit(child, childLock))
+      .includes(true);
+    if (lock) undeletable.set(node.id, lock.reason);
+    else if (containsLock) undeletable.set(node.id, "it contains locked nodes");
+    return lock !== null || containsLock;
+  };
+  nodes.forEach((node) => visit(node, null));
+
+  return { locked, undeletable };
+}
+
+/**
+ * The lock on `nodeId` in `store`, or null when the node is not locked (or there is no node).
+ * Only looks at the node and its ancestors; agrees with collectLocks.
+ */
+export function findLock(
+  store: TreeStore,
+  nodeId: string | null
+): NodeLock | null {
+  const node = nodeId === null ? undefined : getNode(store, nodeId);
+  if (!node) return null;
+  let holder: NodeRecord | null = null; // the topmost ancestor locking its subtree
+  let id = parentIdOf(store, node.id) ?? null;
+  while (id !== null) {
+    const ancestor = getNode(store, id) as NodeRecord;
+    if (ancestor.readOnly && ancestor.lockSubtree) holder = ancestor;
+    id = parentIdOf(store, id) ?? null;
+  }
+  if (holder) {
+    return {
+      holderId: holder.id,
+      reason: `${nodeName(holder)} locks its subtree`,
+    };
+  }
+  return node.readOnly
+    ? { holderId: node.id, reason: `${nodeName(node)} is read-only` }
+    : null;
+}
+
+/**
+ * Why the node with id `nodeId` cannot be deleted from `store`, or null when it can.
+ */
+export function findDeleteBlocker(
+  store: TreeStore,
+  nodeId: string
+): string | null {
+  const lock = findLock(store, nodeId);
+  if (lock) return lock.reason;
+  return subtreeIds(store, nodeId).some((id) => getNode(store, id)?.readOnly)
+    ? "it contains locked nodes"
+    : null;
+}
+
+/**
+ * The lock on `nodeId`, or null when the node is not locked (or there is no node, e.g. for the
+ * parent of a root).
+ */
+export const lockOf = (locks: TreeLocks, nodeId: string | null) =>
+  (nodeId === null ? undefined : locks.locked.get(nodeId)) ?? null;
+
+/**
+ * Title of a control disabled by a lock, e.g. `Delete ("web" is read-only)`.
+ */
+export const blockedTitle = (title: string, reason?: string | null) =>
+  reason ? `${title} (${reason})` : title;
+
+/**
+ * Whether `update` may be merged into `node`, given the lock on `node` (see findLock): a locked
+ * node only accepts changes of its own lock flags, and none at all while its lock is inherited.
+ */
+export function acceptsUpdate(
+  lock: NodeLock | null,
+  node: NodeRecord,
+  update: TreeNodeType
+): boolean {
+  if (!lock) return true;
+  if (lock.holderId !== node.id) return false;
+  return (Object.keys(update) as (keyof TreeNodeType)[]).every(
+    (field) =>
+      field === "children" ||
+      LOCK_FIELDS.includes(field) ||
+      update[field] === node[field as keyof NodeRecord]
+  );
+}
@@ -0,0 +1,107 @@
+import { navigateTree } from "./treeNavigation";
+import { flattenTree } from "./treeRows";
+import type { TreeNodeType } from "../types/TreeNode";
+
+describe("navigateTree", () => {
+  const tree: TreeNodeType[] = [
+    {
+      id: "web",
+      label: "web",
+      value: "",
+      children: [
+        { id: "http", label: "http", value: "80", children: [] },
+        {
+          id: "tls",
+          label: "tls",
+          value: "",
+          children: [
+            { id: "https", label: "https", value: "443", children: [] },
+          ],
+        },
+      ],
+    },
+    { id: "db", label: "db", value: "5432", children: [] },
+  ];
+  const rows = flattenTree(tree);
+
+  it("should move to the next and previous rows", () => {
+    expect(navigateTree(rows, "tls", "ArrowDown")).toEqual({
+      type: "focus",
+      nodeId: "https",
+    });
+    expect(navigateTree(rows, "https", "ArrowDown")).toEqual({
+      type: "focus",
+      nodeId: "db",
+    });
+    expect(navigateTree(rows, "http", "ArrowUp")).toEqual({
+      type: "focus",
+      nodeId: "web",
+    });
+  });
+
+  it("should stop at the ends of the tree", () => {
+    expect(navigateTree(rows, "db", "ArrowDown")).toBeNull();
+    expect(navigateTree(rows, "web", "ArrowUp")).toBeNull();
+  });
+
+  it("should jump to the first and last rows", () => {
+    expect(navigateTree(rows, "tls", "Home")).toEqual({
+      type: "focus",
+      nodeId: "web",
+    });
+    expect(navigateTree(rows, "tls", "End")).toEqual({
+      type: "focus",
+      nodeId: "db",
+    });
+  });
+
+  it("should move into an expanded node with ArrowRight", () => {
+    expect(navigateTree(rows, "tls", "ArrowRight")).toEqual({
+      type: "focus",
+      nodeId: "https",
+    });
+    expect(navigateTree(rows, "https", "ArrowRight")).toBeNull();
+  });
+
+  it("should expand a collapsed node with ArrowRight", () => {
+    const collapsed = flattenTree(tree, { collapsedIds: new Set(["tls"]) });
+
+    expect(navigateTree(collapsed, "tls", "ArrowRight")).toEqual({
+      type: "toggle",
+      nodeId: "tls",
+    });
+  });
+
+  it("should collapse an expanded node with ArrowLeft", () => {
+    expect(navigateTree(rows, "web", "ArrowLeft")).toEqual({
+      type: "toggle",
+      nodeId: "web",
+    });
+  });
+
+  it("should move to the parent with ArrowLeft", () => {
+    expect(navigateTree(rows, "https", "ArrowLeft")).toEqual({
+      type: "focus",
+      nodeId: "tls",
+    });
+    const collapsed = flattenTree(tree, { collapsedIds: new Set(["tls"]) });
+    expect(navigateTree(collapsed, "tls", "ArrowLeft")).toEqual({
+      type: "focus",
+      nodeId: "web",
+    });
+    expect(navigateTree(rows, "db", "ArrowLeft")).toBeNull();
+  });
+
+  it("should start at the first row without a current row", () => {
+    expect(navigateTree(rows, null, "End")).toEqual({
+      type: "focus",
+      nodeId: "web",
+    });
+    expect(navigateTree([], null, "ArrowDown")).toBeNull();
+  });
+
+  it("should ignore other keys", () => {
+    expect(navigateTree(rows, "web", "a")).toBeNull();
+    expect(navigateTree(rows, "web", "Enter")).toBeNull();
+  });
+});
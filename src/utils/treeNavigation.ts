@@ -0,0 +1,63 @@
+import type { TreeRow } from "./treeRows";
+
+/**
+ * Keyboard navigation over the rendered rows, following the WAI-ARIA tree view pattern:
+ *
+ * - ArrowDown / ArrowUp move to the next / previous row.
+ * - ArrowRight expands a collapsed node, or moves to the first child of an expanded one.
+ * - ArrowLeft collapses an expanded node, or moves to the parent of any other node.
+ * - Home / End move to the first / last row.
+ *
+ * Without a current row, every navigation key moves to the first row.
+ */
+
+export type TreeNavigation =
+  | { type: "focus"; nodeId: string }
+  | { type: "toggle"; nodeId: string };
+
+const focus = (row: TreeRow | undefined): TreeNavigation | null =>
+  row ? { type: "focus", nodeId: row.node.id } : null;
+
+const NAVIGATION_KEYS = [
+  "ArrowDown",
+  "ArrowUp",
+  "ArrowRight",
+  "ArrowLeft",
+  "Home",
+  "End",
+];
+
+/**
+ * Returns what pressing `key` on the row of `currentId` does, or null when the key does not
+ * navigate (or there is nowhere to go).
+ */
+export function navigateTree(
+  rows: TreeRow[],
+  currentId: string | null,
+  key: string
+): TreeNavigation | null {
+  if (!NAVIGATION_KEYS.includes(key)) return null;
+  const index = rows.findIndex((row) => row.node.id === currentId);
+  if (index === -1) return focus(rows[0]);
+  const row = rows[index];
+
+  switch (key) {
+    case "ArrowDown":
+      return focus(rows[index + 1]);
+    case "ArrowUp":
+      return focus(rows[index - 1]);
+    case "Home":
+      return focus(rows[0]);
+    case "End":
+      return focus(rows[rows.length - 1]);
+    case "ArrowRight":
+      if (row.isCollapsed) return { type: "toggle", nodeId: row.node.id };
+      // The first child is the next row
+      return row.hasVisibleChildren ? focus(rows[index + 1]) : null;
+    default: // ArrowLeft
+      if (row.hasVisibleChildren) {
+        return { type: "toggle", nodeId: row.node.id };
+      }
+      return focus(rows.find((other) => other.node.id === row.parentId));
+  }
+}
@@ -0,0 +1,268 @@
+import {
+  changedFields,
+  findLocation,
+  findNode,
+  insertNodes,
+  mapTree,
+  moveNode,
+  pathOf,
+  removeNode,
+  sameTree,
+  updateNode,
+  walkTree,
+} from "./treeOps";
+import type { TreeNodeType } from "../types/TreeNode";
+import { node, treeShape } from "../test/treeFixtures";
+
+// a          d
+// ├── b
+// │   └── c
+// └── e
+const tree: TreeNodeType[] = [
+  node("a", [node("b", [node("c")]), node("e")]),
+  node("d"),
+];
+
+describe("treeOps", () => {
+  describe("findNode", () => {
+    it("should find roots and nested nodes", () => {
+      expect(findNode(tree, "d")).toBe(tree[1]);
+      expect(findNode(tree, "c")).toBe(tree[0].children[0].children[0]);
+    });
+
+    it("should return undefined for unknown ids", () => {
+      expect(findNode(tree, "x")).toBeUndefined();
+      expect(findNode([], "a")).toBeUndefined();
+    });
+  });
+
+  describe("findLocation", () => {
+    it("should locate root nodes", () => {
+      expect(findLocation(tree, "d")).toEqual({
+        parentId: null,
+        siblings: tree,
+        index: 1,
+      });
+    });
+
+    it("should locate nested nodes", () => {
+      expect(findLocation(tree, "e")).toEqual({
+        parentId: "a",
+        siblings: tree[0].children,
+        index: 1,
+      });
+    });
+
+    it("should return undefined for unknown ids", () => {
+      expect(findLocation(tree, "x")).toBeUndefined();
+    });
+  });
+
+  describe("pathOf", () => {
+    it("should list the nodes from the root down to the node", () => {
+      expect(pathOf(tree, "c")?.map((n) => n.id)).toEqual(["a", "b", "c"]);
+      expect(pathOf(tree, "d")?.map((n) => n.id)).toEqual(["d"]);
+    });
+
+    it("should return undefined for unknown ids", () => {
+      expect(pathOf(tree, "x")).toBeUndefined();
+    });
+  });
+
+  describe("walkTree", () => {
+    it("should visit parents before their children, with their location", () => {
+      const visits: [string, string | null, number][] = [];
+
+      walkTree(tree, (n, { parentId, index }) =>
+        visits.push([n.id, parentId, index])
+      );
+
+      expect(visits).toEqual([
+        ["a", null, 0],
+        ["b", "a", 0],
+        ["c", "b", 0],
+        ["e", "a", 1],
+        ["d", null, 1],
+      ]);
+    });
+  });
+
+  describe("mapTree", () => {
+    it("should transform every node", () => {
+      const mapped = mapTree(tree, (n) => ({
+        ...n,
+        label: n.id.toUpperCase(),
+      }));
+
+      const labels: string[] = [];
+      walkTree(mapped, (n) => labels.push(n.label));
+      expect(labels).toEqual(["A", "B", "C", "E", "D"]);
+    });
+
+    it("should pass nodes with their transformed children", () => {
+      const counted = mapTree(tree, (n) => ({
+        ...n,
+        value: String(
+          n.children.reduce((sum, child) => sum + 1 + Number(child.value), 0)
+        ),
+      }));
+
+      expect(counted[0].value).toBe("3");
+    });
+
+    it("should not modify the original tree", () => {
+      mapTree(tree, (n) => ({ ...n, label: "changed" }));
+
+      expect(tree[0].label).toBe("a");
+    });
+  });
+
+  describe("updateNode", () => {
+    it("should replace the node and copy only its ancestors", () => {
+      const updated = updateNode(tree, "c", (n) => ({ ...n, value: "80" }));
+
+      expect(findNode(updated, "c")?.value).toBe("80");
+      expect(updated[1]).toBe(tree[1]);
+      expect(updated[0].children[1]).toBe(tree[0].children[1]);
+      expect(updated[0]).not.toBe(tree[0]);
+      expect(findNode(tree, "c")?.value).toBe("");
+    });
+
+    it("should return the same tree when nothing changes", () => {
+      expect(updateNode(tree, "x", (n) => ({ ...n, value: "80" }))).toBe(tree);
+      expect(updateNode(tree, "c", (n) => n)).toBe(tree);
+    });
+  });
+
+  describe("insertNodes", () => {
+    it("should append under a parent by default", () => {
+      expect(treeShape(insertNodes(tree, "a", [node("x"), node("y")]))).toEqual(
+        [{ a: [{ b: ["c"] }, "e", "x", "y"] }, "d"]
+      );
+    });
+
+    it("should insert at an index, clamped to the children", () => {
+      expect(treeShape(insertNodes(tree, "a", [node("x")], 1))).toEqual([
+        { a: [{ b: ["c"] }, "x", "e"] },
+        "d",
+      ]);
+      expect(treeShape(insertNodes(tree, "a", [node("x")], -3))).toEqual([
+        { a: ["x", { b: ["c"] }, "e"] },
+        "d",
+      ]);
+    });
+
+    it("should insert at the root level", () => {
+      expect(treeShape(insertNodes(tree, null, [node("x")], 0))).toEqual([
+        "x",
+        { a: [{ b: ["c"] }, "e"] },
+        "d",
+      ]);
+    });
+
+    it("should return the same tree for unknown parents or no nodes", () => {
+      expect(insertNodes(tree, "x", [node("y")])).toBe(tree);
+      expect(insertNodes(tree, "a", [])).toBe(tree);
+    });
+  });
+
+  describe("removeNode", () => {
+    it("should remove a node with its subtree", () => {
+      expect(treeShape(removeNode(tree, "b"))).toEqual([{ a: ["e"] }, "d"]);
+    });
+
+    it("should remove root nodes", () => {
+      expect(treeShape(removeNode(tree, "a"))).toEqual(["d"]);
+    });
+
+    it("should return the same tree for unknown ids", () => {
+      expect(removeNode(tree, "x")).toBe(tree);
+    });
+  });
+
+  describe("moveNode", () => {
+    it("should move a node with its subtree under another parent", () => {
+      expect(treeShape(moveNode(tree, "b", "d", 0))).toEqual([
+        { a: ["e"] },
+        { d: [{ b: ["c"] }] },
+      ]);
+    });
+
+    it("should move a node to the root level", () => {
+      expect(treeShape(moveNode(tree, "c", null, 1))).toEqual([
+        { a: ["b", "e"] },
+        "c",
+        "d",
+      ]);
+    });
+
+    it("should interpret the index as a slot before the move", () => {
+      // "after e" among a's children [b, e] is slot 2
+      expect(treeShape(moveNode(tree, "b", "a", 2))).toEqual([
+        { a: ["e", { b: ["c"] }] },
+        "d",
+      ]);
+    });
+
+    it("should return the same tree for moves that change nothing", () => {
+      expect(moveNode(tree, "b", "a", 0)).toBe(tree);
+      expect(moveNode(tree, "b", "a", 1)).toBe(tree);
+    });
+
+    it("should reject invalid moves", () => {
+      expect(moveNode(tree, "a", "c", 0)).toBe(tree); // into its own subtree
+      expect(moveNode(tree, "a", "a", 0)).toBe(tree); // into itself
+      expect(moveNode(tree, "x", null, 0)).toBe(tree); // unknown node
+      expect(moveNode(tree, "b", "x", 0)).toBe(tree); // unknown parent
+    });
+  });
+
+  describe("sameTree", () => {
+    it("should compare nodes field by field", () => {
+      const copy: TreeNodeType[] = JSON.parse(JSON.stringify(tree));
+
+      expect(sameTree(tree, copy)).toBe(true);
+      expect(
+        sameTree(
+          tree,
+          updateNode(tree, "c", (n) => ({ ...n, value: "80" }))
+        )
+      ).toBe(false);
+      expect(sameTree(tree, removeNode(tree, "c"))).toBe(false);
+      expect(sameTree(tree, moveNode(tree, "d", null, 0))).toBe(false);
+    });
+
+    it("should treat undefined fields as missing", () => {
+      const withUndefined = updateNode(tree, "c", (n) => ({
+        ...n,
+        valueType: undefined,
+      }));
+
+      expect(sameTree(tree, withUndefined)).toBe(true);
+    });
+
+    it("should compare enum options by their items", () => {
+      const withOptions = (options: string[]) =>
+        updateNode(tree, "c", (n) => ({ ...n, options }));
+
+      expect(sameTree(withOptions(["a", "b"]), withOptions(["a", "b"]))).toBe(
+        true
+      );
+      expect(sameTree(withOptions(["a", "b"]), withOptions(["a"]))).toBe(false);
+    });
+  });
+
+  describe("changedFields", () => {
+    it("should list the fields that differ, ignoring the children", () => {
+      const a = node("a", [node("b")]);
+
+      expect(changedFields(a, { ...a, value: "80", readOnly: true })).toEqual([
+        "value",
+        "readOnly",
+      ]);
+      expect(
+        changedFields(a, { ...a, children: [], valueType: undefined })
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import type { TreeNodeType } from "../types/TreeNode";
+
+/**
+ * Pure operations on TreeNodeType[] trees, free of React.
+ *
+ * Nothing is mutated: operations that change the tree return a new one that shares every
+ * untouched subtree with the original. Operations that cannot apply (unknown ids, moves into a
+ * node's own subtree, ...) return the tree they were given, so `result === nodes` tells that
+ * nothing changed.
+ */
+
+export interface NodeLocation {
+  parentId: string | null; // null for root nodes
+  siblings: TreeNodeType[]; // the children of the parent (or the roots), including the node
+  index: number; // position of the node among `siblings`
+}
+
+/**
+ * The node with id `nodeId`, searched depth-first, or undefined.
+ */
+export function findNode(
+  nodes: TreeNodeType[],
+  nodeId: string
+): TreeNodeType | undefined {
+  for (const node of nodes) {
+    if (node.id === nodeId) return node;
+    const found = findNode(node.children, nodeId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Where the node with id `nodeId` sits: its parent, its siblings and its index among them.
+ */
+export function findLocation(
+  nodes: TreeNodeType[],
+  nodeId: string,
+  parentId: string | null = null
+): NodeLocation | undefined {
+  const index = nodes.findIndex((n) => n.id === nodeId);
+  if (index !== -1) return { parentId, siblings: nodes, index };
+  for (const node of nodes) {
+    const found = findLocation(node.children, nodeId, node.id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * The nodes from a root down to the node with id `nodeId` (included), or undefined.
+ */
+export function pathOf(
+  nodes: TreeNodeType[],
+  nodeId: string
+): TreeNodeType[] | undefined {
+  for (const node of nodes) {
+    if (node.id === nodeId) return [node];
+    const path = pathOf(node.children, nodeId);
+    if (path) return [node, ...path];
+  }
+  return undefined;
+}
+
+/**
+ * Calls `visit` on every node, depth-first, parents before their children.
+ */
+export function walkTree(
+  nodes: TreeNodeType[],
+  visit: (node: TreeNodeType, location: NodeLocation) => void,
+  parentId: string | null = null
+): void {
+  nodes.forEach((node, index) => {
+    visit(node, { parentId, siblings: nodes, index });
+    walkTree(node.children, visit, node.id);
+  });
+}
+
+/**
+ * Replaces every node with `transform(node)`, children first: `transform` receives the node
+ * with its already transformed children.
+ */
+export function mapTree(
+  nodes: TreeNodeType[],
+  transform: (node: TreeNodeType) => TreeNodeType
+): TreeNodeType[] {
+  return nodes.map((node) =>
+    transform({ ...node, children: mapTree(node.children, transform) })
+  );
+}
+
+/**
+ * Replaces the node with id `nodeId` with `update(node)`.
+ */
+export function updateNode(
+  nodes: TreeNodeType[],
+  nodeId: string,
+  update: (node: TreeNodeType) => TreeNodeType
+): TreeNodeType[] {
+  let changed = false;
+  const next = nodes.map((node) => {
+    if (node.id === nodeId) {
+      const updated = update(node);
+      if (updated !== node) changed = true;
+      return updated;
+    }
+    const children = updateNode(node.children, nodeId, update);
+    if (children === node.children) return node;
+    changed = true;
+    return { ...node, children };
+  });
+  return changed ? next : nodes;
+}
+
+/**
+ * Inserts `newNodes` at `index` in the children of `parentId` (null for the root level); they
+ * are appended when `index` is omitted or past the end.
+ */
+export function insertNodes(
+  nodes: TreeNodeType[],
+  parentId: string | null,
+  newNodes: TreeNodeType[],
+  index?: number
+): TreeNodeType[] {
+  if (newNodes.length === 0) return nodes;
+  const insert = (list: TreeNodeType[]) => {
+    const slot = Math.max(0, Math.min(index ?? list.length, list.length));
+    return [...list.slice(0, slot), ...newNodes, ...list.slice(slot)];
+  };
+  if (parentId === null) return insert(nodes);
+  return updateNode(nodes, parentId, (parent) => ({
+    ...parent,
+    children: insert(parent.children),
+  }));
+}
+
+/**
+ * Removes the node with id `nodeId` and its whole subtree.
+ */
+export function removeNode(
+  nodes: TreeNodeType[],
+  nodeId: string
+): TreeNodeType[] {
+  const location = findLocation(nodes, nodeId);
+  if (!location) return nodes;
+  const remove = (list: TreeNodeType[]) =>
+    list.filter((node) => node.id !== nodeId);
+  if (location.parentId === null) return remove(nodes);
+  return updateNode(nodes, location.parentId, (parent) => ({
+    ...parent,
+    children: remove(parent.children),
+  }));
+}
+
+/**
+ * Moves a node (with its whole subtree) under `targetParentId` (null for the root level).
+ * `index` is the slot in the target's children as they are before the move, so moving a node
+ * "after sibling i" is always `i + 1`. Moves into the node's own subtree are ignored.
+ */
+export function moveNode(
+  nodes: TreeNodeType[],
+  nodeId: string,
+  targetParentId: string | null,
+  index: number
+): TreeNodeType[] {
+  const node = findNode(nodes, nodeId);
+  if (!node || nodeId === targetParentId) return nodes;
+  const targetParent =
+    targetParentId === null ? null : findNode(nodes, targetParentId);
+  if (targetParent === undefined) return nodes;
+  if (targetParentId !== null && findNode(node.children, targetParentId)) {
+    return nodes; // Cannot move a node into its own descendants
+  }
+
+  const siblings = targetParent ? targetParent.children : nodes;
+  const currentIndex = siblings.findIndex((n) => n.id === nodeId);
+  const slot = Math.max(0, Math.min(index, siblings.length));
+  const insertAt = currentIndex !== -1 && currentIndex < slot ? slot - 1 : slot;
+  if (currentIndex === insertAt) return nodes;
+
+  return insertNodes(
+    removeNode(nodes, nodeId),
+    targetParentId,
+    [node],
+    insertAt
+  );
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  a === b ||
+  (Array.isArray(a) &&
+    Array.isArray(b) &&
+    a.length === b.length &&
+    a.every((item, i) => item === b[i]));
+
+export type NodeField = Exclude<keyof TreeNodeType, "children">;
+
+/**
+ * The fields (other than children) whose values differ between two nodes; fields set to
+ * undefined count as missing.
+ */
+export function changedFields(a: TreeNodeType, b: TreeNodeType): NodeField[] {
+  if (a === b) return [];
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+  fields.delete("children");
+  return ([...fields] as NodeField[]).filter(
+    (field) => !sameValue(a[field], b[field])
+  );
+}
+
+const sameNode = (a: TreeNodeType, b: TreeNodeType): boolean =>
+  a === b ||
+  (changedFields(a, b).length === 0 && sameTree(a.children, b.children));
+
+/**
+ * Whether two trees hold the same nodes in the same order; fields set to undefined count as
+ * missing. Subtrees shared by both trees are not looked into, so comparing a tree with an
+ * edited version of it only visits the edited paths.
+ */
+export function sameTree(a: TreeNodeType[], b: TreeNodeType[]): boolean {
+  return (
+    a === b ||
+    (a.length === b.length && a.every((node, i) => sameNode(node, b[i])))
+  );
+}
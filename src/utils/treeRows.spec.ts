@@ -0,0 +1,179 @@
+import { flattenTree } from "./treeRows";
+import type { TreeNodeType } from "../types/TreeNode";
+
+describe("flattenTree", () => {
+  const tree: TreeNodeType[] = [
+    {
+      id: "web",
+      label: "web",
+      value: "",
+      children: [
+        { id: "http", label: "http", value: "80", children: [] },
+        {
+          id: "tls",
+          label: "tls",
+          value: "",
+          children: [
+            { id: "https", label: "https", value: "443", children: [] },
+            { id: "admin", label: "admin", value: "8443", children: [] },
+          ],
+        },
+      ],
+    },
+    {
+      id: "db",
+      label: "db",
+      value: "",
+      children: [{ id: "pg", label: "port", value: "5432", children: [] }],
+    },
+  ];
+
+  const ids = (rows: ReturnType<typeof flattenTree>) =>
+    rows.map((row) => row.node.id);
+
+  const rowOf = (rows: ReturnType<typeof flattenTree>, id: string) =>
+    rows.find((row) => row.node.id === id)!;
+
+  it("should list every node in document order", () => {
+    expect(ids(flattenTree(tree))).toEqual([
+      "web",
+      "http",
+      "tls",
+      "https",
+      "admin",
+      "db",
+      "pg",
+    ]);
+  });
+
+  it("should return no rows for an empty tree", () => {
+    expect(flattenTree([])).toEqual([]);
+  });
+
+  it("should record the position of each node", () => {
+    const rows = flattenTree(tree);
+
+    expect(rowOf(rows, "web")).toMatchObject({
+      parentId: null,
+      index: 0,
+      previousId: null,
+      depth: 0,
+      ancestorIds: [],
+      isLast: false,
+      posInSet: 1,
+      setSize: 2,
+    });
+    expect(rowOf(rows, "admin")).toMatchObject({
+      parentId: "tls",
+      index: 1,
+      previousId: "https",
+      depth: 2,
+      ancestorIds: ["web", "tls"],
+      isLast: true,
+      posInSet: 2,
+      setSize: 2,
+    });
+  });
+
+  it("should mark which vertical lines continue below each row", () => {
+    const rows = flattenTree(tree);
+
+    expect(rowOf(rows, "web").guides).toEqual([]);
+    expect(rowOf(rows, "http").guides).toEqual([true]);
+    expect(rowOf(rows, "https").guides).toEqual([false, true]);
+    expect(rowOf(rows, "admin").guides).toEqual([false, false]);
+    expect(rowOf(rows, "pg").guides).toEqual([false]);
+  });
+
+  it("should count descendants and shown children", () => {
+    const rows = flattenTree(tree);
+
+    expect(rowOf(rows, "web")).toMatchObject({
+      descendantCount: 4,
+      hasVisibleChildren: true,
+      isCollapsed: false,
+    });
+    expect(rowOf(rows, "http")).toMatchObject({
+      descendantCount: 0,
+      hasVisibleChildren: false,
+    });
+  });
+
+  describe("collapsed nodes", () => {
+    it("should hide the subtree but keep counting it", () => {
+      const rows = flattenTree(tree, { collapsedIds: new Set(["tls"]) });
+
+      expect(ids(rows)).toEqual(["web", "http", "tls", "db", "pg"]);
+      expect(rowOf(rows, "tls")).toMatchObject({
+        isCollapsed: true,
+        hasVisibleChildren: false,
+        descendantCount: 2,
+      });
+      expect(rowOf(rows, "web").descendantCount).toBe(4);
+    });
+
+    it("should ignore collapsed leaves", () => {
+      const rows = flattenTree(tree, { collapsedIds: new Set(["http"]) });
+
+      expect(rowOf(rows, "http").isCollapsed).toBe(false);
+    });
+  });
+
+  describe("filtered nodes", () => {
+    const visibleIds = new Set(["web", "tls", "https", "db"]);
+
+    it("should only list visible nodes", () => {
+      expect(ids(flattenTree(tree, { visibleIds }))).toEqual([
+        "web",
+        "tls",
+        "https",
+        "db",
+      ]);
+    });
+
+    it("should keep sibling indexes and compute isLast among shown siblings", () => {
+      const rows = flattenTree(tree, { visibleIds });
+
+      expect(rowOf(rows, "tls")).toMatchObject({
+        index: 1,
+        previousId: "http",
+        isLast: true,
+        posInSet: 1,
+        setSize: 1,
+      });
+      expect(rowOf(rows, "https")).toMatchObject({
+        index: 0,
+        isLast: true,
+        guides: [false, false],
+      });
+      expect(rowOf(rows, "db")).toMatchObject({
+        isLast: true,
+        hasVisibleChildren: false,
+        descendantCount: 1,
+      });
+    });
+  });
+
+  it("should handle thousands of nodes", () => {
+    const wide: TreeNodeType[] = Array.from({ length: 100 }, (_, i) => ({
+      id: `root-${i}`,
+      label: `root-${i}`,
+      value: "",
+      children: Array.from({ length: 49 }, (_, j) => ({
+        id: `node-${i}-${j}`,
+        label: `node-${i}-${j}`,
+        value: String(j),
+        children: [],
+      })),
+    }));
+
+    const rows = flattenTree(wide);
+
+    expect(rows).toHaveLength(5000);
+    expect(rows[rows.length - 1]).toMatchObject({
+      depth: 1,
+      isLast: true,
+      guides: [false],
+    });
+  });
+});
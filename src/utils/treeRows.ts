@@ -0,0 +1,105 @@
+import type { TreeNodeType } from "../types/TreeNode";
+
+/**
+ * Flattening a tree into the rows the editor renders.
+ *
+ * The editor renders one row per visible node in document order, so that only the rows in view
+ * need to be mounted. Each row carries everything needed to draw it without looking at the rest
+ * of the tree: its depth, its position among its siblings and which vertical connector lines
+ * pass through it. Siblings share their `ancestorIds` and `guides` arrays, so rows must not
+ * modify them.
+ */
+
+export interface TreeRow {
+  node: TreeNodeType;
+  parentId: string | null;
+  index: number; // position among all siblings, including filtered-out ones
+  previousId: string | null; // previous sibling, including filtered-out ones
+  depth: number; // 0 for root nodes
+  isLast: boolean; // last visible sibling
+  posInSet: number; // 1-based position among visible siblings
+  setSize: number; // number of visible siblings, this node included
+  ancestorIds: string[]; // root first
+  // guides[level - 1] tells whether the vertical line of nesting `level` (1..depth) continues
+  // below this row; the last entry is this row's own line to its parent
+  guides: boolean[];
+  hasVisibleChildren: boolean;
+  isCollapsed: boolean;
+  descendantCount: number; // every descendant, including hidden ones
+}
+
+export interface FlattenOptions {
+  collapsedIds?: Set<string>; // nodes whose children are hidden
+  visibleIds?: Set<string> | null; // only these nodes are shown; null shows every node
+}
+
+const countDescendants = (node: TreeNodeType): number =>
+  node.children.reduce((acc, child) => acc + 1 + countDescendants(child), 0);
+
+export function flattenTree(
+  nodes: TreeNodeType[],
+  { collapsedIds, visibleIds = null }: FlattenOptions = {}
+): TreeRow[] {
+  const rows: TreeRow[] = [];
+  const isVisible = (node: TreeNodeType) =>
+    visibleIds === null || visibleIds.has(node.id);
+
+  // Pushes the rows of `siblings` and their subtrees, and returns the number of nodes in those
+  // subtrees (hidden ones included)
+  const visitSiblings = (
+    siblings: TreeNodeType[],
+    parentId: string | null,
+    ancestorIds: string[],
+    parentGuides: boolean[]
+  ): number => {
+    const shown = siblings.filter(isVisible);
+    const lastShown = shown[shown.length - 1];
+    // Siblings share their guides but for their own line, which only depends on isLast
+    const continuing = parentId === null ? [] : [...parentGuides, true];
+    const ending = parentId === null ? [] : [...parentGuides, false];
+    let position = 0;
+    let count = 0;
+    siblings.forEach((node, index) => {
+      if (!isVisible(node)) {
+        count += 1 + countDescendants(node);
+        return;
+      }
+      const isLast = node === lastShown;
+      const isCollapsed =
+        node.children.length > 0 && (collapsedIds?.has(node.id) ?? false);
+      const row: TreeRow = {
+        node,
+        parentId,
+        index,
+        previousId: index > 0 ? siblings[index - 1].id : null,
+        depth: ancestorIds.length,
+        isLast,
+        posInSet: ++position,
+        setSize: shown.length,
+        ancestorIds,
+        guides: isLast ? ending : continuing,
+        hasVisibleChildren: false,
+        isCollapsed,
+        descendantCount: 0,
+      };
+      rows.push(row);
+      if (isCollapsed) {
+        row.descendantCount = countDescendants(node);
+      } else if (node.children.length > 0) {
+        const firstChildRow = rows.length;
+        row.descendantCount = visitSiblings(
+          node.children,
+          node.id,
+          [...ancestorIds, node.id],
+          row.guides
+        );
+        row.hasVisibleChildren = rows.length > firstChildRow;
+      }
+      count += 1 + row.descendantCount;
+    });
+    return count;
+  };
+
+  visitSiblings(nodes, null, [], []);
+  return rows;
+}
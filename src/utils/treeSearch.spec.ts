@@ -0,0 +1,176 @@
+import {
+  EMPTY_SEARCH,
+  createSearchPattern,
+  nodeMatches,
+  searchTree,
+  splitMatches,
+  stepMatch,
+} from "./treeSearch";
+import type { TreeNodeType } from "../types/TreeNode";
+
+describe("treeSearch", () => {
+  const tree: TreeNodeType[] = [
+    {
+      id: "web",
+      label: "web",
+      value: "frontend",
+      children: [
+        { id: "http", label: "http", value: "80", children: [] },
+        {
+          id: "tls",
+          label: "tls",
+          value: "",
+          children: [
+            { id: "https", label: "HTTPS", value: "443", children: [] },
+          ],
+        },
+      ],
+    },
+    {
+      id: "db",
+      label: "db",
+      value: "postgres",
+      children: [{ id: "pg", label: "port", value: "5432", children: [] }],
+    },
+  ];
+
+  const query = (text: string, options: Partial<typeof EMPTY_SEARCH> = {}) => ({
+    ...EMPTY_SEARCH,
+    text,
+    ...options,
+  });
+
+  describe("createSearchPattern", () => {
+    it("should return null for an empty query", () => {
+      expect(createSearchPattern(EMPTY_SEARCH)).toBeNull();
+    });
+
+    it("should match literally and case-insensitively by default", () => {
+      const pattern = createSearchPattern(query("a.b"));
+
+      expect(pattern?.test("A.B")).toBe(true);
+      expect(pattern?.test("axb")).toBe(false);
+    });
+
+    it("should honour case sensitivity", () => {
+      const pattern = createSearchPattern(
+        query("Web", { caseSensitive: true })
+      );
+
+      expect(pattern?.test("web")).toBe(false);
+      expect(pattern?.test("Web")).toBe(true);
+    });
+
+    it("should compile regex queries", () => {
+      const pattern = createSearchPattern(query("^\\d+$", { regex: true }));
+
+      expect(pattern?.test("8080")).toBe(true);
+      expect(pattern?.test("port 80")).toBe(false);
+    });
+
+    it("should throw for invalid regex queries", () => {
+      expect(() => createSearchPattern(query("(", { regex: true }))).toThrow(
+        SyntaxError
+      );
+    });
+  });
+
+  describe("nodeMatches", () => {
+    it("should match on label or value", () => {
+      expect(nodeMatches(tree[0], /web/)).toBe(true);
+      expect(nodeMatches(tree[0], /front/)).toBe(true);
+      expect(nodeMatches(tree[0], /db/)).toBe(false);
+    });
+  });
+
+  describe("searchTree", () => {
+    it("should not filter without a query", () => {
+      expect(searchTree(tree, EMPTY_SEARCH)).toEqual({
+        pattern: null,
+        matchIds: [],
+        visibleIds: null,
+        error: null,
+      });
+    });
+
+    it("should list matches in document order", () => {
+      const { matchIds } = searchTree(tree, query("http"));
+
+      expect(matchIds).toEqual(["http", "https"]);
+    });
+
+    it("should keep matches and their ancestors visible", () => {
+      const { visibleIds } = searchTree(tree, query("443"));
+
+      expect(Array.from(visibleIds ?? []).sort()).toEqual([
+        "https",
+        "tls",
+        "web",
+      ]);
+    });
+
+    it("should hide non-matching descendants of a match", () => {
+      const { visibleIds } = searchTree(tree, query("web"));
+
+      expect(Array.from(visibleIds ?? [])).toEqual(["web"]);
+    });
+
+    it("should report invalid regular expressions", () => {
+      const result = searchTree(tree, query("[", { regex: true }));
+
+      expect(result.pattern).toBeNull();
+      expect(result.visibleIds).toBeNull();
+      expect(result.error).toEqual(expect.any(String));
+    });
+
+    it("should return an empty visible set when nothing matches", () => {
+      const { matchIds, visibleIds } = searchTree(tree, query("zzz"));
+
+      expect(matchIds).toEqual([]);
+      expect(visibleIds?.size).toBe(0);
+    });
+  });
+
+  describe("splitMatches", () => {
+    it("should split text around every match", () => {
+      expect(splitMatches("port 80 and 8080", /80/)).toEqual([
+        { text: "port ", match: false },
+        { text: "80", match: true },
+        { text: " and ", match: false },
+        { text: "80", match: true },
+        { text: "80", match: true },
+      ]);
+    });
+
+    it("should keep the pattern's case-insensitivity", () => {
+      expect(splitMatches("Web", /web/i)).toEqual([
+        { text: "Web", match: true },
+      ]);
+    });
+
+    it("should skip empty matches", () => {
+      expect(splitMatches("abc", /x*/)).toEqual([
+        { text: "abc", match: false },
+      ]);
+    });
+  });
+
+  describe("stepMatch", () => {
+    const matches = ["a", "b", "c"];
+
+    it("should move forward and backward with wrap-around", () => {
+      expect(stepMatch(matches, "a", 1)).toBe("b");
+      expect(stepMatch(matches, "c", 1)).toBe("a");
+      expect(stepMatch(matches, "a", -1)).toBe("c");
+    });
+
+    it("should start from the first or last match when off a match", () => {
+      expect(stepMatch(matches, null, 1)).toBe("a");
+      expect(stepMatch(matches, "other", -1)).toBe("c");
+    });
+
+    it("should return null without matches", () => {
+      expect(stepMatch([], "a", 1)).toBeNull();
+    });
+  });
+});
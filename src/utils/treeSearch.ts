@@ -0,0 +1,130 @@
+import type { TreeNodeType } from "../types/TreeNode";
+
+/**
+ * Searching a tree by node label and value.
+ *
+ * A search is case-insensitive unless `caseSensitive` is set, and treats `text` as a literal
+ * string unless `regex` is set. Matches are listed in document order (parents before their
+ * children, siblings top to bottom), which is the order Enter steps through them in the editor.
+ */
+
+export interface SearchQuery {
+  text: string;
+  caseSensitive: boolean;
+  regex: boolean;
+}
+
+export interface SearchResult {
+  pattern: RegExp | null; // null when there is no (valid) search
+  matchIds: string[]; // matching node ids in document order
+  visibleIds: Set<string> | null; // matches plus their ancestors; null when not filtering
+  error: string | null; // set for invalid regular expressions
+}
+
+export const EMPTY_SEARCH: SearchQuery = {
+  text: "",
+  caseSensitive: false,
+  regex: false,
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Builds the RegExp for a query, or null for an empty one. Throws a SyntaxError when a regex
+ * query does not compile.
+ */
+export function createSearchPattern(query: SearchQuery): RegExp | null {
+  if (query.text === "") return null;
+  const source = query.regex ? query.text : escapeRegExp(query.text);
+  return new RegExp(source, query.caseSensitive ? "" : "i");
+}
+
+export function nodeMatches(node: TreeNodeType, pattern: RegExp): boolean {
+  return pattern.test(node.label) || pattern.test(node.value);
+}
+
+/**
+ * Splits `text` into alternating unmatched / matched parts for highlighting.
+ * Empty matches (e.g. from `a*`) are skipped.
+ */
+export function splitMatches(
+  text: string,
+  pattern: RegExp
+): { text: string; match: boolean }[] {
+  const global = new RegExp(pattern.source, `${pattern.flags}g`);
+  const parts: { text: string; match: boolean }[] = [];
+  let lastIndex = 0;
+  let found: RegExpExecArray | null;
+  while ((found = global.exec(text)) !== null) {
+    if (found[0] === "") {
+      global.lastIndex++;
+      continue;
+    }
+    if (found.index > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, found.index), match: false });
+    }
+    parts.push({ text: found[0], match: true });
+    lastIndex = found.index + found[0].length;
+  }
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex), match: false });
+  }
+  return parts;
+}
+
+export function searchTree(
+  nodes: TreeNodeType[],
+  query: SearchQuery
+): SearchResult {
+  let pattern: RegExp | null;
+  try {
+    pattern = createSearchPattern(query);
+  } catch (error) {
+    return {
+      pattern: null,
+      matchIds: [],
+      visibleIds: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  if (!pattern) {
+    return { pattern: null, matchIds: [], visibleIds: null, error: null };
+  }
+
+  const matchIds: string[] = [];
+  const visibleIds = new Set<string>();
+  // Returns whether the node or one of its descendants matches
+  const visit = (node: TreeNodeType): boolean => {
+    const isMatch = nodeMatches(node, pattern);
+    if (isMatch) matchIds.push(node.id);
+    let hasVisibleChild = false;
+    node.children.forEach((child) => {
+      if (visit(child)) hasVisibleChild = true;
+    });
+    if (isMatch || hasVisibleChild) visibleIds.add(node.id);
+    return isMatch || hasVisibleChild;
+  };
+  nodes.forEach(visit);
+
+  return { pattern, matchIds, visibleIds, error: null };
+}
+
+/**
+ * Returns the match after (`direction` 1) or before (-1) `currentId`, wrapping around.
+ * When `currentId` is not a match, stepping forward starts at the first match and stepping
+ * backward at the last one.
+ */
+export function stepMatch(
+  matchIds: string[],
+  currentId: string | null,
+  direction: 1 | -1
+): string | null {
+  if (matchIds.length === 0) return null;
+  const current = currentId === null ? -1 : matchIds.indexOf(currentId);
+  if (current === -1) {
+    return direction === 1 ? matchIds[0] : matchIds[matchIds.length - 1];
+  }
+  const next = (current + direction + matchIds.length) % matchIds.length;
+  return matchIds[next];
+}
@@ -0,0 +1,243 @@
+import {
+  CURRENT_FORMAT_VERSION,
+  describeStorageError,
+  getFormatVersion,
+  migrate,
+  migrations,
+  parseStoredTree,
+  serializeTree,
+  validateTree,
+} from "./treeStorage";
+import type { TreeNodeType } from "../types/TreeNode";
+
+describe("treeStorage", () => {
+  const sampleTree: TreeNodeType[] = [
+    {
+      id: "root-1",
+      label: "root",
+      value: "80",
+      readOnly: true,
+      children: [{ id: "child-1", label: "child", value: "tcp", children: [] }],
+    },
+  ];
+
+  describe("getFormatVersion", () => {
+    it("should treat a bare array as version 0", () => {
+      expect(getFormatVersion([])).toBe(0);
+    });
+
+    it("should read the version from an envelope", () => {
+      expect(getFormatVersion({ formatVersion: 1, tree: [] })).toBe(1);
+    });
+
+    it.each([
+      null,
+      "text",
+      42,
+      {},
+      { formatVersion: "1" },
+      { formatVersion: -1 },
+    ])("should throw for unrecognized payload %p", (payload) => {
+      expect(() => getFormatVersion(payload)).toThrow(
+        "Unrecognized tree data format"
+      );
+    });
+  });
+
+  describe("migrations", () => {
+    it("should provide one migration per format version", () => {
+      expect(migrations).toHaveLength(CURRENT_FORMAT_VERSION);
+    });
+
+    it("0 -> 1 should wrap a bare array in an envelope", () => {
+      expect(migrations[0](sampleTree)).toEqual({
+        formatVersion: 1,
+        savedAt: null,
+        tree: sampleTree,
+      });
+    });
+  });
+
+  describe("migrate", () => {
+    it("should upgrade legacy bare arrays to the current version", () => {
+      const migrated = migrate(sampleTree) as { formatVersion: number };
+
+      expect(migrated.formatVersion).toBe(CURRENT_FORMAT_VERSION);
+    });
+
+    it("should leave current payloads untouched", () => {
+      const payload = {
+        formatVersion: CURRENT_FORMAT_VERSION,
+        savedAt: null,
+        tree: [],
+      };
+
+      expect(migrate(payload)).toBe(payload);
+    });
+
+    it("should reject payloads from a newer format", () => {
+      expect(() =>
+        migrate({ formatVersion: CURRENT_FORMAT_VERSION + 1, tree: [] })
+      ).toThrow(/newer than supported/);
+    });
+  });
+
+  describe("validateTree", () => {
+    it("should accept a valid nested tree", () => {
+      expect(() => validateTree(sampleTree)).not.toThrow();
+    });
+
+    it("should reject non-array trees", () => {
+      expect(() => validateTree({})).toThrow(
+        "Invalid tree data: tree is not an array"
+      );
+    });
+
+    it.each(["id", "value", "label"])("should require a string %s", (key) => {
+      const node: Record<string, unknown> = {
+        id: "1",
+        value: "",
+        label: "root",
+        children: [],
+      };
+      delete node[key];
+
+      expect(() => validateTree([node])).toThrow(
+        `Invalid tree data: tree[0].${key} must be a string`
+      );
+    });
+
+    it("should require a children array", () => {
+      expect(() =>
+        validateTree([{ id: "1", value: "", label: "root" }])
+      ).toThrow("Invalid tree data: tree[0].children is not an array");
+    });
+
+    it("should report the path of invalid nested nodes", () => {
+      const tree = [
+        {
+          id: "1",
+          value: "",
+          label: "root",
+          children: [{ id: "2", value: 5, label: "child", children: [] }],
+        },
+      ];
+
+      expect(() => validateTree(tree)).toThrow(
+        "Invalid tree data: tree[0].children[0].value must be a string"
+      );
+    });
+
+    it("should accept value types and enum options", () => {
+      expect(() =>
+        validateTree([
+          {
+            id: "1",
+            value: "tcp",
+            label: "protocol",
+            valueType: "enum",
+            options: ["tcp", "udp"],
+            children: [],
+          },
+        ])
+      ).not.toThrow();
+    });
+
+    it("should reject unknown value types", () => {
+      expect(() =>
+        validateTree([
+          { id: "1", value: "", label: "root", children: [], valueType: "x" },
+        ])
+      ).toThrow(
+        "Invalid tree data: tree[0].valueType must be a known value type"
+      );
+    });
+
+    it("should reject options that are not strings", () => {
+      expect(() =>
+        validateTree([
+          { id: "1", value: "", label: "root", children: [], options: [1] },
+        ])
+      ).toThrow(
+        "Invalid tree data: tree[0].options must be an array of strings"
+      );
+    });
+
+    it("should reject a non-boolean readOnly", () => {
+      expect(() =>
+        validateTree([
+          { id: "1", value: "", label: "root", children: [], readOnly: "yes" },
+        ])
+      ).toThrow("Invalid tree data: tree[0].readOnly must be a boolean");
+    });
+
+    it("should reject a non-boolean lockSubtree", () => {
+      expect(() =>
+        validateTree([
+          { id: "1", value: "", label: "root", children: [], lockSubtree: 1 },
+        ])
+      ).toThrow("Invalid tree data: tree[0].lockSubtree must be a boolean");
+    });
+  });
+
+  describe("parseStoredTree", () => {
+    it("should parse legacy bare-array data", () => {
+      expect(parseStoredTree(JSON.stringify(sampleTree))).toEqual({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        savedAt: null,
+        tree: sampleTree,
+      });
+    });
+
+    it("should round-trip serialized trees", () => {
+      const savedAt = new Date("2025-01-01T10:00:00.000Z");
+
+      expect(parseStoredTree(serializeTree(sampleTree, savedAt))).toEqual({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        savedAt: "2025-01-01T10:00:00.000Z",
+        tree: sampleTree,
+      });
+    });
+
+    it("should throw a SyntaxError for malformed JSON", () => {
+      expect(() => parseStoredTree("not-json")).toThrow(SyntaxError);
+    });
+
+    it("should reject envelopes with invalid trees", () => {
+      const raw = JSON.stringify({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        savedAt: null,
+        tree: [{ id: "1" }],
+      });
+
+      expect(() => parseStoredTree(raw)).toThrow(/Invalid tree data/);
+    });
+
+    it("should reject envelopes with an invalid savedAt", () => {
+      const raw = JSON.stringify({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        savedAt: 123,
+        tree: [],
+      });
+
+      expect(() => parseStoredTree(raw)).toThrow(/savedAt/);
+    });
+  });
+
+  describe("describeStorageError", () => {
+    it("should explain quota errors", () => {
+      expect(
+        describeStorageError(
+          new DOMException("The quota has been exceeded.", "QuotaExceededError")
+        )
+      ).toBe("browser storage is full");
+    });
+
+    it("should fall back to the error message", () => {
+      expect(describeStorageError(new Error("Access denied"))).toBe(
+        "Access denied"
+      );
+      expect(describeStorageError("nope")).toBe("nope");
+    });
+  });
+});
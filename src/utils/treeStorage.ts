@@ -0,0 +1,178 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import { isValueType } from "./valueTypes";
+
+/**
+ * Versioned persistence format for TreeNodeType[].
+ *
+ * Trees are stored inside an envelope `{ formatVersion, savedAt, tree }`. Payloads written
+ * by older versions are upgraded on load by running them through `migrations`, one version
+ * at a time, and the result is validated before it is handed to the UI.
+ *
+ * Version history:
+ * - 0: bare `TreeNodeType[]` (no envelope).
+ * - 1: `{ formatVersion: 1, savedAt, tree }`.
+ */
+
+export const CURRENT_FORMAT_VERSION = 1;
+
+export interface StoredTree {
+  formatVersion: number;
+  savedAt: string | null; // ISO timestamp; null when unknown (migrated legacy data)
+  tree: TreeNodeType[];
+}
+
+type Migration = (payload: unknown) => unknown;
+
+/**
+ * `migrations[n]` upgrades a version-n payload to version n + 1.
+ * Append a function here (and bump CURRENT_FORMAT_VERSION) whenever the format changes.
+ */
+export const migrations: Migration[] = [
+  // 0 -> 1: wrap the bare array in an envelope
+  (payload) => ({ formatVersion: 1, savedAt: null, tree: payload }),
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Returns the format version of a parsed payload. Bare arrays are version 0.
+ */
+export function getFormatVersion(payload: unknown): number {
+  if (Array.isArray(payload)) return 0;
+  if (
+    isRecord(payload) &&
+    Number.isInteger(payload.formatVersion) &&
+    (payload.formatVersion as number) >= 0
+  ) {
+    return payload.formatVersion as number;
+  }
+  throw new Error("Unrecognized tree data format");
+}
+
+/**
+ * Runs `payload` through every migration between its version and CURRENT_FORMAT_VERSION.
+ * Throws for payloads written by a newer version of the app.
+ */
+export function migrate(payload: unknown): unknown {
+  let version = getFormatVersion(payload);
+  if (version > CURRENT_FORMAT_VERSION) {
+    throw new Error(
+      `Tree data format ${version} is newer than supported format ${CURRENT_FORMAT_VERSION}`
+    );
+  }
+  let current = payload;
+  while (version < CURRENT_FORMAT_VERSION) {
+    current = migrations[version](current);
+    version = getFormatVersion(current);
+  }
+  return current;
+}
+
+/**
+ * Checks that `value` is a TreeNodeType[]: every node needs a string `id`, `value` and
+ * `label` and a `children` array; `readOnly` and `lockSubtree`, when present, must be booleans,
+ * `valueType` a known value type and `options` an array of strings.
+ * Throws an Error naming the offending node path otherwise.
+ */
+export function validateTree(
+  value: unknown,
+  path = "tree"
+): asserts value is TreeNodeType[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid tree data: ${path} is not an array`);
+  }
+  value.forEach((node, idx) => {
+    const nodePath = `${path}[${idx}]`;
+    if (!isRecord(node)) {
+      throw new Error(`Invalid tree data: ${nodePath} is not an object`);
+    }
+    for (const key of ["id", "value", "label"]) {
+      if (typeof node[key] !== "string") {
+        throw new Error(
+          `Invalid tree data: ${nodePath}.${key} must be a string`
+        );
+      }
+    }
+    for (const key of ["readOnly", "lockSubtree"]) {
+      if (node[key] !== undefined && typeof node[key] !== "boolean") {
+        throw new Error(
+          `Invalid tree data: ${nodePath}.${key} must be a boolean`
+        );
+      }
+    }
+    if (node.valueType !== undefined && !isValueType(node.valueType)) {
+      throw new Error(
+        `Invalid tree data: ${nodePath}.valueType must be a known value type`
+      );
+    }
+    if (
+      node.options !== undefined &&
+      !(
+        Array.isArray(node.options) &&
+        node.options.every((option) => typeof option === "string")
+      )
+    ) {
+      throw new Error(
+        `Invalid tree data: ${nodePath}.options must be an array of strings`
+      );
+    }
+    validateTree(node.children, `${nodePath}.children`);
+  });
+}
+
+/**
+ * Parses a stored string of any supported version into a current, validated StoredTree.
+ * Throws a SyntaxError for malformed JSON and an Error for unsupported or invalid data.
+ */
+export function parseStoredTree(raw: string): StoredTree {
+  return readStoredPayload(JSON.parse(raw));
+}
+
+/**
+ * Like parseStoredTree, for a payload that has already been decoded (e.g. from YAML).
+ */
+export function readStoredPayload(decoded: unknown): StoredTree {
+  const payload = migrate(decoded);
+  if (!isRecord(payload)) {
+    throw new Error("Invalid tree data: envelope is not an object");
+  }
+  if (payload.savedAt !== null && typeof payload.savedAt !== "string") {
+    throw new Error("Invalid tree data: savedAt must be a string or null");
+  }
+  validateTree(payload.tree);
+  return {
+    formatVersion: payload.formatVersion as number,
+    savedAt: payload.savedAt as string | null,
+    tree: payload.tree,
+  };
+}
+
+/**
+ * Serializes a tree into the current envelope format. Pass `space` to pretty-print.
+ */
+export function serializeTree(
+  tree: TreeNodeType[],
+  savedAt: Date = new Date(),
+  space?: number
+): string {
+  const envelope: StoredTree = {
+    formatVersion: CURRENT_FORMAT_VERSION,
+    savedAt: savedAt.toISOString(),
+    tree,
+  };
+  return JSON.stringify(envelope, null, space);
+}
+
+// Names browsers give the error thrown when localStorage is full
+const QUOTA_ERROR_NAMES = ["QuotaExceededError", "NS_ERROR_DOM_QUOTA_REACHED"];
+
+/**
+ * Describes why writing to localStorage failed, for the user.
+ */
+export function describeStorageError(error: unknown): string {
+  if (error instanceof Error && QUOTA_ERROR_NAMES.includes(error.name)) {
+    return "browser storage is full";
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,141 @@
+import { applyTreeAction, coalesceKeyOf } from "./treeActions";
+import type { TreeAction } from "./treeActions";
+import { emptyStore, normalizeTree, selectTree } from "./treeStore";
+import type { TreeStore } from "./treeStore";
+import { checkPorts } from "./portValidation";
+import { collectLocks } from "./treeLocks";
+import { EMPTY_SEARCH, searchTree } from "./treeSearch";
+import { flattenTree } from "./treeRows";
+import type { TreeNodeType } from "../types/TreeNode";
+import { node } from "../test/treeFixtures";
+
+/**
+ * Benchmarks of edits on a 10k-node tree, as usePortTemplate makes them: apply the action to
+ * the store, work out its undo coalescing key and select the tree to render. The last one adds
+ * the passes PortTemplate makes over the selected tree whenever it changes (port checks, locks,
+ * search and rows), which dominate the cost of a keystroke.
+ *
+ * They assert wall-clock budgets, so they are not part of `npm test`: run them with
+ * `npm run bench`. Budgets are about twice the measured cost, so that an edit or a pass that
+ * gets slower than linear in the size of the tree fails them.
+ */
+
+const port = (id: string, value: string): TreeNodeType => ({
+  ...node(id),
+  value,
+  valueType: "port",
+});
+
+// 100 roots with 10 children with 9 ports each: 10,100 nodes
+const bigTree = Array.from({ length: 100 }, (_, r) =>
+  node(
+    `r${r}`,
+    Array.from({ length: 10 }, (_, c) =>
+      node(
+        `r${r}c${c}`,
+        Array.from({ length: 9 }, (_, g) =>
+          port(`r${r}c${c}g${g}`, `${1024 + r * 90 + c * 9 + g}`)
+        )
+      )
+    )
+  )
+);
+
+const time = (run: () => void) => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+// The passes PortTemplate makes over the tree when it changes, with nothing collapsed
+const renderPasses = (tree: TreeNodeType[]) => {
+  checkPorts(tree, "template");
+  collectLocks(tree);
+  searchTree(tree, { ...EMPTY_SEARCH, text: "g5" });
+  flattenTree(tree, { collapsedIds: new Set(), visibleIds: null });
+};
+
+// Applies `count` actions the way the hook does, selecting the tree after each one
+const edit = (
+  store: TreeStore,
+  count: number,
+  actionAt: (i: number) => TreeAction,
+  render?: (tree: TreeNodeType[]) => void
+) => {
+  let current = store;
+  for (let i = 0; i < count; i++) {
+    const action = actionAt(i);
+    coalesceKeyOf(current, action);
+    current = applyTreeAction(current, action);
+    const tree = selectTree(current);
+    render?.(tree);
+  }
+  return current;
+};
+
+const typeInto = (i: number): TreeAction => {
+  const id = `r${i % 100}c${i % 10}g${i % 9}`;
+  return { type: "update", nodeId: id, node: port(id, `${30000 + i}`) };
+};
+
+describe("treeStore benchmarks (10k nodes)", () => {
+  const store = normalizeTree(bigTree);
+
+  beforeAll(() => edit(store, 200, typeInto)); // warm up
+
+  it("should apply 1,000 keystrokes within 5 seconds", () => {
+    expect(time(() => edit(store, 1000, typeInto))).toBeLessThan(5000);
+  });
+
+  it("should insert, move and delete 100 nodes each within 3 seconds", () => {
+    const elapsed = time(() => {
+      let current = edit(store, 100, (i) => ({
+        type: "insert",
+        parentId: `r${i}c5`,
+        nodes: [node(`new${i}`, [node(`new${i}child`)])],
+      }));
+      current = edit(current, 100, (i) => ({
+        type: "move",
+        nodeId: `new${i}`,
+        parentId: `r${99 - i}`,
+        index: 0,
+      }));
+      edit(current, 100, (i) => ({ type: "delete", nodeId: `new${i}` }));
+    });
+
+    expect(elapsed).toBeLessThan(3000);
+  });
+
+  it("should indent and outdent 100 nodes within 2 seconds", () => {
+    const elapsed = time(() => {
+      const indented = edit(store, 100, (i) => ({
+        type: "indent",
+        nodeId: `r${i}c${(i % 9) + 1}`,
+      }));
+      edit(indented, 100, (i) => ({
+        type: "outdent",
+        nodeId: `r${i}c${(i % 9) + 1}`,
+      }));
+    });
+
+    expect(elapsed).toBeLessThan(2000);
+  });
+
+  it("should load and replace the tree within a second", () => {
+    const elapsed = time(() => {
+      const loaded = applyTreeAction(emptyStore, {
+        type: "set",
+        tree: bigTree,
+      });
+      selectTree(loaded);
+    });
+
+    expect(elapsed).toBeLessThan(1000);
+  });
+
+  it("should type and render 100 keystrokes within 2.5 seconds", () => {
+    expect(time(() => edit(store, 100, typeInto, renderPasses))).toBeLessThan(
+      2500
+    );
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  childIdsOf,
+  emptyStore,
+  getNode,
+  insertNodes,
+  isInSubtree,
+  locationOf,
+  moveNode,
+  nodeIdsOf,
+  normalizeTree,
+  parentIdOf,
+  removeNode,
+  selectNode,
+  selectTree,
+  subtreeIds,
+  toRecord,
+  updateNode,
+} from "./treeStore";
+import type { TreeStore } from "./treeStore";
+import type { TreeNodeType } from "../types/TreeNode";
+import { node, treeShape } from "../test/treeFixtures";
+
+// a          d
+// ├── b
+// │   └── c
+// └── e
+const tree: TreeNodeType[] = [
+  node("a", [node("b", [node("c")]), node("e")]),
+  node("d"),
+];
+const store = normalizeTree(tree);
+
+const shape = (s: TreeStore) => treeShape(selectTree(s));
+
+describe("treeStore", () => {
+  describe("normalizeTree", () => {
+    it("should index nodes, their children and their parents", () => {
+      expect(getNode(store, "b")).toEqual({ id: "b", label: "b", value: "" });
+      expect(childIdsOf(store, "a")).toEqual(["b", "e"]);
+      expect(childIdsOf(store, null)).toEqual(["a", "d"]);
+      expect(parentIdOf(store, "c")).toBe("b");
+      expect(parentIdOf(store, "a")).toBeNull();
+      expect(parentIdOf(store, "x")).toBeUndefined();
+      expect(nodeIdsOf(store).sort()).toEqual(["a", "b", "c", "d", "e"]);
+    });
+
+    it("should select the tree it was made from", () => {
+      expect(selectTree(store)).toBe(tree);
+      expect(normalizeTree([])).toBe(emptyStore);
+      expect(selectTree(emptyStore)).toEqual([]);
+    });
+  });
+
+  describe("toRecord", () => {
+    it("should drop the children", () => {
+      expect(toRecord({ ...node("a", [node("b")]), readOnly: true })).toEqual({
+        id: "a",
+        label: "a",
+        value: "",
+        readOnly: true,
+      });
+    });
+  });
+
+  describe("queries", () => {
+    it("should locate nodes", () => {
+      expect(locationOf(store, "e")).toEqual({
+        parentId: "a",
+        siblingIds: ["b", "e"],
+        index: 1,
+      });
+      expect(locationOf(store, "d")?.parentId).toBeNull();
+      expect(locationOf(store, "x")).toBeUndefined();
+    });
+
+    it("should list the ids of a subtree, parents first", () => {
+      expect(subtreeIds(store, "a")).toEqual(["a", "b", "e", "c"]);
+      expect(subtreeIds(store, "x")).toEqual([]);
+    });
+
+    it("should tell whether a node is in another's subtree", () => {
+      expect(isInSubtree(store, "a", "c")).toBe(true);
+      expect(isInSubtree(store, "c", "c")).toBe(true);
+      expect(isInSubtree(store, "c", "a")).toBe(false);
+      expect(isInSubtree(store, "d", "c")).toBe(false);
+    });
+
+    it("should select a node with its subtree", () => {
+      expect(selectNode(store, "b")).toBe(tree[0].children[0]);
+      expect(selectNode(store, "x")).toBeUndefined();
+    });
+  });
+
+  describe("updateNode", () => {
+    it("should replace the record of a node", () => {
+      const updated = updateNode(store, "c", (r) => ({ ...r, value: "80" }));
+
+      expect(getNode(updated, "c")?.value).toBe("80");
+      expect(getNode(store, "c")?.value).toBe("");
+      expect(selectTree(updated)[0].children[0].children[0].value).toBe("80");
+    });
+
+    it("should return the same store when nothing changes", () => {
+      expect(updateNode(store, "x", (r) => ({ ...r, value: "80" }))).toBe(
+        store
+      );
+      expect(updateNode(store, "c", (r) => r)).toBe(store);
+    });
+  });
+
+  describe("insertNodes", () => {
+    it("should insert subtrees under a parent, at an index or at the end", () => {
+      const inserted = insertNodes(store, "a", [node("x", [node("y")])], 1);
+
+      expect(shape(inserted)).toEqual([
+        { a: [{ b: ["c"] }, { x: ["y"] }, "e"] },
+        "d",
+      ]);
+      expect(parentIdOf(inserted, "y")).toBe("x");
+      expect(shape(insertNodes(store, null, [node("x")]))).toEqual([
+        { a: [{ b: ["c"] }, "e"] },
+        "d",
+        "x",
+      ]);
+    });
+
+    it("should return the same store for unknown parents or no nodes", () => {
+      expect(insertNodes(store, "x", [node("y")])).toBe(store);
+      expect(insertNodes(store, "a", [])).toBe(store);
+    });
+  });
+
+  describe("removeNode", () => {
+    it("should remove a node with its subtree", () => {
+      const removed = removeNode(store, "b");
+
+      expect(shape(removed)).toEqual([{ a: ["e"] }, "d"]);
+      expect(getNode(removed, "c")).toBeUndefined();
+      expect(shape(removeNode(store, "a"))).toEqual(["d"]);
+    });
+
+    it("should return the same store for unknown ids", () => {
+      expect(removeNode(store, "x")).toBe(store);
+    });
+  });
+
+  describe("moveNode", () => {
+    it("should move a node with its subtree", () => {
+      const moved = moveNode(store, "b", "d", 0);
+
+      expect(shape(moved)).toEqual([{ a: ["e"] }, { d: [{ b: ["c"] }] }]);
+      expect(parentIdOf(moved, "b")).toBe("d");
+      expect(shape(moveNode(store, "c", null, 1))).toEqual([
+        { a: ["b", "e"] },
+        "c",
+        "d",
+      ]);
+    });
+
+    it("should interpret the index as a slot before the move", () => {
+      expect(shape(moveNode(store, "b", "a", 2))).toEqual([
+        { a: ["e", { b: ["c"] }] },
+        "d",
+      ]);
+    });
+
+    it("should return the same store for moves that do not apply", () => {
+      expect(moveNode(store, "b", "a", 0)).toBe(store); // where it is
+      expect(moveNode(store, "b", "a", 1)).toBe(store); // where it is
+      expect(moveNode(store, "a", "c", 0)).toBe(store); // its own subtree
+      expect(moveNode(store, "a", "a", 0)).toBe(store); // itself
+      expect(moveNode(store, "x", null, 0)).toBe(store); // unknown node
+      expect(moveNode(store, "b", "x", 0)).toBe(store); // unknown parent
+    });
+  });
+
+  describe("selectTree", () => {
+    // Nodes are reused from the last store that built them, so each test starts afresh
+    const fresh = () => {
+      const tree = [node("a", [node("b", [node("c")]), node("e")]), node("d")];
+      return { tree, store: normalizeTree(tree) };
+    };
+
+    it("should reuse the subtrees that did not change", () => {
+      const { tree, store } = fresh();
+      const updated = updateNode(store, "c", (r) => ({ ...r, value: "80" }));
+      const next = selectTree(updated);
+
+      expect(next[1]).toBe(tree[1]);
+      expect(next[0].children[1]).toBe(tree[0].children[1]);
+      expect(next[0]).not.toBe(tree[0]);
+    });
+
+    it("should reuse moved subtrees", () => {
+      const { tree, store } = fresh();
+      const next = selectTree(moveNode(store, "b", "d", 0));
+
+      expect(next[1].children[0]).toBe(tree[0].children[0]);
+    });
+
+    it("should build each store's tree once", () => {
+      const { tree, store } = fresh();
+      const moved = moveNode(store, "b", "d", 0);
+      const next = selectTree(moved);
+      selectTree(store);
+
+      expect(selectTree(moved)).toBe(next);
+      expect(selectTree(store)).toBe(tree);
+    });
+
+    it("should build trees after several operations", () => {
+      let edited = store;
+      edited = insertNodes(edited, "c", [node("x", [node("y")])]);
+      edited = moveNode(edited, "x", null, 0);
+      edited = updateNode(edited, "y", (r) => ({ ...r, label: "why" }));
+      edited = removeNode(edited, "e");
+
+      expect(shape(edited)).toEqual([{ x: ["y"] }, { a: [{ b: ["c"] }] }, "d"]);
+      expect(selectTree(edited)[0].children[0].label).toBe("why");
+      expect(selectTree(edited)[1].children[0]).toEqual(tree[0].children[0]);
+    });
+
+    it("should build trees of stores whose nodes were never selected", () => {
+      const base = insertNodes(normalizeTree([]), null, [node("a")]);
+      const next = updateNode(base, "a", (r) => ({ ...r, value: "80" }));
+
+      expect(selectTree(next)).toEqual([{ ...node("a"), value: "80" }]);
+      expect(selectTree(base)).toEqual([node("a")]);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import { walkTree } from "./treeOps";
+
+/**
+ * A tree held as id-indexed tables instead of nested TreeNodeType[].
+ *
+ * Finding a node, its parent or its children is a lookup, and changing one node replaces its
+ * entry instead of copying every ancestor. Operations copy the tables they change and share
+ * every node record and list of children they do not touch with the previous store. Like
+ * treeOps, nothing is mutated: operations return a new store or, when they cannot apply, the
+ * store they were given.
+ *
+ * selectTree rebuilds the nested TreeNodeType[] that the rest of the app renders and saves,
+ * once per store. Nodes whose record and children did not change since they were last built
+ * are reused, so unchanged subtrees keep their identity from one store to the next. A store
+ * normalized from a tree selects that very tree.
+ */
+
+// A node without its children, which the store keeps in `childIds`
+export type NodeRecord = Omit<TreeNodeType, "children">;
+
+export interface TreeStore {
+  nodesById: ReadonlyMap<string, NodeRecord>;
+  childIds: ReadonlyMap<string, string[]>; // in order
+  parentId: ReadonlyMap<string, string | null>; // null for root nodes
+  rootIds: string[]; // in order
+}
+
+export interface StoreLocation {
+  parentId: string | null; // null for root nodes
+  siblingIds: string[]; // the children of the parent (or the roots), including the node
+  index: number; // position of the node among `siblingIds`
+}
+
+export const emptyStore: TreeStore = {
+  nodesById: new Map(),
+  childIds: new Map(),
+  parentId: new Map(),
+  rootIds: [],
+};
+
+/**
+ * The fields of `node` without its children.
+ */
+export const toRecord = (node: TreeNodeType): NodeRecord => {
+  const record: Partial<TreeNodeType> = { ...node };
+  delete record.children;
+  return record as NodeRecord;
+};
+
+// The tree of each store, built once (see selectTree)
+const trees = new WeakMap<TreeStore, TreeNodeType[]>();
+// The node last built from each record
+const builtNodes = new WeakMap<NodeRecord, TreeNodeType>();
+
+/**
+ * Adds `nodes` and their descendants under `parentId` to copies of the tables, leaving the list
+ * of children of `parentId` to the caller.
+ */
+const addNodes = (
+  store: TreeStore,
+  nodes: TreeNodeType[],
+  parentId: string | null
+): TreeStore => {
+  const nodesById = new Map(store.nodesById);
+  const childIds = new Map(store.childIds);
+  const parentIds = new Map(store.parentId);
+  walkTree(
+    nodes,
+    (node, location) => {
+      const record = toRecord(node);
+      builtNodes.set(record, node);
+      nodesById.set(node.id, record);
+      childIds.set(
+        node.id,
+        node.children.map((child) => child.id)
+      );
+      parentIds.set(node.id, location.parentId);
+    },
+    parentId
+  );
+  return { ...store, nodesById, childIds, parentId: parentIds };
+};
+
+/**
+ * The store of `nodes`; emptyStore itself when there are none.
+ */
+export function normalizeTree(nodes: TreeNodeType[]): TreeStore {
+  if (nodes.length === 0) return emptyStore;
+  const store = {
+    ...addNodes(emptyStore, nodes, null),
+    rootIds: nodes.map((node) => node.id),
+  };
+  trees.set(store, nodes);
+  return store;
+}
+
+export const hasNode = (store: TreeStore, nodeId: string) =>
+  store.nodesById.has(nodeId);
+
+export const getNode = (store: TreeStore, nodeId: string) =>
+  store.nodesById.get(nodeId);
+
+/**
+ * Id of the parent of `nodeId`: null for root nodes, undefined for unknown ids.
+ */
+export const parentIdOf = (store: TreeStore, nodeId: string) =>
+  store.parentId.get(nodeId);
+
+/**
+ * Ids of the children of `parentId`, or of the roots when it is null.
+ */
+export const childIdsOf = (store: TreeStore, parentId: string | null) =>
+  parentId === null ? store.rootIds : store.childIds.get(parentId) ?? [];
+
+/**
+ * The ids of every node of `store`, in no particular order.
+ */
+export const nodeIdsOf = (store: TreeStore) => [...store.nodesById.keys()];
+
+export function locationOf(
+  store: TreeStore,
+  nodeId: string
+): StoreLocation | undefined {
+  const parentId = parentIdOf(store, nodeId);
+  if (parentId === undefined) return undefined;
+  const siblingIds = childIdsOf(store, parentId);
+  return { parentId, siblingIds, index: siblingIds.indexOf(nodeId) };
+}
+
+/**
+ * Ids of the node and all its descendants, parents before their children.
+ */
+export function subtreeIds(store: TreeStore, nodeId: string): string[] {
+  if (!hasNode(store, nodeId)) return [];
+  const ids = [nodeId];
+  for (let i = 0; i < ids.length; i++) ids.push(...childIdsOf(store, ids[i]));
+  return ids;
+}
+
+/**
+ * Whether `ancestorId` is `nodeId` itself or one of its ancestors; only walks up from `nodeId`.
+ */
+export function isInSubtree(
+  store: TreeStore,
+  ancestorId: string,
+  nodeId: string
+): boolean {
+  let id: string | null | undefined = nodeId;
+  while (id !== null && id !== undefined) {
+    if (id === ancestorId) return true;
+    id = parentIdOf(store, id);
+  }
+  return false;
+}
+
+const sameItems = <T>(a: T[], b: T[]) =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
+/**
+ * The nested node with id `nodeId`, which must be in `store`: the node last built from its
+ * record when its children are the same nodes, a new one otherwise.
+ */
+const buildNode = (store: TreeStore, nodeId: string): TreeNodeType => {
+  const record = getNode(store, nodeId) as NodeRecord;
+  const children = childIdsOf(store, nodeId).map((id) => buildNode(store, id));
+  const previous = builtNodes.get(record);
+  if (previous && sameItems(previous.children, children)) return previous;
+  const node = { ...record, children };
+  builtNodes.set(record, node);
+  return node;
+};
+
+/**
+ * The nested tree held by `store`, built once per store. Building it walks every node but only
+ * allocates the nodes that changed since they were last built, and their ancestors.
+ */
+export function selectTree(store: TreeStore): TreeNodeType[] {
+  let tree = trees.get(store);
+  if (!tree) {
+    tree = store.rootIds.map((id) => buildNode(store, id));
+    trees.set(store, tree);
+  }
+  return tree;
+}
+
+/**
+ * The node with id `nodeId` and its nested subtree, or undefined.
+ */
+export const selectNode = (
+  store: TreeStore,
+  nodeId: string
+): TreeNodeType | undefined =>
+  hasNode(store, nodeId) ? buildNode(store, nodeId) : undefined;
+
+/**
+ * Replaces the record of the node with id `nodeId` with `update(record)`.
+ */
+export function updateNode(
+  store: TreeStore,
+  nodeId: string,
+  update: (record: NodeRecord) => NodeRecord
+): TreeStore {
+  const record = getNode(store, nodeId);
+  if (!record) return store;
+  const updated = update(record);
+  if (updated === record) return store;
+  return {
+    ...store,
+    nodesById: new Map(store.nodesById).set(nodeId, updated),
+  };
+}
+
+// Copy of `ids` with `inserted` at `index`, clamped to the list
+const insertIds = (ids: string[], inserted: string[], index?: number) => {
+  const slot = Math.max(0, Math.min(index ?? ids.length, ids.length));
+  return [...ids.slice(0, slot), ...inserted, ...ids.slice(slot)];
+};
+
+// Store whose list of children of `parentId` (or roots) is `ids`
+const withChildIds = (
+  store: TreeStore,
+  parentId: string | null,
+  ids: string[]
+): TreeStore =>
+  parentId === null
+    ? { ...store, rootIds: ids }
+    : { ...store, childIds: new Map(store.childIds).set(parentId, ids) };
+
+/**
+ * Inserts `nodes` (with their subtrees) at `index` in the children of `parentId` (null for the
+ * root level); they are appended when `index` is omitted or past the end.
+ */
+export function insertNodes(
+  store: TreeStore,
+  parentId: string | null,
+  nodes: TreeNodeType[],
+  index?: number
+): TreeStore {
+  if (nodes.length === 0) return store;
+  if (parentId !== null && !hasNode(store, parentId)) return store;
+  const ids = insertIds(
+    childIdsOf(store, parentId),
+    nodes.map((node) => node.id),
+    index
+  );
+  return withChildIds(addNodes(store, nodes, parentId), parentId, ids);
+}
+
+/**
+ * Removes the node with id `nodeId` and its whole subtree.
+ */
+export function removeNode(store: TreeStore, nodeId: string): TreeStore {
+  const parentId = parentIdOf(store, nodeId);
+  if (parentId === undefined) return store;
+  const nodesById = new Map(store.nodesById);
+  const childIds = new Map(store.childIds);
+  const parentIds = new Map(store.parentId);
+  subtreeIds(store, nodeId).forEach((id) => {
+    nodesById.delete(id);
+    childIds.delete(id);
+    parentIds.delete(id);
+  });
+  return withChildIds(
+    { ...store, nodesById, childIds, parentId: parentIds },
+    parentId,
+    childIdsOf(store, parentId).filter((id) => id !== nodeId)
+  );
+}
+
+/**
+ * Moves a node (with its whole subtree) under `targetParentId` (null for the root level), with
+ * the same `index` semantics as treeOps.moveNode: the slot in the target's children as they are
+ * before the move. Moves into the node's own subtree are ignored.
+ */
+export function moveNode(
+  store: TreeStore,
+  nodeId: string,
+  targetParentId: string | null,
+  index: number
+): TreeStore {
+  const sourceParentId = parentIdOf(store, nodeId);
+  if (sourceParentId === undefined) return store;
+  if (targetParentId !== null) {
+    if (!hasNode(store, targetParentId)) return store;
+    if (isInSubtree(store, nodeId, targetParentId)) return store;
+  }
+
+  const targetIds = childIdsOf(store, targetParentId);
+  const currentIndex =
+    sourceParentId === targetParentId ? targetIds.indexOf(nodeId) : -1;
+  const slot = Math.max(0, Math.min(index, targetIds.length));
+  const insertAt = currentIndex !== -1 && currentIndex < slot ? slot - 1 : slot;
+  if (currentIndex === insertAt) return store;
+
+  const detached = withChildIds(
+    store,
+    sourceParentId,
+    childIdsOf(store, sourceParentId).filter((id) => id !== nodeId)
+  );
+  const moved = withChildIds(
+    detached,
+    targetParentId,
+    insertIds(childIdsOf(detached, targetParentId), [nodeId], insertAt)
+  );
+  return {
+    ...moved,
+    parentId: new Map(moved.parentId).set(nodeId, targetParentId),
+  };
+}
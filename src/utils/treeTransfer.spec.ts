@@ -0,0 +1,216 @@
+import {
+  EXPORT_FORMATS,
+  collectIds,
+  downloadFile,
+  exportTreeJson,
+  parseImportedTree,
+  readTreeFile,
+  regenerateCollidingIds,
+  toFileName,
+} from "./treeTransfer";
+import { CURRENT_FORMAT_VERSION } from "./treeStorage";
+import type { TreeNodeType } from "../types/TreeNode";
+
+let uuidCounter = 0;
+jest.mock("uuid", () => ({
+  v4: jest.fn(() => `mock-uuid-${++uuidCounter}`),
+}));
+
+describe("treeTransfer", () => {
+  const sampleTree: TreeNodeType[] = [
+    {
+      id: "root-1",
+      label: "root",
+      value: "web",
+      children: [
+        { id: "child-1", label: "child", value: "80", children: [] },
+        { id: "child-2", label: "child", value: "443", children: [] },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    uuidCounter = 0;
+  });
+
+  describe("exportTreeJson", () => {
+    it("should pretty-print the tree in the storage envelope", () => {
+      const json = exportTreeJson(sampleTree);
+
+      expect(json).toContain('\n  "formatVersion"');
+      expect(JSON.parse(json)).toEqual({
+        formatVersion: CURRENT_FORMAT_VERSION,
+        savedAt: expect.any(String),
+        tree: sampleTree,
+      });
+    });
+  });
+
+  describe("parseImportedTree", () => {
+    it("should round-trip exported trees", () => {
+      expect(parseImportedTree(exportTreeJson(sampleTree))).toEqual(sampleTree);
+    });
+
+    it("should accept a bare node array", () => {
+      expect(parseImportedTree(JSON.stringify(sampleTree))).toEqual(sampleTree);
+    });
+
+    it("should reject trees with missing fields", () => {
+      expect(() =>
+        parseImportedTree(JSON.stringify([{ id: "1", value: "" }]))
+      ).toThrow("Invalid tree data: tree[0].label must be a string");
+    });
+  });
+
+  describe("readTreeFile", () => {
+    it("should read and parse a file", async () => {
+      const file = new File([JSON.stringify(sampleTree)], "tree.json");
+
+      await expect(readTreeFile(file)).resolves.toEqual(sampleTree);
+    });
+
+    it("should reject malformed files", async () => {
+      const file = new File(["{oops"], "tree.json");
+
+      await expect(readTreeFile(file)).rejects.toThrow(SyntaxError);
+    });
+
+    it("should parse .yaml and .yml files as YAML", async () => {
+      const yaml = EXPORT_FORMATS.yaml.serialize(sampleTree);
+
+      await expect(
+        readTreeFile(new File([yaml], "tree.yaml"))
+      ).resolves.toEqual(sampleTree);
+      await expect(readTreeFile(new File([yaml], "TREE.YML"))).resolves.toEqual(
+        sampleTree
+      );
+    });
+
+    it("should coerce typed values", async () => {
+      const typed = [
+        {
+          id: "http",
+          label: "http",
+          value: " 080",
+          valueType: "port",
+          children: [],
+        },
+        {
+          id: "tls",
+          label: "tls",
+          value: "yes",
+          valueType: "boolean",
+          children: [],
+        },
+      ];
+      const file = new File([JSON.stringify(typed)], "tree.json");
+
+      const tree = await readTreeFile(file);
+
+      expect(tree.map((node) => node.value)).toEqual(["80", "true"]);
+    });
+  });
+
+  describe("EXPORT_FORMATS", () => {
+    it("should serialize JSON with the JSON MIME type", () => {
+      const { extension, mimeType, serialize } = EXPORT_FORMATS.json;
+
+      expect(extension).toBe("json");
+      expect(mimeType).toBe("application/json");
+      expect(parseImportedTree(serialize(sampleTree))).toEqual(sampleTree);
+    });
+
+    it("should serialize both YAML forms as .yaml files", () => {
+      expect(EXPORT_FORMATS.yaml.extension).toBe("yaml");
+      expect(EXPORT_FORMATS["yaml-compact"].extension).toBe("yaml");
+      expect(EXPORT_FORMATS["yaml-compact"].mimeType).toBe("application/yaml");
+      expect(
+        EXPORT_FORMATS["yaml-compact"].serialize([
+          { id: "a", label: "http", value: "80", children: [] },
+        ])
+      ).toBe('http: "80"\n');
+    });
+  });
+
+  describe("collectIds", () => {
+    it("should collect ids at every depth", () => {
+      expect([...collectIds(sampleTree)]).toEqual([
+        "root-1",
+        "child-1",
+        "child-2",
+      ]);
+    });
+  });
+
+  describe("regenerateCollidingIds", () => {
+    it("should keep ids that do not collide", () => {
+      expect(regenerateCollidingIds(sampleTree, new Set(["other"]))).toEqual(
+        sampleTree
+      );
+    });
+
+    it("should replace ids already taken, preserving structure", () => {
+      const result = regenerateCollidingIds(
+        sampleTree,
+        new Set(["root-1", "child-2"])
+      );
+
+      expect(result[0].id).toBe("mock-uuid-1");
+      expect(result[0].children.map((n) => n.id)).toEqual([
+        "child-1",
+        "mock-uuid-2",
+      ]);
+      expect(result[0].children[1].value).toBe("443");
+    });
+
+    it("should replace ids repeated within the imported tree", () => {
+      const duplicated: TreeNodeType[] = [
+        { id: "dup", label: "root", value: "a", children: [] },
+        { id: "dup", label: "root", value: "b", children: [] },
+      ];
+
+      expect(
+        regenerateCollidingIds(duplicated, new Set()).map((n) => n.id)
+      ).toEqual(["dup", "mock-uuid-1"]);
+    });
+
+    it("should not modify the taken id set", () => {
+      const taken = new Set(["root-1"]);
+
+      regenerateCollidingIds(sampleTree, taken);
+
+      expect([...taken]).toEqual(["root-1"]);
+    });
+  });
+
+  describe("toFileName", () => {
+    it.each([
+      ["Web ports", "web-ports.json"],
+      ["  DB / Cache!! ", "db-cache.json"],
+      ["", "port-template.json"],
+      ["???", "port-template.json"],
+    ])("should turn %p into %p", (name, expected) => {
+      expect(toFileName(name, "json")).toBe(expected);
+    });
+  });
+
+  describe("downloadFile", () => {
+    it("should click a temporary link to the file contents", () => {
+      const createObjectURL = jest.fn(() => "blob:tree");
+      const revokeObjectURL = jest.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const clickSpy = jest
+        .spyOn(HTMLAnchorElement.prototype, "click")
+        .mockImplementation(() => {});
+
+      downloadFile("tree.json", "{}", "application/json");
+
+      const link = clickSpy.mock.instances[0] as unknown as HTMLAnchorElement;
+      expect(link.download).toBe("tree.json");
+      expect(link.href).toBe("blob:tree");
+      expect(link.isConnected).toBe(false);
+      expect(revokeObjectURL).toHaveBeenCalledWith("blob:tree");
+      clickSpy.mockRestore();
+    });
+  });
+});
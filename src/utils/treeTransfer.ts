@@ -0,0 +1,137 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import { v4 as uuidv4 } from "uuid";
+import { parseStoredTree, serializeTree } from "./treeStorage";
+import { YAML_MIME_TYPE, parseTreeYaml, stringifyTreeYaml } from "./treeYaml";
+import { coerceTreeValues } from "./valueTypes";
+
+/**
+ * Helpers for moving trees in and out of the app as files.
+ *
+ * Exported files use the same versioned envelope as localStorage (see treeStorage), so an
+ * imported file goes through the same migrations and validation as saved data. YAML files
+ * are handled by treeYaml.
+ */
+
+export const JSON_MIME_TYPE = "application/json";
+
+export function exportTreeJson(tree: TreeNodeType[]): string {
+  return serializeTree(tree, new Date(), 2);
+}
+
+/**
+ * Parses an exported file (or a bare TreeNodeType[]) and validates its shape.
+ * Throws a SyntaxError for malformed JSON and an Error for invalid trees.
+ */
+export function parseImportedTree(text: string): TreeNodeType[] {
+  return parseStoredTree(text).tree;
+}
+
+export type ExportFormat = "json" | "yaml" | "yaml-compact";
+
+interface ExportFormatSpec {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (tree: TreeNodeType[]) => string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatSpec> = {
+  json: {
+    label: "JSON",
+    extension: "json",
+    mimeType: JSON_MIME_TYPE,
+    serialize: exportTreeJson,
+  },
+  yaml: {
+    label: "YAML",
+    extension: "yaml",
+    mimeType: YAML_MIME_TYPE,
+    serialize: (tree) => stringifyTreeYaml(tree, "verbose"),
+  },
+  "yaml-compact": {
+    label: "YAML (compact)",
+    extension: "yaml",
+    mimeType: YAML_MIME_TYPE,
+    serialize: (tree) => stringifyTreeYaml(tree, "compact"),
+  },
+};
+
+const isYamlFileName = (name: string) => /\.ya?ml$/i.test(name);
+
+const readFileText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+/**
+ * Reads an imported file; `.yaml` / `.yml` files are parsed as YAML, anything else as JSON.
+ * Typed values are coerced to their type (see coerceValue).
+ */
+export async function readTreeFile(file: File): Promise<TreeNodeType[]> {
+  const text = await readFileText(file);
+  return coerceTreeValues(
+    isYamlFileName(file.name) ? parseTreeYaml(text) : parseImportedTree(text)
+  );
+}
+
+export function collectIds(
+  nodes: TreeNodeType[],
+  ids: Set<string> = new Set()
+): Set<string> {
+  nodes.forEach((node) => {
+    ids.add(node.id);
+    collectIds(node.children, ids);
+  });
+  return ids;
+}
+
+/**
+ * Returns a copy of `nodes` where every id already in `takenIds`, or repeated within
+ * `nodes` itself, is replaced by a fresh uuid. `takenIds` is not modified.
+ */
+export function regenerateCollidingIds(
+  nodes: TreeNodeType[],
+  takenIds: Set<string>
+): TreeNodeType[] {
+  const seen = new Set(takenIds);
+  const remap = (list: TreeNodeType[]): TreeNodeType[] =>
+    list.map((node) => {
+      const id = seen.has(node.id) ? uuidv4() : node.id;
+      seen.add(id);
+      return { ...node, id, children: remap(node.children) };
+    });
+  return remap(nodes);
+}
+
+/**
+ * Turns a template name into a safe file name, e.g. "Web ports" -> "web-ports.json".
+ */
+export function toFileName(name: string, extension: string): string {
+  const base = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${base || "port-template"}.${extension}`;
+}
+
+/**
+ * Triggers a browser download of `contents` as `fileName`.
+ */
+export function downloadFile(
+  fileName: string,
+  contents: string,
+  mimeType: string
+): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,219 @@
+import { parseTreeYaml, stringifyTreeYaml } from "./treeYaml";
+import type { TreeNodeType } from "../types/TreeNode";
+
+let uuidCounter = 0;
+jest.mock("uuid", () => ({
+  v4: jest.fn(() => `mock-uuid-${++uuidCounter}`),
+}));
+
+// Compact YAML does not carry ids; compare everything else
+const withoutIds = (nodes: TreeNodeType[]): unknown[] =>
+  nodes.map((node) => ({
+    label: node.label,
+    value: node.value,
+    readOnly: node.readOnly,
+    children: withoutIds(node.children),
+  }));
+
+describe("treeYaml", () => {
+  const savedAt = new Date("2025-01-02T03:04:05.000Z");
+  const sampleTree: TreeNodeType[] = [
+    {
+      id: "web",
+      label: "web",
+      value: "frontend",
+      readOnly: true,
+      children: [
+        { id: "https", label: "https", value: "443", children: [] },
+        {
+          id: "http",
+          label: "http",
+          value: "80",
+          readOnly: true,
+          children: [],
+        },
+        { id: "9000", label: "9000", value: "metrics", children: [] },
+      ],
+    },
+    {
+      id: "db",
+      label: "db",
+      value: "",
+      children: [
+        {
+          id: "replica",
+          label: "replica",
+          value: "",
+          children: [
+            { id: "port", label: "port", value: "5433", children: [] },
+          ],
+        },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    uuidCounter = 0;
+  });
+
+  describe("verbose form", () => {
+    it("should write the storage envelope as YAML", () => {
+      const yaml = stringifyTreeYaml(sampleTree, "verbose", savedAt);
+
+      expect(yaml).toContain("formatVersion: 1\n");
+      expect(yaml).toContain("savedAt: 2025-01-02T03:04:05.000Z\n");
+      expect(yaml).toContain("readOnly: true");
+    });
+
+    it("should round-trip the tree exactly, including ids", () => {
+      const yaml = stringifyTreeYaml(sampleTree, "verbose", savedAt);
+
+      expect(parseTreeYaml(yaml)).toEqual(sampleTree);
+    });
+
+    it("should accept a bare node sequence", () => {
+      const yaml = [
+        "- id: a",
+        "  label: http",
+        '  value: "80"',
+        "  children: []",
+      ].join("\n");
+
+      expect(parseTreeYaml(yaml)).toEqual([
+        { id: "a", label: "http", value: "80", children: [] },
+      ]);
+    });
+
+    it("should validate nodes", () => {
+      const yaml = "- id: a\n  label: http\n  value: 80\n  children: []\n";
+
+      expect(() => parseTreeYaml(yaml)).toThrow(
+        "Invalid tree data: tree[0].value must be a string"
+      );
+    });
+  });
+
+  describe("compact form", () => {
+    it("should write leaves as label: value and nest children", () => {
+      const yaml = stringifyTreeYaml(sampleTree, "compact");
+
+      expect(yaml).toBe(
+        [
+          "web:",
+          "  $value: frontend",
+          "  $readOnly: true",
+          '  https: "443"',
+          "  http:",
+          '    $value: "80"',
+          "    $readOnly: true",
+          '  "9000": metrics',
+          "db:",
+          "  replica:",
+          '    port: "5433"',
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("should round-trip labels, values, readOnly flags and child order", () => {
+      const parsed = parseTreeYaml(stringifyTreeYaml(sampleTree, "compact"));
+
+      expect(withoutIds(parsed)).toEqual(withoutIds(sampleTree));
+    });
+
+    it("should generate ids for imported nodes", () => {
+      const parsed = parseTreeYaml("web:\n  http: 80\n");
+
+      expect(parsed[0].id).toBe("mock-uuid-1");
+      expect(parsed[0].children[0].id).toBe("mock-uuid-2");
+    });
+
+    it("should keep plain scalars as written", () => {
+      const parsed = parseTreeYaml(
+        "port: 8080\nratio: 1.50\nenabled: true\nempty:\n"
+      );
+
+      expect(parsed.map((n) => n.value)).toEqual(["8080", "1.50", "true", ""]);
+    });
+
+    it("should keep numeric labels in document order", () => {
+      const parsed = parseTreeYaml("b: x\n2: y\n1: z\n");
+
+      expect(parsed.map((n) => n.label)).toEqual(["b", "2", "1"]);
+    });
+
+    it("should export an empty tree as an empty mapping", () => {
+      expect(parseTreeYaml(stringifyTreeYaml([], "compact"))).toEqual([]);
+    });
+
+    it("should refuse to export duplicate sibling labels", () => {
+      const tree: TreeNodeType[] = [
+        {
+          id: "root",
+          label: "root",
+          value: "",
+          children: [
+            { id: "a", label: "child", value: "80", children: [] },
+            { id: "b", label: "child", value: "443", children: [] },
+          ],
+        },
+      ];
+
+      expect(() => stringifyTreeYaml(tree, "compact")).toThrow(
+        'Cannot export compact YAML: duplicate label "child" under the root.root'
+      );
+    });
+
+    it("should refuse to export reserved labels", () => {
+      const tree: TreeNodeType[] = [
+        { id: "a", label: "$value", value: "", children: [] },
+      ];
+
+      expect(() => stringifyTreeYaml(tree, "compact")).toThrow(
+        'label "$value" under the root is reserved'
+      );
+    });
+
+    it("should reject sequences as values", () => {
+      expect(() => parseTreeYaml("web:\n  - 80\n")).toThrow(
+        "Invalid compact YAML: the root.web must be a value or a mapping"
+      );
+    });
+
+    it("should reject non-boolean read-only flags", () => {
+      expect(() => parseTreeYaml("web:\n  $readOnly: yes\n")).toThrow(
+        "Invalid compact YAML: the root.web.$readOnly must be a boolean"
+      );
+    });
+
+    it("should round-trip subtree locks", () => {
+      const tree: TreeNodeType[] = [
+        {
+          id: "web",
+          label: "web",
+          value: "",
+          readOnly: true,
+          lockSubtree: true,
+          children: [{ id: "http", label: "http", value: "80", children: [] }],
+        },
+      ];
+
+      const yaml = stringifyTreeYaml(tree, "compact");
+      expect(yaml).toContain("$lockSubtree: true");
+
+      const [web] = parseTreeYaml(yaml);
+      expect(web).toMatchObject({ readOnly: true, lockSubtree: true });
+      expect(web.children[0].lockSubtree).toBeUndefined();
+    });
+  });
+
+  it("should reject malformed YAML", () => {
+    expect(() => parseTreeYaml("web: [80")).toThrow();
+  });
+
+  it("should reject documents that are not a tree", () => {
+    expect(() => parseTreeYaml("just a string")).toThrow(
+      "Unrecognized YAML tree format"
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import type { TreeNodeType } from "../types/TreeNode";
+import { v4 as uuidv4 } from "uuid";
+import {
+  Document,
+  Pair,
+  Scalar,
+  YAMLMap,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+} from "yaml";
+import { CURRENT_FORMAT_VERSION, readStoredPayload } from "./treeStorage";
+import type { StoredTree } from "./treeStorage";
+
+/**
+ * YAML serialization for TreeNodeType[], in two forms:
+ *
+ * - verbose: the treeStorage envelope written as YAML. Lossless, ids included.
+ * - compact: a nested mapping keyed by label, as found in deployment configs:
+ *
+ *   ```yaml
+ *   web:
+ *     http: "80"
+ *     https: "443"
+ *   ```
+ *
+ *   Leaves are written as `label: value`. A node with children or a lock flag becomes a mapping
+ *   whose reserved `$value` / `$readOnly` / `$lockSubtree` keys hold its own value and flags. Mapping
+ *   order is child order. Ids and value types are not stored; ids are generated on import.
+ *
+ * The form of an imported document is detected from its shape: a sequence or an envelope
+ * (a mapping with `formatVersion`) is verbose, any other mapping is compact.
+ */
+
+export const YAML_MIME_TYPE = "application/yaml";
+
+export type YamlForm = "verbose" | "compact";
+
+const VALUE_KEY = "$value";
+const READ_ONLY_KEY = "$readOnly";
+const LOCK_SUBTREE_KEY = "$lockSubtree";
+const RESERVED_KEYS = [VALUE_KEY, READ_ONLY_KEY, LOCK_SUBTREE_KEY];
+
+const toCompactMap = (nodes: TreeNodeType[], path: string): YAMLMap => {
+  const map = new YAMLMap();
+  const labels = new Set<string>();
+  nodes.forEach((node) => {
+    if (RESERVED_KEYS.includes(node.label)) {
+      throw new Error(
+        `Cannot export compact YAML: label "${node.label}" under ${path} is reserved`
+      );
+    }
+    if (labels.has(node.label)) {
+      throw new Error(
+        `Cannot export compact YAML: duplicate label "${node.label}" under ${path}`
+      );
+    }
+    labels.add(node.label);
+    map.add(new Pair(new Scalar(node.label), toCompactValue(node, path)));
+  });
+  return map;
+};
+
+const toCompactValue = (
+  node: TreeNodeType,
+  parentPath: string
+): Scalar | YAMLMap => {
+  if (node.children.length === 0 && !node.readOnly && !node.lockSubtree) {
+    return new Scalar(node.value);
+  }
+  const map = toCompactMap(node.children, `${parentPath}.${node.label}`);
+  const meta: Pair[] = [];
+  if (node.value !== "") {
+    meta.push(new Pair(new Scalar(VALUE_KEY), new Scalar(node.value)));
+  }
+  if (node.readOnly) {
+    meta.push(new Pair(new Scalar(READ_ONLY_KEY), new Scalar(true)));
+  }
+  if (node.lockSubtree) {
+    meta.push(new Pair(new Scalar(LOCK_SUBTREE_KEY), new Scalar(true)));
+  }
+  map.items.unshift(...meta);
+  return map;
+};
+
+/**
+ * Serializes a tree as YAML. The compact form throws when two siblings share a label or a
+ * label collides with a reserved key, since a mapping cannot represent either.
+ */
+export function stringifyTreeYaml(
+  tree: TreeNodeType[],
+  form: YamlForm = "verbose",
+  savedAt: Date = new Date()
+): string {
+  if (form === "compact") {
+    return new Document(toCompactMap(tree, "the root")).toString();
+  }
+  const envelope: StoredTree = {
+    formatVersion: CURRENT_FORMAT_VERSION,
+    savedAt: savedAt.toISOString(),
+    tree,
+  };
+  return new Document(envelope).toString();
+}
+
+// Plain scalars such as `80` or `true` are kept exactly as written rather than as numbers
+const scalarText = (scalar: Scalar): string => {
+  if (scalar.value === null || scalar.value === undefined) return "";
+  if (typeof scalar.value === "string") return scalar.value;
+  return scalar.source ?? String(scalar.value);
+};
+
+const fromCompactMap = (map: YAMLMap, path: string): TreeNodeType[] =>
+  map.items.flatMap((pair) => {
+    if (!isScalar(pair.key)) {
+      throw new Error(
+        `Invalid compact YAML: keys under ${path} must be scalars`
+      );
+    }
+    const label = scalarText(pair.key);
+    if (RESERVED_KEYS.includes(label)) return [];
+    return [fromCompactEntry(label, pair.value, `${path}.${label}`)];
+  });
+
+const fromCompactEntry = (
+  label: string,
+  entry: unknown,
+  path: string
+): TreeNodeType => {
+  const node: TreeNodeType = { id: uuidv4(), label, value: "", children: [] };
+  if (entry === null || entry === undefined) return node;
+  if (isScalar(entry)) return { ...node, value: scalarText(entry) };
+  if (!isMap(entry)) {
+    throw new Error(
+      `Invalid compact YAML: ${path} must be a value or a mapping`
+    );
+  }
+  const value = entry.get(VALUE_KEY, true);
+  if (value !== undefined && !isScalar(value)) {
+    throw new Error(
+      `Invalid compact YAML: ${path}.${VALUE_KEY} must be a value`
+    );
+  }
+  const [readOnly, lockSubtree] = [READ_ONLY_KEY, LOCK_SUBTREE_KEY].map(
+    (key) => {
+      const flag = entry.get(key);
+      if (flag !== undefined && typeof flag !== "boolean") {
+        throw new Error(
+          `Invalid compact YAML: ${path}.${key} must be a boolean`
+        );
+      }
+      return flag === true;
+    }
+  );
+  return {
+    ...node,
+    value: value ? scalarText(value) : "",
+    ...(readOnly ? { readOnly: true } : {}),
+    ...(lockSubtree ? { lockSubtree: true } : {}),
+    children: fromCompactMap(entry, path),
+  };
+};
+
+/**
+ * Parses a YAML document in either form into a validated tree.
+ * Throws a YAMLParseError for malformed YAML and an Error for invalid trees.
+ */
+export function parseTreeYaml(text: string): TreeNodeType[] {
+  const doc = parseDocument(text);
+  if (doc.errors.length > 0) throw doc.errors[0];
+  const contents = doc.contents;
+  if (isSeq(contents) || (isMap(contents) && contents.has("formatVersion"))) {
+    return readStoredPayload(doc.toJS()).tree;
+  }
+  if (isMap(contents)) return fromCompactMap(contents, "the root");
+  throw new Error("Unrecognized YAML tree format");
+}
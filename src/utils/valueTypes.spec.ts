@@ -0,0 +1,144 @@
+import {
+  changeValueType,
+  coerceTreeValues,
+  coerceValue,
+  isValueType,
+  parseOptions,
+} from "./valueTypes";
+import type { TreeNodeType } from "../types/TreeNode";
+
+describe("valueTypes", () => {
+  describe("isValueType", () => {
+    it("should only accept known types", () => {
+      expect(isValueType("port")).toBe(true);
+      expect(isValueType("float")).toBe(false);
+      expect(isValueType(undefined)).toBe(false);
+    });
+  });
+
+  describe("coerceValue", () => {
+    it("should leave strings untouched", () => {
+      expect(coerceValue(" 80 ")).toBe(" 80 ");
+      expect(coerceValue(" 80 ", "string")).toBe(" 80 ");
+    });
+
+    it("should normalize integers", () => {
+      expect(coerceValue(" 0443 ", "integer")).toBe("443");
+      expect(coerceValue("80.9", "integer")).toBe("80");
+      expect(coerceValue("1e3", "integer")).toBe("1000");
+    });
+
+    it("should normalize ports, ranges and protocols", () => {
+      expect(coerceValue(" 0443 ", "port")).toBe("443");
+      expect(coerceValue("8000 - 8100 / TCP", "port")).toBe("8000-8100/tcp");
+      expect(coerceValue("80.9", "port")).toBe("80.9");
+    });
+
+    it("should keep values that are not numbers", () => {
+      expect(coerceValue("http", "port")).toBe("http");
+      expect(coerceValue("", "integer")).toBe("");
+    });
+
+    it("should read common boolean words", () => {
+      expect(coerceValue("Yes", "boolean")).toBe("true");
+      expect(coerceValue("on", "boolean")).toBe("true");
+      expect(coerceValue("0", "boolean")).toBe("false");
+      expect(coerceValue("FALSE", "boolean")).toBe("false");
+      expect(coerceValue("maybe", "boolean")).toBe("maybe");
+    });
+
+    it("should match enum options regardless of case", () => {
+      expect(coerceValue(" UDP", "enum", ["tcp", "udp"])).toBe("udp");
+      expect(coerceValue("sctp", "enum", ["tcp", "udp"])).toBe("sctp");
+    });
+
+    it("should trim hosts", () => {
+      expect(coerceValue(" db.internal ", "host")).toBe("db.internal");
+    });
+  });
+
+  describe("coerceTreeValues", () => {
+    it("should coerce every typed node", () => {
+      const tree: TreeNodeType[] = [
+        {
+          id: "web",
+          label: "web",
+          value: " text ",
+          children: [
+            {
+              id: "http",
+              label: "http",
+              value: "080",
+              valueType: "port",
+              children: [],
+            },
+          ],
+        },
+      ];
+
+      const coerced = coerceTreeValues(tree);
+
+      expect(coerced[0].value).toBe(" text ");
+      expect(coerced[0].children[0]).toEqual({
+        ...tree[0].children[0],
+        value: "80",
+      });
+      expect(tree[0].children[0].value).toBe("080");
+    });
+  });
+
+  describe("changeValueType", () => {
+    const node: TreeNodeType = {
+      id: "tls",
+      label: "tls",
+      value: " yes",
+      children: [],
+    };
+
+    it("should coerce the value to the new type", () => {
+      expect(changeValueType(node, "boolean")).toMatchObject({
+        valueType: "boolean",
+        value: "true",
+      });
+    });
+
+    it("should clear the type when switching back to string", () => {
+      const updated = changeValueType(
+        { ...node, valueType: "boolean" },
+        "string"
+      );
+
+      expect(updated).toHaveProperty("valueType", undefined);
+    });
+
+    it("should offer the current value as the first enum option", () => {
+      expect(changeValueType(node, "enum")).toMatchObject({
+        valueType: "enum",
+        options: [" yes"],
+      });
+      expect(changeValueType({ ...node, value: "" }, "enum").options).toEqual(
+        []
+      );
+    });
+
+    it("should only keep options for enums", () => {
+      const updated = changeValueType(
+        { ...node, valueType: "enum", options: ["a"] },
+        "host"
+      );
+
+      expect(updated).toMatchObject({ valueType: "host", value: "yes" });
+      expect(updated).toHaveProperty("options", undefined);
+    });
+  });
+
+  describe("parseOptions", () => {
+    it("should split, trim and drop empty options", () => {
+      expect(parseOptions(" tcp, udp,, ")).toEqual(["tcp", "udp"]);
+    });
+
+    it("should drop repeated options", () => {
+      expect(parseOptions("tcp, udp, tcp,tcp")).toEqual(["tcp", "udp"]);
+    });
+  });
+});
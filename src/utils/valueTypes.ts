@@ -0,0 +1,117 @@
+import type { TreeNodeType, ValueType } from "../types/TreeNode";
+import { normalizePort } from "./portValidation";
+
+/**
+ * Value types of tree nodes.
+ *
+ * Values are always stored as strings; a node's `valueType` only decides which editor is shown
+ * and the canonical text of its value:
+ *
+ * - string: any text (the default).
+ * - integer: a whole number, e.g. "-3".
+ * - boolean: "true" or "false".
+ * - enum: one of the node's `options`.
+ * - port: a port number or range, optionally with a protocol (see portValidation).
+ * - host: a hostname or IP address.
+ *
+ * Coercion brings a value to that canonical text where it can (" 0443 " becomes "443", "yes"
+ * becomes "true") and leaves values it cannot convert as they are.
+ */
+
+export const VALUE_TYPES: Record<ValueType, string> = {
+  string: "String",
+  integer: "Integer",
+  boolean: "Boolean",
+  enum: "Enum",
+  port: "Port",
+  host: "IP / host",
+};
+
+const TRUE_WORDS = ["true", "yes", "on", "1"];
+const FALSE_WORDS = ["false", "no", "off", "0"];
+
+export const isValueType = (value: unknown): value is ValueType =>
+  typeof value === "string" && Object.keys(VALUE_TYPES).includes(value);
+
+const coerceNumber = (text: string): string => {
+  const number = Number(text.trim());
+  if (text.trim() === "" || !Number.isFinite(number)) return text;
+  return String(Math.trunc(number));
+};
+
+/**
+ * Returns the canonical text of `value` for a node of type `valueType` (with the given enum
+ * `options`), or `value` unchanged when it cannot be converted.
+ */
+export function coerceValue(
+  value: string,
+  valueType: ValueType = "string",
+  options: string[] = []
+): string {
+  switch (valueType) {
+    case "integer":
+      return coerceNumber(value);
+    case "port":
+      return normalizePort(value);
+    case "boolean": {
+      const word = value.trim().toLowerCase();
+      if (TRUE_WORDS.includes(word)) return "true";
+      if (FALSE_WORDS.includes(word)) return "false";
+      return value;
+    }
+    case "enum": {
+      const word = value.trim().toLowerCase();
+      return options.find((option) => option.toLowerCase() === word) ?? value;
+    }
+    case "host":
+      return value.trim();
+    default:
+      return value;
+  }
+}
+
+/**
+ * Returns a copy of `nodes` with every typed value coerced (see coerceValue).
+ */
+export function coerceTreeValues(nodes: TreeNodeType[]): TreeNodeType[] {
+  return nodes.map((node) => ({
+    ...node,
+    value: coerceValue(node.value, node.valueType, node.options),
+    children: coerceTreeValues(node.children),
+  }));
+}
+
+/**
+ * Returns `node` switched to `valueType`, with its value coerced to the new type. Options are
+ * only kept for enums; a node turned into an enum without options gets its value as the only
+ * option.
+ */
+export function changeValueType(
+  node: TreeNodeType,
+  valueType: ValueType
+): TreeNodeType {
+  const options =
+    valueType !== "enum"
+      ? undefined
+      : node.options ?? (node.value === "" ? [] : [node.value]);
+  return {
+    ...node,
+    // Explicit undefineds, so that merging the update into the stored node clears them
+    valueType: valueType === "string" ? undefined : valueType,
+    options,
+    value: coerceValue(node.value, valueType, options),
+  };
+}
+
+/**
+ * Splits a comma-separated list of enum options, e.g. "tcp, udp", dropping empty and repeated
+ * ones.
+ */
+export const parseOptions = (text: string): string[] => [
+  ...new Set(
+    text
+      .split(",")
+      .map((option) => option.trim())
+      .filter((option) => option !== "")
+  ),
+];